@@ -1,7 +1,9 @@
 import { useState, useMemo, useEffect } from 'react';
 import { useAuth } from './contexts/AuthContext';
-import { TrendingUp, DollarSign, Users, Target, BarChart3, Plus, Edit, Trash2 } from 'lucide-react';
-import type { AdCampaign, Booking, LeadSource, FunnelData } from './types';
+import { TrendingUp, DollarSign, Users, Target, BarChart3, Plus, Edit, Trash2, Upload } from 'lucide-react';
+import { UnifiedDataService } from './services/unifiedDataService';
+import AdSpendImportModal from './components/AdSpendImportModal';
+import type { AdCampaign, Booking, LeadSource, FunnelData, AdSpendMonthChange } from './types';
 
 interface AdvertisingProps {
   bookings: Booking[];
@@ -18,6 +20,7 @@ export default function Advertising({ bookings, leadSources, funnelData, dataMan
   const [selectedLeadSourceId, setSelectedLeadSourceId] = useState<string>('');
   const [userManuallySelected, setUserManuallySelected] = useState<boolean>(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [showAdSpendImport, setShowAdSpendImport] = useState(false);
   const [editingCampaign, setEditingCampaign] = useState<{
     leadSource: LeadSource;
     month: number;
@@ -288,6 +291,25 @@ export default function Advertising({ bookings, leadSources, funnelData, dataMan
     handleCloseModal();
   };
 
+  // Save imported months (one row per lead source + month) and reload
+  const handleAdSpendImport = async (changes: AdSpendMonthChange[]) => {
+    if (!user) return;
+
+    const success = await UnifiedDataService.upsertAdCampaigns(user.id, changes.map(change => ({
+      leadSourceId: change.leadSourceId,
+      monthYear: `${change.year}-${String(change.month).padStart(2, '0')}`,
+      adSpendCents: change.spendCents,
+      leadsGenerated: change.leadsGenerated,
+    })), isViewOnly);
+    if (!success) {
+      throw new Error('Could not save the imported ad spend. Nothing was changed - please try again.');
+    }
+
+    if (dataManager?.loadAllData) {
+      await dataManager.loadAllData();
+    }
+  };
+
   // Get campaigns for the selected lead source and selected year
   const campaignsForSelectedLeadSource = useMemo(() => {
     if (!selectedLeadSourceId) return [];
@@ -381,6 +403,28 @@ export default function Advertising({ bookings, leadSources, funnelData, dataMan
           <h1 style={{ fontSize: '28px', fontWeight: '700', margin: 0, color: '#1f2937' }}>
             Advertising Performance
           </h1>
+          {leadSources.length > 0 && (
+            <button
+              onClick={() => !isViewOnly && setShowAdSpendImport(true)}
+              disabled={isViewOnly}
+              style={{
+                padding: '8px 16px',
+                backgroundColor: isViewOnly ? '#e5e7eb' : 'white',
+                color: isViewOnly ? '#9ca3af' : '#374151',
+                border: '1px solid #d1d5db',
+                borderRadius: '6px',
+                fontSize: '14px',
+                fontWeight: '500',
+                cursor: isViewOnly ? 'not-allowed' : 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px'
+              }}
+            >
+              <Upload size={16} />
+              Import Ad Spend
+            </button>
+          )}
         </div>
         <p style={{ color: '#6b7280', margin: 0, fontSize: '16px' }}>
           Track your paid advertising ROI and performance metrics
@@ -548,6 +592,18 @@ export default function Advertising({ bookings, leadSources, funnelData, dataMan
         </div>
       )}
 
+      {user && (
+        <AdSpendImportModal
+          isOpen={showAdSpendImport}
+          onClose={() => setShowAdSpendImport(false)}
+          onImport={handleAdSpendImport}
+          leadSources={leadSources}
+          adCampaigns={adCampaigns}
+          userId={user.id}
+          isViewOnly={isViewOnly}
+        />
+      )}
+
       {/* Edit Modal */}
       {isEditModalOpen && editingCampaign && selectedLeadSource && (
         <div style={{
@@ -550,6 +550,7 @@ function AppContent() {
             <FeatureGate feature="forecast">
               <Forecast 
                 funnelData={dataManager.funnelData} 
+                funnels={dataManager.funnels}
                 serviceTypes={dataManager.serviceTypes} 
                 setServiceTypes={() => {}} // Handled by data manager
                 bookings={dataManager.bookings} 
@@ -580,7 +581,7 @@ function AppContent() {
             </FeatureGate>
           )}
           {currentPage === 'admin' && <AdminDashboard />}
-          {currentPage === 'profile' && <UserProfile />}
+          {currentPage === 'profile' && <UserProfile dataManager={dataManager} />}
         </Suspense>
       </div>
 
@@ -1,11 +1,16 @@
 import React, { useMemo, useState, useEffect } from "react";
-import { Plus, Trash2, CalendarDays, DollarSign, Download, Edit, X, Edit3, Check, Upload } from "lucide-react";
-import type { ServiceType, LeadSource, Booking, Payment } from './types';
+import { Plus, Trash2, CalendarDays, DollarSign, Download, Edit, X, Edit3, Check, Upload, History } from "lucide-react";
+import type { ServiceType, LeadSource, Booking, Payment, FunnelData, FunnelDefinition, ImportResult, ImportBatch } from './types';
 import { UnifiedDataService } from './services/unifiedDataService';
+import { buildImportPreview, importTargetFunnelId, previousBookingValues, previousPaymentValues, toPaymentData } from './services/importPreview';
+import { buildBookingsCSV, buildPaymentsCSV } from './services/bookingExport';
+import { buildBookingsCalendar } from './services/calendarExport';
+import { downloadFile } from './utils/download';
 import { useAuth } from './contexts/AuthContext';
 import { toUSD, formatDate } from './utils/formatters';
 import CSVImportModal from './components/CSVImportModal';
-import type { ImportResult } from './services/honeybookImporter';
+import ImportHistoryModal from './components/ImportHistoryModal';
+import YearEndSummaryModal from './components/YearEndSummaryModal';
 
 // Empty data for new users - they should start fresh
 const defaultServiceTypes: ServiceType[] = [];
@@ -42,6 +47,9 @@ export default function BookingsAndBillingsPOC({ dataManager, navigationAction,
   const loading = dataManager?.loading || false;
   const [showAddBooking, setShowAddBooking] = useState(false);
   const [showCSVImport, setShowCSVImport] = useState(false);
+  const [showImportHistory, setShowImportHistory] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [showYearEndSummary, setShowYearEndSummary] = useState(false);
   
   // Helper to get disabled button styles
   const getDisabledButtonStyle = (baseStyle: any) => {
@@ -216,6 +224,24 @@ export default function BookingsAndBillingsPOC({ dataManager, navigationAction,
     }
   };
 
+  // Export the bookings currently shown in the table (filters and sort applied)
+  const handleExport = (includePayments: boolean) => {
+    const context = { payments, serviceTypes, leadSources };
+    const date = new Date().toISOString().split('T')[0];
+    downloadFile(`bookings-${date}.csv`, buildBookingsCSV(filteredAndSortedBookings, context), 'text/csv;charset=utf-8');
+    if (includePayments) {
+      downloadFile(`payments-${date}.csv`, buildPaymentsCSV(filteredAndSortedBookings, context), 'text/csv;charset=utf-8');
+    }
+    setShowExportMenu(false);
+  };
+
+  // Upcoming payment due dates and project dates for the same bookings, for a calendar app
+  const handleCalendarExport = () => {
+    const date = new Date().toISOString().split('T')[0];
+    downloadFile(`calendar-${date}.ics`, buildBookingsCalendar(filteredAndSortedBookings, { payments, serviceTypes }), 'text/calendar;charset=utf-8');
+    setShowExportMenu(false);
+  };
+
   // Handle CSV import
   const handleCSVImport = async (result: ImportResult) => {
     if (!user?.id) {
@@ -223,7 +249,31 @@ export default function BookingsAndBillingsPOC({ dataManager, navigationAction,
       return;
     }
 
+    // Everything this run creates or overwrites is recorded on an import batch for rollback
+    const batch: Omit<ImportBatch, 'id' | 'createdAt' | 'rolledBackAt'> = {
+      fileName: result.fileName || 'Unknown file',
+      importerId: result.importerId || 'unknown',
+      rowCount: result.rowCount ?? result.bookings.length,
+      bookingIds: [],
+      updatedBookings: [],
+      serviceTypeIds: [],
+      leadSourceIds: [],
+      paymentIds: [],
+      updatedPayments: [],
+      funnelMonths: [],
+    };
+    let recordedBatch: ImportBatch | null = null;
+
     try {
+      // Start the batch before writing anything, so a run that fails partway can still be rolled back
+      recordedBatch = await UnifiedDataService.createImportBatch(user.id, batch, isViewOnly);
+      if (!recordedBatch) {
+        throw new Error('Could not start a rollback record for this import, so nothing was imported. Please try again.');
+      }
+
+      // Imported service type/lead source IDs -> IDs of the records actually created
+      const createdIds = new Map<string, string>();
+
       // Import service types and lead sources (only for Booked Client report, not Leads report)
       // Check if this is a Leads report by checking if there are no bookings
       const isLeadsReport = result.bookings.length === 0 && result.funnelData.length > 0;
@@ -232,10 +282,12 @@ export default function BookingsAndBillingsPOC({ dataManager, navigationAction,
         // Only import service types and lead sources for Booked Client report
         for (const serviceType of result.serviceTypes) {
           if (!serviceTypes.find(st => st.id === serviceType.id)) {
-            if (dataManager) {
-              await dataManager.createServiceType(serviceType.name, serviceType.description);
-            } else {
-              await UnifiedDataService.createServiceType(user.id, serviceType.name, serviceType.description);
+            const created: ServiceType | null = dataManager
+              ? await dataManager.createServiceType(serviceType.name)
+              : await UnifiedDataService.createServiceType(user.id, serviceType.name, serviceType.tracksInFunnel);
+            if (created) {
+              createdIds.set(serviceType.id, created.id);
+              batch.serviceTypeIds.push(created.id);
             }
           }
         }
@@ -243,111 +295,121 @@ export default function BookingsAndBillingsPOC({ dataManager, navigationAction,
         // Import lead sources
         for (const leadSource of result.leadSources) {
           if (!leadSources.find(ls => ls.id === leadSource.id)) {
-            if (dataManager) {
-              await dataManager.createLeadSource(leadSource.name, leadSource.description);
-            } else {
-              await UnifiedDataService.createLeadSource(user.id, leadSource.name, leadSource.description);
+            const created: LeadSource | null = dataManager
+              ? await dataManager.createLeadSource(leadSource.name)
+              : await UnifiedDataService.createLeadSource(user.id, leadSource.name);
+            if (created) {
+              createdIds.set(leadSource.id, created.id);
+              batch.leadSourceIds.push(created.id);
             }
           }
         }
       }
 
-      // Import bookings with deduplication
-      // Check existing bookings to prevent duplicates
+      // Apply the same dry-run classification the import preview showed
       const existingBookings = dataManager?.bookings || (user?.id ? await UnifiedDataService.getBookings(user.id) : []);
-      
-      // Create a set of existing booking keys: projectName + dateBooked
-      const existingBookingKeys = new Set(
-        existingBookings
-          .filter(b => b.projectName && b.dateBooked)
-          .map(b => `${b.projectName.toLowerCase().trim()}-${b.dateBooked}`)
+      const existingFunnelData: FunnelData[] = dataManager?.funnelData || await UnifiedDataService.getAllFunnelData(user.id);
+      const existingPayments: Payment[] = dataManager?.payments || await UnifiedDataService.getPayments(user.id);
+      let funnels: FunnelDefinition[] = dataManager?.funnels || await UnifiedDataService.getFunnels(user.id);
+
+      // Funnel months go into one funnel, so the batch can roll back exactly the months it wrote
+      if (funnels.length === 0 && result.funnelData.length > 0) {
+        const created = dataManager
+          ? await dataManager.createFunnel('Default')
+          : await UnifiedDataService.createFunnel(user.id, 'Default', isViewOnly);
+        if (created) funnels = [created];
+      }
+      const targetFunnelId = importTargetFunnelId(result, serviceTypes, funnels);
+      const { rows, funnelMonths } = buildImportPreview(
+        result, existingBookings, existingFunnelData, existingPayments, funnels, targetFunnelId
       );
-      
+
       let skippedCount = 0;
       let importedCount = 0;
-      
-      for (const booking of result.bookings) {
-        // Create deduplication key: projectName + dateBooked
-        const bookingKey = booking.projectName && booking.dateBooked
-          ? `${booking.projectName.toLowerCase().trim()}-${booking.dateBooked}`
-          : null;
-        
-        // Skip if this booking already exists
-        if (bookingKey && existingBookingKeys.has(bookingKey)) {
+      let updatedCount = 0;
+
+      for (const row of rows) {
+        if (row.kind !== 'booking' || !row.booking) continue; // Payments and rows the importer skipped
+
+        if (row.status === 'duplicate') {
           skippedCount++;
-          continue;
-        }
-        
-        // Create the booking
-        if (dataManager) {
-          await dataManager.createBooking(booking);
-        } else {
-          await UnifiedDataService.createBooking(user.id, booking);
-        }
-        importedCount++;
-        
-        // Add to existing set to prevent duplicates within the same import
-        if (bookingKey) {
-          existingBookingKeys.add(bookingKey);
+          // Unchanged, but matched by name - attach the external ID for the next re-import
+          if (row.updates && row.existingBooking) {
+            const success = dataManager
+              ? await dataManager.updateBooking(row.existingBooking.id, row.updates)
+              : await UnifiedDataService.updateBooking(user.id, row.existingBooking.id, row.updates);
+            if (success) {
+              batch.updatedBookings.push({ id: row.existingBooking.id, previous: previousBookingValues(row.existingBooking, row.updates) });
+            }
+          }
+        } else if (row.status === 'updated' && row.existingBooking && row.updates) {
+          // Re-imported booking whose value or dates changed - update it in place
+          const success = dataManager
+            ? await dataManager.updateBooking(row.existingBooking.id, row.updates)
+            : await UnifiedDataService.updateBooking(user.id, row.existingBooking.id, row.updates);
+          if (success) {
+            batch.updatedBookings.push({ id: row.existingBooking.id, previous: previousBookingValues(row.existingBooking, row.updates) });
+            updatedCount++;
+          }
+        } else if (row.status === 'new') {
+          const bookingData = {
+            ...row.booking,
+            serviceTypeId: createdIds.get(row.booking.serviceTypeId) || row.booking.serviceTypeId,
+            leadSourceId: createdIds.get(row.booking.leadSourceId) || row.booking.leadSourceId,
+          };
+          const created: Booking | null = dataManager
+            ? await dataManager.createBooking(bookingData)
+            : await UnifiedDataService.createBooking(user.id, bookingData);
+          if (created) {
+            batch.bookingIds.push(created.id);
+            importedCount++;
+          }
         }
       }
       
+      // Payments from a payments report, attached to the booking matched by project name
+      let paymentsImported = 0;
+      let paymentsUpdated = 0;
+      for (const row of rows) {
+        if (row.kind !== 'payment' || !row.payment || !row.bookingId) continue;
+
+        if (row.status === 'new') {
+          const paymentData = toPaymentData(row.payment, row.bookingId);
+          const created: Payment | null = dataManager
+            ? await dataManager.createPayment(paymentData)
+            : await UnifiedDataService.createPayment(user.id, paymentData);
+          if (created) {
+            batch.paymentIds.push(created.id);
+            paymentsImported++;
+          }
+        } else if (row.existingPayment && row.paymentUpdates) {
+          const success = dataManager
+            ? await dataManager.updatePayment(row.existingPayment.id, row.paymentUpdates)
+            : await UnifiedDataService.updatePayment(user.id, row.existingPayment.id, row.paymentUpdates);
+          if (success) {
+            batch.updatedPayments.push({ id: row.existingPayment.id, previous: previousPaymentValues(row.existingPayment, row.paymentUpdates) });
+            if (row.status === 'updated') paymentsUpdated++;
+          }
+        }
+      }
+
       // Show warning if duplicates were skipped
       if (skippedCount > 0) {
         console.warn(`Skipped ${skippedCount} duplicate booking(s) that already exist`);
       }
 
-      // Import funnel data (merge with existing data to preserve inquiries from Leads report)
-      if (dataManager && dataManager.funnelData) {
-        // Merge with existing funnel data
-        for (const newFunnelData of result.funnelData) {
-          // Find existing funnel data for this year/month
-          const existing = dataManager.funnelData.find(
-            f => f.year === newFunnelData.year && f.month === newFunnelData.month
-          );
-          
-          if (existing) {
-            // Merge: preserve inquiries (from Leads report), update closes/bookings (from Booked Client report)
-            const merged: typeof newFunnelData = {
-              ...existing,
-              closes: newFunnelData.closes > 0 ? newFunnelData.closes : existing.closes,
-              bookings: newFunnelData.bookings > 0 ? newFunnelData.bookings : existing.bookings,
-              // Only update inquiries if the new data has inquiries (from Leads report)
-              inquiries: newFunnelData.inquiries > 0 ? newFunnelData.inquiries : existing.inquiries,
-            };
-            await dataManager.saveFunnelData(merged);
-          } else {
-            // No existing data, save as-is
-            await dataManager.saveFunnelData(newFunnelData);
-          }
-        }
-      } else if (user?.id) {
-        // Load existing funnel data to merge
-        const existingFunnelData = await UnifiedDataService.getAllFunnelData(user.id);
-        
-        for (const newFunnelData of result.funnelData) {
-          // Find existing funnel data for this year/month
-          const existing = existingFunnelData.find(
-            f => f.year === newFunnelData.year && f.month === newFunnelData.month
-          );
-          
-          if (existing) {
-            // Merge: preserve inquiries (from Leads report), update closes/bookings (from Booked Client report)
-            const merged: typeof newFunnelData = {
-              ...existing,
-              closes: newFunnelData.closes > 0 ? newFunnelData.closes : existing.closes,
-              bookings: newFunnelData.bookings > 0 ? newFunnelData.bookings : existing.bookings,
-              // Only update inquiries if the new data has inquiries (from Leads report)
-              inquiries: newFunnelData.inquiries > 0 ? newFunnelData.inquiries : existing.inquiries,
-            };
-            await UnifiedDataService.saveFunnelData(user.id, merged);
-          } else {
-            // No existing data, save as-is
-            await UnifiedDataService.saveFunnelData(user.id, newFunnelData);
-          }
+      // Import funnel data (merged with existing data to preserve inquiries from Leads report)
+      for (const change of funnelMonths) {
+        const success = dataManager
+          ? await dataManager.saveFunnelData(change.after)
+          : await UnifiedDataService.saveFunnelData(user.id, change.after);
+        if (success) {
+          batch.funnelMonths.push({ funnelId: change.funnelId, year: change.year, month: change.month, previous: change.before });
         }
       }
 
+      const batchSaved = await UnifiedDataService.updateImportBatch(user.id, recordedBatch.id, batch, isViewOnly);
+
       // Reload data if using data manager
       if (dataManager && dataManager.loadAllData) {
         await dataManager.loadAllData();
@@ -359,7 +421,7 @@ export default function BookingsAndBillingsPOC({ dataManager, navigationAction,
       const importedItems = [];
       if (result.bookings.length > 0) {
         // Special case: all data was duplicates
-        if (importedCount === 0 && skippedCount > 0) {
+        if (importedCount === 0 && updatedCount === 0 && skippedCount > 0) {
           importedItems.push('No duplicate data imported. All uploaded data already exists');
         } else if (importedCount > 0 && skippedCount > 0) {
           // Some new data, some duplicates
@@ -368,12 +430,22 @@ export default function BookingsAndBillingsPOC({ dataManager, navigationAction,
           // All new data, no duplicates
           importedItems.push(`${importedCount} booking(s) imported`);
         }
+        if (updatedCount > 0) importedItems.push(`${updatedCount} booking(s) updated`);
       }
-      if (result.funnelData.length > 0) importedItems.push(`${result.funnelData.length} months of funnel data`);
+      if (paymentsImported > 0) importedItems.push(`${paymentsImported} payment(s)`);
+      if (paymentsUpdated > 0) importedItems.push(`${paymentsUpdated} payment(s) updated`);
+      if (funnelMonths.length > 0) importedItems.push(`${funnelMonths.length} months of funnel data`);
       if (importedItems.length > 0) {
         alert(`Successfully imported ${importedItems.join(' and ')}!`);
       }
+      if (!batchSaved) {
+        alert('The import finished, but it could not be recorded in the import history, so it cannot be rolled back.');
+      }
     } catch (error) {
+      // Record what was written before the failure, so it can still be rolled back
+      if (recordedBatch) {
+        await UnifiedDataService.updateImportBatch(user.id, recordedBatch.id, batch, isViewOnly);
+      }
       console.error('Error importing CSV data:', error);
       const errorMessage = error instanceof Error ? error.message : 'Failed to import data. Please try again.';
       alert(`Import error: ${errorMessage}`);
@@ -693,6 +765,9 @@ export default function BookingsAndBillingsPOC({ dataManager, navigationAction,
     if (showServiceTypeDropdown && !(e.target as Element).closest('[data-dropdown]')) {
       setShowServiceTypeDropdown(false);
     }
+    if (showExportMenu && !(e.target as Element).closest('[data-export-menu]')) {
+      setShowExportMenu(false);
+    }
   };
 
   return (
@@ -768,25 +843,24 @@ export default function BookingsAndBillingsPOC({ dataManager, navigationAction,
           <Plus size={16} />
           Add New Booking
         </button>
-        {user?.crm === 'honeybook' && (
-          <button
-            onClick={() => !isViewOnly && setShowCSVImport(true)}
-            disabled={isViewOnly}
-            style={getDisabledButtonStyle({
-              backgroundColor: '#10b981',
-              color: 'white',
-              border: 'none',
-              borderRadius: '8px',
-              padding: '12px 18px',
-              fontSize: '14px',
-              fontWeight: '600',
-              cursor: 'pointer',
-              display: 'flex',
-              alignItems: 'center',
-              gap: '8px',
-              boxShadow: '0 2px 4px rgba(16, 185, 129, 0.3)',
-              transition: 'all 0.2s'
-            })}
+        <button
+          onClick={() => !isViewOnly && setShowCSVImport(true)}
+          disabled={isViewOnly}
+          style={getDisabledButtonStyle({
+            backgroundColor: '#10b981',
+            color: 'white',
+            border: 'none',
+            borderRadius: '8px',
+            padding: '12px 18px',
+            fontSize: '14px',
+            fontWeight: '600',
+            cursor: 'pointer',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            boxShadow: '0 2px 4px rgba(16, 185, 129, 0.3)',
+            transition: 'all 0.2s'
+          })}
           onMouseEnter={(e) => {
             if (!isViewOnly) {
               e.currentTarget.style.transform = 'translateY(-1px)';
@@ -798,12 +872,98 @@ export default function BookingsAndBillingsPOC({ dataManager, navigationAction,
               e.currentTarget.style.transform = 'translateY(0)';
               e.currentTarget.style.boxShadow = '0 2px 4px rgba(16, 185, 129, 0.3)';
             }
+          }}
+        >
+          <Upload size={16} />
+          Import from CSV
+        </button>
+        <button
+          onClick={() => setShowImportHistory(true)}
+          style={{
+            backgroundColor: 'white',
+            color: '#374151',
+            border: '2px solid #d1d5db',
+            borderRadius: '8px',
+            padding: '10px 16px',
+            fontSize: '14px',
+            fontWeight: '500',
+            cursor: 'pointer',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+          }}
+        >
+          <History size={16} />
+          Import History
+        </button>
+        <div style={{ position: 'relative' }} data-export-menu>
+          <button
+            onClick={() => setShowExportMenu(!showExportMenu)}
+            disabled={filteredAndSortedBookings.length === 0}
+            style={{
+              backgroundColor: 'white',
+              color: '#374151',
+              border: '2px solid #d1d5db',
+              borderRadius: '8px',
+              padding: '10px 16px',
+              fontSize: '14px',
+              fontWeight: '500',
+              cursor: filteredAndSortedBookings.length === 0 ? 'not-allowed' : 'pointer',
+              opacity: filteredAndSortedBookings.length === 0 ? 0.5 : 1,
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
             }}
           >
-            <Upload size={16} />
-            Import from CSV
+            <Download size={16} />
+            Export
           </button>
-        )}
+          {showExportMenu && (
+            <div style={{
+              position: 'absolute',
+              top: '100%',
+              left: 0,
+              marginTop: '4px',
+              backgroundColor: 'white',
+              border: '1px solid #d1d5db',
+              borderRadius: '8px',
+              boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+              zIndex: 10,
+              minWidth: '300px',
+              overflow: 'hidden'
+            }}>
+              <div style={{ padding: '8px 12px', fontSize: '12px', color: '#6b7280', borderBottom: '1px solid #f3f4f6' }}>
+                {filteredAndSortedBookings.length} booking{filteredAndSortedBookings.length === 1 ? '' : 's'} matching your filters
+              </div>
+              {[
+                { label: 'Bookings (CSV)', onClick: () => handleExport(false) },
+                { label: 'Bookings + payments (2 CSV files)', onClick: () => handleExport(true) },
+                { label: 'Upcoming payments & project dates (.ics)', onClick: handleCalendarExport },
+                { label: 'Year-end revenue summary (all bookings)', onClick: () => { setShowExportMenu(false); setShowYearEndSummary(true); } },
+              ].map(option => (
+                <button
+                  key={option.label}
+                  onClick={option.onClick}
+                  style={{
+                    display: 'block',
+                    width: '100%',
+                    padding: '10px 12px',
+                    border: 'none',
+                    backgroundColor: 'white',
+                    textAlign: 'left',
+                    fontSize: '14px',
+                    color: '#374151',
+                    cursor: 'pointer'
+                  }}
+                  onMouseEnter={(e) => { e.currentTarget.style.backgroundColor = '#f9fafb'; }}
+                  onMouseLeave={(e) => { e.currentTarget.style.backgroundColor = 'white'; }}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
         <button
           onClick={() => !isViewOnly && setShowServiceTypes(true)}
           disabled={isViewOnly}
@@ -1156,11 +1316,40 @@ export default function BookingsAndBillingsPOC({ dataManager, navigationAction,
           onImport={handleCSVImport}
           existingServiceTypes={serviceTypes}
           existingLeadSources={leadSources}
+          existingBookings={bookings}
+          existingFunnelData={dataManager?.funnelData || []}
+          existingPayments={payments}
+          funnels={dataManager?.funnels}
           userId={user.id}
           pageType="sales"
         />
       )}
 
+      {/* Import History Modal */}
+      {showImportHistory && user && (
+        <ImportHistoryModal
+          isOpen={showImportHistory}
+          onClose={() => setShowImportHistory(false)}
+          onRolledBack={async () => {
+            if (dataManager && dataManager.loadAllData) {
+              await dataManager.loadAllData();
+            }
+          }}
+          userId={user.id}
+          isViewOnly={isViewOnly}
+        />
+      )}
+
+      {/* Year-End Summary Modal */}
+      <YearEndSummaryModal
+        isOpen={showYearEndSummary}
+        onClose={() => setShowYearEndSummary(false)}
+        bookings={bookings}
+        payments={payments}
+        serviceTypes={serviceTypes}
+        companyName={user?.companyName}
+      />
+
       {/* Edit Booking Modal */}
       {editingBooking && (
         <EditBookingModal
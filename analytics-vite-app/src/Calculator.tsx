@@ -1,32 +1,34 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Target, TrendingUp, Users, Phone, CheckCircle, DollarSign } from 'lucide-react';
+import { Target, TrendingUp, CheckCircle, DollarSign } from 'lucide-react';
 import { useAuth } from './contexts/AuthContext';
 import { UnifiedDataService } from './services/unifiedDataService';
-
-interface CalculatorData {
-  bookingsGoal: number;
-  inquiryToCall: number;
-  callToBooking: number;
-  inqYtd: number;
-  callsYtd: number;
-  bookingsYtd: number;
-}
+import { ALL_FUNNELS, scopeToFunnel, type FunnelSelection } from './services/funnelScope';
+import { legacyGoalRate, orderedStages, stageCount, stageKey, stageGoalRates, requiredStageActivity } from './services/funnelStages';
+import FunnelSelector from './components/FunnelSelector';
+import StageIcon from './components/StageIcon';
+import type { CalculatorGoals, FunnelData, FunnelStage, Booking, ServiceType } from './types';
 
 interface CalculatorProps {
   dataManager?: any;
   compact?: boolean; // If true, show 4 columns without title
+  funnelSelection?: FunnelSelection; // Set by a page with its own funnel selector (goals stay account-wide)
 }
 
-const Calculator: React.FC<CalculatorProps> = ({ dataManager, compact = false }) => {
+const Calculator: React.FC<CalculatorProps> = ({ dataManager, compact = false, funnelSelection }) => {
   const { user } = useAuth();
     const currentYear = new Date().getFullYear();
-    
+  const [ownFunnelSelection, setOwnFunnelSelection] = useState<FunnelSelection>(ALL_FUNNELS);
+  const selectedFunnel = funnelSelection ?? ownFunnelSelection;
+
+  // Required activity, progress and pace follow the account's funnel stages (closes last)
+  const stages: FunnelStage[] = useMemo(() => orderedStages(dataManager?.funnelStages || []), [dataManager?.funnelStages]);
+
   // Show loading state if dataManager is not ready (check early to prevent errors)
   if (!dataManager || dataManager.loading) {
     return (
-      <div style={{ 
-        padding: '24px', 
-        maxWidth: '1200px', 
+      <div style={{
+        padding: '24px',
+        maxWidth: '1200px',
         margin: '0 auto',
         display: 'flex',
         justifyContent: 'center',
@@ -40,27 +42,28 @@ const Calculator: React.FC<CalculatorProps> = ({ dataManager, compact = false })
     );
   }
 
-  // Calculate YTD totals from actual funnel data
+  // YTD count of each stage from actual funnel data
   const ytdTotals = useMemo(() => {
     try {
-      const funnelData = dataManager?.funnelData || [];
-      const bookings = dataManager?.bookings || [];
-      const serviceTypes = dataManager?.serviceTypes || [];
-      
+      // YTD actuals for the selected funnel
+      const { funnelData, bookings, serviceTypes } = scopeToFunnel(selectedFunnel, {
+        funnels: dataManager?.funnels || [],
+        funnelData: dataManager?.funnelData || [],
+        bookings: dataManager?.bookings || [],
+        payments: dataManager?.payments || [],
+        serviceTypes: dataManager?.serviceTypes || [],
+      });
+
       // Get trackable service type IDs (for closes calculation)
       const trackableServiceIds = new Set(
-        serviceTypes.filter((st: any) => st?.tracksInFunnel).map((st: any) => st?.id).filter(Boolean)
+        serviceTypes.filter((st: ServiceType) => st?.tracksInFunnel).map((st: ServiceType) => st?.id).filter(Boolean)
       );
-      
+
       // Get all data for the current year
-      const yearData = (funnelData || []).filter((item: any) => item?.year === currentYear);
-    
-      // Calculate inquiries and calls from funnel data
-      const totalInquiries = yearData.reduce((acc: number, month: any) => acc + (month?.inquiries || 0), 0);
-      const totalCallsTaken = yearData.reduce((acc: number, month: any) => acc + (month?.callsTaken || 0), 0);
-      
+      const yearData = (funnelData || []).filter((item: FunnelData) => item?.year === currentYear);
+
       // Calculate closes from bookings (only trackable service types)
-      const totalCloses = (bookings || []).filter((b: any) => {
+      const totalCloses = (bookings || []).filter((b: Booking) => {
         if (!b?.dateBooked) return false;
         try {
           const [y] = b.dateBooked.split('-');
@@ -69,29 +72,21 @@ const Calculator: React.FC<CalculatorProps> = ({ dataManager, compact = false })
           return false;
         }
       }).length;
-      
-      return {
-        inquiries: totalInquiries,
-        callsTaken: totalCallsTaken,
-        bookings: totalCloses, // Use closes count as bookings
-      };
+
+      // Other stages are summed from the funnel months
+      return stages.map(stage => stage.source === 'closes'
+        ? totalCloses
+        : yearData.reduce((acc: number, month: FunnelData) => acc + stageCount(month, stage), 0));
     } catch (error) {
       console.error('Error calculating YTD totals:', error);
-      return {
-        inquiries: 0,
-        callsTaken: 0,
-        bookings: 0,
-      };
+      return stages.map(() => 0);
     }
-  }, [dataManager?.funnelData, dataManager?.bookings, dataManager?.serviceTypes, currentYear]);
+  }, [dataManager?.funnels, dataManager?.funnelData, dataManager?.bookings, dataManager?.payments, dataManager?.serviceTypes, selectedFunnel, currentYear, stages]);
 
-  const [data, setData] = useState<CalculatorData>({
+  const [data, setData] = useState<CalculatorGoals>({
     bookingsGoal: 0,
     inquiryToCall: 0,
     callToBooking: 0,
-    inqYtd: 0,
-    callsYtd: 0,
-    bookingsYtd: 0,
   });
 
   // Load goals from database on mount
@@ -101,36 +96,13 @@ const Calculator: React.FC<CalculatorProps> = ({ dataManager, compact = false })
     const loadGoals = async () => {
       const goals = await UnifiedDataService.getCalculatorGoals(user.id);
       if (goals) {
-        setData(prev => ({
-          ...prev,
-          bookingsGoal: goals.bookingsGoal,
-          inquiryToCall: goals.inquiryToCall,
-          callToBooking: goals.callToBooking,
-        }));
+        setData(goals);
       }
     };
 
     loadGoals();
   }, [user?.id]);
 
-  // Update YTD data when funnel data changes
-  useEffect(() => {
-    setData(prev => ({
-      ...prev,
-    inqYtd: ytdTotals.inquiries,
-    callsYtd: ytdTotals.callsTaken,
-    bookingsYtd: ytdTotals.bookings,
-    }));
-  }, [ytdTotals]);
-
-  const [calculations, setCalculations] = useState({
-    requiredCalls: 0,
-    requiredInquiries: 0,
-    paceInq: 0,
-    paceCalls: 0,
-    paceBookings: 0,
-  });
-
   // Calculate months elapsed in current year
   const getMonthsElapsed = () => {
     const d = new Date();
@@ -146,74 +118,55 @@ const Calculator: React.FC<CalculatorProps> = ({ dataManager, compact = false })
     return isNaN(value) ? "—" : Math.round(value).toLocaleString();
   };
 
-  // Recalculate all metrics
-  const recalculate = () => {
-    const bookingsGoal = data.bookingsGoal;
-    const pctInquiryToCall = data.inquiryToCall / 100;
-    const pctCallToBooking = data.callToBooking / 100;
-
-    // Requirements from goals
-    const requiredCalls = pctCallToBooking > 0 ? bookingsGoal / pctCallToBooking : 0;
-    const requiredInquiries = (pctInquiryToCall > 0 && requiredCalls > 0)
-      ? requiredCalls / pctInquiryToCall : 0;
-
-    // Progress / Pace
-    const months = Math.min(12, Math.max(0.01, getMonthsElapsed()));
-    const paceInq = (data.inqYtd / months) * 12;
-    const paceCalls = (data.callsYtd / months) * 12;
-    const paceBookings = (data.bookingsYtd / months) * 12;
+  // Requirements from goals: work back from the bookings goal through each stage's rate
+  const rates = stageGoalRates(stages, data);
+  const required = requiredStageActivity(rates, data.bookingsGoal);
 
-    setCalculations({
-      requiredCalls,
-      requiredInquiries,
-      paceInq,
-      paceCalls,
-      paceBookings,
-    });
-  };
-
-  // Recalculate when data changes
-  useEffect(() => {
-    recalculate();
-  }, [data]);
+  // Progress / Pace
+  const months = Math.min(12, Math.max(0.01, getMonthsElapsed()));
+  const pace = ytdTotals.map(total => (total / months) * 12);
 
   // Debounced save function for goals
   const saveGoalsTimeoutRef = React.useRef<NodeJS.Timeout | null>(null);
   const dataRef = React.useRef(data);
-  
+
   // Keep ref in sync with state
   useEffect(() => {
     dataRef.current = data;
   }, [data]);
 
-  const updateData = (field: keyof CalculatorData, value: number) => {
+  const updateGoals = (updates: Partial<CalculatorGoals>) => {
     setData(prev => {
-      const updated = { ...prev, [field]: value };
+      const updated = { ...prev, ...updates };
       dataRef.current = updated;
-      
+
       // Save goals to database (debounced)
-      if (field === 'bookingsGoal' || field === 'inquiryToCall' || field === 'callToBooking') {
-        if (saveGoalsTimeoutRef.current) {
-          clearTimeout(saveGoalsTimeoutRef.current);
-        }
-        
-        saveGoalsTimeoutRef.current = setTimeout(async () => {
-          if (user?.id) {
-            // Use ref to get latest value
-            const currentData = dataRef.current;
-            await UnifiedDataService.saveCalculatorGoals(user.id, {
-              bookingsGoal: currentData.bookingsGoal,
-              inquiryToCall: currentData.inquiryToCall,
-              callToBooking: currentData.callToBooking,
-            });
-          }
-        }, 500);
+      if (saveGoalsTimeoutRef.current) {
+        clearTimeout(saveGoalsTimeoutRef.current);
       }
-      
+
+      saveGoalsTimeoutRef.current = setTimeout(async () => {
+        if (user?.id) {
+          // Use ref to get latest value
+          await UnifiedDataService.saveCalculatorGoals(user.id, dataRef.current);
+        }
+      }, 500);
+
       return updated;
     });
   };
 
+  // Rate from stages[index] to the next stage; the original inquiry-to-call and call-to-booking
+  // goals are kept in step only for the steps they measure
+  const updateRate = (index: number, value: number) => {
+    const stage = stages[index];
+    const legacy = legacyGoalRate(stage, stages[index + 1]);
+    updateGoals({
+      stageRates: { ...data.stageRates, [stageKey(stage)]: value },
+      ...(legacy ? { [legacy]: value } : {}),
+    });
+  };
+
   // Cleanup timeout on unmount
   useEffect(() => {
     return () => {
@@ -224,7 +177,7 @@ const Calculator: React.FC<CalculatorProps> = ({ dataManager, compact = false })
   }, []);
 
   // Determine if pace is on track
-  const isOnTrack = calculations.paceBookings >= data.bookingsGoal;
+  const isOnTrack = pace[pace.length - 1] >= data.bookingsGoal;
 
   // Render a section card (used for both 2-column and 4-column layouts)
   const renderSection = (title: string, icon: React.ReactNode, children: React.ReactNode) => (
@@ -235,21 +188,20 @@ const Calculator: React.FC<CalculatorProps> = ({ dataManager, compact = false })
       border: '1px solid #e5e7eb',
       boxShadow: '0 1px 3px 0 rgba(0, 0, 0, 0.1)',
       minWidth: 0,
-      overflow: 'hidden',
-      height: '100%'
+      overflow: 'hidden'
     }}>
-      <div style={{ 
-        display: 'flex', 
-        alignItems: 'center', 
-        gap: '8px', 
-        marginBottom: '20px' 
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        marginBottom: '20px'
       }}>
         {icon}
-        <h2 style={{ 
-          fontSize: '18px', 
-          fontWeight: '600', 
-          margin: 0, 
-          color: '#1f2937' 
+        <h2 style={{
+          fontSize: '18px',
+          fontWeight: '600',
+          margin: 0,
+          color: '#1f2937'
         }}>
           {title}
         </h2>
@@ -258,294 +210,146 @@ const Calculator: React.FC<CalculatorProps> = ({ dataManager, compact = false })
     </div>
   );
 
+  const labelStyle = {
+    display: 'block',
+    fontSize: '14px',
+    fontWeight: '500',
+    color: '#374151',
+    marginBottom: '6px'
+  };
+
+  const inputStyle = {
+    width: '100%',
+    padding: '10px 12px',
+    borderRadius: '8px',
+    border: '1px solid #d1d5db',
+    fontSize: '16px',
+    backgroundColor: 'white',
+    boxSizing: 'border-box' as const
+  };
+
+  const readOnlyInputStyle = {
+    ...inputStyle,
+    backgroundColor: '#f9fafb',
+    color: '#6b7280',
+    cursor: 'not-allowed'
+  };
+
+  const statStyle = {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '16px',
+    backgroundColor: '#f9fafb',
+    borderRadius: '8px',
+    border: '1px solid #e5e7eb'
+  };
+
   // Annual Goals Section Content
   const annualGoalsContent = (
     <>
       <div style={{ marginBottom: '20px' }}>
-        <label style={{ 
-          display: 'block', 
-          fontSize: '14px', 
-          fontWeight: '500', 
-          color: '#374151', 
-          marginBottom: '6px' 
-        }}>
+        <label style={labelStyle}>
           Bookings Goal
         </label>
         <input
           type="number"
           value={data.bookingsGoal}
-          onChange={(e) => updateData('bookingsGoal', parseInt(e.target.value) || 0)}
-          style={{
-            width: '100%',
-            padding: '10px 12px',
-            borderRadius: '8px',
-            border: '1px solid #d1d5db',
-            fontSize: '16px',
-            backgroundColor: 'white',
-            boxSizing: 'border-box'
-          }}
-        />
-      </div>
-
-      <div style={{ marginBottom: '20px' }}>
-        <label style={{ 
-          display: 'block', 
-          fontSize: '14px', 
-          fontWeight: '500', 
-          color: '#374151', 
-          marginBottom: '6px' 
-        }}>
-          Inquiry to Call Rate (%)
-        </label>
-        <input
-          type="number"
-          value={data.inquiryToCall}
-          onChange={(e) => updateData('inquiryToCall', parseInt(e.target.value) || 0)}
-          style={{
-            width: '100%',
-            padding: '10px 12px',
-            borderRadius: '8px',
-            border: '1px solid #d1d5db',
-            fontSize: '16px',
-            backgroundColor: 'white',
-            boxSizing: 'border-box'
-          }}
+          onChange={(e) => updateGoals({ bookingsGoal: parseInt(e.target.value) || 0 })}
+          style={inputStyle}
         />
       </div>
 
-      <div>
-        <label style={{ 
-          display: 'block', 
-          fontSize: '14px', 
-          fontWeight: '500', 
-          color: '#374151', 
-          marginBottom: '6px' 
-        }}>
-          Call to Booking Rate (%)
-        </label>
-        <input
-          type="number"
-          value={data.callToBooking}
-          onChange={(e) => updateData('callToBooking', parseInt(e.target.value) || 0)}
-          style={{
-            width: '100%',
-            padding: '10px 12px',
-            borderRadius: '8px',
-            border: '1px solid #d1d5db',
-            fontSize: '16px',
-            backgroundColor: 'white',
-            boxSizing: 'border-box'
-          }}
-        />
-      </div>
+      {rates.map((rate, index) => (
+        <div key={stages[index].id} style={{ marginBottom: index < rates.length - 1 ? '20px' : 0 }}>
+          <label style={labelStyle}>
+            {stages[index].name} to {stages[index + 1].name} Rate (%)
+          </label>
+          <input
+            type="number"
+            value={rate}
+            onChange={(e) => updateRate(index, parseInt(e.target.value) || 0)}
+            style={inputStyle}
+          />
+        </div>
+      ))}
     </>
   );
 
-  // Required Activity Section Content
+  // Required Activity Section Content (every stage before closes)
   const requiredActivityContent = (
     <>
-      <div style={{ marginBottom: '16px' }}>
-        <div style={{
-          display: 'flex',
-          justifyContent: 'space-between',
-          alignItems: 'center',
-          padding: '16px',
-          backgroundColor: '#f9fafb',
-          borderRadius: '8px',
-          border: '1px solid #e5e7eb'
-        }}>
-          <div>
-            <div style={{ fontSize: '14px', color: '#6b7280', marginBottom: '4px' }}>
-              Required Inquiries
-            </div>
-            <div style={{ fontSize: '20px', fontWeight: '700', color: '#1f2937' }}>
-              {formatNumber(calculations.requiredInquiries)}
-            </div>
-          </div>
-          <Users size={24} color="#6b7280" />
-        </div>
-      </div>
-
-      <div>
-        <div style={{
-          display: 'flex',
-          justifyContent: 'space-between',
-          alignItems: 'center',
-          padding: '16px',
-          backgroundColor: '#f9fafb',
-          borderRadius: '8px',
-          border: '1px solid #e5e7eb'
-        }}>
-          <div>
-            <div style={{ fontSize: '14px', color: '#6b7280', marginBottom: '4px' }}>
-              Required Calls
-            </div>
-            <div style={{ fontSize: '20px', fontWeight: '700', color: '#1f2937' }}>
-              {formatNumber(calculations.requiredCalls)}
+      {stages.slice(0, -1).map((stage, index) => (
+        <div key={stage.id} style={{ marginBottom: index < stages.length - 2 ? '16px' : 0 }}>
+          <div style={statStyle}>
+            <div>
+              <div style={{ fontSize: '14px', color: '#6b7280', marginBottom: '4px' }}>
+                Required {stage.name}
+              </div>
+              <div style={{ fontSize: '20px', fontWeight: '700', color: '#1f2937' }}>
+                {formatNumber(required[index])}
+              </div>
             </div>
+            <StageIcon source={stage.source} size={24} color="#6b7280" />
           </div>
-          <Phone size={24} color="#6b7280" />
         </div>
-      </div>
+      ))}
     </>
   );
 
   // Progress YTD Section Content
   const progressYtdContent = (
     <>
-      <div style={{ marginBottom: '20px' }}>
-        <label style={{ 
-          display: 'block', 
-          fontSize: '14px', 
-          fontWeight: '500', 
-          color: '#374151', 
-          marginBottom: '6px' 
-        }}>
-          Inquiries YTD
-        </label>
-        <input
-          type="number"
-          value={data.inqYtd}
-          readOnly
-          style={{
-            width: '100%',
-            padding: '10px 12px',
-            borderRadius: '8px',
-            border: '1px solid #d1d5db',
-            fontSize: '16px',
-            backgroundColor: '#f9fafb',
-            color: '#6b7280',
-            boxSizing: 'border-box',
-            cursor: 'not-allowed'
-          }}
-        />
-      </div>
-
-      <div style={{ marginBottom: '20px' }}>
-        <label style={{ 
-          display: 'block', 
-          fontSize: '14px', 
-          fontWeight: '500', 
-          color: '#374151', 
-          marginBottom: '6px' 
-        }}>
-          Calls YTD
-        </label>
-        <input
-          type="number"
-          value={data.callsYtd}
-          readOnly
-          style={{
-            width: '100%',
-            padding: '10px 12px',
-            borderRadius: '8px',
-            border: '1px solid #d1d5db',
-            fontSize: '16px',
-            backgroundColor: '#f9fafb',
-            color: '#6b7280',
-            boxSizing: 'border-box',
-            cursor: 'not-allowed'
-          }}
-        />
-      </div>
-
-      <div>
-        <label style={{ 
-          display: 'block', 
-          fontSize: '14px', 
-          fontWeight: '500', 
-          color: '#374151', 
-          marginBottom: '6px' 
-        }}>
-          Bookings YTD
-        </label>
-        <input
-          type="number"
-          value={data.bookingsYtd}
-          readOnly
-          style={{
-            width: '100%',
-            padding: '10px 12px',
-            borderRadius: '8px',
-            border: '1px solid #d1d5db',
-            fontSize: '16px',
-            backgroundColor: '#f9fafb',
-            color: '#6b7280',
-            boxSizing: 'border-box',
-            cursor: 'not-allowed'
-          }}
-        />
-      </div>
+      {stages.map((stage, index) => (
+        <div key={stage.id} style={{ marginBottom: index < stages.length - 1 ? '20px' : 0 }}>
+          <label style={labelStyle}>
+            {stage.name} YTD
+          </label>
+          <input
+            type="number"
+            value={ytdTotals[index]}
+            readOnly
+            style={readOnlyInputStyle}
+          />
+        </div>
+      ))}
     </>
   );
 
-  // Annualized Pace Section Content
+  // Annualized Pace Section Content (the last stage is compared with the bookings goal)
   const annualizedPaceContent = (
     <>
-      <div style={{ marginBottom: '16px' }}>
-        <div style={{
-          display: 'flex',
-          justifyContent: 'space-between',
-          alignItems: 'center',
-          padding: '16px',
-          backgroundColor: '#f9fafb',
-          borderRadius: '8px',
-          border: '1px solid #e5e7eb'
-        }}>
-          <div>
-            <div style={{ fontSize: '14px', color: '#6b7280', marginBottom: '4px' }}>
-              Inquiries Pace
-            </div>
-            <div style={{ fontSize: '20px', fontWeight: '700', color: '#1f2937' }}>
-              {formatNumber(calculations.paceInq)}
-            </div>
-          </div>
-          <Users size={24} color="#6b7280" />
-        </div>
-      </div>
-
-      <div style={{ marginBottom: '16px' }}>
-        <div style={{
-          display: 'flex',
-          justifyContent: 'space-between',
-          alignItems: 'center',
-          padding: '16px',
-          backgroundColor: '#f9fafb',
-          borderRadius: '8px',
-          border: '1px solid #e5e7eb'
-        }}>
-          <div>
-            <div style={{ fontSize: '14px', color: '#6b7280', marginBottom: '4px' }}>
-              Calls Pace
-            </div>
-            <div style={{ fontSize: '20px', fontWeight: '700', color: '#1f2937' }}>
-              {formatNumber(calculations.paceCalls)}
+      {stages.slice(0, -1).map((stage, index) => (
+        <div key={stage.id} style={{ marginBottom: '16px' }}>
+          <div style={statStyle}>
+            <div>
+              <div style={{ fontSize: '14px', color: '#6b7280', marginBottom: '4px' }}>
+                {stage.name} Pace
+              </div>
+              <div style={{ fontSize: '20px', fontWeight: '700', color: '#1f2937' }}>
+                {formatNumber(pace[index])}
+              </div>
             </div>
+            <StageIcon source={stage.source} size={24} color="#6b7280" />
           </div>
-          <Phone size={24} color="#6b7280" />
         </div>
-      </div>
+      ))}
 
       <div>
         <div style={{
-          display: 'flex',
-          justifyContent: 'space-between',
-          alignItems: 'center',
-          padding: '16px',
-          borderRadius: '8px',
-          border: '1px solid #e5e7eb',
+          ...statStyle,
           backgroundColor: isOnTrack ? '#d1fae5' : '#fef2f2'
         }}>
           <div>
             <div style={{ fontSize: '14px', color: '#6b7280', marginBottom: '4px' }}>
-              Bookings Pace
+              {stages[stages.length - 1].name} Pace
             </div>
-            <div style={{ 
-              fontSize: '20px', 
-              fontWeight: '700', 
+            <div style={{
+              fontSize: '20px',
+              fontWeight: '700',
               color: isOnTrack ? '#065f46' : '#991b1b'
             }}>
-              {formatNumber(calculations.paceBookings)}
+              {formatNumber(pace[pace.length - 1])}
             </div>
             {isOnTrack ? (
               <div style={{ fontSize: '12px', color: '#065f46', marginTop: '4px' }}>
@@ -566,8 +370,8 @@ const Calculator: React.FC<CalculatorProps> = ({ dataManager, compact = false })
   // If compact mode, render 4 columns
   if (compact) {
     return (
-      <div style={{ 
-        display: 'grid', 
+      <div style={{
+        display: 'grid',
         gap: '16px',
         gridTemplateColumns: 'repeat(4, 1fr)',
         maxWidth: '100%',
@@ -585,443 +389,57 @@ const Calculator: React.FC<CalculatorProps> = ({ dataManager, compact = false })
   return (
     <div style={{ padding: '24px', maxWidth: '1200px', margin: '0 auto' }}>
       <div style={{ marginBottom: '32px' }}>
-        <h1 style={{ 
-          fontSize: '28px', 
-          fontWeight: '700', 
-          margin: '0 0 8px 0', 
-          color: '#1f2937' 
+        <h1 style={{
+          fontSize: '28px',
+          fontWeight: '700',
+          margin: '0 0 8px 0',
+          color: '#1f2937'
         }}>
           Sales Funnel Calculator
         </h1>
-        <p style={{ 
-          color: '#6b7280', 
-          margin: 0, 
-          fontSize: '16px' 
+        <p style={{
+          color: '#6b7280',
+          margin: 0,
+          fontSize: '16px'
         }}>
           Set your goals and track your progress to optimize your sales funnel
         </p>
+        {funnelSelection === undefined && (dataManager?.funnels || []).length > 1 && (
+          <div style={{ marginTop: '16px' }}>
+            <FunnelSelector funnels={dataManager.funnels} value={ownFunnelSelection} onChange={setOwnFunnelSelection} />
+          </div>
+        )}
       </div>
 
-      <div style={{ 
-        display: 'grid', 
+      <div style={{
+        display: 'grid',
         gap: '24px',
         gridTemplateColumns: '1fr 1fr',
         maxWidth: '100%',
         overflow: 'hidden'
       }}>
         {/* Left Column: Goals & Requirements */}
-        <div style={{ 
-          display: 'flex', 
-          flexDirection: 'column', 
+        <div style={{
+          display: 'flex',
+          flexDirection: 'column',
           gap: '24px',
           minWidth: 0,
           overflow: 'hidden'
         }}>
-          {/* Goals Section */}
-          <div style={{
-            backgroundColor: 'white',
-            borderRadius: '12px',
-            padding: '20px',
-            border: '1px solid #e5e7eb',
-            boxShadow: '0 1px 3px 0 rgba(0, 0, 0, 0.1)',
-            minWidth: 0,
-            overflow: 'hidden'
-          }}>
-            <div style={{ 
-              display: 'flex', 
-              alignItems: 'center', 
-              gap: '8px', 
-              marginBottom: '20px' 
-            }}>
-              <Target size={20} color="#3b82f6" />
-              <h2 style={{ 
-                fontSize: '18px', 
-                fontWeight: '600', 
-                margin: 0, 
-                color: '#1f2937' 
-              }}>
-                Annual Goals
-              </h2>
-            </div>
-
-            <div style={{ marginBottom: '20px' }}>
-              <label style={{ 
-                display: 'block', 
-                fontSize: '14px', 
-                fontWeight: '500', 
-                color: '#374151', 
-                marginBottom: '6px' 
-              }}>
-                Bookings Goal
-              </label>
-              <input
-                type="number"
-                value={data.bookingsGoal}
-                onChange={(e) => updateData('bookingsGoal', parseInt(e.target.value) || 0)}
-                style={{
-                  width: '100%',
-                  padding: '10px 12px',
-                  borderRadius: '8px',
-                  border: '1px solid #d1d5db',
-                  fontSize: '16px',
-                  backgroundColor: 'white',
-                  boxSizing: 'border-box'
-                }}
-              />
-            </div>
-
-            <div style={{ marginBottom: '20px' }}>
-              <label style={{ 
-                display: 'block', 
-                fontSize: '14px', 
-                fontWeight: '500', 
-                color: '#374151', 
-                marginBottom: '6px' 
-              }}>
-                Inquiry to Call Rate (%)
-              </label>
-              <input
-                type="number"
-                value={data.inquiryToCall}
-                onChange={(e) => updateData('inquiryToCall', parseInt(e.target.value) || 0)}
-                style={{
-                  width: '100%',
-                  padding: '10px 12px',
-                  borderRadius: '8px',
-                  border: '1px solid #d1d5db',
-                  fontSize: '16px',
-                  backgroundColor: 'white',
-                  boxSizing: 'border-box'
-                }}
-              />
-            </div>
-
-            <div>
-              <label style={{ 
-                display: 'block', 
-                fontSize: '14px', 
-                fontWeight: '500', 
-                color: '#374151', 
-                marginBottom: '6px' 
-              }}>
-                Call to Booking Rate (%)
-              </label>
-              <input
-                type="number"
-                value={data.callToBooking}
-                onChange={(e) => updateData('callToBooking', parseInt(e.target.value) || 0)}
-                style={{
-                  width: '100%',
-                  padding: '10px 12px',
-                  borderRadius: '8px',
-                  border: '1px solid #d1d5db',
-                  fontSize: '16px',
-                  backgroundColor: 'white',
-                  boxSizing: 'border-box'
-                }}
-              />
-            </div>
-          </div>
-
-          {/* Requirements Section */}
-          <div style={{
-            backgroundColor: 'white',
-            borderRadius: '12px',
-            padding: '20px',
-            border: '1px solid #e5e7eb',
-            boxShadow: '0 1px 3px 0 rgba(0, 0, 0, 0.1)',
-            minWidth: 0,
-            overflow: 'hidden'
-          }}>
-            <div style={{ 
-              display: 'flex', 
-              alignItems: 'center', 
-              gap: '8px', 
-              marginBottom: '20px' 
-            }}>
-              <TrendingUp size={20} color="#10b981" />
-              <h2 style={{ 
-                fontSize: '18px', 
-                fontWeight: '600', 
-                margin: 0, 
-                color: '#1f2937' 
-              }}>
-                Required Activity
-              </h2>
-            </div>
-
-            <div style={{ marginBottom: '16px' }}>
-              <div style={{
-                display: 'flex',
-                justifyContent: 'space-between',
-                alignItems: 'center',
-                padding: '16px',
-                backgroundColor: '#f9fafb',
-                borderRadius: '8px',
-                border: '1px solid #e5e7eb'
-              }}>
-                <div>
-                  <div style={{ fontSize: '14px', color: '#6b7280', marginBottom: '4px' }}>
-                    Required Inquiries
-                  </div>
-                  <div style={{ fontSize: '20px', fontWeight: '700', color: '#1f2937' }}>
-                    {formatNumber(calculations.requiredInquiries)}
-                  </div>
-                </div>
-                <Users size={24} color="#6b7280" />
-              </div>
-            </div>
-
-            <div>
-              <div style={{
-                display: 'flex',
-                justifyContent: 'space-between',
-                alignItems: 'center',
-                padding: '16px',
-                backgroundColor: '#f9fafb',
-                borderRadius: '8px',
-                border: '1px solid #e5e7eb'
-              }}>
-                <div>
-                  <div style={{ fontSize: '14px', color: '#6b7280', marginBottom: '4px' }}>
-                    Required Calls
-                  </div>
-                  <div style={{ fontSize: '20px', fontWeight: '700', color: '#1f2937' }}>
-                    {formatNumber(calculations.requiredCalls)}
-                  </div>
-                </div>
-                <Phone size={24} color="#6b7280" />
-              </div>
-            </div>
-          </div>
+          {renderSection('Annual Goals', <Target size={20} color="#3b82f6" />, annualGoalsContent)}
+          {renderSection('Required Activity', <TrendingUp size={20} color="#10b981" />, requiredActivityContent)}
         </div>
 
         {/* Right Column: Progress & Pace */}
-        <div style={{ 
-          display: 'flex', 
-          flexDirection: 'column', 
+        <div style={{
+          display: 'flex',
+          flexDirection: 'column',
           gap: '24px',
           minWidth: 0,
           overflow: 'hidden'
         }}>
-          {/* Progress Section */}
-          <div style={{
-            backgroundColor: 'white',
-            borderRadius: '12px',
-            padding: '20px',
-            border: '1px solid #e5e7eb',
-            boxShadow: '0 1px 3px 0 rgba(0, 0, 0, 0.1)',
-            minWidth: 0,
-            overflow: 'hidden'
-          }}>
-            <div style={{ 
-              display: 'flex', 
-              alignItems: 'center', 
-              gap: '8px', 
-              marginBottom: '20px' 
-            }}>
-              <CheckCircle size={20} color="#f59e0b" />
-              <h2 style={{ 
-                fontSize: '18px', 
-                fontWeight: '600', 
-                margin: 0, 
-                color: '#1f2937' 
-              }}>
-                Progress — Actual YTD
-              </h2>
-            </div>
-
-            <div style={{ marginBottom: '20px' }}>
-              <label style={{ 
-                display: 'block', 
-                fontSize: '14px', 
-                fontWeight: '500', 
-                color: '#374151', 
-                marginBottom: '6px' 
-              }}>
-                Inquiries YTD
-              </label>
-              <input
-                type="number"
-                value={data.inqYtd}
-                readOnly
-                style={{
-                  width: '100%',
-                  padding: '10px 12px',
-                  borderRadius: '8px',
-                  border: '1px solid #d1d5db',
-                  fontSize: '16px',
-                  backgroundColor: '#f9fafb',
-                  color: '#6b7280',
-                  boxSizing: 'border-box',
-                  cursor: 'not-allowed'
-                }}
-              />
-            </div>
-
-            <div style={{ marginBottom: '20px' }}>
-              <label style={{ 
-                display: 'block', 
-                fontSize: '14px', 
-                fontWeight: '500', 
-                color: '#374151', 
-                marginBottom: '6px' 
-              }}>
-                Calls YTD
-              </label>
-              <input
-                type="number"
-                value={data.callsYtd}
-                readOnly
-                style={{
-                  width: '100%',
-                  padding: '10px 12px',
-                  borderRadius: '8px',
-                  border: '1px solid #d1d5db',
-                  fontSize: '16px',
-                  backgroundColor: '#f9fafb',
-                  color: '#6b7280',
-                  boxSizing: 'border-box',
-                  cursor: 'not-allowed'
-                }}
-              />
-            </div>
-
-            <div>
-              <label style={{ 
-                display: 'block', 
-                fontSize: '14px', 
-                fontWeight: '500', 
-                color: '#374151', 
-                marginBottom: '6px' 
-              }}>
-                Bookings YTD
-              </label>
-              <input
-                type="number"
-                value={data.bookingsYtd}
-                readOnly
-                style={{
-                  width: '100%',
-                  padding: '10px 12px',
-                  borderRadius: '8px',
-                  border: '1px solid #d1d5db',
-                  fontSize: '16px',
-                  backgroundColor: '#f9fafb',
-                  color: '#6b7280',
-                  boxSizing: 'border-box',
-                  cursor: 'not-allowed'
-                }}
-              />
-            </div>
-          </div>
-
-          {/* Annualized Pace Section */}
-          <div style={{
-            backgroundColor: 'white',
-            borderRadius: '12px',
-            padding: '20px',
-            border: '1px solid #e5e7eb',
-            boxShadow: '0 1px 3px 0 rgba(0, 0, 0, 0.1)',
-            minWidth: 0,
-            overflow: 'hidden'
-          }}>
-            <div style={{ 
-              display: 'flex', 
-              alignItems: 'center', 
-              gap: '8px', 
-              marginBottom: '20px' 
-            }}>
-              <DollarSign size={20} color="#8b5cf6" />
-              <h2 style={{ 
-                fontSize: '18px', 
-                fontWeight: '600', 
-                margin: 0, 
-                color: '#1f2937' 
-              }}>
-                Annualized Pace
-              </h2>
-            </div>
-
-            <div style={{ marginBottom: '16px' }}>
-              <div style={{
-                display: 'flex',
-                justifyContent: 'space-between',
-                alignItems: 'center',
-                padding: '16px',
-                backgroundColor: '#f9fafb',
-                borderRadius: '8px',
-                border: '1px solid #e5e7eb'
-              }}>
-                <div>
-                  <div style={{ fontSize: '14px', color: '#6b7280', marginBottom: '4px' }}>
-                    Inquiries Pace
-                  </div>
-                  <div style={{ fontSize: '20px', fontWeight: '700', color: '#1f2937' }}>
-                    {formatNumber(calculations.paceInq)}
-                  </div>
-                </div>
-                <Users size={24} color="#6b7280" />
-              </div>
-            </div>
-
-            <div style={{ marginBottom: '16px' }}>
-              <div style={{
-                display: 'flex',
-                justifyContent: 'space-between',
-                alignItems: 'center',
-                padding: '16px',
-                backgroundColor: '#f9fafb',
-                borderRadius: '8px',
-                border: '1px solid #e5e7eb'
-              }}>
-                <div>
-                  <div style={{ fontSize: '14px', color: '#6b7280', marginBottom: '4px' }}>
-                    Calls Pace
-                  </div>
-                  <div style={{ fontSize: '20px', fontWeight: '700', color: '#1f2937' }}>
-                    {formatNumber(calculations.paceCalls)}
-                  </div>
-                </div>
-                <Phone size={24} color="#6b7280" />
-              </div>
-            </div>
-
-            <div>
-              <div style={{
-                display: 'flex',
-                justifyContent: 'space-between',
-                alignItems: 'center',
-                padding: '16px',
-                borderRadius: '8px',
-                border: '1px solid #e5e7eb',
-                backgroundColor: isOnTrack ? '#d1fae5' : '#fef2f2'
-              }}>
-                <div>
-                  <div style={{ fontSize: '14px', color: '#6b7280', marginBottom: '4px' }}>
-                    Bookings Pace
-                  </div>
-                  <div style={{ 
-                    fontSize: '20px', 
-                    fontWeight: '700', 
-                    color: isOnTrack ? '#065f46' : '#991b1b'
-                  }}>
-                    {formatNumber(calculations.paceBookings)}
-                  </div>
-                  {isOnTrack ? (
-                    <div style={{ fontSize: '12px', color: '#065f46', marginTop: '4px' }}>
-                      ✓ On track for goal
-                    </div>
-                  ) : (
-                    <div style={{ fontSize: '12px', color: '#991b1b', marginTop: '4px' }}>
-                      ⚠ Behind goal
-                    </div>
-                  )}
-                </div>
-                <CheckCircle size={24} color={isOnTrack ? '#10b981' : '#ef4444'} />
-              </div>
-            </div>
-          </div>
+          {renderSection('Progress — Actual YTD', <CheckCircle size={20} color="#f59e0b" />, progressYtdContent)}
+          {renderSection('Annualized Pace', <DollarSign size={20} color="#8b5cf6" />, annualizedPaceContent)}
         </div>
       </div>
     </div>
@@ -1,10 +1,11 @@
 import React, { useState, useMemo } from 'react';
 import { TrendingUp, Calendar, Target, DollarSign, Users, Phone, CheckCircle, BarChart3 } from 'lucide-react';
 import ForecastModeling from './ForecastModeling';
-import type { FunnelData, ServiceType, Booking, Payment } from './types';
+import type { FunnelData, FunnelDefinition, ServiceType, Booking, Payment } from './types';
 
 interface ForecastProps {
   funnelData?: FunnelData[];
+  funnels?: FunnelDefinition[];
   serviceTypes?: ServiceType[];
   setServiceTypes?: (types: ServiceType[]) => void;
   bookings?: Booking[];
@@ -15,6 +16,7 @@ interface ForecastProps {
 
 const Forecast: React.FC<ForecastProps> = ({ 
   funnelData = [], 
+  funnels = [],
   serviceTypes = [], 
   setServiceTypes = () => {}, 
   bookings = [], 
@@ -221,6 +223,8 @@ const Forecast: React.FC<ForecastProps> = ({
           setServiceTypes={setServiceTypes}
           bookings={bookings}
           payments={payments}
+          funnelData={funnelData}
+          funnels={funnels}
           hideTracker={showModelingOnly}
         />
       ) : (
@@ -1,26 +1,42 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { Plus, Edit, Trash2, Target, TrendingUp, DollarSign, Calendar, CheckCircle, X } from 'lucide-react';
+import { Plus, Edit, Trash2, Target, TrendingUp, DollarSign, Calendar, CheckCircle, X, LineChart, History } from 'lucide-react';
 import { useAuth } from './contexts/AuthContext';
 import { UnifiedDataService } from './services/unifiedDataService';
 import { calculateCurrentYearRevenueByServiceType } from './services/revenueCalculationService';
+import { FITTED_MODEL_TYPES, isFittedModel, planTarget } from './services/forecastModels';
+import { dueSnapshots } from './services/forecastAccuracy';
+import type { FunnelScopeData } from './services/funnelScope';
+import FittedModelModal from './components/FittedModelModal';
+import ForecastProjection from './components/ForecastProjection';
+import RevenueSimulationPanel from './components/RevenueSimulationPanel';
+import CashFlowForecastPanel from './components/CashFlowForecastPanel';
+import ModelVersionsModal from './components/ModelVersionsModal';
+import ScenarioComparison from './components/ScenarioComparison';
 import { logger } from './utils/logger';
 import { toUSD, formatNumber } from './utils/formatters';
-import type { ServiceType, Booking, Payment, ForecastModel } from './types';
+import type { ServiceType, Booking, Payment, ForecastModel, FunnelData, FunnelDefinition } from './types';
 
 interface ForecastModelingProps {
   serviceTypes: ServiceType[];
   setServiceTypes: (types: ServiceType[]) => void;
   bookings: Booking[];
   payments: Payment[];
+  funnelData?: FunnelData[]; // History for fitted models
+  funnels?: FunnelDefinition[];
   showTrackerOnly?: boolean;
   hideTracker?: boolean;
 }
 
+const EMPTY_FUNNEL_DATA: FunnelData[] = [];
+const EMPTY_FUNNELS: FunnelDefinition[] = [];
+
 const ForecastModeling: React.FC<ForecastModelingProps> = ({ 
   serviceTypes, 
   setServiceTypes, 
   bookings, 
   payments,
+  funnelData = EMPTY_FUNNEL_DATA,
+  funnels = EMPTY_FUNNELS,
   showTrackerOnly = false,
   hideTracker = false
 }) => {
@@ -43,6 +59,8 @@ const ForecastModeling: React.FC<ForecastModelingProps> = ({
   const [viewingModel, setViewingModel] = useState<ForecastModel | null>(null); // Model being viewed (may not be active)
   const [showModelModal, setShowModelModal] = useState(false);
   const [editingModel, setEditingModel] = useState<ForecastModel | null>(null);
+  const [showFittedModal, setShowFittedModal] = useState(false);
+  const [historyModel, setHistoryModel] = useState<ForecastModel | null>(null);
   const [loadingModels, setLoadingModels] = useState(true);
 
   // Mark component as mounted after initial render
@@ -52,6 +70,19 @@ const ForecastModeling: React.FC<ForecastModelingProps> = ({
 
   // Load models from database on mount
   useEffect(() => {
+    // Capture this month's projection of each model for accuracy tracking (once a month per model).
+    // Runs when the owner loads their models; guests viewing a shared account don't record snapshots.
+    const takeDueSnapshots = async (userId: string, loadedModels: ForecastModel[]) => {
+      try {
+        const snapshots = await UnifiedDataService.getForecastSnapshots(userId);
+        await Promise.all(
+          dueSnapshots(loadedModels, snapshots).map(snapshot => UnifiedDataService.saveForecastSnapshot(userId, snapshot))
+        );
+      } catch (error) {
+        logger.error('Error taking forecast snapshots:', error);
+      }
+    };
+
     const loadModels = async () => {
       // Use effectiveUserId (owner's ID when viewing as guest, otherwise user's ID)
       const userId = effectiveUserId || user?.id;
@@ -66,9 +97,11 @@ const ForecastModeling: React.FC<ForecastModelingProps> = ({
         
         if (loadedModels.length > 0) {
           setModels(loadedModels);
-          const active = loadedModels.find(m => m.isActive) || loadedModels[0];
+          // Only plans can be tracked, so fall back to the first plan rather than a fitted model
+          const active = loadedModels.find(m => m.isActive) || loadedModels.find(m => !isFittedModel(m)) || null;
           setActiveModel(active);
-          setViewingModel(active); // Default to viewing the active model
+          setViewingModel(active || loadedModels[0]); // Default to viewing the active model
+          if (!isViewOnly) takeDueSnapshots(userId, loadedModels);
         } else {
           // No models exist - start with empty state
           setModels([]);
@@ -87,7 +120,7 @@ const ForecastModeling: React.FC<ForecastModelingProps> = ({
     };
 
     loadModels();
-  }, [user?.id]);
+  }, [user?.id, effectiveUserId, isViewOnly]);
 
 
   // Calculate year progress
@@ -168,6 +201,12 @@ const ForecastModeling: React.FC<ForecastModelingProps> = ({
 
   // Calculate performance metrics for the model being viewed (viewingModel or activeModel)
   const displayModel = viewingModel || activeModel;
+  const displayIsFitted = !!displayModel && isFittedModel(displayModel);
+  const plans = useMemo(() => models.filter(model => !isFittedModel(model)), [models]);
+  const scopeData: FunnelScopeData = useMemo(
+    () => ({ funnels, funnelData, bookings, payments, serviceTypes }),
+    [funnels, funnelData, bookings, payments, serviceTypes]
+  );
   const performanceMetrics = useMemo(() => {
     if (!displayModel) return [];
 
@@ -218,7 +257,22 @@ const ForecastModeling: React.FC<ForecastModelingProps> = ({
   const formatNumber = (num: number) => num.toLocaleString();
 
   // Model management functions
-  const createModel = async (modelData: Omit<ForecastModel, 'id' | 'createdAt' | 'updatedAt'>) => {
+  // Keep every save of a model as a version (activating a model doesn't count as a save)
+  const recordVersion = async (model: ForecastModel, note: string) => {
+    const userId = effectiveUserId || user?.id;
+    if (!userId) return;
+    let version = null;
+    try {
+      version = await UnifiedDataService.saveForecastModelVersion(userId, model, note, isViewOnly);
+    } catch (error) {
+      logger.error('Error saving forecast model version:', error);
+    }
+    if (!version) {
+      alert(`"${model.name}" was saved, but this version could not be added to its history.`);
+    }
+  };
+
+  const createModel = async (modelData: Omit<ForecastModel, 'id' | 'createdAt' | 'updatedAt'>, note: string = '') => {
     logger.debug('createModel called', { modelData });
     if (!user?.id) {
       logger.error('createModel: No user ID');
@@ -239,10 +293,13 @@ const ForecastModeling: React.FC<ForecastModelingProps> = ({
     logger.debug('createModel: Save result', { saved: !!savedModel });
     
     if (savedModel) {
+      await recordVersion(savedModel, note);
       setModels(prev => [...prev, savedModel]);
       if (savedModel.isActive) {
         setActiveModel(savedModel);
         setViewingModel(savedModel); // View the newly activated model
+      } else if (isFittedModel(savedModel)) {
+        setViewingModel(savedModel); // Fitted models can't be activated, so show the new projection
       }
     } else {
       logger.error('createModel: Save failed, using local state');
@@ -251,7 +308,7 @@ const ForecastModeling: React.FC<ForecastModelingProps> = ({
     }
   };
 
-  const updateModel = async (modelData: ForecastModel) => {
+  const updateModel = async (modelData: ForecastModel, note: string = '') => {
     if (!user?.id) return;
     
     const updatedModel = { ...modelData, updatedAt: new Date().toISOString() };
@@ -261,6 +318,7 @@ const ForecastModeling: React.FC<ForecastModelingProps> = ({
     const savedModel = await UnifiedDataService.saveForecastModel(userId, updatedModel, isViewOnly);
     
     if (savedModel) {
+      await recordVersion(savedModel, note);
     setModels(prev => prev.map(model => 
         model.id === modelData.id ? savedModel : model
     ));
@@ -296,7 +354,7 @@ const ForecastModeling: React.FC<ForecastModelingProps> = ({
     setModels(prev => prev.filter(model => model.id !== modelId));
     if (activeModel?.id === modelId) {
       const remainingModels = models.filter(model => model.id !== modelId);
-      const newActiveModel = remainingModels.length > 0 ? remainingModels[0] : null;
+      const newActiveModel = remainingModels.find(model => !isFittedModel(model)) || null;
       setActiveModel(newActiveModel);
       setViewingModel(newActiveModel); // View the new active model
     } else if (viewingModel?.id === modelId) {
@@ -720,6 +778,33 @@ const ForecastModeling: React.FC<ForecastModelingProps> = ({
           <Plus size={16} />
           New Model
         </button>
+        <button
+          onClick={() => setShowFittedModal(true)}
+          style={{
+            backgroundColor: 'white',
+            color: '#1d4ed8',
+            border: '1px solid #93c5fd',
+            borderRadius: '8px',
+            padding: '12px 18px',
+            fontSize: '14px',
+            fontWeight: '600',
+            cursor: 'pointer',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            transition: 'all 0.2s'
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = '#eff6ff';
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = 'white';
+          }}
+          title="Project from your history with a linear, exponential or seasonal model"
+        >
+          <LineChart size={16} />
+          New Fitted Model
+        </button>
       </div>
 
       {/* Model Selector - Fixed Layout v4 */}
@@ -775,7 +860,13 @@ const ForecastModeling: React.FC<ForecastModelingProps> = ({
                             {/* Model Info */}
                             <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
                               {model.isActive && <CheckCircle size={16} />}
+                              {isFittedModel(model) && <LineChart size={16} />}
                               <span>{model.name}</span>
+                              {isFittedModel(model) && (
+                                <span style={{ fontSize: '11px', opacity: 0.8 }}>
+                                  {FITTED_MODEL_TYPES.find(info => info.type === model.modelType)?.label}
+                                </span>
+                              )}
                             </div>
                 
                 {/* Action Buttons */}
@@ -783,7 +874,7 @@ const ForecastModeling: React.FC<ForecastModelingProps> = ({
                   style={{ display: 'flex', alignItems: 'center', gap: '4px', flexShrink: 0 }}
                   onClick={(e) => e.stopPropagation()} // Prevent card click when clicking buttons
                 >
-                  {!model.isActive ? (
+                  {!model.isActive && !isFittedModel(model) ? (
                     <button
                       onClick={() => activateModel(model.id)}
                       style={{
@@ -929,7 +1020,7 @@ const ForecastModeling: React.FC<ForecastModelingProps> = ({
           </button>
         </div>
       )}
-      {!hideTracker && displayModel && (
+      {!hideTracker && displayModel && !displayIsFitted && (
         <div style={{ 
           backgroundColor: 'white', 
           borderRadius: '12px', 
@@ -1192,8 +1283,22 @@ const ForecastModeling: React.FC<ForecastModelingProps> = ({
         </div>
       )}
 
+      {/* Fitted models show their projection in place of the tracker and plan details */}
+      {displayModel && displayIsFitted && (
+        <ForecastProjection
+          key={displayModel.id}
+          model={displayModel}
+          plans={plans}
+          data={scopeData}
+          onRefit={() => setEditingModel(displayModel)}
+          onShowHistory={() => setHistoryModel(displayModel)}
+          onDelete={() => deleteModel(displayModel.id)}
+          isViewOnly={isViewOnly}
+        />
+      )}
+
       {/* Model Details - Show for viewingModel (or activeModel if no viewingModel) */}
-      {displayModel && (
+      {displayModel && !displayIsFitted && (
         <div style={{ 
           backgroundColor: 'white', 
           borderRadius: '12px', 
@@ -1230,6 +1335,24 @@ const ForecastModeling: React.FC<ForecastModelingProps> = ({
                 </p>
               </div>
               <div style={{ display: 'flex', gap: '8px' }}>
+                <button
+                  onClick={() => setHistoryModel(displayModel)}
+                  style={{
+                    backgroundColor: '#f3f4f6',
+                    color: '#374151',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '6px',
+                    padding: '8px 12px',
+                    fontSize: '12px',
+                    cursor: 'pointer',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '4px'
+                  }}
+                >
+                  <History size={12} />
+                  History
+                </button>
                 <button
                   onClick={() => setEditingModel(displayModel)}
                   style={{
@@ -1318,6 +1441,27 @@ const ForecastModeling: React.FC<ForecastModelingProps> = ({
         </div>
       )}
 
+      {/* Plans side by side */}
+      {!loadingModels && plans.length >= 2 && (
+        <ScenarioComparison
+          plans={plans}
+          serviceTypes={serviceTypes}
+          actualByServiceType={actualRevenueByServiceType}
+          yearProgress={yearProgress}
+        />
+      )}
+
+      {/* Range of outcomes for the rest of the year, against the active model */}
+      {!loadingModels && (
+        <RevenueSimulationPanel
+          data={scopeData}
+          target={activeModel ? planTarget(activeModel, 'bookings') : null}
+          targetName={activeModel?.name}
+        />
+      )}
+
+      <CashFlowForecastPanel bookings={bookings} payments={payments} serviceTypes={serviceTypes} />
+
       {/* Modals */}
       {showModelModal && (
         <ModelModal
@@ -1330,7 +1474,35 @@ const ForecastModeling: React.FC<ForecastModelingProps> = ({
         />
       )}
 
-      {editingModel && (
+      {historyModel && (
+        <ModelVersionsModal
+          model={historyModel}
+          serviceTypes={serviceTypes}
+          userId={effectiveUserId || user?.id || ''}
+          onClose={() => setHistoryModel(null)}
+        />
+      )}
+
+      {showFittedModal && (
+        <FittedModelModal
+          data={scopeData}
+          onCreate={createModel}
+          onUpdate={updateModel}
+          onClose={() => setShowFittedModal(false)}
+        />
+      )}
+
+      {editingModel && isFittedModel(editingModel) && (
+        <FittedModelModal
+          model={editingModel}
+          data={scopeData}
+          onCreate={createModel}
+          onUpdate={updateModel}
+          onClose={() => setEditingModel(null)}
+        />
+      )}
+
+      {editingModel && !isFittedModel(editingModel) && (
         <ModelModal
           models={models}
           serviceTypes={serviceTypes}
@@ -1391,8 +1563,8 @@ function ModelModal({
   serviceTypes: ServiceType[];
   setServiceTypes: (types: ServiceType[]) => void;
   model?: ForecastModel;
-  onCreate: (model: Omit<ForecastModel, 'id' | 'createdAt' | 'updatedAt'>) => void;
-  onUpdate: (model: ForecastModel) => void;
+  onCreate: (model: Omit<ForecastModel, 'id' | 'createdAt' | 'updatedAt'>, note?: string) => void;
+  onUpdate: (model: ForecastModel, note?: string) => void;
   onClose: () => void;
 }) {
   const [formData, setFormData] = useState({
@@ -1405,6 +1577,7 @@ function ModelModal({
     })) || [],
   });
   const [newServiceTypeName, setNewServiceTypeName] = useState('');
+  const [versionNote, setVersionNote] = useState('');
   const [showNewServiceTypeInput, setShowNewServiceTypeInput] = useState(false);
 
   // Helper functions
@@ -1516,11 +1689,11 @@ function ModelModal({
         return;
       }
       const modelToUpdate = { ...model, ...modelToSave, id: realModelId };
-      await onUpdate(modelToUpdate);
+      await onUpdate(modelToUpdate, versionNote.trim());
     } else {
       // Create new model
       const newModelData = { ...modelToSave, year: modelToSave.year || new Date().getFullYear() };
-      await onCreate(newModelData);
+      await onCreate(newModelData, versionNote.trim());
     }
     onClose();
   };
@@ -1587,6 +1760,25 @@ function ModelModal({
                 placeholder="e.g., 2025 Model"
               />
             </div>
+            <div>
+              <label style={{ display: 'block', fontSize: '14px', fontWeight: '500', marginBottom: '6px', textAlign: 'left' }}>
+                Version Note
+              </label>
+              <input
+                type="text"
+                value={versionNote}
+                onChange={(e) => setVersionNote(e.target.value)}
+                style={{
+                  width: '100%',
+                  padding: '10px 12px',
+                  border: '1px solid #d1d5db',
+                  borderRadius: '6px',
+                  fontSize: '14px',
+                  boxSizing: 'border-box'
+                }}
+                placeholder="What changed and why (optional)"
+              />
+            </div>
           </div>
 
           <div>
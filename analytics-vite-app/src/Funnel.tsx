@@ -1,12 +1,22 @@
 import { useState, useMemo, useEffect } from "react";
-import { TrendingUp, Users, Phone, CheckCircle, DollarSign, Edit, Lock, Crown, StickyNote, Calendar, Upload } from "lucide-react";
+import { TrendingUp, Users, Phone, CheckCircle, DollarSign, Edit, Lock, Crown, StickyNote, Calendar, Upload, Layers, ListOrdered, Scale } from "lucide-react";
 import { useAuth } from "./contexts/AuthContext";
 // Calculator moved to its own top-level page
 import { UnifiedDataService } from "./services/unifiedDataService";
-import type { FunnelData, Booking, Payment } from "./types";
+import { buildImportPreview } from "./services/importPreview";
+import { monthToIndex, type SalesFunnelMonth } from "./services/insightsMetrics";
+import { ALL_FUNNELS, buildFunnelMonths, funnelIdOfMonth, type FunnelSelection } from "./services/funnelScope";
+import { buildFunnelWeeks, emptyFunnelMonth, funnelIdOfWeek, rollUpFunnelWeeks } from "./services/funnelWeeks";
+import { orderedStages, stageCount, stageTotals } from "./services/funnelStages";
+import { findManualOverrideDifferences } from "./services/funnelReconciliation";
+import type { FunnelData, FunnelDefinition, FunnelStage, FunnelWeek, Booking, Payment, ServiceType, ImportResult, ImportBatch } from "./types";
 import { logger } from "./utils/logger";
 import CSVImportModal from "./components/CSVImportModal";
-import { importBookingsFromCSV, type ImportResult } from "./services/honeybookImporter";
+import FunnelSelector from "./components/FunnelSelector";
+import ManageFunnelsModal from "./components/ManageFunnelsModal";
+import ManageFunnelStagesModal from "./components/ManageFunnelStagesModal";
+import FunnelReconciliationModal from "./components/FunnelReconciliationModal";
+import FunnelWeekTable from "./components/FunnelWeekTable";
 
 interface FunnelProps {
   funnelData: FunnelData[];
@@ -54,6 +64,20 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [editingMonth, setEditingMonth] = useState<FunnelData | null>(null);
 
+  // Named funnels: "All funnels" rolls every funnel up; months can only be edited for one funnel
+  const funnels: FunnelDefinition[] = useMemo(() => dataManager?.funnels || [], [dataManager?.funnels]);
+  const [selectedFunnel, setSelectedFunnel] = useState<FunnelSelection>(ALL_FUNNELS);
+  const [showManageFunnels, setShowManageFunnels] = useState(false);
+  const canEditMonths = selectedFunnel !== ALL_FUNNELS || funnels.length <= 1;
+  const editFunnelId = selectedFunnel !== ALL_FUNNELS ? selectedFunnel : funnels[0]?.id;
+  const funnelWeeks: FunnelWeek[] = useMemo(() => dataManager?.funnelWeeks || [], [dataManager?.funnelWeeks]);
+  const [granularity, setGranularity] = useState<'month' | 'week'>('month');
+
+  // Stage columns in funnel order (closes last); custom stages are entered per month
+  const savedStages: FunnelStage[] = useMemo(() => dataManager?.funnelStages || [], [dataManager?.funnelStages]);
+  const stages = useMemo(() => orderedStages(savedStages), [savedStages]);
+  const [showManageStages, setShowManageStages] = useState(false);
+
   // Handle navigation action to open edit modal for specific month
   useEffect(() => {
     if (navigationAction?.action === 'edit-month' && navigationAction.month) {
@@ -63,31 +87,12 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
       // Use a small delay to ensure component is fully mounted
       const timer = setTimeout(() => {
         // Find or create the month data
-        let monthData = funnelData.find(f => f.year === year && f.month === month)
+        // With several funnels and none selected, edit the first funnel
+        const funnelId = editFunnelId
+        if (!canEditMonths && funnelId) setSelectedFunnel(funnelId)
+        let monthData = funnelData.find(f => f.year === year && f.month === month && funnelIdOfMonth(f, funnels) === funnelId)
         if (!monthData) {
-          // Create a new month entry
-          monthData = {
-            id: `temp_${year}_${month}`,
-            name: 'Default',
-            year,
-            month,
-            inquiries: 0,
-            inquiriesYtd: 0,
-            callsBooked: 0,
-            callsTaken: 0,
-            callsYtd: 0,
-            inquiryToCall: 0,
-            callToBooking: 0,
-            closes: 0,
-            bookings: 0,
-            bookingsYtd: 0,
-            bookingsGoal: 0,
-            cash: 0,
-            notes: undefined,
-            closesManual: false,
-            bookingsManual: false,
-            cashManual: false
-          }
+          monthData = emptyFunnelMonth(year, month, funnelId)
         }
         setEditingMonth(monthData)
         setIsEditModalOpen(true)
@@ -96,7 +101,7 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
       
       return () => clearTimeout(timer)
     }
-  }, [navigationAction, funnelData])
+  }, [navigationAction, funnelData, funnels, editFunnelId, canEditMonths])
   // Calculator removed from Funnel page; single view only
   const [loading, setLoading] = useState(false);
   const [justSaved, setJustSaved] = useState(false);
@@ -112,85 +117,38 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
   // All users now have Pro features (simplified permission system)
   const isProAccount = true;
 
-  // Get trackable service type IDs (for closes calculation only)
-  const trackableServiceIds = useMemo(() => {
-    return new Set(serviceTypes.filter((st: any) => st.tracksInFunnel).map((st: any) => st.id));
-  }, [serviceTypes]);
-
-  // Calculate dynamic data from sales for Pro accounts
-  const calculateDynamicData = useMemo(() => {
-    if (!isProAccount) return {};
+  const scopeData = useMemo(() => ({
+    funnels,
+    funnelData,
+    bookings: salesData,
+    payments: paymentsData,
+    serviceTypes: serviceTypes as ServiceType[],
+  }), [funnels, funnelData, salesData, paymentsData, serviceTypes]);
 
-    const monthlyData: { [key: string]: { bookings: number; closes: number; cash: number } } = {};
+  // Manual closes/bookings/cash that differ from the calculated values, across every funnel and year
+  const [showReconciliation, setShowReconciliation] = useState(false);
+  const reconciliationItems = useMemo(() => findManualOverrideDifferences(scopeData), [scopeData]);
+  const unreviewedCount = reconciliationItems.filter(item => item.keptReason === null).length;
 
-    // Initialize all months with zeros
-    for (let month = 1; month <= 12; month++) {
-      monthlyData[month] = { bookings: 0, closes: 0, cash: 0 };
-    }
-
-    // Helper to safely extract year and month from YYYY-MM-DD without timezone shifts
-    const parseYearMonth = (dateString: string | undefined | null): { year: number; month: number } | null => {
-      if (!dateString) return null;
-      // Prefer strict split to avoid JS Date timezone issues with YYYY-MM-DD strings
-      const parts = dateString.split('-');
-      if (parts.length >= 2) {
-        const yearNum = parseInt(parts[0], 10);
-        const monthNum = parseInt(parts[1], 10);
-        if (Number.isFinite(yearNum) && Number.isFinite(monthNum) && monthNum >= 1 && monthNum <= 12) {
-          return { year: yearNum, month: monthNum };
-    }
-      }
-      // Fallback to Date only if needed
-      try {
-        const d = new Date(dateString);
-        return { year: d.getFullYear(), month: d.getMonth() + 1 };
-      } catch {
-        return null;
-      }
-    };
-
-    // Calculate bookings and closes from sales data
-    // Bookings: ALL bookings regardless of trackInFunnel
-    // Closes: Only bookings with trackable service types
-    salesData.forEach((booking: any) => {
-      const parsed = parseYearMonth(booking?.dateBooked);
-      if (!parsed || parsed.year !== selectedYear) return;
-      
-      const month = parsed.month;
-      const bookedRevenue = booking.bookedRevenue || 0;
-      
-      // Always add to bookings (all bookings count)
-      monthlyData[month].bookings += bookedRevenue;
-
-      // Only add to closes if service type is trackable
-      if (booking.serviceTypeId && trackableServiceIds.has(booking.serviceTypeId)) {
-        monthlyData[month].closes += 1;
-      }
-    });
+  const yearRange = useMemo(
+    () => ({ start: monthToIndex(selectedYear, 1), end: monthToIndex(selectedYear, 12) }),
+    [selectedYear]
+  );
 
-    // Calculate Cash from scheduled/expected payments (same logic as Forecast)
-    // Use expectedDate first, then dueDate, then paymentDate
-    paymentsData.forEach((payment: any) => {
-      let dateStr = payment.expectedDate || payment.dueDate || payment.paymentDate;
-      if (!dateStr) return;
-      
-      const parsed = parseYearMonth(dateStr);
-      if (!parsed || parsed.year !== selectedYear) return;
-      
-      const month = parsed.month;
-      const amount = payment.amount || payment.amountCents || 0;
-      
-      // Add to cash (all scheduled payments count, including future months)
-      monthlyData[month].cash += amount;
+  // Closes, bookings and cash calculated from sales for the selected funnel, keyed by month number
+  // (shown in the edit modal next to any manual override)
+  const calculateDynamicData = useMemo(() => {
+    const monthlyData: { [key: string]: { bookings: number; closes: number; cash: number } } = {};
+    buildFunnelMonths(selectedFunnel, { ...scopeData, funnelData: [] }, yearRange, true).forEach(month => {
+      monthlyData[month.month] = { bookings: month.bookings || 0, closes: month.closes || 0, cash: month.cash || 0 };
     });
-
     return monthlyData;
-  }, [isProAccount, salesData, paymentsData, selectedYear, trackableServiceIds]);
+  }, [selectedFunnel, scopeData, yearRange]);
 
   // Handler functions for edit modal
   const handleEditMonth = (month: any) => {
     logger.debug('Opening edit modal for month', { month });
-    setEditingMonth(month as FunnelData);
+    setEditingMonth({ ...month, funnelId: editFunnelId } as FunnelData);
     setIsEditModalOpen(true);
     logger.debug('Modal should be open now');
   };
@@ -252,8 +210,8 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
     }
   };
 
-  const handleOpenNotesModal = (month: FunnelData) => {
-    setNotesMonth(month);
+  const handleOpenNotesModal = (month: SalesFunnelMonth) => {
+    setNotesMonth({ ...month, funnelId: editFunnelId } as FunnelData);
     setNotesDraft(month.notes || "");
     setIsNotesModalOpen(true);
   };
@@ -309,67 +267,19 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
     setNotesMonth(null);
   };
 
-  // Filter data by selected year
+  // All 12 months of the selected year for the selected funnel, with manual overrides applied
   const filteredData = useMemo(() => {
-    logger.debug('filteredData recalculating', { funnelDataCount: funnelData.length, selectedYear });
-    const yearData = funnelData.filter(data => data.year === selectedYear);
-    const months = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
-    
-    // Create all 12 months for the selected year, using existing data or default values
-    const allMonths = months.map((month, index) => {
-      const monthNumber = index + 1;
-      const existingData = yearData.find(data => data.month === monthNumber);
-      
-      if (isProAccount) {
-        // For Pro accounts, use dynamic data from sales/payments, but respect manual overrides
-        const dynamicData = calculateDynamicData[monthNumber] || { bookings: 0, closes: 0, cash: 0 };
-        
-        // Use manual value if flag is set, otherwise use dynamic value
-        const closes = existingData?.closesManual ? (existingData.closes || 0) : dynamicData.closes;
-        const bookings = existingData?.bookingsManual ? (existingData.bookings || 0) : dynamicData.bookings;
-        const cash = existingData?.cashManual ? (existingData.cash || 0) : dynamicData.cash;
-        
-        return {
-          id: existingData?.id || `${selectedYear}_${month.toLowerCase()}`,
-          month: monthNumber,
-          year: selectedYear,
-          inquiries: existingData?.inquiries || 0, // Keep manual inquiries
-          callsBooked: existingData?.callsBooked || 0, // Keep manual calls
-          callsTaken: existingData?.callsTaken || 0, // Keep manual calls
-          closes: closes,
-          bookings: bookings,
-          cash: cash,
-          closesManual: existingData?.closesManual || false,
-          bookingsManual: existingData?.bookingsManual || false,
-          cashManual: existingData?.cashManual || false,
-          notes: existingData?.notes || '',
-          lastUpdated: existingData?.lastUpdated || new Date().toISOString()
-        };
-      } else {
-        // For Free accounts, use static mock data
-        if (existingData) {
-          return existingData;
-        }
-        
-        // Create default month data
-        return {
-          id: `${selectedYear}_${month.toLowerCase()}`,
-          month: monthNumber,
-          year: selectedYear,
-          inquiries: 0,
-          callsBooked: 0,
-          callsTaken: 0,
-          closes: 0,
-          bookings: 0,
-          cash: 0,
-          notes: '',
-          lastUpdated: new Date().toISOString()
-        };
-      }
-    });
-    
-    return allMonths;
-  }, [funnelData, selectedYear, isProAccount, calculateDynamicData]);
+    logger.debug('filteredData recalculating', { funnelDataCount: funnelData.length, selectedYear, selectedFunnel });
+    return buildFunnelMonths(selectedFunnel, scopeData, yearRange, true);
+  }, [funnelData.length, selectedYear, selectedFunnel, scopeData, yearRange]);
+
+  // ISO weeks of the selected year (weeks belong to the year their Thursday falls in)
+  const weeklyData = useMemo(
+    () => (granularity === 'week' ? buildFunnelWeeks(selectedFunnel, { ...scopeData, funnelWeeks }, selectedYear) : []),
+    [granularity, selectedFunnel, scopeData, funnelWeeks, selectedYear]
+  );
+
+  const yearStageTotals = useMemo(() => stageTotals(stages, filteredData), [stages, filteredData]);
 
   // Calculate analytics metrics
   const analyticsMetrics = useMemo(() => {
@@ -461,7 +371,71 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
           </h1>
           {user && (
             <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
-              {user.crm === 'honeybook' && !isViewOnly && (
+              {!isViewOnly && dataManager && (
+                <button
+                  onClick={() => setShowManageFunnels(true)}
+                  style={{
+                    backgroundColor: 'white',
+                    color: '#374151',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '6px',
+                    padding: '8px 16px',
+                    fontSize: '14px',
+                    fontWeight: '600',
+                    cursor: 'pointer',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px'
+                  }}
+                >
+                  <Layers size={16} />
+                  Manage Funnels
+                </button>
+              )}
+              {!isViewOnly && dataManager?.saveFunnelStages && (
+                <button
+                  onClick={() => setShowManageStages(true)}
+                  style={{
+                    backgroundColor: 'white',
+                    color: '#374151',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '6px',
+                    padding: '8px 16px',
+                    fontSize: '14px',
+                    fontWeight: '600',
+                    cursor: 'pointer',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px'
+                  }}
+                >
+                  <ListOrdered size={16} />
+                  Stages
+                </button>
+              )}
+              {dataManager?.saveFunnelData && reconciliationItems.length > 0 && (
+                <button
+                  onClick={() => setShowReconciliation(true)}
+                  style={{
+                    backgroundColor: unreviewedCount > 0 ? '#fffbeb' : 'white',
+                    color: unreviewedCount > 0 ? '#92400e' : '#374151',
+                    border: `1px solid ${unreviewedCount > 0 ? '#fcd34d' : '#d1d5db'}`,
+                    borderRadius: '6px',
+                    padding: '8px 16px',
+                    fontSize: '14px',
+                    fontWeight: '600',
+                    cursor: 'pointer',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px'
+                  }}
+                  title="Manual values that differ from what bookings and payments compute"
+                >
+                  <Scale size={16} />
+                  Reconcile{unreviewedCount > 0 ? ` (${unreviewedCount})` : ''}
+                </button>
+              )}
+              {!isViewOnly && canEditMonths && (
                 <button
                   onClick={() => setShowCSVImport(true)}
                   style={{
@@ -500,8 +474,9 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
         </p>
       </div>
 
-      {/* Year Selector */}
-      <div style={{ marginBottom: '32px' }}>
+      {/* Year and Funnel Selectors */}
+      <div style={{ marginBottom: '32px', display: 'flex', gap: '16px', alignItems: 'flex-end', flexWrap: 'wrap' }}>
+      <div>
         <label style={{ 
           display: 'block', 
           fontSize: '14px', 
@@ -527,6 +502,44 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
           ))}
         </select>
       </div>
+      {funnels.length > 1 && (
+        <div>
+          <label style={{ 
+            display: 'block', 
+            fontSize: '14px', 
+            fontWeight: '500', 
+            marginBottom: '6px' 
+          }}>
+            Funnel
+          </label>
+          <FunnelSelector funnels={funnels} value={selectedFunnel} onChange={setSelectedFunnel} />
+        </div>
+      )}
+      <div style={{ display: 'flex', border: '1px solid #d1d5db', borderRadius: '8px', overflow: 'hidden' }}>
+        {(['month', 'week'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setGranularity(option)}
+            style={{
+              padding: '10px 16px',
+              border: 'none',
+              backgroundColor: granularity === option ? '#3b82f6' : 'white',
+              color: granularity === option ? 'white' : '#374151',
+              fontSize: '14px',
+              fontWeight: '500',
+              cursor: 'pointer'
+            }}
+          >
+            {option === 'month' ? 'Monthly' : 'Weekly'}
+          </button>
+        ))}
+      </div>
+      {!canEditMonths && (
+        <span style={{ fontSize: '13px', color: '#6b7280', paddingBottom: '10px' }}>
+          Showing all funnels combined. Select a funnel to edit its months.
+        </span>
+      )}
+      </div>
 
       
 
@@ -540,7 +553,7 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
       }}>
         <div style={{ padding: '20px', borderBottom: '1px solid #e5e7eb' }}>
           <h2 style={{ fontSize: '18px', fontWeight: '600', margin: 0, color: '#1f2937' }}>
-            Monthly Data - {selectedYear}
+            {granularity === 'week' ? 'Weekly' : 'Monthly'} Data - {selectedYear}
           </h2>
           {selectedYear > currentYear && (
             <div style={{
@@ -563,16 +576,26 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
           )}
         </div>
 
+        {granularity === 'week' && (
+          <FunnelWeekTable
+            weeks={weeklyData}
+            funnelId={editFunnelId}
+            canEdit={canEditMonths && !!dataManager?.saveFunnelWeek}
+            isViewOnly={isViewOnly}
+            onSaveWeek={(week) => dataManager.saveFunnelWeek(week)}
+          />
+        )}
+
         {/* Sales Funnel Table */}
+        {granularity === 'month' && (
           <div style={{ overflowX: 'auto' }}>
           <table style={{ width: '100%', fontSize: '14px' }}>
             <thead>
               <tr style={{ backgroundColor: '#f9fafb' }}>
                 <th style={{ padding: '12px', textAlign: 'left', fontWeight: '600', color: '#374151', minWidth: '120px' }}>Month</th>
-                <th style={{ padding: '12px 8px', textAlign: 'right', fontWeight: '600', color: '#374151', width: '90px' }}>Inquiries</th>
-                <th style={{ padding: '12px 8px', textAlign: 'right', fontWeight: '600', color: '#374151', width: '110px' }}>Calls Booked</th>
-                <th style={{ padding: '12px 8px', textAlign: 'right', fontWeight: '600', color: '#374151', width: '110px' }}>Calls Taken</th>
-                <th style={{ padding: '12px 8px', textAlign: 'right', fontWeight: '600', color: '#374151', width: '90px' }}>Closes</th>
+                {stages.map(stage => (
+                  <th key={stage.id} style={{ padding: '12px 8px', textAlign: 'right', fontWeight: '600', color: '#374151', width: '100px' }}>{stage.name}</th>
+                ))}
                 <th style={{ padding: '12px 8px', textAlign: 'right', fontWeight: '600', color: '#374151', width: '120px' }}>Bookings</th>
                 <th style={{ padding: '12px 8px', textAlign: 'right', fontWeight: '600', color: '#374151', width: '120px' }}>Cash</th>
                 <th style={{ padding: '12px 6px', textAlign: 'center', fontWeight: '600', color: '#374151', width: '60px' }}>Notes</th>
@@ -594,18 +617,11 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
                     <td style={{ padding: '12px', fontWeight: '500', color: '#1f2937', textAlign: 'left' }}>
                       {monthName}
                     </td>
-                    <td style={{ padding: '12px 8px', textAlign: 'right', color: '#374151' }}>
-                      {formatNumber(month.inquiries)}
-                    </td>
-                    <td style={{ padding: '12px 8px', textAlign: 'right', color: '#374151' }}>
-                      {formatNumber(month.callsBooked)}
-                    </td>
-                    <td style={{ padding: '12px 8px', textAlign: 'right', color: '#374151' }}>
-                      {formatNumber(month.callsTaken)}
-                    </td>
-                    <td style={{ padding: '12px 8px', textAlign: 'right', color: '#374151' }}>
-                      {formatNumber(month.closes)}
-                    </td>
+                    {stages.map(stage => (
+                      <td key={stage.id} style={{ padding: '12px 8px', textAlign: 'right', color: '#374151' }}>
+                        {formatNumber(stageCount(month, stage))}
+                      </td>
+                    ))}
                     <td style={{ padding: '12px 8px', textAlign: 'right', color: '#374151' }}>
                       {toUSD(month.bookings)}
                     </td>
@@ -615,16 +631,17 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
                     <td style={{ padding: '12px 6px', textAlign: 'center' }}>
                       {(() => {
                         const isFuture = isFutureMonth(month.year, month.month);
+                        const isLocked = isFuture || !canEditMonths;
                         return (
                           <button
-                            onClick={() => !isFuture && handleOpenNotesModal(month)}
-                            disabled={isFuture}
+                            onClick={() => !isLocked && handleOpenNotesModal(month)}
+                            disabled={isLocked}
                             style={{
                               background: isFuture ? 'transparent' : (hasNotes ? 'rgba(59, 130, 246, 0.12)' : 'transparent'),
                               border: isFuture ? '1px solid transparent' : (hasNotes ? '1px solid rgba(59, 130, 246, 0.25)' : '1px solid transparent'),
                               borderRadius: '6px',
                               padding: '4px',
-                              cursor: isFuture ? 'not-allowed' : 'pointer',
+                              cursor: isLocked ? 'not-allowed' : 'pointer',
                               display: 'inline-flex',
                               alignItems: 'center',
                               justifyContent: 'center',
@@ -633,7 +650,9 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
                             }}
                             title={isFuture 
                               ? 'Notes cannot be added for future months' 
-                              : (hasNotes ? 'View notes' : 'Add notes')
+                              : !canEditMonths
+                                ? (hasNotes ? month.notes || '' : 'Select a funnel to add notes')
+                                : (hasNotes ? 'View notes' : 'Add notes')
                             }
                           >
                             <StickyNote size={16} color={isFuture ? '#d1d5db' : (hasNotes ? '#2563eb' : '#9ca3af')} />
@@ -644,26 +663,29 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
                     <td style={{ padding: '12px 8px', textAlign: 'left' }}>
                       {(() => {
                         const isFuture = isFutureMonth(month.year, month.month);
+                        const isLocked = isViewOnly || isFuture || !canEditMonths;
                         return (
                           <button
-                            onClick={() => !isViewOnly && !isFuture && handleEditMonth(month)}
-                            disabled={isViewOnly || isFuture}
+                            onClick={() => !isLocked && handleEditMonth(month)}
+                            disabled={isLocked}
                             style={{
-                              backgroundColor: (isViewOnly || isFuture) ? '#e5e7eb' : '#3b82f6',
-                              color: (isViewOnly || isFuture) ? '#9ca3af' : 'white',
+                              backgroundColor: isLocked ? '#e5e7eb' : '#3b82f6',
+                              color: isLocked ? '#9ca3af' : 'white',
                               border: 'none',
                               borderRadius: '6px',
                               padding: '6px 12px',
                               fontSize: '12px',
-                              cursor: (isViewOnly || isFuture) ? 'not-allowed' : 'pointer',
+                              cursor: isLocked ? 'not-allowed' : 'pointer',
                               display: 'flex',
                               alignItems: 'center',
                               gap: '4px',
-                              opacity: (isViewOnly || isFuture) ? 0.5 : 1
+                              opacity: isLocked ? 0.5 : 1
                             }}
                             title={isFuture 
                               ? 'Future months cannot be edited - data is calculated from scheduled payments' 
-                              : (isProAccount ? 'Edit Inquiries, Calls Booked, Calls Taken, and Cash (Closes and Bookings are calculated automatically)' : 'Edit month data')
+                              : !canEditMonths
+                                ? 'Select a funnel to edit its months'
+                                : (isProAccount ? 'Edit Inquiries, Calls Booked, Calls Taken, and Cash (Closes and Bookings are calculated automatically)' : 'Edit month data')
                             }
                           >
                             <Edit size={14} />
@@ -683,18 +705,11 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
                 fontWeight: '600'
               }}>
                 <td style={{ padding: '12px', color: '#1f2937', textAlign: 'left' }}>Total</td>
-                <td style={{ padding: '12px 8px', textAlign: 'right', color: '#1f2937' }}>
-                  {formatNumber(analyticsMetrics.totalInquiries)}
-                </td>
-                <td style={{ padding: '12px 8px', textAlign: 'right', color: '#1f2937' }}>
-                  {formatNumber(analyticsMetrics.totalCallsBooked)}
-                </td>
-                <td style={{ padding: '12px 8px', textAlign: 'right', color: '#1f2937' }}>
-                  {formatNumber(analyticsMetrics.totalCallsTaken)}
-                </td>
-                <td style={{ padding: '12px 8px', textAlign: 'right', color: '#1f2937' }}>
-                  {formatNumber(analyticsMetrics.totalCloses)}
-                </td>
+                {stages.map((stage, index) => (
+                  <td key={stage.id} style={{ padding: '12px 8px', textAlign: 'right', color: '#1f2937' }}>
+                    {formatNumber(yearStageTotals[index])}
+                  </td>
+                ))}
                 <td style={{ padding: '12px 8px', textAlign: 'right', color: '#1f2937' }}>
                   {toUSD(analyticsMetrics.totalBookings)}
                 </td>
@@ -707,6 +722,7 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
             </tbody>
           </table>
         </div>
+        )}
         
       </div>
 
@@ -823,6 +839,11 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
       {/* Edit Modal */}
       {isEditModalOpen && editingMonth && (() => {
         logger.debug('Rendering edit modal', { editingMonth: editingMonth ? { year: editingMonth.year, month: editingMonth.month } : null });
+        const monthHasWeeks = rollUpFunnelWeeks(
+          funnelWeeks.filter(week => funnelIdOfWeek(week, funnels) === editFunnelId),
+          editingMonth.year,
+          editingMonth.month
+        ) !== null;
         return (
         <div style={{
           position: 'fixed',
@@ -885,63 +906,51 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
               </div>
             )}
 
-            <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
-              {/* Inquiries */}
-              <div>
-                <label style={{ display: 'block', fontSize: '14px', fontWeight: '500', color: '#374151', marginBottom: '4px' }}>
-                  Inquiries
-                </label>
-                <input
-                  type="number"
-                  value={editingMonth.inquiries}
-                  onChange={(e) => setEditingMonth({ ...editingMonth, inquiries: parseInt(e.target.value) || 0 })}
-                  style={{
-                    width: '100%',
-                    padding: '8px 12px',
-                    border: '1px solid #d1d5db',
-                    borderRadius: '6px',
-                    fontSize: '14px'
-                  }}
-                />
-              </div>
-
-              {/* Calls Booked */}
-              <div>
-                <label style={{ display: 'block', fontSize: '14px', fontWeight: '500', color: '#374151', marginBottom: '4px' }}>
-                  Calls Booked
-                </label>
-                <input
-                  type="number"
-                  value={editingMonth.callsBooked}
-                  onChange={(e) => setEditingMonth({ ...editingMonth, callsBooked: parseInt(e.target.value) || 0 })}
-                  style={{
-                    width: '100%',
-                    padding: '8px 12px',
-                    border: '1px solid #d1d5db',
-                    borderRadius: '6px',
-                    fontSize: '14px'
-                  }}
-                />
+            {monthHasWeeks && (
+              <div style={{
+                backgroundColor: '#f9fafb',
+                border: '1px solid #e5e7eb',
+                borderRadius: '8px',
+                padding: '12px',
+                marginBottom: '16px',
+                fontSize: '14px',
+                color: '#374151'
+              }}>
+                Inquiries and calls for this month are the total of its weekly rows. Edit them in the Weekly view.
               </div>
+            )}
 
-              {/* Calls Taken */}
-              <div>
-                <label style={{ display: 'block', fontSize: '14px', fontWeight: '500', color: '#374151', marginBottom: '4px' }}>
-                  Calls Taken
-                </label>
-                <input
-                  type="number"
-                  value={editingMonth.callsTaken}
-                  onChange={(e) => setEditingMonth({ ...editingMonth, callsTaken: parseInt(e.target.value) || 0 })}
-                  style={{
-                    width: '100%',
-                    padding: '8px 12px',
-                    border: '1px solid #d1d5db',
-                    borderRadius: '6px',
-                    fontSize: '14px'
-                  }}
-                />
-              </div>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+              {/* Entered stages, in funnel order (closes is below with the other calculated fields) */}
+              {stages.filter(stage => stage.source !== 'closes').map(stage => {
+                const isCustom = stage.source === 'custom';
+                const lockedByWeeks = monthHasWeeks && !isCustom;
+                return (
+                  <div key={stage.id}>
+                    <label style={{ display: 'block', fontSize: '14px', fontWeight: '500', color: '#374151', marginBottom: '4px' }}>
+                      {stage.name}
+                    </label>
+                    <input
+                      type="number"
+                      value={stageCount(editingMonth, stage)}
+                      disabled={lockedByWeeks}
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value) || 0;
+                        setEditingMonth(stage.source === 'custom'
+                          ? { ...editingMonth, stageCounts: { ...editingMonth.stageCounts, [stage.id]: value } }
+                          : { ...editingMonth, [stage.source]: value });
+                      }}
+                      style={{
+                        width: '100%',
+                        padding: '8px 12px',
+                        border: '1px solid #d1d5db',
+                        borderRadius: '6px',
+                        fontSize: '14px'
+                      }}
+                    />
+                  </div>
+                );
+              })}
 
               {/* Dynamic/Manual fields for Pro accounts */}
               {isProAccount && (() => {
@@ -961,7 +970,7 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
                     <div>
                       <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '4px' }}>
                         <label style={{ display: 'block', fontSize: '14px', fontWeight: '500', color: '#374151' }}>
-                          Closes
+                          {stages[stages.length - 1].name}
                         </label>
                         <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
                           <input
@@ -1207,6 +1216,39 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
         );
       })()}
 
+      {dataManager && (
+      <ManageFunnelsModal
+        isOpen={showManageFunnels}
+        onClose={() => setShowManageFunnels(false)}
+        funnels={funnels}
+        serviceTypes={serviceTypes as ServiceType[]}
+        onCreateFunnel={dataManager?.createFunnel}
+        onUpdateFunnel={dataManager?.updateFunnel}
+        onSetServiceTypeFunnel={dataManager?.setServiceTypeFunnel}
+        isViewOnly={isViewOnly}
+      />
+      )}
+
+      {dataManager?.saveFunnelStages && (
+      <ManageFunnelStagesModal
+        isOpen={showManageStages}
+        onClose={() => setShowManageStages(false)}
+        stages={savedStages}
+        onSave={dataManager.saveFunnelStages}
+        isViewOnly={isViewOnly}
+      />
+      )}
+
+      {dataManager?.saveFunnelData && (
+      <FunnelReconciliationModal
+        isOpen={showReconciliation}
+        onClose={() => setShowReconciliation(false)}
+        items={reconciliationItems}
+        onSave={dataManager.saveFunnelData}
+        isViewOnly={isViewOnly}
+      />
+      )}
+
       {/* CSV Import Modal for Leads Report (Funnel page) */}
       {showCSVImport && user && (
         <CSVImportModal
@@ -1215,52 +1257,45 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
           onImport={async (result: ImportResult) => {
             if (!user?.id) return;
 
+            // Leads Report: Do NOT import service types or lead sources
+            // These should be managed manually by the user since they can be very custom/nuanced
+            // We only import funnel data (inquiries and closes count)
+            const batch: Omit<ImportBatch, 'id' | 'createdAt' | 'rolledBackAt'> = {
+              fileName: result.fileName || 'Unknown file',
+              importerId: result.importerId || 'unknown',
+              rowCount: result.rowCount ?? 0,
+              bookingIds: [],
+              updatedBookings: [],
+              serviceTypeIds: [],
+              leadSourceIds: [],
+              paymentIds: [],
+              updatedPayments: [],
+              funnelMonths: [],
+            };
+            let recordedBatch: ImportBatch | null = null;
+
             try {
-              // Leads Report: Do NOT import service types or lead sources
-              // These should be managed manually by the user since they can be very custom/nuanced
-              // We only import funnel data (inquiries and closes count)
-
-              // Import funnel data (merge with existing data)
-              if (dataManager && dataManager.funnelData) {
-                for (const newFunnelData of result.funnelData) {
-                  const existing = dataManager.funnelData.find(
-                    f => f.year === newFunnelData.year && f.month === newFunnelData.month
-                  );
-                  
-                  if (existing) {
-                    // Merge: preserve existing inquiries/closes/bookings, add new inquiries
-                    const merged: typeof newFunnelData = {
-                      ...existing,
-                      inquiries: newFunnelData.inquiries > 0 ? newFunnelData.inquiries : existing.inquiries,
-                      closes: newFunnelData.closes > 0 ? newFunnelData.closes : existing.closes,
-                      bookings: newFunnelData.bookings > 0 ? newFunnelData.bookings : existing.bookings,
-                    };
-                    await dataManager.saveFunnelData(merged);
-                  } else {
-                    await dataManager.saveFunnelData(newFunnelData);
-                  }
-                }
-              } else if (user?.id) {
-                const existingFunnelData = await UnifiedDataService.getAllFunnelData(user.id);
-                for (const newFunnelData of result.funnelData) {
-                  const existing = existingFunnelData.find(
-                    f => f.year === newFunnelData.year && f.month === newFunnelData.month
-                  );
-                  
-                  if (existing) {
-                    const merged: typeof newFunnelData = {
-                      ...existing,
-                      inquiries: newFunnelData.inquiries > 0 ? newFunnelData.inquiries : existing.inquiries,
-                      closes: newFunnelData.closes > 0 ? newFunnelData.closes : existing.closes,
-                      bookings: newFunnelData.bookings > 0 ? newFunnelData.bookings : existing.bookings,
-                    };
-                    await UnifiedDataService.saveFunnelData(user.id, merged);
-                  } else {
-                    await UnifiedDataService.saveFunnelData(user.id, newFunnelData);
-                  }
+              // Start the batch before writing anything, so a run that fails partway can still be rolled back
+              recordedBatch = await UnifiedDataService.createImportBatch(user.id, batch, isViewOnly);
+              if (!recordedBatch) {
+                throw new Error('Could not start a rollback record for this import, so nothing was imported. Please try again.');
+              }
+
+              // Import funnel data into the funnel being edited, exactly as the preview showed it
+              const existingFunnelData: FunnelData[] = dataManager?.funnelData || await UnifiedDataService.getAllFunnelData(user.id);
+              const preview = buildImportPreview(result, salesData, existingFunnelData, paymentsData, funnels, editFunnelId);
+
+              for (const change of preview.funnelMonths) {
+                const success = dataManager
+                  ? await dataManager.saveFunnelData(change.after)
+                  : await UnifiedDataService.saveFunnelData(user.id, change.after);
+                if (success) {
+                  batch.funnelMonths.push({ funnelId: change.funnelId, year: change.year, month: change.month, previous: change.before });
                 }
               }
 
+              const batchSaved = await UnifiedDataService.updateImportBatch(user.id, recordedBatch.id, batch, isViewOnly);
+
               // Reload data if using data manager
               if (dataManager && dataManager.loadAllData) {
                 await dataManager.loadAllData();
@@ -1269,8 +1304,15 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
               setShowCSVImport(false);
               // Show success message
               alert(`Successfully imported ${result.funnelData.length} months of funnel data!`);
+              if (!batchSaved) {
+                alert('The import finished, but it could not be recorded in the import history, so it cannot be rolled back.');
+              }
               window.location.reload(); // Refresh to show updated data
             } catch (error) {
+              // Record what was written before the failure, so it can still be rolled back
+              if (recordedBatch) {
+                await UnifiedDataService.updateImportBatch(user.id, recordedBatch.id, batch, isViewOnly);
+              }
               console.error('Error importing CSV data:', error);
               const errorMessage = error instanceof Error ? error.message : 'Failed to import data. Please try again.';
               alert(`Import error: ${errorMessage}`);
@@ -1279,6 +1321,11 @@ export default function Funnel({ funnelData, dataManager, salesData = [], paymen
           }}
           existingServiceTypes={serviceTypes}
           existingLeadSources={leadSources}
+          existingBookings={salesData}
+          existingFunnelData={funnelData}
+          existingPayments={paymentsData}
+          funnels={funnels}
+          funnelId={editFunnelId}
           userId={user.id}
           pageType="funnel"
         />
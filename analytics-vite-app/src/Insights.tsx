@@ -3,36 +3,30 @@ import { useAuth } from './contexts/AuthContext'
 import Forecast from './Forecast'
 import ForecastModeling from './ForecastModeling'
 import Calculator from './Calculator'
-import type { FunnelData, Booking, Payment, ServiceType, AdCampaign, LeadSource, ForecastModel } from './types'
-import { Users, Phone, CheckCircle, DollarSign, TrendingUp, Target, BarChart3, Plus, X, ArrowRight } from 'lucide-react'
+import type { FunnelData, FunnelDefinition, FunnelStage, Booking, Payment, ServiceType, AdCampaign, LeadSource, ForecastModel, ForecastSnapshot } from './types'
+import { CheckCircle, DollarSign, TrendingUp, Target, BarChart3, Plus, X, ArrowRight, FileText } from 'lucide-react'
 import { logger } from './utils/logger'
+import PerformanceReportModal from './components/PerformanceReportModal'
+import FunnelSelector from './components/FunnelSelector'
+import StageIcon from './components/StageIcon'
+import InquiryCohorts from './components/InquiryCohorts'
+import ForecastAccuracy from './components/ForecastAccuracy'
+import { ALL_FUNNELS, buildFunnelMonths, scopeToFunnel, type FunnelSelection } from './services/funnelScope'
+import { orderedStages } from './services/funnelStages'
+import { calculateInquiryCohorts } from './services/inquiryCohorts'
+import { calculateForecastAccuracy } from './services/forecastAccuracy'
+import {
+  type MonthRange,
+  monthToIndex,
+  calculateSalesTotals,
+  calculateCallTotals,
+  calculateStageFunnel,
+  calculateLeadSourceBreakdown,
+  calculateAdvertisingTotals
+} from './services/insightsMetrics'
 
-type MonthRange = { start: number; end: number }
 type TimeFilterOption = { key: string; label: string }
 
-const monthToIndex = (year: number, month: number) => year * 12 + (month - 1)
-
-const isMonthInRange = (year: number, month: number, range: MonthRange) => {
-  const idx = monthToIndex(year, month)
-  return idx >= range.start && idx <= range.end
-}
-
-const parseDateToMonthIndex = (date: string | undefined) => {
-  if (!date) return null
-  const parts = date.split('-')
-  if (parts.length < 2) return null
-  const year = parseInt(parts[0], 10)
-  const month = parseInt(parts[1], 10)
-  if (!Number.isFinite(year) || !Number.isFinite(month)) return null
-  return monthToIndex(year, month)
-}
-
-const isDateInRange = (date: string | undefined, range: MonthRange) => {
-  const idx = parseDateToMonthIndex(date)
-  if (idx === null) return false
-  return idx >= range.start && idx <= range.end
-}
-
 export default function Insights({ dataManager }: { dataManager: any }) {
   const { user, isViewOnly, effectiveUserId } = useAuth()
   const currentDateInfo = useMemo(() => {
@@ -42,21 +36,29 @@ export default function Insights({ dataManager }: { dataManager: any }) {
   const [sectionFilters, setSectionFilters] = useState<{
     salesFunnel: string
     leadSources: string
+    cohorts: string
     advertising: string
   }>({
     salesFunnel: 'currentYear',
     leadSources: 'currentYear',
+    cohorts: 'past12Months',
     advertising: 'currentYear'
   })
   const [forecastModels, setForecastModels] = useState<ForecastModel[]>([])
+  const [forecastSnapshots, setForecastSnapshots] = useState<ForecastSnapshot[]>([])
   const [loadingForecastModels, setLoadingForecastModels] = useState(true)
-
-  const funnelData: FunnelData[] = dataManager?.funnelData || []
-  const bookings: Booking[] = dataManager?.bookings || []
-  const payments: Payment[] = dataManager?.payments || []
-  const serviceTypes: ServiceType[] = dataManager?.serviceTypes || []
-  const adCampaigns: AdCampaign[] = dataManager?.adCampaigns || []
-  const leadSources: LeadSource[] = dataManager?.leadSources || []
+  const [showPerformanceReport, setShowPerformanceReport] = useState(false)
+  const [selectedFunnel, setSelectedFunnel] = useState<FunnelSelection>(ALL_FUNNELS)
+
+  const funnels: FunnelDefinition[] = useMemo(() => dataManager?.funnels || [], [dataManager?.funnels])
+  const funnelData: FunnelData[] = useMemo(() => dataManager?.funnelData || [], [dataManager?.funnelData])
+  const savedStages: FunnelStage[] = useMemo(() => dataManager?.funnelStages || [], [dataManager?.funnelStages])
+  const stages = useMemo(() => orderedStages(savedStages), [savedStages])
+  const bookings: Booking[] = useMemo(() => dataManager?.bookings || [], [dataManager?.bookings])
+  const payments: Payment[] = useMemo(() => dataManager?.payments || [], [dataManager?.payments])
+  const serviceTypes: ServiceType[] = useMemo(() => dataManager?.serviceTypes || [], [dataManager?.serviceTypes])
+  const adCampaigns: AdCampaign[] = useMemo(() => dataManager?.adCampaigns || [], [dataManager?.adCampaigns])
+  const leadSources: LeadSource[] = useMemo(() => dataManager?.leadSources || [], [dataManager?.leadSources])
 
   // Load forecast models to check for active forecast
   useEffect(() => {
@@ -68,11 +70,16 @@ export default function Insights({ dataManager }: { dataManager: any }) {
       }
       try {
         const { UnifiedDataService } = await import('./services/unifiedDataService')
-        const models = await UnifiedDataService.getForecastModels(userId)
+        const [models, snapshots] = await Promise.all([
+          UnifiedDataService.getForecastModels(userId),
+          UnifiedDataService.getForecastSnapshots(userId)
+        ])
         setForecastModels(models)
+        setForecastSnapshots(snapshots)
       } catch (error) {
         console.error('Error loading forecast models:', error)
         setForecastModels([])
+        setForecastSnapshots([])
       } finally {
         setLoadingForecastModels(false)
       }
@@ -95,8 +102,6 @@ export default function Insights({ dataManager }: { dataManager: any }) {
     leadSourcesCount: leadSources.length,
   });
 
-  const trackableServiceIds = useMemo(() => new Set(serviceTypes.filter(st => st.tracksInFunnel).map(st => st.id)), [serviceTypes])
-
   const yearsWithBookings = useMemo(() => {
     const years = new Set<number>()
     bookings.forEach(b => {
@@ -128,7 +133,7 @@ export default function Insights({ dataManager }: { dataManager: any }) {
     setSectionFilters(prev => {
       let changed = false
       const next = { ...prev }
-      ;(['salesFunnel', 'leadSources', 'advertising'] as const).forEach(section => {
+      ;(['salesFunnel', 'leadSources', 'cohorts', 'advertising'] as const).forEach(section => {
         if (!validFilterKeys.has(prev[section])) {
           next[section] = 'currentYear'
           changed = true
@@ -175,277 +180,64 @@ export default function Insights({ dataManager }: { dataManager: any }) {
     }
   }, [currentDateInfo])
 
-  const handleFilterChange = useCallback((section: 'salesFunnel' | 'leadSources' | 'advertising', value: string) => {
+  const handleFilterChange = useCallback((section: 'salesFunnel' | 'leadSources' | 'cohorts' | 'advertising', value: string) => {
     setSectionFilters(prev => ({ ...prev, [section]: value }))
   }, [])
 
+  // Sales funnel, calculator, lead sources and cohorts follow the funnel selector; advertising is account-wide
+  const funnelScope = useMemo(
+    () => scopeToFunnel(selectedFunnel, { funnels, funnelData, bookings, payments, serviceTypes }),
+    [selectedFunnel, funnels, funnelData, bookings, payments, serviceTypes]
+  )
+
   // SALES FUNNEL
   const salesFunnelRange = useMemo(() => buildMonthRange(sectionFilters.salesFunnel), [buildMonthRange, sectionFilters.salesFunnel])
   
-  // Calculate dynamic values for the filtered range (same logic as Funnel component)
-  const calculateDynamicDataForRange = useMemo(() => {
-    const monthlyData: { [key: string]: { bookings: number; closes: number; cash: number } } = {}
-    
-    // Initialize months in range
-    for (let year = Math.floor(salesFunnelRange.start / 12); year <= Math.floor(salesFunnelRange.end / 12); year++) {
-      for (let month = 1; month <= 12; month++) {
-        const idx = monthToIndex(year, month)
-        if (idx >= salesFunnelRange.start && idx <= salesFunnelRange.end) {
-          const key = `${year}-${month}`
-          monthlyData[key] = { bookings: 0, closes: 0, cash: 0 }
-        }
-      }
-    }
-    
-    // Helper to parse year/month from date string
-    const parseYearMonth = (dateString: string | undefined | null): { year: number; month: number } | null => {
-      if (!dateString) return null
-      const parts = dateString.split('-')
-      if (parts.length >= 2) {
-        const yearNum = parseInt(parts[0], 10)
-        const monthNum = parseInt(parts[1], 10)
-        if (Number.isFinite(yearNum) && Number.isFinite(monthNum) && monthNum >= 1 && monthNum <= 12) {
-          return { year: yearNum, month: monthNum }
-        }
-      }
-      return null
-    }
-    
-    // Calculate bookings and closes from sales data
-    bookings.forEach((booking: Booking) => {
-      const parsed = parseYearMonth(booking?.dateBooked)
-      if (!parsed) return
-      const idx = monthToIndex(parsed.year, parsed.month)
-      if (idx < salesFunnelRange.start || idx > salesFunnelRange.end) return
-      
-      const key = `${parsed.year}-${parsed.month}`
-      if (!monthlyData[key]) monthlyData[key] = { bookings: 0, closes: 0, cash: 0 }
-      
-      monthlyData[key].bookings += booking.bookedRevenue || 0
-      if (trackableServiceIds.has(booking.serviceTypeId)) {
-        monthlyData[key].closes += 1
-      }
-    })
-    
-    // Calculate Cash from scheduled/expected payments
-    payments.forEach((payment: Payment) => {
-      let dateStr = payment.expectedDate || payment.dueDate || payment.paymentDate
-      if (!dateStr) return
-      
-      const parsed = parseYearMonth(dateStr)
-      if (!parsed) return
-      const idx = monthToIndex(parsed.year, parsed.month)
-      if (idx < salesFunnelRange.start || idx > salesFunnelRange.end) return
-      
-      const key = `${parsed.year}-${parsed.month}`
-      if (!monthlyData[key]) monthlyData[key] = { bookings: 0, closes: 0, cash: 0 }
-      
-      monthlyData[key].cash += payment.amount || payment.amountCents || 0
-    })
-    
-    return monthlyData
-  }, [salesFunnelRange, bookings, payments, trackableServiceIds])
-  
   // Apply manual override logic to funnel data (same as Funnel component)
-  // For "Current Year", ensure we include ALL 12 months (even if not in funnelData yet)
+  // For "Current Year" or a past year, include ALL 12 months (even if not in funnelData yet)
   const salesFunnelMonths = useMemo(() => {
-    const existingMonths = funnelData.filter(month => isMonthInRange(month.year, month.month, salesFunnelRange))
-    
-    // If filtering for a full year (currentYear or year-YYYY), create all 12 months
     const isFullYear = sectionFilters.salesFunnel === 'currentYear' || sectionFilters.salesFunnel.startsWith('year-')
-    let targetYear = currentDateInfo.year
-    if (sectionFilters.salesFunnel.startsWith('year-')) {
-      targetYear = parseInt(sectionFilters.salesFunnel.split('-')[1], 10)
-    }
-    
-    if (isFullYear) {
-      // Create all 12 months for the target year
-      const months = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
-      return months.map((monthName, index) => {
-        const monthNumber = index + 1
-        const existingData = existingMonths.find(m => m.year === targetYear && m.month === monthNumber)
-        const key = `${targetYear}-${monthNumber}`
-        const dynamicData = calculateDynamicDataForRange[key] || { bookings: 0, closes: 0, cash: 0 }
-        
-        // Use manual value if flag is set, otherwise use dynamic value
-        return {
-          id: existingData?.id || `${targetYear}_${monthName.toLowerCase()}`,
-          year: targetYear,
-          month: monthNumber,
-          inquiries: existingData?.inquiries || 0,
-          callsBooked: existingData?.callsBooked || 0,
-          callsTaken: existingData?.callsTaken || 0,
-          closes: existingData?.closesManual ? (existingData.closes || 0) : dynamicData.closes,
-          bookings: existingData?.bookingsManual ? (existingData.bookings || 0) : dynamicData.bookings,
-          cash: existingData?.cashManual ? (existingData.cash || 0) : dynamicData.cash,
-          closesManual: existingData?.closesManual || false,
-          bookingsManual: existingData?.bookingsManual || false,
-          cashManual: existingData?.cashManual || false,
-          notes: existingData?.notes || '',
-          lastUpdated: existingData?.lastUpdated || new Date().toISOString()
-        }
-      })
-    } else {
-      // For date ranges (past 3/6/12 months), only use existing months
-      return existingMonths.map(month => {
-        const key = `${month.year}-${month.month}`
-        const dynamicData = calculateDynamicDataForRange[key] || { bookings: 0, closes: 0, cash: 0 }
-        
-        // Use manual value if flag is set, otherwise use dynamic value
-        return {
-          ...month,
-          closes: month.closesManual ? (month.closes || 0) : dynamicData.closes,
-          bookings: month.bookingsManual ? (month.bookings || 0) : dynamicData.bookings,
-          cash: month.cashManual ? (month.cash || 0) : dynamicData.cash
-        }
-      })
-    }
-  }, [funnelData, salesFunnelRange, calculateDynamicDataForRange, sectionFilters.salesFunnel, currentDateInfo.year])
-  
-  // Calculate average wedding booking for the filtered period
-  const avgWeddingBooking = useMemo(() => {
-    // Find Wedding service type
-    const weddingServiceType = serviceTypes.find(st => st.name === 'Wedding')
-    if (!weddingServiceType) return 0
-    
-    // Filter bookings for the selected time range that are Wedding service type
-    const weddingBookings = bookings.filter(b => {
-      if (b.serviceTypeId !== weddingServiceType.id) return false
-      return isDateInRange(b.dateBooked, salesFunnelRange)
-    })
-    
-    if (weddingBookings.length === 0) return 0
-    
-    // Calculate average: total revenue / number of bookings
-    const totalRevenue = weddingBookings.reduce((sum, b) => sum + (b.bookedRevenue || 0), 0)
-    return Math.round(totalRevenue / weddingBookings.length)
-  }, [bookings, serviceTypes, salesFunnelRange])
+    return buildFunnelMonths(selectedFunnel, { funnels, funnelData, bookings, payments, serviceTypes }, salesFunnelRange, isFullYear)
+  }, [selectedFunnel, funnels, funnelData, bookings, payments, serviceTypes, salesFunnelRange, sectionFilters.salesFunnel])
 
   // Use values from funnelData which already respects manual overrides
-  const salesTotals = useMemo(() => {
-    const totalInquiries = salesFunnelMonths.reduce((sum, month) => sum + (month.inquiries || 0), 0)
-    const totalCash = salesFunnelMonths.reduce((sum, month) => sum + (month.cash || 0), 0)
-    // Use closes and bookings from funnelData (respects manual overrides)
-    const totalCloses = salesFunnelMonths.reduce((sum, month) => sum + (month.closes || 0), 0)
-    const totalBookings = salesFunnelMonths.reduce((sum, month) => sum + (month.bookings || 0), 0)
-    const monthsWithData = salesFunnelMonths.filter(month =>
-      (month.inquiries || 0) > 0 ||
-      (month.callsBooked || 0) > 0 ||
-      (month.callsTaken || 0) > 0 ||
-      (month.closes || 0) > 0 ||
-      (month.bookings || 0) > 0
-    ).length
-    const avgInquiries = monthsWithData > 0 ? Math.round(totalInquiries / monthsWithData) : 0
-    const avgCloses = monthsWithData > 0 ? Math.round(totalCloses / monthsWithData) : 0
-    const avgBookings = monthsWithData > 0 ? Math.round(totalBookings / monthsWithData) : 0
-    const avgCash = monthsWithData > 0 ? Math.round(totalCash / monthsWithData) : 0
-    const inquiryToClose = totalInquiries > 0 ? ((totalCloses / totalInquiries) * 100).toFixed(1) : '0.0'
-    return { totalInquiries, totalCloses, totalBookings, totalCash, inquiryToClose, monthsWithData, avgInquiries, avgCloses, avgBookings, avgCash, avgWeddingBooking }
-  }, [salesFunnelMonths, avgWeddingBooking])
-
-  const callTotals = useMemo(() => {
-    const totalInquiries = salesFunnelMonths.reduce((sum, month) => sum + (month.inquiries || 0), 0)
-    const totalCallsBooked = salesFunnelMonths.reduce((sum, month) => sum + (month.callsBooked || 0), 0)
-    const totalCallsTaken = salesFunnelMonths.reduce((sum, month) => sum + (month.callsTaken || 0), 0)
-    // Use closes and bookings from funnelData (respects manual overrides)
-    const totalCloses = salesFunnelMonths.reduce((sum, month) => sum + (month.closes || 0), 0)
-    const totalBookings = salesFunnelMonths.reduce((sum, month) => sum + (month.bookings || 0), 0)
-    const monthsWithData = salesFunnelMonths.filter(month =>
-      (month.inquiries || 0) > 0 ||
-      (month.callsBooked || 0) > 0 ||
-      (month.callsTaken || 0) > 0 ||
-      (month.closes || 0) > 0 ||
-      (month.bookings || 0) > 0
-    ).length
-    const avgCallsBooked = monthsWithData > 0 ? Math.round(totalCallsBooked / monthsWithData) : 0
-    const avgCallsTaken = monthsWithData > 0 ? Math.round(totalCallsTaken / monthsWithData) : 0
-    const inquiryToBooked = totalInquiries > 0 ? ((totalCallsBooked / totalInquiries) * 100).toFixed(1) : '0.0'
-    const inquiryToTaken = totalInquiries > 0 ? ((totalCallsTaken / totalInquiries) * 100).toFixed(1) : '0.0'
-    const showUpRate = totalCallsBooked > 0 ? ((totalCallsTaken / totalCallsBooked) * 100).toFixed(1) : '0.0'
-    const takenToClose = totalCallsTaken > 0 ? ((totalCloses / totalCallsTaken) * 100).toFixed(1) : '0.0'
-    const revenuePerCallTaken = totalCallsTaken > 0 ? Math.round(totalBookings / totalCallsTaken) : 0
-    return { totalCallsBooked, totalCallsTaken, inquiryToBooked, inquiryToTaken, showUpRate, takenToClose, revenuePerCallTaken, avgCallsBooked, avgCallsTaken }
-  }, [salesFunnelMonths])
+  const salesTotals = useMemo(
+    () => calculateSalesTotals(salesFunnelMonths, funnelScope.bookings, funnelScope.serviceTypes, salesFunnelRange),
+    [salesFunnelMonths, funnelScope, salesFunnelRange]
+  )
+
+  const callTotals = useMemo(() => calculateCallTotals(salesFunnelMonths), [salesFunnelMonths])
+
+  const stageFunnel = useMemo(() => calculateStageFunnel(stages, salesFunnelMonths), [stages, salesFunnelMonths])
 
   // LEAD SOURCES
   const leadSourcesRange = useMemo(() => buildMonthRange(sectionFilters.leadSources), [buildMonthRange, sectionFilters.leadSources])
-  const leadSourceBookings = useMemo(
-    () => bookings.filter(b => trackableServiceIds.has(b.serviceTypeId) && isDateInRange(b.dateBooked, leadSourcesRange)),
-    [bookings, leadSourcesRange, trackableServiceIds]
+  const leadSourceBreakdown = useMemo(
+    () => calculateLeadSourceBreakdown(funnelScope.bookings, leadSources, funnelScope.serviceTypes, leadSourcesRange),
+    [funnelScope, leadSources, leadSourcesRange]
+  )
+
+  // INQUIRY COHORTS
+  const cohortsRange = useMemo(() => buildMonthRange(sectionFilters.cohorts), [buildMonthRange, sectionFilters.cohorts])
+  const inquiryCohorts = useMemo(() => {
+    const months = buildFunnelMonths(selectedFunnel, { funnels, funnelData, bookings, payments, serviceTypes }, cohortsRange, true)
+    return calculateInquiryCohorts(months, funnelScope.bookings, funnelScope.serviceTypes, leadSources, cohortsRange)
+  }, [selectedFunnel, funnels, funnelData, bookings, payments, serviceTypes, cohortsRange, funnelScope, leadSources])
+
+  // FORECAST ACCURACY
+  const forecastAccuracy = useMemo(
+    () => calculateForecastAccuracy(forecastSnapshots, { funnels, funnelData, bookings, payments, serviceTypes }),
+    [forecastSnapshots, funnels, funnelData, bookings, payments, serviceTypes]
   )
-  const leadSourceBreakdown = useMemo(() => {
-    const byCount: Record<string, number> = {}
-    const byRevenue: Record<string, number> = {}
-    leadSourceBookings.forEach(b => {
-      const lsId = b.leadSourceId
-      byCount[lsId] = (byCount[lsId] || 0) + 1
-      byRevenue[lsId] = (byRevenue[lsId] || 0) + (b.bookedRevenue || 0)
-    })
-    const totalCount = Object.values(byCount).reduce((sum, value) => sum + value, 0)
-    const totalRevenue = Object.values(byRevenue).reduce((sum, value) => sum + value, 0)
-    const items = Object.keys(byCount).map(lsId => {
-      const name = leadSources.find(l => l.id === lsId)?.name || 'Unknown'
-      const count = byCount[lsId] || 0
-      const revenue = byRevenue[lsId] || 0
-      const pctCount = totalCount > 0 ? Math.round((count / totalCount) * 100) : 0
-      const pctRevenue = totalRevenue > 0 ? Math.round((revenue / totalRevenue) * 100) : 0
-      return { id: lsId, name, count, revenue, pctCount, pctRevenue }
-    })
-    const byCountDesc = [...items].sort((a, b) => b.count - a.count)
-    const byRevenueDesc = [...items].sort((a, b) => b.revenue - a.revenue)
-    return { items, totalCount, totalRevenue, byCountDesc, byRevenueDesc }
-  }, [leadSourceBookings, leadSources])
 
   // ADVERTISING
   const advertisingRange = useMemo(() => buildMonthRange(sectionFilters.advertising), [buildMonthRange, sectionFilters.advertising])
-  const filteredAdCampaigns = useMemo(
-    () => adCampaigns.filter(c => !c.id.startsWith('default_') && isMonthInRange(c.year, c.month, advertisingRange)),
-    [adCampaigns, advertisingRange]
-  )
-  const dedupedAdCampaigns = useMemo(() => {
-    const seenKeys = new Set<string>()
-    const campaigns: AdCampaign[] = []
-    filteredAdCampaigns.forEach(campaign => {
-      const key = `${campaign.leadSourceId}_${campaign.year}_${campaign.month}`
-      if (!seenKeys.has(key)) {
-        seenKeys.add(key)
-        campaigns.push(campaign)
-      }
-    })
-    return campaigns
-  }, [filteredAdCampaigns])
-  const advertisingBookings = useMemo(
-    () => bookings.filter(b => isDateInRange(b.dateBooked, advertisingRange)),
-    [bookings, advertisingRange]
-  )
-  const advertisingLeadSourceIds = useMemo(() => {
-    const ids = new Set<string>()
-    dedupedAdCampaigns.forEach(c => ids.add(c.leadSourceId))
-    return ids
-  }, [dedupedAdCampaigns])
-  const advertisingTotals = useMemo<{
-    totalAdSpend: number
-    totalBookedFromAds: number
-    overallROI: number | null
-    costPerClose: number
-  }>(() => {
+  const advertisingTotals = useMemo(() => {
     if (!dataManager || dataManager.loading) {
       return { totalAdSpend: 0, totalBookedFromAds: 0, overallROI: null, costPerClose: 0 }
     }
-    if (dedupedAdCampaigns.length === 0) {
-      return { totalAdSpend: 0, totalBookedFromAds: 0, overallROI: null, costPerClose: 0 }
-    }
-    const totalAdSpend = dedupedAdCampaigns.reduce((sum, campaign) => {
-      const spend = campaign.spend ?? campaign.adSpendCents ?? 0
-      return sum + spend
-    }, 0)
-    const bookingsFromAds = advertisingBookings.filter(b => advertisingLeadSourceIds.has(b.leadSourceId))
-    const totalBookedFromAds = bookingsFromAds.reduce((sum, booking) => sum + (booking.revenue || booking.bookedRevenue || 0), 0)
-    const closesFromAds = bookingsFromAds.length
-    const overallROI = totalAdSpend > 0 && totalBookedFromAds > 0 ? totalBookedFromAds / totalAdSpend : null
-    const costPerClose = closesFromAds > 0 ? Math.round(totalAdSpend / closesFromAds) : 0
-    return { totalAdSpend, totalBookedFromAds, overallROI, costPerClose }
-  }, [dataManager, dataManager?.loading, dedupedAdCampaigns, advertisingBookings, advertisingLeadSourceIds])
+    return calculateAdvertisingTotals(adCampaigns, bookings, advertisingRange)
+  }, [dataManager, adCampaigns, bookings, advertisingRange])
 
   const toUSD = (cents: number) => (cents / 100).toLocaleString(undefined, { style: 'currency', currency: 'USD' })
   const formatNumber = (n: number) => n.toLocaleString()
@@ -454,8 +246,37 @@ export default function Insights({ dataManager }: { dataManager: any }) {
     <div style={{ padding: '24px', maxWidth: '1200px', margin: '0 auto' }}>
       <div style={{ marginBottom: '24px', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
         <h1 style={{ fontSize: '28px', fontWeight: 700, margin: 0, color: '#1f2937' }}>Insights</h1>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <FunnelSelector funnels={funnels} value={selectedFunnel} onChange={setSelectedFunnel} />
+        <button
+          onClick={() => setShowPerformanceReport(true)}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            padding: '8px 16px',
+            border: '1px solid #d1d5db',
+            borderRadius: '6px',
+            backgroundColor: 'white',
+            color: '#374151',
+            fontSize: '14px',
+            fontWeight: 500,
+            cursor: 'pointer'
+          }}
+        >
+          <FileText size={16} />
+          Performance Report
+        </button>
+        </div>
       </div>
 
+      <PerformanceReportModal
+        isOpen={showPerformanceReport}
+        onClose={() => setShowPerformanceReport(false)}
+        data={{ funnels, funnelData, bookings, payments, serviceTypes, leadSources, adCampaigns, forecastModels }}
+        companyName={user?.companyName}
+      />
+
       {/* Welcome Section and Tasks */}
       <WelcomeAndTasks 
         user={user}
@@ -465,7 +286,7 @@ export default function Insights({ dataManager }: { dataManager: any }) {
 
       {/* CALCULATOR */}
       <Section title="Sales Calculator">
-        <Calculator dataManager={dataManager} compact />
+        <Calculator dataManager={dataManager} compact funnelSelection={selectedFunnel} />
       </Section>
 
       {/* SALES FUNNEL */}
@@ -479,25 +300,32 @@ export default function Insights({ dataManager }: { dataManager: any }) {
           />
         }
       >
-        <Cards>
-          {/* Row 1 */}
-          <Card icon={<Users size={20} color="#3b82f6" />} label="Inquiries" value={formatNumber(salesTotals.totalInquiries)} sub={`Avg: ${formatNumber(salesTotals.avgInquiries)}/month`} />
-          <Card icon={<Phone size={20} color="#10b981" />} label="Calls Booked" value={formatNumber(callTotals.totalCallsBooked)} sub={`Avg: ${formatNumber(callTotals.avgCallsBooked)}/month`} />
-          <Card icon={<Phone size={20} color="#f59e0b" />} label="Calls Taken" value={formatNumber(callTotals.totalCallsTaken)} sub={`Avg: ${formatNumber(callTotals.avgCallsTaken)}/month`} />
-          <Card icon={<CheckCircle size={20} color="#ef4444" />} label="Closes" value={formatNumber(salesTotals.totalCloses)} sub={`Avg: ${formatNumber(salesTotals.avgCloses)}/month`} />
-
-          {/* Row 2 */}
-          <Card icon={<DollarSign size={20} color="#8b5cf6" />} label="Bookings" value={toUSD(salesTotals.totalBookings)} sub={`Avg: ${toUSD(salesTotals.avgBookings)}/month`} />
-          <Card icon={<DollarSign size={20} color="#10b981" />} label="Cash" value={toUSD(salesTotals.totalCash)} sub={`Avg: ${toUSD(salesTotals.avgCash)}/month`} />
-          <Card icon={<DollarSign size={20} color="#10b981" />} label="Revenue Per Call Taken" value={toUSD(callTotals.revenuePerCallTaken)} sub="Per call value" />
-          <Card icon={<DollarSign size={20} color="#f59e0b" />} label="Average Wedding Booking" value={toUSD(salesTotals.avgWeddingBooking)} sub="Wedding service average" />
-
-          {/* Row 3 */}
-          <Card icon={<Users size={20} color="#3b82f6" />} label="Inquiry to Call Taken %" value={`${callTotals.inquiryToTaken}%`} sub="Inquiry conversion" />
-          <Card icon={<CheckCircle size={20} color="#ef4444" />} label="Call Taken to Close %" value={`${callTotals.takenToClose}%`} sub="Call completion" />
-          <Card icon={<TrendingUp size={20} color="#06b6d4" />} label="Inquiry to Close %" value={`${salesTotals.inquiryToClose}%`} sub="Overall conversion" />
-          <Card icon={<Target size={20} color="#8b5cf6" />} label="Call Show Up Rate" value={`${callTotals.showUpRate}%`} sub="Call attendance" />
-        </Cards>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+          {/* Row 1: one card per funnel stage */}
+          <Cards>
+            {stageFunnel.stages.map(({ stage, total, average }) => (
+              <Card key={stage.id} icon={<StageIcon source={stage.source} />} label={stage.name} value={formatNumber(total)} sub={`Avg: ${formatNumber(average)}/month`} />
+            ))}
+          </Cards>
+
+          <Cards>
+            {/* Row 2 */}
+            <Card icon={<DollarSign size={20} color="#8b5cf6" />} label="Bookings" value={toUSD(salesTotals.totalBookings)} sub={`Avg: ${toUSD(salesTotals.avgBookings)}/month`} />
+            <Card icon={<DollarSign size={20} color="#10b981" />} label="Cash" value={toUSD(salesTotals.totalCash)} sub={`Avg: ${toUSD(salesTotals.avgCash)}/month`} />
+            <Card icon={<DollarSign size={20} color="#10b981" />} label="Revenue Per Call Taken" value={toUSD(callTotals.revenuePerCallTaken)} sub="Per call value" />
+            <Card icon={<DollarSign size={20} color="#f59e0b" />} label="Average Wedding Booking" value={toUSD(salesTotals.avgWeddingBooking)} sub="Wedding service average" />
+          </Cards>
+
+          {/* Row 3: conversion from each stage to the next, then first to last */}
+          <Cards>
+            {stageFunnel.conversions.map(({ from, to, rate }) => (
+              <Card key={`${from.id}-${to.id}`} icon={<Target size={20} color="#8b5cf6" />} label={`${from.name} to ${to.name} %`} value={`${(rate ?? 0).toFixed(1)}%`} sub="Stage conversion" />
+            ))}
+            {stages.length > 2 && (
+              <Card icon={<TrendingUp size={20} color="#06b6d4" />} label={`${stages[0].name} to ${stages[stages.length - 1].name} %`} value={`${(stageFunnel.overallRate ?? 0).toFixed(1)}%`} sub="Overall conversion" />
+            )}
+          </Cards>
+        </div>
       </Section>
 
       {/* SALES FORECAST - Tracker from Forecast Modeling (use existing component for now) */}
@@ -565,6 +393,11 @@ export default function Insights({ dataManager }: { dataManager: any }) {
         </div>
       </Section>
 
+      {/* FORECAST ACCURACY */}
+      <Section title="Forecast Accuracy">
+        <ForecastAccuracy accuracy={forecastAccuracy} />
+      </Section>
+
       {/* FORECAST TRENDS */}
       <Section title="Forecast Trends">
         <div style={{ background: 'white', border: '1px solid #e5e7eb', borderRadius: 12 }}>
@@ -637,6 +470,20 @@ export default function Insights({ dataManager }: { dataManager: any }) {
         <p style={{ marginTop: 8, fontSize: 12, color: '#6b7280' }}>Includes only bookings whose service types are tracked in the Funnel.</p>
       </Section>
 
+      {/* INQUIRY COHORTS */}
+      <Section
+        title="Inquiry Cohorts"
+        actions={
+          <TimeFilterSelect
+            value={sectionFilters.cohorts}
+            onChange={(value) => handleFilterChange('cohorts', value)}
+            options={timeFilterOptions}
+          />
+        }
+      >
+        <InquiryCohorts analysis={inquiryCohorts} />
+      </Section>
+
       {/* ADVERTISING */}
       <Section
         title="Advertising"
@@ -758,31 +605,31 @@ function WelcomeAndTasks({ user, funnelData, dataManager }: { user: any; funnelD
 
   // Check if current month has data
   const currentMonthHasData = useMemo(() => {
-    const monthData = funnelData.find(
-      f => f.year === currentMonth.year && f.month === currentMonth.month
-    )
-    return monthData && (
-      (monthData.inquiries || 0) > 0 ||
-      (monthData.callsBooked || 0) > 0 ||
-      (monthData.callsTaken || 0) > 0 ||
-      (monthData.closes || 0) > 0 ||
-      (monthData.bookings || 0) > 0 ||
-      (monthData.cash || 0) > 0
+    // Any funnel's row for the month counts
+    return funnelData.some(monthData =>
+      monthData.year === currentMonth.year && monthData.month === currentMonth.month && (
+        (monthData.inquiries || 0) > 0 ||
+        (monthData.callsBooked || 0) > 0 ||
+        (monthData.callsTaken || 0) > 0 ||
+        (monthData.closes || 0) > 0 ||
+        (monthData.bookings || 0) > 0 ||
+        (monthData.cash || 0) > 0
+      )
     )
   }, [funnelData, currentMonth])
 
   // Check if last month has data
   const lastMonthHasData = useMemo(() => {
-    const monthData = funnelData.find(
-      f => f.year === lastMonth.year && f.month === lastMonth.month
-    )
-    return monthData && (
-      (monthData.inquiries || 0) > 0 ||
-      (monthData.callsBooked || 0) > 0 ||
-      (monthData.callsTaken || 0) > 0 ||
-      (monthData.closes || 0) > 0 ||
-      (monthData.bookings || 0) > 0 ||
-      (monthData.cash || 0) > 0
+    // Any funnel's row for the month counts
+    return funnelData.some(monthData =>
+      monthData.year === lastMonth.year && monthData.month === lastMonth.month && (
+        (monthData.inquiries || 0) > 0 ||
+        (monthData.callsBooked || 0) > 0 ||
+        (monthData.callsTaken || 0) > 0 ||
+        (monthData.closes || 0) > 0 ||
+        (monthData.bookings || 0) > 0 ||
+        (monthData.cash || 0) > 0
+      )
     )
   }, [funnelData, lastMonth])
 
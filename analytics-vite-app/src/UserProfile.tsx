@@ -3,6 +3,17 @@ import { useAuth } from './contexts/AuthContext';
 import { ShareService, type AccountShare } from './services/shareService';
 import { formatPhoneNumber } from './utils/formatters';
 import { validatePhone, validateWebsite } from './utils/validation';
+import { downloadFile } from './utils/download';
+import {
+  buildAccountArchive,
+  accountArchiveFileName,
+  parseAccountArchive,
+  previewAccountRestore,
+  restoreAccountArchive
+} from './services/accountArchive';
+import { buildBookingsCalendar, calendarFeedUrl } from './services/calendarExport';
+import { UnifiedDataService } from './services/unifiedDataService';
+import type { AccountArchive, AccountRestoreMode, AccountRestoreSummary, DataManager } from './types';
 import { 
   User, 
   Mail, 
@@ -31,10 +42,10 @@ import {
   Phone
 } from 'lucide-react';
 
-type ProfileSection = 'account' | 'subscription' | 'billing' | 'privacy' | 'support' | 'sharing';
+type ProfileSection = 'account' | 'subscription' | 'billing' | 'privacy' | 'support' | 'sharing' | 'backup' | 'calendar';
 
-export default function UserProfile() {
-  const { user, upgradeToPro, downgradeToFree, updateProfile } = useAuth();
+export default function UserProfile({ dataManager }: { dataManager?: DataManager }) {
+  const { user, upgradeToPro, downgradeToFree, updateProfile, effectiveUserId, isViewOnly } = useAuth();
   const [activeSection, setActiveSection] = useState<ProfileSection>('account');
   const [isEditing, setIsEditing] = useState(false);
   const [formData, setFormData] = useState({
@@ -190,6 +201,8 @@ export default function UserProfile() {
     { id: 'subscription' as ProfileSection, label: 'Subscription', icon: Crown },
     { id: 'billing' as ProfileSection, label: 'Billing', icon: CreditCard },
     { id: 'sharing' as ProfileSection, label: 'Account Sharing', icon: Share2 },
+    { id: 'backup' as ProfileSection, label: 'Backup & Restore', icon: Download },
+    { id: 'calendar' as ProfileSection, label: 'Calendar Feed', icon: Calendar },
     { id: 'privacy' as ProfileSection, label: 'Privacy', icon: Shield },
     { id: 'support' as ProfileSection, label: 'Support', icon: HelpCircle },
   ];
@@ -322,6 +335,8 @@ export default function UserProfile() {
                 {activeSection === 'subscription' && 'View and manage your subscription plan'}
                 {activeSection === 'billing' && 'Manage your billing information and payment methods'}
                 {activeSection === 'sharing' && 'Share your account with guests for view-only access'}
+                {activeSection === 'backup' && 'Download a copy of your data or restore it from a backup'}
+                {activeSection === 'calendar' && 'See payment due dates and project dates in your calendar app'}
                 {activeSection === 'privacy' && 'Control your privacy settings and data preferences'}
                 {activeSection === 'support' && 'Get help and contact support'}
               </p>
@@ -436,6 +451,23 @@ export default function UserProfile() {
               <SharingSection user={user} />
             )}
 
+            {activeSection === 'backup' && (
+              <BackupSection
+                user={user}
+                userId={effectiveUserId || user?.id}
+                isViewOnly={isViewOnly}
+                onRestored={dataManager?.loadAllData}
+              />
+            )}
+
+            {activeSection === 'calendar' && (
+              <CalendarFeedSection
+                userId={effectiveUserId || user?.id}
+                isViewOnly={isViewOnly}
+                dataManager={dataManager}
+              />
+            )}
+
             {activeSection === 'privacy' && (
               <div style={{ 
                 padding: '40px', 
@@ -1943,3 +1975,476 @@ function SharingSection({ user }: { user: any }) {
     </div>
   );
 }
+
+const RESTORE_TABLES: { key: Exclude<keyof AccountRestoreSummary, 'calculatorGoals' | 'errors'>; label: string }[] = [
+  { key: 'serviceTypes', label: 'Service types' },
+  { key: 'leadSources', label: 'Lead sources' },
+  { key: 'funnelDefinitions', label: 'Funnels' },
+  { key: 'funnelStages', label: 'Funnel stages' },
+  { key: 'funnels', label: 'Funnel months' },
+  { key: 'funnelWeeks', label: 'Funnel weeks' },
+  { key: 'bookings', label: 'Bookings' },
+  { key: 'payments', label: 'Payments' },
+  { key: 'adCampaigns', label: 'Ad spend months' },
+  { key: 'forecastModels', label: 'Forecast models' },
+];
+
+// Backup Section Component
+function BackupSection({
+  user,
+  userId,
+  isViewOnly,
+  onRestored
+}: {
+  user: { email?: string; companyName?: string } | null;
+  userId: string;
+  isViewOnly: boolean;
+  onRestored?: () => Promise<void>;
+}) {
+  const [exporting, setExporting] = useState(false);
+  const [archive, setArchive] = useState<AccountArchive | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mode, setMode] = useState<AccountRestoreMode>('merge');
+  const [preview, setPreview] = useState<AccountRestoreSummary | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [result, setResult] = useState<AccountRestoreSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!archive) return;
+    let cancelled = false;
+    setPreview(null);
+    previewAccountRestore(userId, archive, mode)
+      .then(summary => { if (!cancelled) setPreview(summary); })
+      .catch(err => { if (!cancelled) setError(err.message || 'Could not compare the backup with your data'); });
+    return () => { cancelled = true; };
+  }, [archive, mode, userId]);
+
+  const downloadBackup = async () => {
+    const backup = await buildAccountArchive(userId, { email: user?.email, companyName: user?.companyName });
+    downloadFile(accountArchiveFileName(backup), JSON.stringify(backup, null, 2), 'application/json');
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      await downloadBackup();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export your data');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setArchive(null);
+    setResult(null);
+    setError(null);
+    if (!file) return;
+    try {
+      setArchive(parseAccountArchive(await file.text()));
+      setFileName(file.name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the backup file');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!archive) return;
+    if (mode === 'replace' && !confirm('Replace deletes all of your current data before restoring the backup. A backup of your current data will be downloaded first. Continue?')) {
+      return;
+    }
+
+    setRestoring(true);
+    setError(null);
+    try {
+      if (mode === 'replace') await downloadBackup();
+      const summary = await restoreAccountArchive(userId, archive, mode, isViewOnly);
+      setResult(summary);
+      setArchive(null);
+      await onRestored?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore the backup');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const summary = result || preview;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '24px' }}>
+      {error && (
+        <div style={{
+          padding: '12px',
+          backgroundColor: '#fef2f2',
+          border: '1px solid #fecaca',
+          borderRadius: '6px',
+          color: '#991b1b',
+          fontSize: '14px'
+        }}>
+          {error}
+        </div>
+      )}
+
+      {/* Export Section */}
+      <div>
+        <h3 style={{ 
+          fontSize: '16px', 
+          fontWeight: '600', 
+          margin: '0 0 8px 0',
+          color: '#1f2937'
+        }}>
+          Download a Backup
+        </h3>
+        <p style={{ 
+          fontSize: '14px', 
+          color: '#6b7280', 
+          margin: '0 0 16px 0'
+        }}>
+          Funnel data, bookings, payments, service types, lead sources, ad spend, forecast models and calculator goals, in one file.
+        </p>
+        <button
+          onClick={handleExport}
+          disabled={exporting}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            padding: '10px 20px',
+            backgroundColor: exporting ? '#9ca3af' : '#3b82f6',
+            color: 'white',
+            border: 'none',
+            borderRadius: '6px',
+            fontSize: '14px',
+            fontWeight: '500',
+            cursor: exporting ? 'not-allowed' : 'pointer'
+          }}
+        >
+          <Download size={16} />
+          {exporting ? 'Preparing...' : 'Download Backup'}
+        </button>
+      </div>
+
+      {/* Restore Section */}
+      {!isViewOnly && (
+        <div>
+          <h3 style={{ 
+            fontSize: '16px', 
+            fontWeight: '600', 
+            margin: '0 0 8px 0',
+            color: '#1f2937'
+          }}>
+            Restore from a Backup
+          </h3>
+          <p style={{ 
+            fontSize: '14px', 
+            color: '#6b7280', 
+            margin: '0 0 16px 0'
+          }}>
+            Restore a backup from this account or another one (for example, copying production data into a test account).
+          </p>
+
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={handleFileChange}
+            style={{
+              width: '100%',
+              padding: '12px',
+              border: '2px dashed #d1d5db',
+              borderRadius: '8px',
+              fontSize: '14px',
+              boxSizing: 'border-box'
+            }}
+          />
+
+          {archive && (
+            <div style={{ marginTop: '16px', display: 'flex', flexDirection: 'column', gap: '12px' }}>
+              <div style={{ fontSize: '14px', color: '#374151' }}>
+                <strong>{fileName}</strong> - exported {new Date(archive.exportedAt).toLocaleString()}
+                {archive.source.companyName || archive.source.email ? ` from ${archive.source.companyName || archive.source.email}` : ''}
+              </div>
+
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                <label style={{ display: 'flex', gap: '8px', fontSize: '14px', color: '#374151', cursor: 'pointer' }}>
+                  <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                  <span><strong>Merge</strong> - add what's missing; service types and lead sources are matched by name, bookings by CRM ID or project name and booked date, funnel and ad spend months by month</span>
+                </label>
+                <label style={{ display: 'flex', gap: '8px', fontSize: '14px', color: '#374151', cursor: 'pointer' }}>
+                  <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                  <span><strong>Replace</strong> - delete all of your current data, then restore the backup</span>
+                </label>
+              </div>
+            </div>
+          )}
+
+          {summary && (
+            <div style={{ marginTop: '16px' }}>
+              <div style={{ fontSize: '14px', fontWeight: '500', color: result ? '#166534' : '#1f2937', marginBottom: '8px' }}>
+                {result ? 'Backup restored' : 'What will be restored'}
+              </div>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+                <thead>
+                  <tr style={{ backgroundColor: '#f9fafb', textAlign: 'left' }}>
+                    <th style={{ padding: '8px', borderBottom: '1px solid #e5e7eb' }}></th>
+                    <th style={{ padding: '8px', borderBottom: '1px solid #e5e7eb' }}>Added</th>
+                    <th style={{ padding: '8px', borderBottom: '1px solid #e5e7eb' }}>Already there</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {RESTORE_TABLES.map(({ key, label }) => {
+                    const counts = summary[key];
+                    return (
+                      <tr key={key}>
+                        <td style={{ padding: '8px', borderBottom: '1px solid #f3f4f6', color: '#374151' }}>{label}</td>
+                        <td style={{ padding: '8px', borderBottom: '1px solid #f3f4f6' }}>{counts.created}</td>
+                        <td style={{ padding: '8px', borderBottom: '1px solid #f3f4f6', color: '#6b7280' }}>
+                          {'matched' in counts ? counts.matched : counts.skipped}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {summary.calculatorGoals && (
+                <div style={{ fontSize: '13px', color: '#6b7280', marginTop: '8px' }}>Calculator goals are restored too.</div>
+              )}
+              {summary.errors.length > 0 && (
+                <div style={{
+                  marginTop: '12px',
+                  padding: '12px',
+                  backgroundColor: '#fef2f2',
+                  border: '1px solid #fecaca',
+                  borderRadius: '6px',
+                  color: '#991b1b',
+                  fontSize: '13px'
+                }}>
+                  {summary.errors.map((message, index) => <div key={index}>{message}</div>)}
+                </div>
+              )}
+            </div>
+          )}
+
+          {archive && (
+            <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '16px' }}>
+              <button
+                onClick={handleRestore}
+                disabled={restoring || !preview}
+                style={{
+                  padding: '10px 20px',
+                  backgroundColor: restoring || !preview ? '#9ca3af' : (mode === 'replace' ? '#ef4444' : '#3b82f6'),
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '6px',
+                  fontSize: '14px',
+                  fontWeight: '500',
+                  cursor: restoring || !preview ? 'not-allowed' : 'pointer'
+                }}
+              >
+                {restoring ? 'Restoring...' : (mode === 'replace' ? 'Replace My Data' : 'Merge Backup')}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Calendar Feed Section Component
+function CalendarFeedSection({
+  userId,
+  isViewOnly,
+  dataManager
+}: {
+  userId: string;
+  isViewOnly: boolean;
+  dataManager?: DataManager;
+}) {
+  const [token, setToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    UnifiedDataService.getCalendarFeedToken(userId)
+      .then(existing => { if (!cancelled) setToken(existing); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [userId]);
+
+  const handleDownload = () => {
+    const ics = buildBookingsCalendar(dataManager?.bookings || [], {
+      payments: dataManager?.payments || [],
+      serviceTypes: dataManager?.serviceTypes || []
+    });
+    downloadFile(`calendar-${new Date().toISOString().split('T')[0]}.ics`, ics, 'text/calendar;charset=utf-8');
+  };
+
+  const handleReset = async () => {
+    if (token && !confirm('Calendars subscribed to the current URL will stop updating. Create a new URL?')) {
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    setCopied(false);
+    try {
+      const newToken = await UnifiedDataService.resetCalendarFeedToken(userId, isViewOnly);
+      if (!newToken) throw new Error('Could not create the calendar feed');
+      setToken(newToken);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the calendar feed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTurnOff = async () => {
+    if (!confirm('Turn off the calendar feed? Subscribed calendars will stop updating.')) {
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      if (!(await UnifiedDataService.deleteCalendarFeed(userId, isViewOnly))) {
+        throw new Error('Could not turn off the calendar feed');
+      }
+      setToken(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not turn off the calendar feed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!token || !navigator.clipboard) return;
+    await navigator.clipboard.writeText(calendarFeedUrl(token));
+    setCopied(true);
+  };
+
+  const buttonStyle = (primary: boolean, disabled: boolean): React.CSSProperties => ({
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '10px 20px',
+    backgroundColor: disabled ? '#9ca3af' : (primary ? '#3b82f6' : 'white'),
+    color: primary || disabled ? 'white' : '#374151',
+    border: primary || disabled ? 'none' : '1px solid #d1d5db',
+    borderRadius: '6px',
+    fontSize: '14px',
+    fontWeight: '500',
+    cursor: disabled ? 'not-allowed' : 'pointer'
+  });
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '24px' }}>
+      {error && (
+        <div style={{
+          padding: '12px',
+          backgroundColor: '#fef2f2',
+          border: '1px solid #fecaca',
+          borderRadius: '6px',
+          color: '#991b1b',
+          fontSize: '14px'
+        }}>
+          {error}
+        </div>
+      )}
+
+      {/* Download Section */}
+      <div>
+        <h3 style={{ 
+          fontSize: '16px', 
+          fontWeight: '600', 
+          margin: '0 0 8px 0',
+          color: '#1f2937'
+        }}>
+          Download a Calendar File
+        </h3>
+        <p style={{ 
+          fontSize: '14px', 
+          color: '#6b7280', 
+          margin: '0 0 16px 0'
+        }}>
+          Upcoming unpaid payments and project dates as an .ics file. Importing a newer file updates the events you already imported instead of adding copies.
+        </p>
+        <button onClick={handleDownload} style={buttonStyle(true, false)}>
+          <Download size={16} />
+          Download .ics
+        </button>
+      </div>
+
+      {/* Feed Section */}
+      <div>
+        <h3 style={{ 
+          fontSize: '16px', 
+          fontWeight: '600', 
+          margin: '0 0 8px 0',
+          color: '#1f2937'
+        }}>
+          Subscribe
+        </h3>
+        <p style={{ 
+          fontSize: '14px', 
+          color: '#6b7280', 
+          margin: '0 0 16px 0'
+        }}>
+          Add this URL to Google Calendar, Apple Calendar or Outlook ("subscribe from URL") and it stays up to date on its own. Anyone with the URL can see these events, so keep it private.
+        </p>
+
+        {loading ? (
+          <div style={{ fontSize: '14px', color: '#6b7280' }}>Loading...</div>
+        ) : token ? (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <input
+                type="text"
+                readOnly
+                value={calendarFeedUrl(token)}
+                onFocus={(e) => e.target.select()}
+                style={{
+                  flex: 1,
+                  padding: '10px 12px',
+                  border: '1px solid #d1d5db',
+                  borderRadius: '6px',
+                  fontSize: '13px',
+                  fontFamily: 'monospace',
+                  color: '#374151',
+                  backgroundColor: '#f9fafb'
+                }}
+              />
+              <button onClick={handleCopy} style={buttonStyle(true, false)}>
+                {copied ? <CheckCircle size={16} /> : <Globe size={16} />}
+                {copied ? 'Copied' : 'Copy URL'}
+              </button>
+            </div>
+            {!isViewOnly && (
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <button onClick={handleReset} disabled={saving} style={buttonStyle(false, saving)}>
+                  New URL
+                </button>
+                <button onClick={handleTurnOff} disabled={saving} style={buttonStyle(false, saving)}>
+                  <XCircle size={16} />
+                  Turn Off
+                </button>
+              </div>
+            )}
+          </div>
+        ) : isViewOnly ? (
+          <div style={{ fontSize: '14px', color: '#6b7280' }}>The calendar feed is turned off for this account.</div>
+        ) : (
+          <button onClick={handleReset} disabled={saving} style={buttonStyle(true, saving)}>
+            <Calendar size={16} />
+            {saving ? 'Turning On...' : 'Turn On Calendar Feed'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
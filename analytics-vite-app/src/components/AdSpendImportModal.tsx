@@ -0,0 +1,499 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { Upload, X, AlertCircle, CheckCircle } from 'lucide-react';
+import { UnifiedDataService } from '../services/unifiedDataService';
+import { parseAdSpendReport, summarizeAdSources, suggestLeadSource, buildAdSpendImport } from '../services/adSpendImporter';
+import { parseCSVRecords } from '../utils/csvParser';
+import { readWorkbook, isWorkbookFile } from '../utils/excelParser';
+import { toUSD, formatNumber, getMonthNameShort } from '../utils/formatters';
+import { logger } from '../utils/logger';
+import type { AdCampaign, LeadSource, AdSpendReport, AdSpendMatchBy, AdAccountMapping, AdSpendMonthChange } from '../types';
+
+interface AdSpendImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (changes: AdSpendMonthChange[]) => Promise<void>;
+  leadSources: LeadSource[];
+  adCampaigns: AdCampaign[];
+  userId: string;
+  isViewOnly?: boolean;
+}
+
+const SKIP = '__skip'; // Select value for "Don't import"
+
+const cellStyle = {
+  padding: '8px',
+  borderBottom: '1px solid #e5e7eb',
+  fontSize: '13px',
+  verticalAlign: 'top' as const,
+};
+
+const STATUS_STYLES: Record<AdSpendMonthChange['status'], { label: string; color: string; background: string }> = {
+  new: { label: 'New', color: '#15803d', background: '#f0fdf4' },
+  updated: { label: 'Updated', color: '#1d4ed8', background: '#eff6ff' },
+  unchanged: { label: 'Unchanged', color: '#6b7280', background: '#f3f4f6' },
+};
+
+/**
+ * Ad spend import
+ * Uploads a Meta Ads Manager or Google Ads export, maps each ad account or campaign to a lead
+ * source (remembered for next time) and previews the monthly campaign rows it will write
+ */
+export default function AdSpendImportModal({
+  isOpen,
+  onClose,
+  onImport,
+  leadSources,
+  adCampaigns,
+  userId,
+  isViewOnly = false,
+}: AdSpendImportModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [report, setReport] = useState<AdSpendReport | null>(null);
+  const [matchBy, setMatchBy] = useState<AdSpendMatchBy>('campaign');
+  const [savedMappings, setSavedMappings] = useState<AdAccountMapping[]>([]);
+  const [mapping, setMapping] = useState<Record<string, string | null | undefined>>({}); // Source name -> lead source (null = skip)
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sources = useMemo(() => (report ? summarizeAdSources(report, matchBy) : []), [report, matchBy]);
+  const changes = useMemo(
+    () => (report ? buildAdSpendImport(report, matchBy, mapping, adCampaigns) : []),
+    [report, matchBy, mapping, adCampaigns]
+  );
+
+  if (!isOpen) return null;
+
+  const unmapped = sources.filter(source => mapping[source.name] === undefined);
+  const pendingChanges = changes.filter(change => change.status !== 'unchanged');
+
+  const resetState = () => {
+    setFile(null);
+    setReport(null);
+    setSavedMappings([]);
+    setMapping({});
+    setError(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  // Saved mappings first, then lead sources with a matching name
+  const suggestMapping = (nextReport: AdSpendReport, nextMatchBy: AdSpendMatchBy, saved: AdAccountMapping[]) => {
+    const suggested: Record<string, string | null | undefined> = {};
+    summarizeAdSources(nextReport, nextMatchBy).forEach(source => {
+      suggested[source.name] = suggestLeadSource(nextReport.platform, nextMatchBy, source.name, saved, leadSources);
+    });
+    setMapping(suggested);
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = event.target.files?.[0];
+    if (!selectedFile) return;
+
+    if (!/\.(csv|tsv|txt)$/i.test(selectedFile.name) && !isWorkbookFile(selectedFile.name)) {
+      setError('Please select a CSV or Excel file');
+      return;
+    }
+
+    setFile(selectedFile);
+    setError(null);
+    setReport(null);
+  };
+
+  const handlePreview = async () => {
+    if (!file) return;
+
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      let parsed: AdSpendReport | null = null;
+      if (isWorkbookFile(file.name)) {
+        for (const sheet of await readWorkbook(file)) {
+          parsed = parseAdSpendReport(sheet.rows);
+          if (parsed) break;
+        }
+      } else {
+        parsed = parseAdSpendReport(await parseCSVRecords(file));
+      }
+
+      if (!parsed) {
+        setError('This doesn\'t look like a Meta Ads Manager or Google Ads export. Export it with a Day (or Month) breakdown and the Amount spent / Cost column.');
+        return;
+      }
+      if (parsed.rows.length === 0) {
+        setError('No spend found in this export.');
+        return;
+      }
+
+      const saved = await UnifiedDataService.getAdAccountMappings(userId, parsed.platform);
+      const nextMatchBy: AdSpendMatchBy = parsed.hasCampaigns ? 'campaign' : 'account';
+      setSavedMappings(saved);
+      setMatchBy(nextMatchBy);
+      suggestMapping(parsed, nextMatchBy, saved);
+      setReport(parsed);
+    } catch (err) {
+      logger.error('Error previewing ad spend export:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleMatchByChange = (next: AdSpendMatchBy) => {
+    if (!report) return;
+    setMatchBy(next);
+    suggestMapping(report, next, savedMappings);
+  };
+
+  const handleImport = async () => {
+    if (!report) return;
+
+    setIsProcessing(true);
+    try {
+      // Remember every mapping the user confirmed so next month's import needs none
+      await UnifiedDataService.saveAdAccountMappings(
+        userId,
+        sources
+          .filter(source => mapping[source.name] !== undefined)
+          .map(source => ({
+            platform: report.platform,
+            matchBy,
+            externalName: source.name,
+            leadSourceId: mapping[source.name] ?? null,
+          })),
+        isViewOnly
+      );
+
+      await onImport(pendingChanges);
+      onClose();
+      resetState();
+    } catch (err) {
+      logger.error('Error importing ad spend:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import ad spend');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleClose = () => {
+    resetState();
+    onClose();
+  };
+
+  const leadSourceName = (id: string) => leadSources.find(ls => ls.id === id)?.name || 'Unknown lead source';
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={handleClose}
+    >
+      <div
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          padding: '24px',
+          maxWidth: '800px',
+          width: '90%',
+          maxHeight: '90vh',
+          overflow: 'auto',
+          boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>Import Ad Spend</h2>
+          <button
+            onClick={handleClose}
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              padding: '4px',
+              display: 'flex',
+              alignItems: 'center',
+            }}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Instructions */}
+        <div style={{ marginBottom: '20px', padding: '12px', backgroundColor: '#f3f4f6', borderRadius: '6px' }}>
+          <p style={{ margin: 0, fontSize: '14px', color: '#374151' }}>
+            <strong>Instructions:</strong>
+          </p>
+          <ul style={{ margin: '8px 0 0 0', paddingLeft: '20px', fontSize: '14px', color: '#6b7280' }}>
+            <li><strong>Meta:</strong> in Ads Manager, break the campaigns table down by Day (or Month) and use Export table data</li>
+            <li><strong>Google Ads:</strong> download the Campaigns report segmented by Day (or Month)</li>
+            <li>Spend and leads are added up per month; each account or campaign is matched to a lead source once and remembered</li>
+            <li>Imported months replace the ad spend and leads already entered for that lead source and month</li>
+          </ul>
+        </div>
+
+        {/* File Input */}
+        <div style={{ marginBottom: '20px' }}>
+          <label style={{ display: 'flex', flexDirection: 'column', gap: '8px', cursor: 'pointer' }}>
+            <div
+              style={{
+                border: '2px dashed #d1d5db',
+                borderRadius: '6px',
+                padding: '24px',
+                textAlign: 'center',
+                backgroundColor: file ? '#f9fafb' : 'white',
+                transition: 'all 0.2s',
+              }}
+            >
+              <Upload size={32} style={{ marginBottom: '8px', color: '#6b7280' }} />
+              <div style={{ fontSize: '14px', fontWeight: '500', color: '#374151' }}>
+                {file ? file.name : 'Click to select a Meta or Google Ads export'}
+              </div>
+              {file && (
+                <div style={{ fontSize: '12px', color: '#6b7280', marginTop: '4px' }}>
+                  {(file.size / 1024).toFixed(2)} KB
+                </div>
+              )}
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.tsv,.txt,.xlsx,.xlsm,.xls"
+              onChange={handleFileSelect}
+              style={{ display: 'none' }}
+            />
+          </label>
+        </div>
+
+        {/* Error Display */}
+        {error && (
+          <div
+            style={{
+              padding: '12px',
+              backgroundColor: '#fef2f2',
+              border: '1px solid #fecaca',
+              borderRadius: '6px',
+              marginBottom: '20px',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+            }}
+          >
+            <AlertCircle size={20} color="#dc2626" />
+            <span style={{ color: '#dc2626', fontSize: '14px' }}>{error}</span>
+          </div>
+        )}
+
+        {report && (
+          <>
+            <div style={{ marginBottom: '16px', padding: '12px', backgroundColor: '#eff6ff', borderRadius: '6px', border: '1px solid #bfdbfe' }}>
+              <div style={{ fontSize: '14px', fontWeight: '600', color: '#1d4ed8' }}>
+                Detected: {report.platformName} export
+              </div>
+              <div style={{ fontSize: '12px', color: '#1e40af', marginTop: '4px' }}>
+                {report.rows.length} rows with spend
+                {report.skippedRows.length > 0 && ` · ${report.skippedRows.length} skipped`}
+              </div>
+            </div>
+
+            {report.warnings.length > 0 && (
+              <div style={{ marginBottom: '16px', padding: '12px', backgroundColor: '#fffbeb', borderRadius: '6px', border: '1px solid #fde68a', fontSize: '12px', color: '#b45309' }}>
+                {report.warnings.map(warning => <div key={warning}>{warning}</div>)}
+              </div>
+            )}
+
+            {/* Mapping */}
+            <div style={{ marginBottom: '20px' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+                <h3 style={{ fontSize: '16px', fontWeight: '600', margin: 0 }}>Match to Lead Sources</h3>
+                {report.hasAccounts && report.hasCampaigns && (
+                  <select
+                    value={matchBy}
+                    onChange={(e) => handleMatchByChange(e.target.value as AdSpendMatchBy)}
+                    style={{ padding: '6px 10px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '13px', backgroundColor: 'white' }}
+                  >
+                    <option value="campaign">By campaign</option>
+                    <option value="account">By ad account</option>
+                  </select>
+                )}
+              </div>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ backgroundColor: '#f9fafb', textAlign: 'left' }}>
+                    <th style={{ ...cellStyle, fontWeight: '600' }}>{matchBy === 'campaign' ? 'Campaign' : 'Ad account'}</th>
+                    <th style={{ ...cellStyle, fontWeight: '600', textAlign: 'right' }}>Spend</th>
+                    <th style={{ ...cellStyle, fontWeight: '600', textAlign: 'right' }}>Leads</th>
+                    <th style={{ ...cellStyle, fontWeight: '600' }}>Lead source</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sources.map(source => (
+                    <tr key={source.name}>
+                      <td style={{ ...cellStyle, color: '#374151' }}>{source.name}</td>
+                      <td style={{ ...cellStyle, textAlign: 'right' }}>{toUSD(source.spendCents)}</td>
+                      <td style={{ ...cellStyle, textAlign: 'right' }}>{formatNumber(source.leads)}</td>
+                      <td style={cellStyle}>
+                        <select
+                          value={mapping[source.name] === null ? SKIP : mapping[source.name] || ''}
+                          onChange={(e) => {
+                            const value = e.target.value;
+                            setMapping(prev => ({ ...prev, [source.name]: value === SKIP ? null : value || undefined }));
+                          }}
+                          style={{
+                            width: '100%',
+                            padding: '6px 8px',
+                            border: `1px solid ${mapping[source.name] === undefined ? '#fca5a5' : '#d1d5db'}`,
+                            borderRadius: '6px',
+                            fontSize: '13px',
+                            backgroundColor: 'white',
+                          }}
+                        >
+                          <option value="">Choose a lead source...</option>
+                          <option value={SKIP}>Don't import</option>
+                          {leadSources.map(ls => (
+                            <option key={ls.id} value={ls.id}>{ls.name}</option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Monthly rows */}
+            <div style={{ marginBottom: '20px' }}>
+              <h3 style={{ fontSize: '16px', fontWeight: '600', marginBottom: '8px' }}>Monthly Ad Spend</h3>
+              {changes.length === 0 ? (
+                <p style={{ fontSize: '13px', color: '#6b7280', margin: 0 }}>Match at least one account or campaign to a lead source.</p>
+              ) : (
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                  <thead>
+                    <tr style={{ backgroundColor: '#f9fafb', textAlign: 'left' }}>
+                      <th style={{ ...cellStyle, fontWeight: '600' }}>Month</th>
+                      <th style={{ ...cellStyle, fontWeight: '600' }}>Lead source</th>
+                      <th style={{ ...cellStyle, fontWeight: '600', textAlign: 'right' }}>Ad spend</th>
+                      <th style={{ ...cellStyle, fontWeight: '600', textAlign: 'right' }}>Leads</th>
+                      <th style={{ ...cellStyle, fontWeight: '600' }}></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changes.map(change => {
+                      const status = STATUS_STYLES[change.status];
+                      return (
+                        <tr key={`${change.leadSourceId}_${change.year}_${change.month}`}>
+                          <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>{getMonthNameShort(change.month)} {change.year}</td>
+                          <td style={cellStyle}>
+                            <div style={{ color: '#374151' }}>{leadSourceName(change.leadSourceId)}</div>
+                            {change.sources.length > 1 && (
+                              <div style={{ fontSize: '12px', color: '#6b7280' }}>{change.sources.join(', ')}</div>
+                            )}
+                          </td>
+                          <td style={{ ...cellStyle, textAlign: 'right', whiteSpace: 'nowrap' }}>
+                            {change.existing && change.status === 'updated' && (
+                              <span style={{ color: '#9ca3af' }}>{toUSD(change.existing.adSpendCents)} → </span>
+                            )}
+                            {toUSD(change.spendCents)}
+                          </td>
+                          <td style={{ ...cellStyle, textAlign: 'right', whiteSpace: 'nowrap' }}>
+                            {change.existing && change.status === 'updated' && (
+                              <span style={{ color: '#9ca3af' }}>{formatNumber(change.existing.leadsGenerated)} → </span>
+                            )}
+                            {formatNumber(change.leadsGenerated)}
+                          </td>
+                          <td style={cellStyle}>
+                            <span style={{ padding: '2px 8px', borderRadius: '9999px', fontSize: '12px', color: status.color, backgroundColor: status.background }}>
+                              {status.label}
+                            </span>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+
+        {/* Actions */}
+        <div style={{ display: 'flex', gap: '12px', justifyContent: 'flex-end', alignItems: 'center' }}>
+          {report && unmapped.length > 0 && (
+            <span style={{ fontSize: '13px', color: '#b45309', marginRight: 'auto' }}>
+              {unmapped.length} {matchBy === 'campaign' ? 'campaign(s)' : 'account(s)'} still need a lead source
+            </span>
+          )}
+          <button
+            onClick={handleClose}
+            style={{
+              padding: '8px 16px',
+              border: '1px solid #d1d5db',
+              borderRadius: '6px',
+              backgroundColor: 'white',
+              color: '#374151',
+              fontSize: '14px',
+              fontWeight: '500',
+              cursor: 'pointer',
+            }}
+          >
+            Cancel
+          </button>
+          {file && !report && (
+            <button
+              onClick={handlePreview}
+              disabled={isProcessing}
+              style={{
+                padding: '8px 16px',
+                border: 'none',
+                borderRadius: '6px',
+                backgroundColor: '#3b82f6',
+                color: 'white',
+                fontSize: '14px',
+                fontWeight: '500',
+                cursor: isProcessing ? 'not-allowed' : 'pointer',
+                opacity: isProcessing ? 0.5 : 1,
+              }}
+            >
+              {isProcessing ? 'Processing...' : 'Preview'}
+            </button>
+          )}
+          {report && (
+            <button
+              onClick={handleImport}
+              disabled={isProcessing || isViewOnly || unmapped.length > 0 || pendingChanges.length === 0}
+              style={{
+                padding: '8px 16px',
+                border: 'none',
+                borderRadius: '6px',
+                backgroundColor: unmapped.length > 0 || pendingChanges.length === 0 ? '#9ca3af' : '#10b981',
+                color: 'white',
+                fontSize: '14px',
+                fontWeight: '500',
+                cursor: isProcessing || isViewOnly || unmapped.length > 0 || pendingChanges.length === 0 ? 'not-allowed' : 'pointer',
+                opacity: isProcessing ? 0.5 : 1,
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+              }}
+            >
+              <CheckCircle size={16} />
+              {isProcessing ? 'Importing...' : `Import ${pendingChanges.length} Month(s)`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,14 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import { Upload, X, AlertCircle, CheckCircle, FileText } from 'lucide-react';
-import { importBookingsFromCSV, type ImportResult } from '../services/honeybookImporter';
-import { importBookedClientsFromCSV } from '../services/honeybookBookedClientImporter';
-import { parseCSV } from '../utils/csvParser';
-import type { ServiceType, LeadSource } from '../types';
+import { detectImporter, runImporter, resolveColumns, getImporter, IMPORTERS } from '../services/importerRegistry';
+import { UnifiedDataService } from '../services/unifiedDataService';
+import { buildImportPreview, importTargetFunnelId, funnelMonthsOnly } from '../services/importPreview';
+import { parseCSVFile, type CSVParseResult, type DateFormat } from '../utils/csvParser';
+import { readWorkbook, sheetToParseResult, isWorkbookFile, type WorkbookSheet } from '../utils/excelParser';
+import { useAuth } from '../contexts/AuthContext';
+import type { ServiceType, LeadSource, Booking, Payment, FunnelData, FunnelDefinition, ImportResult, ImportOverrides } from '../types';
+import ColumnMappingStep from './ColumnMappingStep';
+import ImportPreviewDiff from './ImportPreviewDiff';
 import { logger } from '../utils/logger';
 
 interface CSVImportModalProps {
@@ -12,39 +17,124 @@ interface CSVImportModalProps {
   onImport: (result: ImportResult) => Promise<void>;
   existingServiceTypes: ServiceType[];
   existingLeadSources: LeadSource[];
+  existingBookings?: Booking[]; // When set with existingFunnelData, the preview diffs against existing data
+  existingFunnelData?: FunnelData[];
+  existingPayments?: Payment[];
+  funnels?: FunnelDefinition[];
+  funnelId?: string; // Funnel the months go into (defaults to the imported bookings' funnel)
   userId: string;
   pageType?: 'funnel' | 'sales'; // Which page is this import for?
 }
 
+const EMPTY_FUNNELS: FunnelDefinition[] = [];
+
 export default function CSVImportModal({
   isOpen,
   onClose,
   onImport,
   existingServiceTypes,
   existingLeadSources,
+  existingBookings,
+  existingFunnelData,
+  existingPayments,
+  funnels = EMPTY_FUNNELS,
+  funnelId,
   userId,
   pageType = 'sales',
 }: CSVImportModalProps) {
   const [file, setFile] = useState<File | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [parsed, setParsed] = useState<CSVParseResult | null>(null);
+  const [sheets, setSheets] = useState<WorkbookSheet[]>([]); // Non-empty sheets of an Excel workbook
+  const [sheetName, setSheetName] = useState<string | null>(null);
+  const [importerId, setImporterId] = useState<string | null>(null);
+  const [overrides, setOverrides] = useState<ImportOverrides>({});
+  const [mappingEdited, setMappingEdited] = useState(false);
+  const [rememberMapping, setRememberMapping] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<number | null>(null); // Percent of file parsed
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { user } = useAuth();
+
+  // The report type is detected from the header row; the saved CRM only breaks ties
+  const detectedImporter = importerId ? getImporter(importerId) : undefined;
+  const crmLabel = IMPORTERS.find(importer => importer.crm === user?.crm)?.crmName || 'CRM';
+
+  // Re-run the importer whenever the mapping changes so the preview stays current
+  // The funnel page only writes funnel months, so a report's bookings and payments aren't part of its import
+  const preview = useMemo<ImportResult | null>(() => {
+    if (!parsed || !detectedImporter) return null;
+    const result = runImporter(detectedImporter, parsed, existingServiceTypes, existingLeadSources, userId, overrides);
+    return pageType === 'funnel' ? funnelMonthsOnly(result) : result;
+  }, [parsed, detectedImporter, existingServiceTypes, existingLeadSources, userId, overrides, pageType]);
+
+  // Dry run against existing data: what each row will do and which funnel months change
+  const diff = useMemo(() => {
+    if (!preview || !existingBookings || !existingFunnelData) return null;
+    const targetFunnelId = funnelId || importTargetFunnelId(preview, existingServiceTypes, funnels);
+    return buildImportPreview(preview, existingBookings, existingFunnelData, existingPayments, funnels, targetFunnelId);
+  }, [preview, existingBookings, existingFunnelData, existingPayments, existingServiceTypes, funnels, funnelId]);
+
+  // Effective column mapping shown in the mapping step (alias guesses + user overrides)
+  const effectiveColumns = useMemo(() => {
+    if (!parsed || !detectedImporter) return {};
+    return { ...resolveColumns(detectedImporter, parsed.headers), ...overrides.columns };
+  }, [parsed, detectedImporter, overrides.columns]);
 
   if (!isOpen) return null;
 
+  const resetState = () => {
+    setFile(null);
+    setParsed(null);
+    setSheets([]);
+    setSheetName(null);
+    setImporterId(null);
+    setOverrides({});
+    setMappingEdited(false);
+    setError(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  // Apply the mapping the user saved for this report last time, if any
+  const selectImporter = async (id: string) => {
+    const importer = getImporter(id);
+    if (!importer) return;
+    const saved = await UnifiedDataService.getImportColumnMapping(userId, importer.crm, importer.id);
+    setImporterId(id);
+    setOverrides(saved ? { columns: saved.columns, dateFormats: saved.dateFormats } : {});
+    setMappingEdited(false);
+  };
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0];
     if (!selectedFile) return;
 
-    if (!selectedFile.name.endsWith('.csv')) {
-      setError('Please select a CSV file');
+    if (!/\.(csv|tsv|txt)$/i.test(selectedFile.name) && !isWorkbookFile(selectedFile.name)) {
+      setError('Please select a CSV or Excel file');
       return;
     }
 
     setFile(selectedFile);
     setError(null);
-    setPreview(null);
+    setParsed(null);
+    setSheets([]);
+    setSheetName(null);
+    setImporterId(null);
+  };
+
+  // Detect which report this is (Honeybook Leads, Booked Client, Dubsado, ...)
+  const loadParsed = async (result: CSVParseResult) => {
+    const importer = detectImporter(result.headers, user?.crm);
+    await selectImporter(importer.id);
+    setParsed(result);
+  };
+
+  // Each sheet of a workbook is its own report, so switching sheets re-detects the importer
+  const selectSheet = async (sheet: WorkbookSheet) => {
+    setSheetName(sheet.name);
+    await loadParsed(sheetToParseResult(sheet));
   };
 
   const handlePreview = async () => {
@@ -54,59 +144,60 @@ export default function CSVImportModal({
     setError(null);
 
     try {
-      const text = await file.text();
-      
-      // Detect which type of Honeybook report this is
-      const { headers } = parseCSV(text);
-      const lowerHeaders = headers.map(h => h.toLowerCase());
-      
-      // Check for Booked Client report indicators
-      const isBookedClientReport = 
-        lowerHeaders.includes('project creation date') ||
-        lowerHeaders.includes('total booked value') ||
-        (lowerHeaders.includes('first name') && lowerHeaders.includes('project type'));
-      
-      // Check for Leads report indicators
-      const isLeadsReport = 
-        lowerHeaders.includes('lead created date') ||
-        lowerHeaders.includes('lead source open text');
-      
-      let result: ImportResult;
-      
-      if (isBookedClientReport) {
-        // Use Booked Client importer (handles deduplication)
-        result = importBookedClientsFromCSV(text, existingServiceTypes, existingLeadSources, userId);
-      } else if (isLeadsReport) {
-        // Use Leads report importer
-        result = importBookingsFromCSV(text, existingServiceTypes, existingLeadSources, userId);
-      } else {
-        // Try Leads report format as default (more flexible)
-        result = importBookingsFromCSV(text, existingServiceTypes, existingLeadSources, userId);
+      if (isWorkbookFile(file.name)) {
+        const workbookSheets = (await readWorkbook(file)).filter(sheet => sheet.rows.length > 0);
+        if (workbookSheets.length === 0) {
+          setError('This workbook has no data');
+          return;
+        }
+        setSheets(workbookSheets);
+        await selectSheet(workbookSheets[0]);
+        return;
       }
-      
-      setPreview(result);
+
+      // Parse in chunks so large reports don't freeze the tab
+      const result = await parseCSVFile(file, {
+        onProgress: ({ bytesRead, totalBytes }) => setProgress(Math.round((bytesRead / totalBytes) * 100)),
+      });
+      await loadParsed(result);
     } catch (err) {
       logger.error('Error previewing CSV:', err);
-      setError(err instanceof Error ? err.message : 'Failed to parse CSV file');
+      setError(err instanceof Error ? err.message : 'Failed to read file');
     } finally {
       setIsProcessing(false);
+      setProgress(null);
     }
   };
 
+  const handleColumnChange = (field: string, header: string | null) => {
+    setOverrides(prev => ({ ...prev, columns: { ...prev.columns, [field]: header } }));
+    setMappingEdited(true);
+  };
+
+  const handleDateFormatChange = (field: string, format: DateFormat) => {
+    setOverrides(prev => ({ ...prev, dateFormats: { ...prev.dateFormats, [field]: format } }));
+    setMappingEdited(true);
+  };
+
   const handleImport = async () => {
     if (!preview) return;
 
     setIsProcessing(true);
     try {
-      await onImport(preview);
-      onClose();
-      // Reset state
-      setFile(null);
-      setPreview(null);
-      setError(null);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
+      await onImport({ ...preview, fileName: sheetName ? `${file?.name} (${sheetName})` : file?.name });
+
+      // Save the corrected mapping so next month's import needs no fixing up
+      if (detectedImporter && mappingEdited && rememberMapping) {
+        await UnifiedDataService.saveImportColumnMapping(userId, {
+          importerId: detectedImporter.id,
+          crm: detectedImporter.crm,
+          columns: effectiveColumns,
+          dateFormats: overrides.dateFormats || {},
+        });
       }
+
+      onClose();
+      resetState();
     } catch (err) {
       logger.error('Error importing CSV:', err);
       setError(err instanceof Error ? err.message : 'Failed to import data');
@@ -116,12 +207,7 @@ export default function CSVImportModal({
   };
 
   const handleClose = () => {
-    setFile(null);
-    setPreview(null);
-    setError(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
+    resetState();
     onClose();
   };
 
@@ -156,7 +242,7 @@ export default function CSVImportModal({
       >
         {/* Header */}
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
-          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>Import Data from Honeybook CSV</h2>
+          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>Import Data from {crmLabel} CSV</h2>
           <button
             onClick={handleClose}
             style={{
@@ -181,17 +267,17 @@ export default function CSVImportModal({
             {pageType === 'funnel' ? (
               <>
                 <li><strong>Import Leads Report for Funnel Data</strong></li>
-                <li>Export your <strong>Leads report</strong> from Honeybook as CSV</li>
+                <li>Export your <strong>Leads report</strong> from Honeybook (or your projects list from Dubsado, Táve, 17hats, Studio Ninja or Sprout Studio) as CSV or Excel</li>
                 <li>This will populate <strong>Inquiries</strong> and <strong>Closes count</strong> in your funnel</li>
-                <li>Select the CSV file below, click "Preview", then "Import"</li>
+                <li>Select the file below, click "Preview", then "Import" - the report type is detected automatically</li>
                 <li><strong>Note:</strong> This does NOT create sales records. Use the Sales tab to import Booked Client reports.</li>
               </>
             ) : (
               <>
                 <li><strong>Import Booked Client Report for Sales Data</strong></li>
-                <li>Export your <strong>Booked Client report</strong> from Honeybook as CSV</li>
+                <li>Export your <strong>Booked Client report</strong> from Honeybook (or your projects list from Dubsado, Táve, 17hats, Studio Ninja or Sprout Studio) as CSV or Excel</li>
                 <li>This will create sales records and update <strong>Closes & Bookings</strong> (revenue) in your funnel</li>
-                <li>Select the CSV file below, click "Preview", then "Import"</li>
+                <li>Select the file below, click "Preview", then "Import" - the report type is detected automatically</li>
                 <li><strong>Note:</strong> For complete funnel data, import Leads report from Funnel tab first (for inquiries), then import Booked Client report here (for closes/bookings and sales records)</li>
                 <li>Payment schedules will need to be added manually</li>
               </>
@@ -221,7 +307,7 @@ export default function CSVImportModal({
             >
               <Upload size={32} style={{ marginBottom: '8px', color: '#6b7280' }} />
               <div style={{ fontSize: '14px', fontWeight: '500', color: '#374151' }}>
-                {file ? file.name : 'Click to select CSV file'}
+                {file ? file.name : 'Click to select CSV or Excel file'}
               </div>
               {file && (
                 <div style={{ fontSize: '12px', color: '#6b7280', marginTop: '4px' }}>
@@ -232,7 +318,7 @@ export default function CSVImportModal({
             <input
               ref={fileInputRef}
               type="file"
-              accept=".csv"
+              accept=".csv,.tsv,.txt,.xlsx,.xlsm,.xls"
               onChange={handleFileSelect}
               style={{ display: 'none' }}
             />
@@ -258,10 +344,68 @@ export default function CSVImportModal({
           </div>
         )}
 
+        {/* Sheet picker for workbooks with more than one sheet of data */}
+        {sheets.length > 1 && (
+          <div style={{ marginBottom: '20px', display: 'flex', alignItems: 'center', gap: '12px' }}>
+            <label htmlFor="import-sheet" style={{ fontSize: '14px', fontWeight: '500', color: '#374151' }}>
+              Sheet
+            </label>
+            <select
+              id="import-sheet"
+              value={sheetName || ''}
+              onChange={(e) => {
+                const sheet = sheets.find(s => s.name === e.target.value);
+                if (sheet) void selectSheet(sheet);
+              }}
+              style={{
+                padding: '8px 12px',
+                border: '1px solid #d1d5db',
+                borderRadius: '6px',
+                fontSize: '14px',
+                backgroundColor: 'white',
+              }}
+            >
+              {sheets.map(sheet => (
+                <option key={sheet.name} value={sheet.name}>
+                  {sheet.name} ({Math.max(sheet.rows.length - 1, 0)} rows)
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Column Mapping */}
+        {parsed && detectedImporter && (
+          <ColumnMappingStep
+            importers={IMPORTERS}
+            importer={detectedImporter}
+            headers={parsed.headers}
+            rows={parsed.rows}
+            columns={effectiveColumns}
+            dateFormats={overrides.dateFormats || {}}
+            remember={rememberMapping}
+            onImporterChange={(id) => { void selectImporter(id); }}
+            onColumnChange={handleColumnChange}
+            onDateFormatChange={handleDateFormatChange}
+            onRememberChange={setRememberMapping}
+          />
+        )}
+
         {/* Preview */}
         {preview && (
           <div style={{ marginBottom: '20px' }}>
             <h3 style={{ fontSize: '16px', fontWeight: '600', marginBottom: '12px' }}>Import Preview</h3>
+
+            {detectedImporter && (
+              <div style={{ marginBottom: '12px', padding: '12px', backgroundColor: '#eff6ff', borderRadius: '6px', border: '1px solid #bfdbfe' }}>
+                <div style={{ fontSize: '14px', fontWeight: '600', color: '#1d4ed8' }}>
+                  Detected: {detectedImporter.name}
+                </div>
+                <div style={{ fontSize: '12px', color: '#1e40af', marginTop: '4px' }}>
+                  {detectedImporter.description}
+                </div>
+              </div>
+            )}
             
             <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
               {/* Only show bookings count for Booked Client report, not Leads report */}
@@ -279,6 +423,20 @@ export default function CSVImportModal({
                 </div>
               )}
 
+              {preview.payments.length > 0 && (
+                <div style={{ padding: '12px', backgroundColor: '#f0fdf4', borderRadius: '6px', border: '1px solid #bbf7d0' }}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px' }}>
+                    <CheckCircle size={16} color="#16a34a" />
+                    <strong style={{ fontSize: '14px', color: '#16a34a' }}>
+                      {preview.payments.length} Payments
+                    </strong>
+                  </div>
+                  <div style={{ fontSize: '12px', color: '#15803d', marginLeft: '24px' }}>
+                    {preview.payments.filter(payment => payment.paidAt).length} paid, {preview.payments.filter(payment => !payment.paidAt).length} expected - matched to your sales records by project name
+                  </div>
+                </div>
+              )}
+
               <div style={{ padding: '12px', backgroundColor: '#f0fdf4', borderRadius: '6px', border: '1px solid #bbf7d0' }}>
                 <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px' }}>
                   <CheckCircle size={16} color="#16a34a" />
@@ -336,6 +494,8 @@ export default function CSVImportModal({
                 </div>
               )}
 
+              {diff && <ImportPreviewDiff preview={diff} />}
+
               {preview.errors.length > 0 && (
                 <div style={{ padding: '12px', backgroundColor: '#fef2f2', borderRadius: '6px', border: '1px solid #fecaca' }}>
                   <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px' }}>
@@ -387,7 +547,7 @@ export default function CSVImportModal({
                 opacity: isProcessing ? 0.5 : 1,
               }}
             >
-              {isProcessing ? 'Processing...' : 'Preview'}
+              {isProcessing ? (progress !== null ? `Processing... ${progress}%` : 'Processing...') : 'Preview'}
             </button>
           )}
           {preview && (
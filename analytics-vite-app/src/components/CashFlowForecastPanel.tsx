@@ -0,0 +1,158 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { CASH_FLOW_HORIZONS, forecastCashFlow } from '../services/cashFlowForecast';
+import { getMonthNameShort } from '../utils/formatters';
+import type { Booking, Payment, ServiceType } from '../types';
+
+interface CashFlowForecastPanelProps {
+  bookings: Booking[];
+  payments: Payment[];
+  serviceTypes: ServiceType[];
+}
+
+const toUSD = (cents: number) => (cents / 100).toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+// Dollars typed into an input, in cents
+const dollarsToCents = (value: string) => Math.round((parseFloat(value.replace(/[$,]/g, '')) || 0) * 100);
+
+/**
+ * Monthly cash coming in from scheduled payments and bookings not yet signed, with a running balance
+ */
+export default function CashFlowForecastPanel({ bookings, payments, serviceTypes }: CashFlowForecastPanelProps) {
+  const [horizonMonths, setHorizonMonths] = useState(12);
+  const [startingBalance, setStartingBalance] = useState('');
+  const [monthlyExpenses, setMonthlyExpenses] = useState('');
+
+  const forecast = useMemo(
+    () => forecastCashFlow(bookings, payments, serviceTypes, {
+      horizonMonths,
+      startingBalance: dollarsToCents(startingBalance),
+      monthlyExpenses: dollarsToCents(monthlyExpenses),
+    }),
+    [bookings, payments, serviceTypes, horizonMonths, startingBalance, monthlyExpenses]
+  );
+
+  const thinCount = forecast.months.filter(month => month.isThin).length;
+  const maxInflow = Math.max(1, ...forecast.months.map(month => month.inflow));
+  const hasExpenses = dollarsToCents(monthlyExpenses) > 0;
+
+  const labelStyle = { display: 'block', fontSize: '12px', fontWeight: 500, color: '#374151', marginBottom: '4px' };
+  const inputStyle = { padding: '6px 10px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '14px', width: '140px' };
+  const cellStyle = { padding: '10px 16px', textAlign: 'right' as const };
+  const headerStyle = {
+    ...cellStyle,
+    fontSize: '12px',
+    fontWeight: 600,
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+    color: '#666',
+  };
+
+  return (
+    <div style={{ backgroundColor: 'white', borderRadius: '12px', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', overflow: 'hidden', marginTop: '24px' }}>
+      <div style={{ padding: '20px', borderBottom: '1px solid #e5e7eb' }}>
+        <h2 style={{ fontSize: '18px', fontWeight: '600', margin: '0 0 4px 0', color: '#1f2937' }}>Cash Flow</h2>
+        <p style={{ fontSize: '14px', color: '#6b7280', margin: 0 }}>
+          Scheduled payments plus an estimate for bookings not yet signed, paid the way each service type's past bookings were
+        </p>
+
+        <div style={{ display: 'flex', gap: '16px', flexWrap: 'wrap', marginTop: '16px' }}>
+          <div>
+            <label style={labelStyle} htmlFor="cash-flow-horizon">Months ahead</label>
+            <select
+              id="cash-flow-horizon"
+              value={horizonMonths}
+              onChange={(e) => setHorizonMonths(parseInt(e.target.value))}
+              style={inputStyle}
+            >
+              {CASH_FLOW_HORIZONS.map(months => (
+                <option key={months} value={months}>{months} months</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label style={labelStyle} htmlFor="cash-flow-balance">Starting balance</label>
+            <input
+              id="cash-flow-balance"
+              type="text"
+              inputMode="decimal"
+              value={startingBalance}
+              placeholder="$0"
+              onChange={(e) => setStartingBalance(e.target.value)}
+              style={inputStyle}
+            />
+          </div>
+          <div>
+            <label style={labelStyle} htmlFor="cash-flow-expenses">Monthly expenses</label>
+            <input
+              id="cash-flow-expenses"
+              type="text"
+              inputMode="decimal"
+              value={monthlyExpenses}
+              placeholder="$0"
+              onChange={(e) => setMonthlyExpenses(e.target.value)}
+              style={inputStyle}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', gap: '24px', flexWrap: 'wrap', padding: '16px 20px', fontSize: '14px', color: '#374151' }}>
+        <span>Scheduled: <strong>{toUSD(forecast.totalScheduled)}</strong></span>
+        <span>Estimated from new bookings: <strong>{toUSD(forecast.totalEstimated)}</strong></span>
+        {thinCount > 0 && (
+          <span style={{ display: 'flex', alignItems: 'center', gap: '4px', color: '#b45309' }}>
+            <AlertTriangle size={14} />
+            {thinCount} thin {thinCount === 1 ? 'month' : 'months'}
+            {hasExpenses ? ' (inflow below expenses)' : ' (under half the average inflow)'}
+          </span>
+        )}
+      </div>
+
+      <div style={{ overflowX: 'auto' }}>
+        <table style={{ width: '100%', fontSize: '14px', borderCollapse: 'collapse' }}>
+          <thead style={{ backgroundColor: '#f5f5f5' }}>
+            <tr>
+              <th style={{ ...headerStyle, textAlign: 'left' }}>Month</th>
+              <th style={headerStyle}>Scheduled</th>
+              <th style={headerStyle}>Estimated</th>
+              <th style={headerStyle}>Inflow</th>
+              <th style={{ ...headerStyle, width: '160px' }}></th>
+              <th style={headerStyle}>Balance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {forecast.months.map(month => (
+              <tr
+                key={`${month.year}-${month.month}`}
+                style={{ borderBottom: '1px solid #eee', backgroundColor: month.isThin ? '#fffbeb' : undefined }}
+              >
+                <td style={{ ...cellStyle, textAlign: 'left', fontWeight: 500 }}>
+                  <span style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    {getMonthNameShort(month.month)} {month.year}
+                    {month.isThin && <AlertTriangle size={14} color="#b45309" aria-label="Thin month" />}
+                  </span>
+                </td>
+                <td style={cellStyle}>
+                  {toUSD(month.scheduled)}
+                  {month.overdue > 0 && (
+                    <div style={{ fontSize: '11px', color: '#b45309' }}>incl. {toUSD(month.overdue)} overdue</div>
+                  )}
+                </td>
+                <td style={{ ...cellStyle, color: '#6b7280' }}>{toUSD(month.estimated)}</td>
+                <td style={{ ...cellStyle, fontWeight: 600 }}>{toUSD(month.inflow)}</td>
+                <td style={cellStyle}>
+                  <div style={{ display: 'flex', height: '10px', backgroundColor: '#f3f4f6', borderRadius: '4px', overflow: 'hidden' }}>
+                    <div style={{ width: `${(month.scheduled / maxInflow) * 100}%`, backgroundColor: '#3b82f6' }} />
+                    <div style={{ width: `${(month.estimated / maxInflow) * 100}%`, backgroundColor: '#93c5fd' }} />
+                  </div>
+                </td>
+                <td style={{ ...cellStyle, color: month.balance < 0 ? '#991b1b' : '#1f2937' }}>{toUSD(month.balance)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
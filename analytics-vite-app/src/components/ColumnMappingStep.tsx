@@ -0,0 +1,151 @@
+import { useMemo } from 'react';
+import { FIELD_LABELS, DATE_FIELDS } from '../services/importerRegistry';
+import { DATE_FORMATS, type CSVRow, type DateFormat } from '../utils/csvParser';
+import type { CRMImporter, ColumnMap } from '../types';
+
+interface ColumnMappingStepProps {
+  importers: CRMImporter[];
+  importer: CRMImporter;
+  headers: string[];
+  rows: CSVRow[];
+  columns: ColumnMap; // Effective mapping (guesses + overrides)
+  dateFormats: Record<string, DateFormat>;
+  remember: boolean;
+  onImporterChange: (importerId: string) => void;
+  onColumnChange: (field: string, header: string | null) => void;
+  onDateFormatChange: (field: string, format: DateFormat) => void;
+  onRememberChange: (remember: boolean) => void;
+}
+
+const SAMPLE_COUNT = 3;
+
+const cellStyle = {
+  padding: '8px',
+  borderBottom: '1px solid #e5e7eb',
+  fontSize: '13px',
+  verticalAlign: 'top' as const,
+};
+
+const selectStyle = {
+  width: '100%',
+  padding: '4px 6px',
+  border: '1px solid #d1d5db',
+  borderRadius: '4px',
+  fontSize: '13px',
+  backgroundColor: 'white',
+};
+
+/**
+ * Column mapping step of the CSV import
+ * Shows each target field next to the CSV header it was matched to, with sample values,
+ * so a wrong guess (e.g. "Total" matched to the wrong field) can be corrected before importing
+ */
+export default function ColumnMappingStep({
+  importers,
+  importer,
+  headers,
+  rows,
+  columns,
+  dateFormats,
+  remember,
+  onImporterChange,
+  onColumnChange,
+  onDateFormatChange,
+  onRememberChange,
+}: ColumnMappingStepProps) {
+  // First few non-empty values per header
+  const samples = useMemo(() => {
+    const result: Record<string, string[]> = {};
+    headers.forEach(header => {
+      const values: string[] = [];
+      for (let i = 0; i < rows.length && values.length < SAMPLE_COUNT; i++) {
+        const value = rows[i][header];
+        if (value) values.push(value);
+      }
+      result[header] = values;
+    });
+    return result;
+  }, [headers, rows]);
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <h3 style={{ fontSize: '16px', fontWeight: '600', marginBottom: '12px' }}>Column Mapping</h3>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '12px' }}>
+        <label style={{ fontSize: '14px', color: '#374151', whiteSpace: 'nowrap' }}>Report type</label>
+        <select
+          value={importer.id}
+          onChange={(e) => onImporterChange(e.target.value)}
+          style={{ ...selectStyle, width: 'auto', fontSize: '14px' }}
+        >
+          {importers.map(option => (
+            <option key={option.id} value={option.id}>{option.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div style={{ border: '1px solid #e5e7eb', borderRadius: '6px', overflow: 'hidden' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ backgroundColor: '#f9fafb', textAlign: 'left' }}>
+              <th style={{ ...cellStyle, fontWeight: '600' }}>Field</th>
+              <th style={{ ...cellStyle, fontWeight: '600' }}>CSV Column</th>
+              <th style={{ ...cellStyle, fontWeight: '600' }}>Sample Values</th>
+              <th style={{ ...cellStyle, fontWeight: '600' }}>Date Format</th>
+            </tr>
+          </thead>
+          <tbody>
+            {Object.keys(importer.columns).map(field => {
+              const header = columns[field] ?? null;
+              const fieldSamples = header ? samples[header] || [] : [];
+              return (
+                <tr key={field}>
+                  <td style={{ ...cellStyle, fontWeight: '500', color: '#374151' }}>
+                    {FIELD_LABELS[field] || field}
+                  </td>
+                  <td style={cellStyle}>
+                    <select
+                      value={header ?? ''}
+                      onChange={(e) => onColumnChange(field, e.target.value || null)}
+                      style={selectStyle}
+                    >
+                      <option value="">— Not mapped —</option>
+                      {headers.map(h => (
+                        <option key={h} value={h}>{h}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td style={{ ...cellStyle, color: '#6b7280' }}>
+                    {fieldSamples.length > 0 ? fieldSamples.join(', ') : '—'}
+                  </td>
+                  <td style={cellStyle}>
+                    {DATE_FIELDS.has(field) ? (
+                      <select
+                        value={dateFormats[field] || 'auto'}
+                        onChange={(e) => onDateFormatChange(field, e.target.value as DateFormat)}
+                        style={selectStyle}
+                      >
+                        {DATE_FORMATS.map(format => (
+                          <option key={format.value} value={format.value}>{format.label}</option>
+                        ))}
+                      </select>
+                    ) : null}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <label style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '12px', fontSize: '14px', color: '#374151', cursor: 'pointer' }}>
+        <input
+          type="checkbox"
+          checked={remember}
+          onChange={(e) => onRememberChange(e.target.checked)}
+        />
+        Remember this mapping for future {importer.name} imports
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+import { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import {
+  FITTED_MODEL_TYPES,
+  FORECAST_METRICS,
+  fitModelParameters,
+  formatMetricValue,
+  projectYear,
+  type FittedModelType,
+} from '../services/forecastModels';
+import type { FunnelScopeData } from '../services/funnelScope';
+import { indexToMonth } from '../services/insightsMetrics';
+import { getMonthNameShort } from '../utils/formatters';
+import { logger } from '../utils/logger';
+import type { ForecastMetric, ForecastModel } from '../types';
+
+interface FittedModelModalProps {
+  model?: ForecastModel; // Editing (saving refits it to the latest history)
+  data: FunnelScopeData;
+  onCreate: (model: Omit<ForecastModel, 'id' | 'createdAt' | 'updatedAt'>, note?: string) => Promise<void>;
+  onUpdate: (model: ForecastModel, note?: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const formatMonthIndex = (index: number) => {
+  const { year, month } = indexToMonth(index);
+  return `${getMonthNameShort(month)} ${year}`;
+};
+
+/**
+ * Create or refit a forecast model fitted to monthly history (linear, exponential or seasonal)
+ */
+export default function FittedModelModal({ model, data, onCreate, onUpdate, onClose }: FittedModelModalProps) {
+  const [name, setName] = useState(model?.name || '');
+  const [type, setType] = useState<FittedModelType>(model && model.modelType !== 'forecast' ? model.modelType : 'linear');
+  const [metric, setMetric] = useState<ForecastMetric>(model?.parameters?.metric || 'bookings');
+  const [year, setYear] = useState(model?.year || new Date().getFullYear());
+  const [historyMonths, setHistoryMonths] = useState(
+    model?.parameters?.historyMonths || FITTED_MODEL_TYPES.find(info => info.type === type)!.defaultHistoryMonths
+  );
+  const [versionNote, setVersionNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const typeInfo = FITTED_MODEL_TYPES.find(info => info.type === type)!;
+
+  // Fit as the form changes so the preview matches what will be saved
+  const parameters = useMemo(
+    () => fitModelParameters(type, metric, historyMonths, year, data),
+    [type, metric, historyMonths, year, data]
+  );
+  const projection = useMemo(
+    () => projectYear({ modelType: type, year, parameters }),
+    [type, year, parameters]
+  );
+
+  const handleTypeChange = (next: FittedModelType) => {
+    // Move the history length along with the type unless it was changed by hand
+    if (historyMonths === typeInfo.defaultHistoryMonths) {
+      setHistoryMonths(FITTED_MODEL_TYPES.find(info => info.type === next)!.defaultHistoryMonths);
+    }
+    setType(next);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Please enter a model name');
+      return;
+    }
+    if (!parameters.fit) {
+      setError(`Not enough history to fit this model. It needs at least ${typeInfo.minHistoryMonths} months with activity.`);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const fields = {
+        name: name.trim(),
+        description: `${typeInfo.label} of ${FORECAST_METRICS.find(m => m.metric === metric)?.label.toLowerCase()}`,
+        modelType: type,
+        year,
+        parameters,
+        serviceTypes: [],
+      };
+      if (model) {
+        await onUpdate({ ...model, ...fields }, versionNote.trim());
+      } else {
+        await onCreate({ ...fields, isActive: false }, versionNote.trim());
+      }
+      onClose();
+    } catch (err) {
+      logger.error('Error saving fitted forecast model:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the model');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const labelStyle = { display: 'block', fontSize: '14px', fontWeight: 500, color: '#374151', marginBottom: '6px' };
+  const inputStyle = {
+    width: '100%',
+    padding: '8px 12px',
+    border: '1px solid #d1d5db',
+    borderRadius: '6px',
+    fontSize: '14px',
+    boxSizing: 'border-box' as const,
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          padding: '24px',
+          maxWidth: '560px',
+          width: '90%',
+          maxHeight: '90vh',
+          overflow: 'auto',
+          boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '16px' }}>
+          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>{model ? 'Refit Model' : 'New Fitted Model'}</h2>
+          <button
+            onClick={onClose}
+            style={{ background: 'none', border: 'none', cursor: 'pointer', padding: '4px', display: 'flex', alignItems: 'center' }}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {error && (
+          <div style={{
+            padding: '12px',
+            backgroundColor: '#fef2f2',
+            border: '1px solid #fecaca',
+            borderRadius: '6px',
+            color: '#991b1b',
+            fontSize: '14px',
+            marginBottom: '16px',
+          }}>
+            {error}
+          </div>
+        )}
+
+        <div style={{ marginBottom: '16px' }}>
+          <label style={labelStyle}>Model Name</label>
+          <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. 2026 Seasonal" style={inputStyle} />
+        </div>
+
+        <div style={{ marginBottom: '16px' }}>
+          <label style={labelStyle}>Model Type</label>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+            {FITTED_MODEL_TYPES.map(info => (
+              <label
+                key={info.type}
+                style={{
+                  display: 'flex',
+                  gap: '10px',
+                  alignItems: 'flex-start',
+                  padding: '10px 12px',
+                  border: `1px solid ${type === info.type ? '#3b82f6' : '#e5e7eb'}`,
+                  backgroundColor: type === info.type ? '#eff6ff' : 'white',
+                  borderRadius: '6px',
+                  cursor: 'pointer',
+                }}
+              >
+                <input type="radio" name="fitted-model-type" checked={type === info.type} onChange={() => handleTypeChange(info.type)} />
+                <span>
+                  <span style={{ display: 'block', fontSize: '14px', fontWeight: 500, color: '#1f2937' }}>{info.label}</span>
+                  <span style={{ display: 'block', fontSize: '12px', color: '#6b7280' }}>{info.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '12px', marginBottom: '16px' }}>
+          <div>
+            <label style={labelStyle}>Forecast</label>
+            <select value={metric} onChange={(e) => setMetric(e.target.value as ForecastMetric)} style={inputStyle}>
+              {FORECAST_METRICS.map(option => (
+                <option key={option.metric} value={option.metric}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label style={labelStyle}>Year</label>
+            <input type="number" value={year} onChange={(e) => setYear(parseInt(e.target.value) || new Date().getFullYear())} style={inputStyle} />
+          </div>
+          <div>
+            <label style={labelStyle}>History (months)</label>
+            <input
+              type="number"
+              min={typeInfo.minHistoryMonths}
+              max={120}
+              value={historyMonths}
+              onChange={(e) => setHistoryMonths(Math.min(120, Math.max(1, parseInt(e.target.value) || typeInfo.defaultHistoryMonths)))}
+              style={inputStyle}
+            />
+          </div>
+        </div>
+
+        {/* Fit preview */}
+        <div style={{ padding: '12px', backgroundColor: '#f9fafb', border: '1px solid #e5e7eb', borderRadius: '6px', fontSize: '13px', color: '#374151' }}>
+          {parameters.fit && projection ? (
+            <>
+              <div>
+                Fitted to {formatMonthIndex(parameters.fit.historyStart)} – {formatMonthIndex(parameters.fit.historyEnd)}
+                {parameters.fit.rSquared !== null && ` · trend fit R² ${parameters.fit.rSquared.toFixed(2)}`}
+              </div>
+              <div style={{ marginTop: '4px', fontWeight: 600 }}>
+                Projected {year} total: {formatMetricValue(metric, projection.reduce((sum, value) => sum + value, 0))}
+              </div>
+            </>
+          ) : (
+            <div style={{ color: '#92400e' }}>
+              Not enough history yet: a {typeInfo.label.toLowerCase()} model needs at least {typeInfo.minHistoryMonths} complete
+              months with activity in the history window.
+            </div>
+          )}
+        </div>
+        <p style={{ margin: '8px 0 0 0', fontSize: '12px', color: '#6b7280' }}>
+          The fit is saved with the model. Refit it later to take in newer months.
+        </p>
+
+        <div style={{ marginTop: '16px' }}>
+          <label style={labelStyle}>Version Note</label>
+          <input
+            type="text"
+            value={versionNote}
+            onChange={(e) => setVersionNote(e.target.value)}
+            placeholder="What changed and why (optional)"
+            style={inputStyle}
+          />
+        </div>
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '12px', marginTop: '24px' }}>
+          <button
+            onClick={onClose}
+            style={{ padding: '8px 16px', border: '1px solid #d1d5db', borderRadius: '6px', backgroundColor: 'white', color: '#374151', fontSize: '14px', cursor: 'pointer' }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            style={{
+              padding: '8px 16px',
+              border: 'none',
+              borderRadius: '6px',
+              backgroundColor: saving ? '#e5e7eb' : '#3b82f6',
+              color: saving ? '#9ca3af' : 'white',
+              fontSize: '14px',
+              cursor: saving ? 'not-allowed' : 'pointer'
+            }}
+          >
+            {saving ? 'Saving...' : model ? 'Refit & Save' : 'Create Model'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { Fragment, useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { approachLabel, type ForecastAccuracy as ForecastAccuracyResult } from '../services/forecastAccuracy';
+import { FORECAST_METRICS } from '../services/forecastModels';
+import type { ForecastErrors } from '../utils/statistics';
+
+interface ForecastAccuracyProps {
+  accuracy: ForecastAccuracyResult;
+}
+
+const thStyle = {
+  padding: '8px 10px',
+  borderBottom: '2px solid #e5e7eb',
+  fontSize: '12px',
+  fontWeight: 600,
+  color: '#374151',
+  textAlign: 'right' as const,
+  whiteSpace: 'nowrap' as const,
+};
+
+const tdStyle = {
+  padding: '8px 10px',
+  borderBottom: '1px solid #f3f4f6',
+  fontSize: '13px',
+  color: '#1f2937',
+  textAlign: 'right' as const,
+};
+
+const cardStyle = { background: 'white', border: '1px solid #e5e7eb', borderRadius: 12, padding: 16 };
+
+const toUSD = (cents: number) => (cents / 100).toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+const formatMape = (errors: ForecastErrors) => errors.mape === null ? '—' : `${(errors.mape * 100).toFixed(1)}%`;
+
+// Positive bias means the forecasts ran high
+const formatBias = (errors: ForecastErrors) =>
+  errors.bias === null ? '—' : `${errors.bias >= 0 ? '+' : ''}${(errors.bias * 100).toFixed(1)}%`;
+
+const biasColor = (errors: ForecastErrors) =>
+  errors.bias === null || Math.abs(errors.bias) < 0.05 ? '#1f2937' : errors.bias > 0 ? '#b45309' : '#1d4ed8';
+
+/**
+ * How accurate each forecast model and modeling approach has been, for Insights
+ */
+export default function ForecastAccuracy({ accuracy }: ForecastAccuracyProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  if (accuracy.models.length === 0) {
+    return (
+      <div style={{ ...cardStyle, color: '#6b7280', fontSize: 14 }}>
+        Each forecast model's projection for the current year is captured once a month. Accuracy shows up here after
+        the first capture, and firms up once the year is over.
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+      <div style={{ ...cardStyle, overflowX: 'auto' }}>
+        <div style={{ fontSize: 14, fontWeight: 600, color: '#1f2937', marginBottom: 4 }}>By approach</div>
+        <div style={{ fontSize: 12, color: '#6b7280', marginBottom: 12 }}>
+          {accuracy.provisional
+            ? 'Scored on the current year so far: plans against revenue received and scheduled, fitted models against the booked revenue or cash they project. Scores settle once the year is over.'
+            : 'Scored on completed years: plans against the revenue received in each year, fitted models against the booked revenue or cash they project.'}
+        </div>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={{ ...thStyle, textAlign: 'left' }}>Approach</th>
+              <th style={thStyle}>Models</th>
+              <th style={thStyle} title="Mean absolute percentage error: how far off the projections were on average">MAPE</th>
+              <th style={thStyle} title="Average signed error: positive when projections ran high">Bias</th>
+            </tr>
+          </thead>
+          <tbody>
+            {accuracy.approaches.map(approach => (
+              <tr key={approach.modelType} style={{ background: approach.modelType === accuracy.best ? '#ecfdf5' : undefined }}>
+                <td style={{ ...tdStyle, textAlign: 'left', fontWeight: 500 }}>
+                  {approach.label}
+                  {approach.modelType === accuracy.best && accuracy.approaches.length > 1 && (
+                    <span style={{ marginLeft: 8, fontSize: 11, fontWeight: 600, color: '#065f46' }}>Most accurate</span>
+                  )}
+                </td>
+                <td style={tdStyle}>{approach.models}</td>
+                <td style={{ ...tdStyle, fontWeight: 600 }}>{formatMape(approach.errors)}</td>
+                <td style={{ ...tdStyle, color: biasColor(approach.errors) }}>{formatBias(approach.errors)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div style={{ ...cardStyle, overflowX: 'auto' }}>
+        <div style={{ fontSize: 14, fontWeight: 600, color: '#1f2937', marginBottom: 12 }}>By model</div>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={{ ...thStyle, textAlign: 'left' }}>Model</th>
+              <th style={thStyle}>Year</th>
+              <th style={thStyle}>Snapshots</th>
+              <th style={thStyle}>Actual</th>
+              <th style={thStyle}>MAPE</th>
+              <th style={thStyle}>Bias</th>
+            </tr>
+          </thead>
+          <tbody>
+            {accuracy.models.map(model => {
+              const isExpanded = expanded === model.key;
+              const canExpand = model.serviceTypes.length > 0;
+              return (
+                <Fragment key={model.key}>
+                  <tr>
+                    <td style={{ ...tdStyle, textAlign: 'left' }}>
+                      <span style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                        {canExpand ? (
+                          <button
+                            onClick={() => setExpanded(isExpanded ? null : model.key)}
+                            style={{ background: 'none', border: 'none', cursor: 'pointer', padding: 0, display: 'flex', color: '#6b7280' }}
+                            title={isExpanded ? 'Hide service types' : 'Show service types'}
+                          >
+                            {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                          </button>
+                        ) : (
+                          <span style={{ width: 14 }} />
+                        )}
+                        <span style={{ fontWeight: 500 }}>{model.modelName}</span>
+                        <span style={{ fontSize: 11, color: '#6b7280' }}>
+                          {approachLabel(model.modelType)}
+                          {model.metric && ` · ${FORECAST_METRICS.find(m => m.metric === model.metric)?.label}`}
+                          {model.modelId === null && ' · deleted'}
+                        </span>
+                      </span>
+                    </td>
+                    <td style={tdStyle}>
+                      {model.year}
+                      {model.provisional && <span style={{ fontSize: 11, color: '#6b7280' }}> (so far)</span>}
+                    </td>
+                    <td style={tdStyle}>{model.snapshots}</td>
+                    <td style={tdStyle}>{toUSD(model.actual)}</td>
+                    <td style={{ ...tdStyle, fontWeight: 600 }}>{formatMape(model.errors)}</td>
+                    <td style={{ ...tdStyle, color: biasColor(model.errors) }}>{formatBias(model.errors)}</td>
+                  </tr>
+                  {isExpanded && model.serviceTypes.map(st => (
+                    <tr key={st.serviceTypeId} style={{ background: '#f9fafb' }}>
+                      <td style={{ ...tdStyle, textAlign: 'left', paddingLeft: 40, color: '#374151' }}>{st.name}</td>
+                      <td style={tdStyle}></td>
+                      <td style={tdStyle}></td>
+                      <td style={tdStyle}></td>
+                      <td style={tdStyle}>{formatMape(st.errors)}</td>
+                      <td style={{ ...tdStyle, color: biasColor(st.errors) }}>{formatBias(st.errors)}</td>
+                    </tr>
+                  ))}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
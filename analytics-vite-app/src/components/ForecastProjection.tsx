@@ -0,0 +1,213 @@
+import { useMemo, useState } from 'react';
+import { History, RefreshCw, Trash2 } from 'lucide-react';
+import {
+  FITTED_MODEL_TYPES,
+  FORECAST_METRICS,
+  compareWithPlan,
+  formatMetricValue,
+  planTarget,
+} from '../services/forecastModels';
+import type { FunnelScopeData } from '../services/funnelScope';
+import { MONTH_NAMES, indexToMonth } from '../services/insightsMetrics';
+import { getMonthNameShort } from '../utils/formatters';
+import type { ForecastModel } from '../types';
+
+interface ForecastProjectionProps {
+  model: ForecastModel; // A fitted model
+  plans: ForecastModel[]; // Hand-built models to compare against
+  data: FunnelScopeData;
+  onRefit: () => void;
+  onShowHistory: () => void;
+  onDelete: () => void;
+  isViewOnly?: boolean;
+}
+
+const formatMonthIndex = (index: number) => {
+  const { year, month } = indexToMonth(index);
+  return `${getMonthNameShort(month)} ${year}`;
+};
+
+// Prefer the active plan for the same year, then any plan for that year
+const defaultPlanId = (model: ForecastModel, plans: ForecastModel[]) => {
+  const sameYear = plans.filter(plan => plan.year === model.year);
+  return (sameYear.find(plan => plan.isActive) || sameYear[0] || plans.find(plan => plan.isActive) || plans[0])?.id || '';
+};
+
+/**
+ * A fitted model's projection for its year, month by month, next to a plan and the actuals so far
+ */
+export default function ForecastProjection({ model, plans, data, onRefit, onShowHistory, onDelete, isViewOnly = false }: ForecastProjectionProps) {
+  const [planId, setPlanId] = useState(() => defaultPlanId(model, plans));
+
+  const plan = plans.find(p => p.id === planId) || null;
+  const metric = model.parameters?.metric || 'bookings';
+  const fit = model.parameters?.fit;
+  const typeLabel = FITTED_MODEL_TYPES.find(info => info.type === model.modelType)?.label || model.modelType;
+  const metricLabel = FORECAST_METRICS.find(option => option.metric === metric)?.label || metric;
+
+  const rows = useMemo(() => compareWithPlan(model, plan, data), [model, plan, data]);
+  const totals = rows.reduce(
+    (sum, row) => ({
+      projected: sum.projected + row.projected,
+      actual: sum.actual + (row.actual ?? 0),
+    }),
+    { projected: 0, actual: 0 }
+  );
+  const planTotal = plan ? planTarget(plan, metric) : null;
+
+  const cellStyle = { padding: '10px 16px', textAlign: 'right' as const };
+  const headerStyle = {
+    ...cellStyle,
+    fontSize: '12px',
+    fontWeight: 600,
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+    color: '#666',
+  };
+  const differenceColor = (difference: number | null) =>
+    difference === null ? '#6b7280' : difference >= 0 ? '#065f46' : '#991b1b';
+  const formatDifference = (difference: number | null) =>
+    difference === null ? '—' : `${difference >= 0 ? '+' : '-'}${formatMetricValue(metric, Math.abs(difference))}`;
+
+  return (
+    <div style={{ backgroundColor: 'white', borderRadius: '12px', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', overflow: 'hidden' }}>
+      <div style={{ padding: '20px', borderBottom: '1px solid #e5e7eb' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '16px' }}>
+          <div>
+            <h2 style={{ fontSize: '18px', fontWeight: '600', margin: '0 0 4px 0', color: '#1f2937' }}>{model.name}</h2>
+            <p style={{ fontSize: '14px', color: '#6b7280', margin: 0 }}>
+              {model.year} • {typeLabel} of {metricLabel.toLowerCase()}
+            </p>
+            <p style={{ fontSize: '12px', color: '#9ca3af', margin: '4px 0 0 0' }}>
+              {fit
+                ? <>
+                    Fitted to {formatMonthIndex(fit.historyStart)} – {formatMonthIndex(fit.historyEnd)}
+                    {fit.rSquared !== null && ` · trend fit R² ${fit.rSquared.toFixed(2)}`}
+                    {` · fitted ${new Date(fit.fittedAt).toLocaleDateString()}`}
+                  </>
+                : 'Not fitted yet'}
+            </p>
+          </div>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button
+              onClick={onShowHistory}
+              style={{
+                backgroundColor: '#f3f4f6',
+                color: '#374151',
+                border: '1px solid #d1d5db',
+                borderRadius: '6px',
+                padding: '8px 12px',
+                fontSize: '12px',
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '4px'
+              }}
+            >
+              <History size={12} />
+              History
+            </button>
+            <button
+              onClick={onRefit}
+              disabled={isViewOnly}
+              style={{
+                backgroundColor: '#f3f4f6',
+                color: '#374151',
+                border: '1px solid #d1d5db',
+                borderRadius: '6px',
+                padding: '8px 12px',
+                fontSize: '12px',
+                cursor: isViewOnly ? 'not-allowed' : 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '4px'
+              }}
+            >
+              <RefreshCw size={12} />
+              Refit
+            </button>
+            <button
+              onClick={onDelete}
+              disabled={isViewOnly}
+              style={{
+                backgroundColor: '#fef2f2',
+                color: '#dc2626',
+                border: '1px solid #fecaca',
+                borderRadius: '6px',
+                padding: '8px 12px',
+                fontSize: '12px',
+                cursor: isViewOnly ? 'not-allowed' : 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '4px'
+              }}
+            >
+              <Trash2 size={12} />
+              Delete
+            </button>
+          </div>
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '16px', fontSize: '14px', color: '#374151' }}>
+          <label htmlFor="projection-plan">Compare with plan</label>
+          <select
+            id="projection-plan"
+            value={planId}
+            onChange={(e) => setPlanId(e.target.value)}
+            style={{ padding: '6px 10px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '14px' }}
+          >
+            <option value="">No plan</option>
+            {plans.map(p => (
+              <option key={p.id} value={p.id}>{p.name} ({p.year})</option>
+            ))}
+          </select>
+          {plan && (
+            <span style={{ fontSize: '12px', color: '#6b7280' }}>
+              The plan's yearly {metric === 'closes' ? 'quantity' : 'forecast'} is spread evenly across the months
+            </span>
+          )}
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div style={{ padding: '40px 20px', textAlign: 'center', color: '#6b7280', fontSize: '14px' }}>
+          This model has no fit. Refit it once there is enough history.
+        </div>
+      ) : (
+        <div style={{ overflowX: 'auto' }}>
+          <table style={{ width: '100%', fontSize: '14px', borderCollapse: 'collapse' }}>
+            <thead style={{ backgroundColor: '#f5f5f5' }}>
+              <tr>
+                <th style={{ ...headerStyle, textAlign: 'left' }}>Month</th>
+                <th style={headerStyle}>Projected</th>
+                <th style={headerStyle}>Plan</th>
+                <th style={headerStyle}>Difference</th>
+                <th style={headerStyle}>Actual</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.month} style={{ borderBottom: '1px solid #eee' }}>
+                  <td style={{ ...cellStyle, textAlign: 'left', fontWeight: 500 }}>{MONTH_NAMES[row.month - 1]}</td>
+                  <td style={{ ...cellStyle, fontWeight: 600 }}>{formatMetricValue(metric, row.projected)}</td>
+                  <td style={cellStyle}>{row.plan === null ? '—' : formatMetricValue(metric, row.plan)}</td>
+                  <td style={{ ...cellStyle, color: differenceColor(row.difference) }}>{formatDifference(row.difference)}</td>
+                  <td style={{ ...cellStyle, color: '#6b7280' }}>{row.actual === null ? '—' : formatMetricValue(metric, row.actual)}</td>
+                </tr>
+              ))}
+              <tr style={{ backgroundColor: '#e5e7eb', borderTop: '2px solid #9ca3af', fontWeight: 700 }}>
+                <td style={{ ...cellStyle, textAlign: 'left' }}>Total</td>
+                <td style={cellStyle}>{formatMetricValue(metric, totals.projected)}</td>
+                <td style={cellStyle}>{planTotal === null ? '—' : formatMetricValue(metric, planTotal)}</td>
+                <td style={{ ...cellStyle, color: differenceColor(planTotal === null ? null : totals.projected - planTotal) }}>
+                  {formatDifference(planTotal === null ? null : totals.projected - planTotal)}
+                </td>
+                <td style={{ ...cellStyle, color: '#6b7280' }}>{formatMetricValue(metric, totals.actual)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
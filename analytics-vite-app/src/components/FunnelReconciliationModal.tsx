@@ -0,0 +1,262 @@
+import { useState } from 'react';
+import { X, ChevronDown, ChevronRight, Undo2, Check } from 'lucide-react';
+import { keepManualValue, revertToCalculated, type ReconciliationItem } from '../services/funnelReconciliation';
+import { MONTH_NAMES, paymentCashDate } from '../services/insightsMetrics';
+import { logger } from '../utils/logger';
+import type { FunnelData } from '../types';
+
+interface FunnelReconciliationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: ReconciliationItem[];
+  onSave: (month: FunnelData) => Promise<boolean>;
+  isViewOnly?: boolean;
+}
+
+const toUSD = (cents: number) => (cents / 100).toLocaleString(undefined, { style: 'currency', currency: 'USD' });
+
+const formatValue = (item: ReconciliationItem, value: number) =>
+  item.field === 'closes' ? value.toLocaleString() : toUSD(value);
+
+const formatDifference = (item: ReconciliationItem) =>
+  `${item.difference > 0 ? '+' : '-'}${formatValue(item, Math.abs(item.difference))}`;
+
+/**
+ * Months where a manual closes, bookings or cash value differs from the calculated one
+ * Each can be reverted to the calculated value or kept with a reason.
+ */
+export default function FunnelReconciliationModal({
+  isOpen,
+  onClose,
+  items,
+  onSave,
+  isViewOnly = false,
+}: FunnelReconciliationModalProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [keeping, setKeeping] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [showReviewed, setShowReviewed] = useState(false);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const reviewedCount = items.filter(item => item.keptReason !== null).length;
+  const visible = showReviewed ? items : items.filter(item => item.keptReason === null);
+
+  const save = async (item: ReconciliationItem, month: FunnelData) => {
+    setSaving(item.key);
+    setError(null);
+    try {
+      if (await onSave(month)) {
+        setKeeping(null);
+        setReason('');
+      } else {
+        setError('Failed to save the month. Please try again.');
+      }
+    } catch (err) {
+      logger.error('Error saving reconciled funnel month:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the month');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const startKeeping = (item: ReconciliationItem) => {
+    setKeeping(item.key);
+    setReason(item.keptReason || '');
+  };
+
+  const buttonStyle = (enabled: boolean, primary = false) => ({
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '6px 12px',
+    border: primary ? 'none' : '1px solid #d1d5db',
+    borderRadius: '6px',
+    backgroundColor: !enabled ? '#e5e7eb' : primary ? '#3b82f6' : 'white',
+    color: !enabled ? '#9ca3af' : primary ? 'white' : '#374151',
+    fontSize: '13px',
+    cursor: enabled ? 'pointer' : 'not-allowed',
+  });
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          padding: '24px',
+          maxWidth: '800px',
+          width: '90%',
+          maxHeight: '90vh',
+          overflow: 'auto',
+          boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>Reconcile Manual Values</h2>
+          <button
+            onClick={onClose}
+            style={{ background: 'none', border: 'none', cursor: 'pointer', padding: '4px', display: 'flex', alignItems: 'center' }}
+          >
+            <X size={20} />
+          </button>
+        </div>
+        <p style={{ margin: '0 0 16px 0', fontSize: '13px', color: '#6b7280' }}>
+          Months where a manually entered Closes, Bookings or Cash value differs from what your bookings and
+          payments add up to. Revert to use the calculated value, or keep the manual value and note why.
+        </p>
+
+        {error && (
+          <div style={{
+            padding: '12px',
+            backgroundColor: '#fef2f2',
+            border: '1px solid #fecaca',
+            borderRadius: '6px',
+            color: '#991b1b',
+            fontSize: '14px',
+            marginBottom: '16px',
+          }}>
+            {error}
+          </div>
+        )}
+
+        {reviewedCount > 0 && (
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px', color: '#374151', marginBottom: '12px' }}>
+            <input type="checkbox" checked={showReviewed} onChange={(e) => setShowReviewed(e.target.checked)} />
+            Show kept values ({reviewedCount})
+          </label>
+        )}
+
+        {visible.length === 0 ? (
+          <div style={{ padding: '24px', textAlign: 'center', color: '#6b7280', fontSize: '14px' }}>
+            {items.length === 0
+              ? 'Every manual value matches its calculated value.'
+              : 'Every difference has been reviewed.'}
+          </div>
+        ) : (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+            {visible.map(item => {
+              const isExpanded = expanded === item.key;
+              const isSaving = saving === item.key;
+              const canAct = !isViewOnly && saving === null;
+              const detailCount = item.field === 'cash' ? item.payments.length : item.bookings.length;
+              return (
+                <div key={item.key} style={{ border: '1px solid #e5e7eb', borderRadius: '8px', padding: '12px' }}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+                    <button
+                      onClick={() => setExpanded(isExpanded ? null : item.key)}
+                      style={{ background: 'none', border: 'none', cursor: 'pointer', padding: 0, display: 'flex', color: '#6b7280' }}
+                      title={isExpanded ? 'Hide details' : 'Show what the calculated value is made of'}
+                    >
+                      {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                    </button>
+                    <div style={{ flex: 1 }}>
+                      <div style={{ fontSize: '14px', fontWeight: 600, color: '#1f2937' }}>
+                        {MONTH_NAMES[item.month.month - 1]} {item.month.year} · {item.label}
+                        {item.funnelName && <span style={{ fontWeight: 400, color: '#6b7280' }}> · {item.funnelName}</span>}
+                      </div>
+                      <div style={{ fontSize: '13px', color: '#6b7280', marginTop: '2px' }}>
+                        Manual {formatValue(item, item.manual)} · Calculated {formatValue(item, item.calculated)} ·{' '}
+                        <span style={{ color: item.difference > 0 ? '#b45309' : '#1d4ed8', fontWeight: 600 }}>{formatDifference(item)}</span>
+                      </div>
+                      {item.keptReason !== null && keeping !== item.key && (
+                        <div style={{ fontSize: '12px', color: '#065f46', marginTop: '4px' }}>Kept: {item.keptReason}</div>
+                      )}
+                    </div>
+                    <button onClick={() => save(item, revertToCalculated(item))} disabled={!canAct} style={buttonStyle(canAct)}>
+                      <Undo2 size={14} />
+                      {isSaving ? 'Saving...' : 'Revert to calculated'}
+                    </button>
+                    {keeping !== item.key && (
+                      <button onClick={() => startKeeping(item)} disabled={!canAct} style={buttonStyle(canAct)}>
+                        <Check size={14} />
+                        {item.keptReason !== null ? 'Edit reason' : 'Keep manual'}
+                      </button>
+                    )}
+                  </div>
+
+                  {keeping === item.key && (
+                    <div style={{ display: 'flex', gap: '8px', marginTop: '12px', paddingLeft: '28px' }}>
+                      <input
+                        type="text"
+                        value={reason}
+                        autoFocus
+                        placeholder="Why the manual value is right (e.g. booking paid outside the CRM)"
+                        onChange={(e) => setReason(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter' && reason.trim()) save(item, keepManualValue(item, reason)); }}
+                        style={{ flex: 1, padding: '6px 10px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '13px' }}
+                      />
+                      <button
+                        onClick={() => save(item, keepManualValue(item, reason))}
+                        disabled={!canAct || !reason.trim()}
+                        style={buttonStyle(canAct && !!reason.trim(), true)}
+                      >
+                        Keep
+                      </button>
+                      <button onClick={() => setKeeping(null)} style={buttonStyle(true)}>
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+
+                  {isExpanded && (
+                    <div style={{ marginTop: '12px', paddingLeft: '28px', fontSize: '13px', color: '#374151' }}>
+                      {detailCount === 0 ? (
+                        <div style={{ color: '#6b7280' }}>
+                          No {item.field === 'cash' ? 'payments' : 'bookings'} in this month are counted toward the calculated value.
+                        </div>
+                      ) : item.field === 'cash' ? (
+                        item.payments.map(payment => (
+                          <div key={payment.id} style={{ display: 'flex', gap: '12px', padding: '4px 0', borderBottom: '1px solid #f3f4f6' }}>
+                            <span style={{ width: '96px', color: '#6b7280' }}>{paymentCashDate(payment)}</span>
+                            <span style={{ flex: 1 }}>{payment.memo || payment.notes || 'Payment'}</span>
+                            <span>{toUSD(payment.amount || payment.amountCents || 0)}</span>
+                          </div>
+                        ))
+                      ) : (
+                        item.bookings.map(booking => (
+                          <div key={booking.id} style={{ display: 'flex', gap: '12px', padding: '4px 0', borderBottom: '1px solid #f3f4f6' }}>
+                            <span style={{ width: '96px', color: '#6b7280' }}>{booking.dateBooked}</span>
+                            <span style={{ flex: 1 }}>{booking.projectName || booking.clientName}</span>
+                            <span>{toUSD(booking.bookedRevenue || 0)}</span>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '24px' }}>
+          <button
+            onClick={onClose}
+            style={{ padding: '8px 16px', border: '1px solid #d1d5db', borderRadius: '6px', backgroundColor: 'white', color: '#374151', fontSize: '14px', cursor: 'pointer' }}
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
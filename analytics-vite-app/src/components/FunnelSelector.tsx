@@ -0,0 +1,41 @@
+import { ALL_FUNNELS, activeFunnels, type FunnelSelection } from '../services/funnelScope';
+import type { FunnelDefinition } from '../types';
+
+interface FunnelSelectorProps {
+  funnels: FunnelDefinition[];
+  value: FunnelSelection;
+  onChange: (value: FunnelSelection) => void;
+}
+
+/**
+ * Funnel picker: "All funnels" plus every funnel that isn't archived
+ * Renders nothing until the account has more than one funnel.
+ */
+export default function FunnelSelector({ funnels, value, onChange }: FunnelSelectorProps) {
+  const options = activeFunnels(funnels);
+  if (funnels.length <= 1) return null;
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      style={{
+        padding: '10px 12px',
+        border: '1px solid #d1d5db',
+        borderRadius: '8px',
+        fontSize: '14px',
+        backgroundColor: 'white',
+        minWidth: '160px'
+      }}
+    >
+      <option value={ALL_FUNNELS}>All funnels</option>
+      {options.map(funnel => (
+        <option key={funnel.id} value={funnel.id}>{funnel.name}</option>
+      ))}
+      {/* Keep an archived selection visible until the user moves off it */}
+      {value !== ALL_FUNNELS && !options.some(funnel => funnel.id === value) && (
+        <option value={value}>{funnels.find(funnel => funnel.id === value)?.name || 'Archived funnel'}</option>
+      )}
+    </select>
+  );
+}
@@ -0,0 +1,278 @@
+import { useState } from 'react';
+import { X, Edit } from 'lucide-react';
+import { toUSD, formatNumber, getMonthNameShort } from '../utils/formatters';
+import { logger } from '../utils/logger';
+import type { SalesFunnelWeek } from '../services/funnelWeeks';
+import type { FunnelWeek } from '../types';
+
+interface FunnelWeekTableProps {
+  weeks: SalesFunnelWeek[];
+  funnelId?: string; // Funnel edited weeks are saved to
+  canEdit: boolean; // False when several funnels are combined
+  isViewOnly?: boolean;
+  onSaveWeek: (week: FunnelWeek) => Promise<boolean>;
+}
+
+const shortDate = (date: string) => `${getMonthNameShort(parseInt(date.slice(5, 7)))} ${parseInt(date.slice(8, 10))}`;
+
+/**
+ * Week-by-week funnel table for one year, grouped by the month each week rolls up into
+ * Inquiries and calls are entered per week; closes, bookings and cash are calculated.
+ */
+export default function FunnelWeekTable({ weeks, funnelId, canEdit, isViewOnly = false, onSaveWeek }: FunnelWeekTableProps) {
+  const [editing, setEditing] = useState<FunnelWeek | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const today = new Date().toISOString().slice(0, 10);
+
+  const totals = weeks.reduce((sum, week) => ({
+    inquiries: sum.inquiries + week.inquiries,
+    callsBooked: sum.callsBooked + week.callsBooked,
+    callsTaken: sum.callsTaken + week.callsTaken,
+    closes: sum.closes + week.closes,
+    bookings: sum.bookings + week.bookings,
+    cash: sum.cash + week.cash,
+  }), { inquiries: 0, callsBooked: 0, callsTaken: 0, closes: 0, bookings: 0, cash: 0 });
+
+  const handleEdit = (week: SalesFunnelWeek) => {
+    setError(null);
+    setEditing({
+      id: '',
+      funnelId,
+      year: week.year,
+      week: week.week,
+      inquiries: week.inquiries,
+      callsBooked: week.callsBooked,
+      callsTaken: week.callsTaken,
+      notes: week.notes,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setSaving(true);
+    setError(null);
+    try {
+      if (await onSaveWeek(editing)) {
+        setEditing(null);
+      } else {
+        setError('Failed to save the week. Please try again.');
+      }
+    } catch (err) {
+      logger.error('Error saving funnel week:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the week');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const cellStyle = { padding: '12px 8px', textAlign: 'right' as const, color: '#374151' };
+  const headerStyle = { padding: '12px 8px', textAlign: 'right' as const, fontWeight: '600', color: '#374151' };
+  const inputStyle = { width: '100%', padding: '8px 12px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '14px' };
+
+  return (
+    <>
+      <div style={{ overflowX: 'auto' }}>
+        <table style={{ width: '100%', fontSize: '14px' }}>
+          <thead>
+            <tr style={{ backgroundColor: '#f9fafb' }}>
+              <th style={{ ...headerStyle, textAlign: 'left', padding: '12px', minWidth: '150px' }}>Week</th>
+              <th style={headerStyle}>Inquiries</th>
+              <th style={headerStyle}>Calls Booked</th>
+              <th style={headerStyle}>Calls Taken</th>
+              <th style={headerStyle}>Closes</th>
+              <th style={headerStyle}>Bookings</th>
+              <th style={headerStyle}>Cash</th>
+              <th style={{ ...headerStyle, textAlign: 'left', minWidth: '110px' }}>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {weeks.map((week, index) => {
+              const isFuture = week.startDate > today;
+              const isLocked = isViewOnly || isFuture || !canEdit;
+              const startsMonth = index === 0 || weeks[index - 1].month !== week.month;
+              return (
+                <tr
+                  key={week.id}
+                  style={{
+                    borderBottom: '1px solid #e5e7eb',
+                    borderTop: startsMonth && index > 0 ? '2px solid #d1d5db' : undefined,
+                    backgroundColor: index % 2 === 0 ? '#fafafa' : '#f5f5f5'
+                  }}
+                >
+                  <td style={{ padding: '12px', color: '#1f2937', textAlign: 'left' }} title={week.notes || undefined}>
+                    <div style={{ fontWeight: '500' }}>W{String(week.week).padStart(2, '0')}{startsMonth ? ` · ${getMonthNameShort(week.month)}` : ''}</div>
+                    <div style={{ fontSize: '12px', color: '#6b7280' }}>{shortDate(week.startDate)} – {shortDate(week.endDate)}</div>
+                  </td>
+                  <td style={cellStyle}>{week.hasRow ? formatNumber(week.inquiries) : '–'}</td>
+                  <td style={cellStyle}>{week.hasRow ? formatNumber(week.callsBooked) : '–'}</td>
+                  <td style={cellStyle}>{week.hasRow ? formatNumber(week.callsTaken) : '–'}</td>
+                  <td style={cellStyle}>{formatNumber(week.closes)}</td>
+                  <td style={cellStyle}>{toUSD(week.bookings)}</td>
+                  <td style={cellStyle}>{toUSD(week.cash)}</td>
+                  <td style={{ padding: '12px 8px', textAlign: 'left' }}>
+                    <button
+                      onClick={() => !isLocked && handleEdit(week)}
+                      disabled={isLocked}
+                      style={{
+                        backgroundColor: isLocked ? '#e5e7eb' : '#3b82f6',
+                        color: isLocked ? '#9ca3af' : 'white',
+                        border: 'none',
+                        borderRadius: '6px',
+                        padding: '6px 12px',
+                        fontSize: '12px',
+                        cursor: isLocked ? 'not-allowed' : 'pointer',
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '4px',
+                        opacity: isLocked ? 0.5 : 1
+                      }}
+                      title={isFuture
+                        ? 'Future weeks cannot be edited'
+                        : !canEdit
+                          ? 'Select a funnel to edit its weeks'
+                          : 'Edit Inquiries, Calls Booked and Calls Taken (the month becomes the sum of its weeks)'
+                      }
+                    >
+                      <Edit size={14} />
+                      Edit
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+
+            {/* Total Row */}
+            <tr style={{ backgroundColor: '#e5e7eb', borderTop: '2px solid #9ca3af', fontWeight: '600' }}>
+              <td style={{ padding: '12px', color: '#1f2937', textAlign: 'left' }}>Total</td>
+              <td style={{ ...cellStyle, color: '#1f2937' }}>{formatNumber(totals.inquiries)}</td>
+              <td style={{ ...cellStyle, color: '#1f2937' }}>{formatNumber(totals.callsBooked)}</td>
+              <td style={{ ...cellStyle, color: '#1f2937' }}>{formatNumber(totals.callsTaken)}</td>
+              <td style={{ ...cellStyle, color: '#1f2937' }}>{formatNumber(totals.closes)}</td>
+              <td style={{ ...cellStyle, color: '#1f2937' }}>{toUSD(totals.bookings)}</td>
+              <td style={{ ...cellStyle, color: '#1f2937' }}>{toUSD(totals.cash)}</td>
+              <td style={{ padding: '12px 8px' }}></td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {/* Edit Week Modal */}
+      {editing && (
+        <div
+          style={{
+            position: 'fixed',
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: 'rgba(0, 0, 0, 0.5)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            zIndex: 1000,
+          }}
+          onClick={() => setEditing(null)}
+        >
+          <div
+            style={{
+              backgroundColor: 'white',
+              borderRadius: '8px',
+              padding: '24px',
+              maxWidth: '480px',
+              width: '90%',
+              maxHeight: '90vh',
+              overflow: 'auto',
+              boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)',
+            }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+              <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>Edit Week {editing.week}, {editing.year}</h2>
+              <button
+                onClick={() => setEditing(null)}
+                style={{ background: 'none', border: 'none', cursor: 'pointer', padding: '4px', display: 'flex', alignItems: 'center' }}
+              >
+                <X size={20} />
+              </button>
+            </div>
+            <p style={{ margin: '0 0 16px 0', fontSize: '13px', color: '#6b7280' }}>
+              Saving sets the month's inquiries and calls to the total of its weeks.
+            </p>
+
+            {error && (
+              <div style={{
+                padding: '12px',
+                backgroundColor: '#fef2f2',
+                border: '1px solid #fecaca',
+                borderRadius: '6px',
+                color: '#991b1b',
+                fontSize: '14px',
+                marginBottom: '16px',
+              }}>
+                {error}
+              </div>
+            )}
+
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+              {([
+                ['inquiries', 'Inquiries'],
+                ['callsBooked', 'Calls Booked'],
+                ['callsTaken', 'Calls Taken'],
+              ] as const).map(([field, label]) => (
+                <div key={field}>
+                  <label style={{ display: 'block', fontSize: '14px', fontWeight: '500', color: '#374151', marginBottom: '4px' }}>
+                    {label}
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={editing[field]}
+                    onChange={(e) => setEditing({ ...editing, [field]: parseInt(e.target.value) || 0 })}
+                    style={inputStyle}
+                  />
+                </div>
+              ))}
+              <div>
+                <label style={{ display: 'block', fontSize: '14px', fontWeight: '500', color: '#374151', marginBottom: '4px' }}>
+                  Notes
+                </label>
+                <textarea
+                  value={editing.notes || ''}
+                  onChange={(e) => setEditing({ ...editing, notes: e.target.value })}
+                  rows={3}
+                  placeholder="e.g. Spring promo ads started"
+                  style={{ ...inputStyle, resize: 'vertical' }}
+                />
+              </div>
+            </div>
+
+            <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '12px', marginTop: '24px' }}>
+              <button
+                onClick={() => setEditing(null)}
+                style={{ padding: '8px 16px', border: '1px solid #d1d5db', borderRadius: '6px', backgroundColor: 'white', color: '#374151', fontSize: '14px', cursor: 'pointer' }}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving || isViewOnly}
+                style={{
+                  padding: '8px 16px',
+                  border: 'none',
+                  borderRadius: '6px',
+                  backgroundColor: saving || isViewOnly ? '#e5e7eb' : '#3b82f6',
+                  color: saving || isViewOnly ? '#9ca3af' : 'white',
+                  fontSize: '14px',
+                  cursor: saving || isViewOnly ? 'not-allowed' : 'pointer'
+                }}
+              >
+                {saving ? 'Saving...' : 'Save Week'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,240 @@
+import { useState, useEffect, useCallback } from 'react';
+import { X, RotateCcw } from 'lucide-react';
+import { UnifiedDataService } from '../services/unifiedDataService';
+import { getImporter } from '../services/importerRegistry';
+import { formatDateTime } from '../utils/formatters';
+import { logger } from '../utils/logger';
+import type { ImportBatch } from '../types';
+
+interface ImportHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRolledBack: () => Promise<void> | void; // Reload data after a rollback
+  userId: string;
+  isViewOnly?: boolean;
+}
+
+const cellStyle = {
+  padding: '8px',
+  borderBottom: '1px solid #e5e7eb',
+  fontSize: '13px',
+  verticalAlign: 'top' as const,
+};
+
+/**
+ * Import history
+ * Lists past import batches and rolls a whole batch back in one step
+ */
+export default function ImportHistoryModal({ isOpen, onClose, onRolledBack, userId, isViewOnly = false }: ImportHistoryModalProps) {
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [confirmBatch, setConfirmBatch] = useState<ImportBatch | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBatches = useCallback(async () => {
+    setLoading(true);
+    setBatches(await UnifiedDataService.getImportBatches(userId));
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    if (isOpen) loadBatches();
+  }, [isOpen, loadBatches]);
+
+  if (!isOpen) return null;
+
+  const handleRollback = async (batch: ImportBatch) => {
+    setRollingBack(true);
+    setError(null);
+    try {
+      const success = await UnifiedDataService.rollbackImportBatch(userId, batch.id, isViewOnly);
+      if (!success) {
+        setError('Could not roll back this import. Nothing was changed - please try again.');
+        return;
+      }
+      setConfirmBatch(null);
+      await loadBatches();
+      await onRolledBack();
+    } catch (err) {
+      logger.error('Error rolling back import:', err);
+      setError(err instanceof Error ? err.message : 'Failed to roll back import');
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
+  const describeBatch = (batch: ImportBatch) => {
+    const parts = [];
+    if (batch.bookingIds.length > 0) parts.push(`${batch.bookingIds.length} booking(s) created`);
+    if (batch.updatedBookings.length > 0) parts.push(`${batch.updatedBookings.length} booking(s) updated`);
+    if (batch.paymentIds.length > 0) parts.push(`${batch.paymentIds.length} payment(s) created`);
+    if (batch.updatedPayments.length > 0) parts.push(`${batch.updatedPayments.length} payment(s) updated`);
+    if (batch.serviceTypeIds.length > 0) parts.push(`${batch.serviceTypeIds.length} service type(s)`);
+    if (batch.leadSourceIds.length > 0) parts.push(`${batch.leadSourceIds.length} lead source(s)`);
+    if (batch.funnelMonths.length > 0) parts.push(`${batch.funnelMonths.length} funnel month(s)`);
+    return parts.length > 0 ? parts.join(', ') : 'No changes';
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          padding: '24px',
+          maxWidth: '800px',
+          width: '90%',
+          maxHeight: '90vh',
+          overflow: 'auto',
+          boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>Import History</h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              padding: '4px',
+              display: 'flex',
+              alignItems: 'center',
+            }}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {error && (
+          <div style={{ marginBottom: '16px', padding: '12px', backgroundColor: '#fef2f2', border: '1px solid #fecaca', borderRadius: '6px', fontSize: '14px', color: '#dc2626' }}>
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p style={{ fontSize: '14px', color: '#6b7280' }}>Loading import history...</p>
+        ) : batches.length === 0 ? (
+          <p style={{ fontSize: '14px', color: '#6b7280' }}>No imports yet.</p>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ backgroundColor: '#f9fafb', textAlign: 'left' }}>
+                <th style={{ ...cellStyle, fontWeight: '600' }}>Date</th>
+                <th style={{ ...cellStyle, fontWeight: '600' }}>File</th>
+                <th style={{ ...cellStyle, fontWeight: '600' }}>Changes</th>
+                <th style={{ ...cellStyle, fontWeight: '600' }}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {batches.map(batch => (
+                <tr key={batch.id} style={{ opacity: batch.rolledBackAt ? 0.6 : 1 }}>
+                  <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>{formatDateTime(batch.createdAt)}</td>
+                  <td style={cellStyle}>
+                    <div style={{ fontWeight: '500', color: '#374151' }}>{batch.fileName}</div>
+                    <div style={{ fontSize: '12px', color: '#6b7280' }}>
+                      {getImporter(batch.importerId)?.name || batch.importerId} · {batch.rowCount} rows
+                    </div>
+                  </td>
+                  <td style={{ ...cellStyle, color: '#6b7280' }}>{describeBatch(batch)}</td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>
+                    {batch.rolledBackAt ? (
+                      <span style={{ fontSize: '12px', color: '#6b7280', whiteSpace: 'nowrap' }}>
+                        Rolled back {formatDateTime(batch.rolledBackAt)}
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => setConfirmBatch(batch)}
+                        disabled={isViewOnly}
+                        style={{
+                          padding: '6px 12px',
+                          border: '1px solid #fecaca',
+                          borderRadius: '6px',
+                          backgroundColor: 'white',
+                          color: '#dc2626',
+                          fontSize: '13px',
+                          fontWeight: '500',
+                          cursor: isViewOnly ? 'not-allowed' : 'pointer',
+                          opacity: isViewOnly ? 0.5 : 1,
+                          display: 'inline-flex',
+                          alignItems: 'center',
+                          gap: '6px',
+                          whiteSpace: 'nowrap',
+                        }}
+                      >
+                        <RotateCcw size={14} />
+                        Roll back
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {/* Rollback confirmation */}
+        {confirmBatch && (
+          <div style={{ marginTop: '20px', padding: '16px', backgroundColor: '#fef2f2', border: '1px solid #fecaca', borderRadius: '6px' }}>
+            <p style={{ margin: '0 0 12px 0', fontSize: '14px', color: '#991b1b' }}>
+              Roll back the import of <strong>{confirmBatch.fileName}</strong>? This deletes the bookings it created
+              (and their payments), restores the values it overwrote and removes service types and lead sources
+              it created that are no longer used.
+            </p>
+            <div style={{ display: 'flex', gap: '12px', justifyContent: 'flex-end' }}>
+              <button
+                onClick={() => setConfirmBatch(null)}
+                style={{
+                  padding: '8px 16px',
+                  border: '1px solid #d1d5db',
+                  borderRadius: '6px',
+                  backgroundColor: 'white',
+                  color: '#374151',
+                  fontSize: '14px',
+                  fontWeight: '500',
+                  cursor: 'pointer',
+                }}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handleRollback(confirmBatch)}
+                disabled={rollingBack}
+                style={{
+                  padding: '8px 16px',
+                  border: 'none',
+                  borderRadius: '6px',
+                  backgroundColor: '#dc2626',
+                  color: 'white',
+                  fontSize: '14px',
+                  fontWeight: '500',
+                  cursor: rollingBack ? 'not-allowed' : 'pointer',
+                  opacity: rollingBack ? 0.5 : 1,
+                }}
+              >
+                {rollingBack ? 'Rolling back...' : 'Roll Back Import'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
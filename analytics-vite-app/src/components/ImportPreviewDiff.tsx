@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { toUSD } from '../utils/formatters';
+import type { ImportPreview, ImportRowStatus } from '../types';
+
+interface ImportPreviewDiffProps {
+  preview: ImportPreview;
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const STATUS_STYLES: Record<ImportRowStatus, { label: string; color: string; backgroundColor: string }> = {
+  new: { label: 'New', color: '#15803d', backgroundColor: '#dcfce7' },
+  updated: { label: 'Updated', color: '#1d4ed8', backgroundColor: '#dbeafe' },
+  duplicate: { label: 'Duplicate', color: '#6b7280', backgroundColor: '#f3f4f6' },
+  skipped: { label: 'Skipped', color: '#b45309', backgroundColor: '#fef3c7' },
+};
+
+const STATUS_ORDER: ImportRowStatus[] = ['new', 'updated', 'duplicate', 'skipped'];
+
+const cellStyle = {
+  padding: '6px 8px',
+  borderBottom: '1px solid #e5e7eb',
+  fontSize: '12px',
+  verticalAlign: 'top' as const,
+};
+
+/**
+ * Dry-run diff of an import against existing data
+ * Lists what each row will do and which funnel months change, before anything is written
+ */
+export default function ImportPreviewDiff({ preview }: ImportPreviewDiffProps) {
+  const [statusFilter, setStatusFilter] = useState<ImportRowStatus | null>(null);
+
+  const visibleRows = statusFilter ? preview.rows.filter(row => row.status === statusFilter) : preview.rows;
+  const collisions = preview.funnelMonths.filter(change => change.manualCollisions.length > 0);
+
+  const formatChange = (before: number | undefined, after: number, format: (value: number) => string = String) => {
+    if (before === undefined || before === after) return format(after);
+    return `${format(before)} → ${format(after)}`;
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+      {preview.rows.length > 0 && (
+        <div>
+          <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', marginBottom: '8px' }}>
+            {STATUS_ORDER.map(status => (
+              <button
+                key={status}
+                onClick={() => setStatusFilter(statusFilter === status ? null : status)}
+                style={{
+                  padding: '4px 10px',
+                  borderRadius: '9999px',
+                  border: statusFilter === status ? `1px solid ${STATUS_STYLES[status].color}` : '1px solid transparent',
+                  backgroundColor: STATUS_STYLES[status].backgroundColor,
+                  color: STATUS_STYLES[status].color,
+                  fontSize: '12px',
+                  fontWeight: '600',
+                  cursor: 'pointer',
+                }}
+              >
+                {preview.counts[status]} {STATUS_STYLES[status].label}
+              </button>
+            ))}
+          </div>
+
+          <div style={{ maxHeight: '240px', overflowY: 'auto', border: '1px solid #e5e7eb', borderRadius: '6px' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <tbody>
+                {visibleRows.map((row, index) => (
+                  <tr key={`${row.status}-${row.rowNumber ?? ''}-${index}`}>
+                    <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>
+                      <span style={{
+                        padding: '2px 6px',
+                        borderRadius: '4px',
+                        fontWeight: '600',
+                        color: STATUS_STYLES[row.status].color,
+                        backgroundColor: STATUS_STYLES[row.status].backgroundColor,
+                      }}>
+                        {STATUS_STYLES[row.status].label}
+                      </span>
+                    </td>
+                    <td style={{ ...cellStyle, fontWeight: '500', color: '#374151' }}>{row.label}</td>
+                    <td style={{ ...cellStyle, color: '#6b7280' }}>{row.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {collisions.length > 0 && (
+        <div style={{ padding: '12px', backgroundColor: '#fef2f2', borderRadius: '6px', border: '1px solid #fecaca' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px' }}>
+            <AlertCircle size={16} color="#dc2626" />
+            <strong style={{ fontSize: '14px', color: '#dc2626' }}>
+              {collisions.length} {collisions.length === 1 ? 'Month Has' : 'Months Have'} Manual Overrides
+            </strong>
+          </div>
+          <div style={{ fontSize: '12px', color: '#991b1b', marginLeft: '24px' }}>
+            This import will overwrite manually entered values:{' '}
+            {collisions.map(change => `${MONTH_NAMES[change.month - 1]} ${change.year} (${change.manualCollisions.join(', ')})`).join(', ')}
+          </div>
+        </div>
+      )}
+
+      {preview.funnelMonths.length > 0 && (
+        <div>
+          <div style={{ fontSize: '14px', fontWeight: '600', color: '#374151', marginBottom: '8px' }}>
+            Funnel Months Changed
+          </div>
+          <div style={{ maxHeight: '200px', overflowY: 'auto', border: '1px solid #e5e7eb', borderRadius: '6px' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ backgroundColor: '#f9fafb', textAlign: 'left' }}>
+                  <th style={{ ...cellStyle, fontWeight: '600' }}>Month</th>
+                  <th style={{ ...cellStyle, fontWeight: '600' }}>Inquiries</th>
+                  <th style={{ ...cellStyle, fontWeight: '600' }}>Closes</th>
+                  <th style={{ ...cellStyle, fontWeight: '600' }}>Bookings</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.funnelMonths.map(change => (
+                  <tr
+                    key={`${change.year}-${change.month}`}
+                    style={{ backgroundColor: change.manualCollisions.length > 0 ? '#fef2f2' : undefined }}
+                  >
+                    <td style={{ ...cellStyle, fontWeight: '500', color: '#374151', whiteSpace: 'nowrap' }}>
+                      {MONTH_NAMES[change.month - 1]} {change.year}{change.isNew ? ' (new)' : ''}
+                    </td>
+                    <td style={cellStyle}>{formatChange(change.before?.inquiries, change.after.inquiries)}</td>
+                    <td style={cellStyle}>{formatChange(change.before?.closes, change.after.closes)}</td>
+                    <td style={cellStyle}>{formatChange(change.before?.bookings, change.after.bookings, toUSD)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
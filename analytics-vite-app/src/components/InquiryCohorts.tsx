@@ -0,0 +1,131 @@
+import { COHORT_HORIZONS, type CohortAnalysis, type DaysToBookGroup } from '../services/inquiryCohorts';
+import { getMonthNameShort } from '../utils/formatters';
+
+interface InquiryCohortsProps {
+  analysis: CohortAnalysis;
+}
+
+const thStyle = {
+  padding: '8px 10px',
+  borderBottom: '2px solid #e5e7eb',
+  fontSize: '12px',
+  fontWeight: 600,
+  color: '#374151',
+  textAlign: 'right' as const,
+  whiteSpace: 'nowrap' as const,
+};
+
+const tdStyle = {
+  padding: '8px 10px',
+  borderBottom: '1px solid #f3f4f6',
+  fontSize: '13px',
+  color: '#1f2937',
+  textAlign: 'right' as const,
+};
+
+const cardStyle = { background: 'white', border: '1px solid #e5e7eb', borderRadius: 12, padding: 16 };
+
+const formatRate = (rate: number | null) => rate === null ? '—' : `${rate.toFixed(1)}%`;
+
+// Darker green for higher booking rates so slow and fast cohorts stand out
+const rateBackground = (rate: number | null) =>
+  rate === null ? 'transparent' : `rgba(16, 185, 129, ${Math.min(0.5, 0.05 + rate / 100)})`;
+
+/**
+ * Inquiry cohort table and median days-to-book breakdowns for Insights
+ */
+export default function InquiryCohorts({ analysis }: InquiryCohortsProps) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+      <div style={{ ...cardStyle, overflowX: 'auto' }}>
+        <h3 style={{ margin: '0 0 12px 0', fontSize: 14, color: '#374151' }}>Booked Within, by Inquiry Month</h3>
+        {analysis.cohorts.length === 0 ? (
+          <div style={{ color: '#9ca3af', fontSize: 14 }}>No data</div>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <th style={{ ...thStyle, textAlign: 'left' }}>Inquiry Month</th>
+                <th style={thStyle}>Inquiries</th>
+                <th style={thStyle}>Booked</th>
+                {COHORT_HORIZONS.map(horizon => (
+                  <th key={horizon} style={thStyle}>{horizon} mo</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {analysis.cohorts.map(cohort => (
+                <tr key={`${cohort.year}-${cohort.month}`}>
+                  <td style={{ ...tdStyle, textAlign: 'left' }}>{getMonthNameShort(cohort.month)} {cohort.year}</td>
+                  <td style={tdStyle}>{cohort.inquiries.toLocaleString()}</td>
+                  <td style={tdStyle}>{cohort.booked.toLocaleString()}</td>
+                  {cohort.rates.map((rate, i) => (
+                    <td
+                      key={COHORT_HORIZONS[i]}
+                      style={{ ...tdStyle, backgroundColor: rateBackground(rate), color: rate === null ? '#9ca3af' : '#1f2937' }}
+                      title={rate === null
+                        ? `Not ${COHORT_HORIZONS[i]} months old yet (${cohort.bookedWithin[i]} booked so far)`
+                        : `${cohort.bookedWithin[i]} of ${cohort.inquiries} booked`}
+                    >
+                      {formatRate(rate)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              <tr>
+                <td style={{ ...tdStyle, textAlign: 'left', fontWeight: 600 }}>All cohorts</td>
+                <td style={{ ...tdStyle, fontWeight: 600 }}>
+                  {analysis.cohorts.reduce((sum, cohort) => sum + cohort.inquiries, 0).toLocaleString()}
+                </td>
+                <td style={{ ...tdStyle, fontWeight: 600 }}>
+                  {analysis.cohorts.reduce((sum, cohort) => sum + cohort.booked, 0).toLocaleString()}
+                </td>
+                {analysis.overallRates.map((rate, i) => (
+                  <td key={COHORT_HORIZONS[i]} style={{ ...tdStyle, fontWeight: 600 }}>{formatRate(rate)}</td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
+        <DaysToBookList title="Median Days to Book by Service Type" groups={analysis.byServiceType} />
+        <DaysToBookList title="Median Days to Book by Lead Source" groups={analysis.byLeadSource} />
+      </div>
+
+      <p style={{ margin: 0, fontSize: 12, color: '#6b7280' }}>
+        Inquiries are grouped by the month they came in. A rate shows once every inquiry in the month has had that long
+        to book; until then it shows "—". Booking rates include only service types tracked in the Funnel.
+        {analysis.medianDays !== null && ` Overall median: ${Math.round(analysis.medianDays)} days from inquiry to booking.`}
+        {analysis.undatedBookings > 0 && ` Bookings without an inquiry date are left out (${analysis.undatedBookings} in this range).`}
+      </p>
+    </div>
+  );
+}
+
+function DaysToBookList({ title, groups }: { title: string; groups: DaysToBookGroup[] }) {
+  const slowest = Math.max(1, ...groups.map(group => group.medianDays));
+  return (
+    <div style={cardStyle}>
+      <h3 style={{ margin: '0 0 12px 0', fontSize: 14, color: '#374151' }}>{title}</h3>
+      {groups.length === 0 ? (
+        <div style={{ color: '#9ca3af', fontSize: 14 }}>No data</div>
+      ) : (
+        groups.map(group => (
+          <div key={group.id} style={{ marginBottom: 8 }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 4 }}>
+              <div style={{ flex: 1, color: '#374151' }}>{group.name}</div>
+              <div style={{ color: '#6b7280', fontSize: 12 }}>
+                {Math.round(group.medianDays)} days ({group.bookings} booking{group.bookings === 1 ? '' : 's'})
+              </div>
+            </div>
+            <div style={{ height: 6, background: '#fef3c7', borderRadius: 4 }}>
+              <div style={{ width: `${(group.medianDays / slowest) * 100}%`, height: '100%', background: '#f59e0b', borderRadius: 4 }} />
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
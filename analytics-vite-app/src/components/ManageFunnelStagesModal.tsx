@@ -0,0 +1,320 @@
+import { useEffect, useState } from 'react';
+import { X, Plus, ChevronUp, ChevronDown, Trash2 } from 'lucide-react';
+import { DEFAULT_FUNNEL_STAGES, orderedStages } from '../services/funnelStages';
+import { logger } from '../utils/logger';
+import type { FunnelStage } from '../types';
+
+interface ManageFunnelStagesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  stages: FunnelStage[]; // Saved stages (empty = default template)
+  onSave: (stages: FunnelStage[]) => Promise<boolean>;
+  isViewOnly?: boolean;
+}
+
+const SOURCE_LABELS: Record<FunnelStage['source'], string> = {
+  inquiries: 'Inquiries column',
+  callsBooked: 'Calls Booked column',
+  callsTaken: 'Calls Taken column',
+  closes: 'Counted from bookings',
+  custom: 'Custom, entered monthly',
+};
+
+/**
+ * Name, order, add and remove the stages of the account's funnel
+ * Closes always stays last; built-in stages that were removed can be added back.
+ */
+export default function ManageFunnelStagesModal({
+  isOpen,
+  onClose,
+  stages,
+  onSave,
+  isViewOnly = false,
+}: ManageFunnelStagesModalProps) {
+  const [draft, setDraft] = useState<FunnelStage[]>([]);
+  const [newName, setNewName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the saved stages each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(orderedStages(stages));
+      setNewName('');
+      setError(null);
+    }
+  }, [isOpen, stages]);
+
+  if (!isOpen) return null;
+
+  const nameTaken = (name: string, exceptId?: string) =>
+    draft.some(stage => stage.id !== exceptId && stage.name.trim().toLowerCase() === name.trim().toLowerCase());
+
+  // New stages go in just before Closes
+  const insertBeforeCloses = (stage: FunnelStage) => {
+    setDraft(prev => [...prev.slice(0, -1), stage, prev[prev.length - 1]]);
+  };
+
+  const handleAdd = () => {
+    const name = newName.trim();
+    if (!name) return;
+    if (nameTaken(name)) {
+      setError(`A stage named "${name}" already exists`);
+      return;
+    }
+    setError(null);
+    insertBeforeCloses({ id: `new_${Date.now()}`, name, source: 'custom', sortOrder: 0 });
+    setNewName('');
+  };
+
+  const handleRename = (id: string, name: string) => {
+    setDraft(prev => prev.map(stage => stage.id === id ? { ...stage, name } : stage));
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    setDraft(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const handleRemove = (id: string) => {
+    setDraft(prev => prev.filter(stage => stage.id !== id));
+  };
+
+  const handleSave = async () => {
+    const blank = draft.find(stage => !stage.name.trim());
+    if (blank) {
+      setError('Every stage needs a name');
+      return;
+    }
+    const duplicate = draft.find(stage => nameTaken(stage.name, stage.id));
+    if (duplicate) {
+      setError(`More than one stage is named "${duplicate.name.trim()}"`);
+      return;
+    }
+    if (draft.length < 2) {
+      setError('Add at least one stage before Closes');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      if (await onSave(draft.map((stage, index) => ({ ...stage, name: stage.name.trim(), sortOrder: index })))) {
+        onClose();
+      } else {
+        setError('Failed to save the stages. Please try again.');
+      }
+    } catch (err) {
+      logger.error('Error saving funnel stages:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the stages');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const missingBuiltIns = DEFAULT_FUNNEL_STAGES.filter(builtIn => !draft.some(stage => stage.source === builtIn.source));
+  const disabled = saving || isViewOnly;
+
+  const inputStyle = {
+    flex: 1,
+    padding: '8px 12px',
+    border: '1px solid #d1d5db',
+    borderRadius: '6px',
+    fontSize: '14px',
+  };
+
+  const iconButtonStyle = (enabled: boolean) => ({
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '8px',
+    border: '1px solid #d1d5db',
+    borderRadius: '6px',
+    backgroundColor: 'white',
+    color: enabled ? '#374151' : '#d1d5db',
+    fontSize: '13px',
+    cursor: enabled ? 'pointer' : 'not-allowed',
+  });
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          padding: '24px',
+          maxWidth: '640px',
+          width: '90%',
+          maxHeight: '90vh',
+          overflow: 'auto',
+          boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>Funnel Stages</h2>
+          <button
+            onClick={onClose}
+            style={{ background: 'none', border: 'none', cursor: 'pointer', padding: '4px', display: 'flex', alignItems: 'center' }}
+          >
+            <X size={20} />
+          </button>
+        </div>
+        <p style={{ margin: '0 0 16px 0', fontSize: '13px', color: '#6b7280' }}>
+          Stages apply to every funnel, in order. Conversion rates on Insights and the Calculator's required
+          activity follow these stages. Closes is always last and is counted from your bookings.
+        </p>
+
+        {error && (
+          <div style={{
+            padding: '12px',
+            backgroundColor: '#fef2f2',
+            border: '1px solid #fecaca',
+            borderRadius: '6px',
+            color: '#991b1b',
+            fontSize: '14px',
+            marginBottom: '16px',
+          }}>
+            {error}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '12px' }}>
+          {draft.map((stage, index) => {
+            const isCloses = stage.source === 'closes';
+            return (
+              <div key={stage.id} style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                <span style={{ width: '20px', fontSize: '13px', color: '#6b7280', textAlign: 'right' }}>{index + 1}.</span>
+                <div style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: '2px' }}>
+                  <input
+                    type="text"
+                    value={stage.name}
+                    disabled={disabled}
+                    onChange={(e) => handleRename(stage.id, e.target.value)}
+                    style={inputStyle}
+                  />
+                  <span style={{ fontSize: '12px', color: '#9ca3af' }}>{SOURCE_LABELS[stage.source]}</span>
+                </div>
+                <button
+                  onClick={() => handleMove(index, -1)}
+                  disabled={disabled || isCloses || index === 0}
+                  style={iconButtonStyle(!disabled && !isCloses && index > 0)}
+                  title="Move up"
+                >
+                  <ChevronUp size={14} />
+                </button>
+                <button
+                  onClick={() => handleMove(index, 1)}
+                  disabled={disabled || isCloses || index >= draft.length - 2}
+                  style={iconButtonStyle(!disabled && !isCloses && index < draft.length - 2)}
+                  title="Move down"
+                >
+                  <ChevronDown size={14} />
+                </button>
+                <button
+                  onClick={() => handleRemove(stage.id)}
+                  disabled={disabled || isCloses}
+                  style={iconButtonStyle(!disabled && !isCloses)}
+                  title={isCloses
+                    ? 'Closes is always the last stage'
+                    : stage.source === 'custom'
+                      ? 'Remove this stage (the counts entered for it are no longer shown)'
+                      : 'Remove this stage (its column keeps its data and can be added back)'}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div style={{ display: 'flex', gap: '8px', marginBottom: '12px' }}>
+          <input
+            type="text"
+            value={newName}
+            placeholder="New stage name (e.g. Proposals Sent)"
+            disabled={disabled}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+            style={inputStyle}
+          />
+          <button
+            onClick={handleAdd}
+            disabled={disabled || !newName.trim()}
+            style={{
+              ...iconButtonStyle(!disabled && !!newName.trim()),
+              padding: '8px 12px',
+              backgroundColor: !disabled && newName.trim() ? '#3b82f6' : '#e5e7eb',
+              color: !disabled && newName.trim() ? 'white' : '#9ca3af',
+              border: 'none',
+            }}
+          >
+            <Plus size={14} />
+            Add Stage
+          </button>
+        </div>
+
+        {missingBuiltIns.length > 0 && (
+          <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', alignItems: 'center', fontSize: '13px', color: '#6b7280' }}>
+            Add back:
+            {missingBuiltIns.map(builtIn => (
+              <button
+                key={builtIn.source}
+                onClick={() => !nameTaken(builtIn.name)
+                  ? insertBeforeCloses(builtIn)
+                  : setError(`Rename the stage called "${builtIn.name}" first`)}
+                disabled={disabled}
+                style={{ ...iconButtonStyle(!disabled), padding: '4px 10px' }}
+              >
+                <Plus size={12} />
+                {builtIn.name}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '12px', marginTop: '24px' }}>
+          <button
+            onClick={onClose}
+            style={{ padding: '8px 16px', border: '1px solid #d1d5db', borderRadius: '6px', backgroundColor: 'white', color: '#374151', fontSize: '14px', cursor: 'pointer' }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={disabled}
+            style={{
+              padding: '8px 16px',
+              border: 'none',
+              borderRadius: '6px',
+              backgroundColor: disabled ? '#e5e7eb' : '#3b82f6',
+              color: disabled ? '#9ca3af' : 'white',
+              fontSize: '14px',
+              cursor: disabled ? 'not-allowed' : 'pointer'
+            }}
+          >
+            {saving ? 'Saving...' : 'Save Stages'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
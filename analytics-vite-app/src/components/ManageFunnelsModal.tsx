@@ -0,0 +1,277 @@
+import { useState } from 'react';
+import { X, Plus, Archive, ArchiveRestore, Check } from 'lucide-react';
+import { funnelIdOfServiceType } from '../services/funnelScope';
+import { logger } from '../utils/logger';
+import type { FunnelDefinition, ServiceType } from '../types';
+
+interface ManageFunnelsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  funnels: FunnelDefinition[];
+  serviceTypes: ServiceType[];
+  onCreateFunnel: (name: string) => Promise<FunnelDefinition | null>;
+  onUpdateFunnel: (id: string, updates: Partial<Pick<FunnelDefinition, 'name' | 'archivedAt'>>) => Promise<boolean>;
+  onSetServiceTypeFunnel: (serviceTypeId: string, funnelId: string | null) => Promise<boolean>;
+  isViewOnly?: boolean;
+}
+
+/**
+ * Create, rename and archive named funnels, and choose which funnel each service type feeds
+ * Archived funnels keep their months and still count toward "All funnels".
+ */
+export default function ManageFunnelsModal({
+  isOpen,
+  onClose,
+  funnels,
+  serviceTypes,
+  onCreateFunnel,
+  onUpdateFunnel,
+  onSetServiceTypeFunnel,
+  isViewOnly = false,
+}: ManageFunnelsModalProps) {
+  const [newName, setNewName] = useState('');
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const nameTaken = (name: string, exceptId?: string) =>
+    funnels.some(funnel => funnel.id !== exceptId && funnel.name.trim().toLowerCase() === name.trim().toLowerCase());
+
+  const run = async (action: () => Promise<boolean>, failure: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      if (!(await action())) setError(failure);
+    } catch (err) {
+      logger.error('Error managing funnels:', err);
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = () => {
+    const name = newName.trim();
+    if (!name) return;
+    if (nameTaken(name)) {
+      setError(`A funnel named "${name}" already exists`);
+      return;
+    }
+    run(async () => {
+      const funnel = await onCreateFunnel(name);
+      if (funnel) setNewName('');
+      return !!funnel;
+    }, 'Failed to create the funnel');
+  };
+
+  const handleRename = (funnel: FunnelDefinition) => {
+    const name = (names[funnel.id] ?? funnel.name).trim();
+    if (!name || name === funnel.name) return;
+    if (nameTaken(name, funnel.id)) {
+      setError(`A funnel named "${name}" already exists`);
+      return;
+    }
+    run(async () => {
+      const success = await onUpdateFunnel(funnel.id, { name });
+      if (success) setNames(prev => { const next = { ...prev }; delete next[funnel.id]; return next; });
+      return success;
+    }, 'Failed to rename the funnel');
+  };
+
+  const handleArchive = (funnel: FunnelDefinition) => {
+    run(
+      () => onUpdateFunnel(funnel.id, { archivedAt: funnel.archivedAt ? null : new Date().toISOString() }),
+      funnel.archivedAt ? 'Failed to restore the funnel' : 'Failed to archive the funnel'
+    );
+  };
+
+  const handleServiceTypeFunnel = (serviceTypeId: string, funnelId: string) => {
+    run(() => onSetServiceTypeFunnel(serviceTypeId, funnelId || null), 'Failed to update the service type');
+  };
+
+  const inputStyle = {
+    flex: 1,
+    padding: '8px 12px',
+    border: '1px solid #d1d5db',
+    borderRadius: '6px',
+    fontSize: '14px',
+  };
+
+  const iconButtonStyle = (enabled: boolean) => ({
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '8px 12px',
+    border: '1px solid #d1d5db',
+    borderRadius: '6px',
+    backgroundColor: 'white',
+    color: enabled ? '#374151' : '#9ca3af',
+    fontSize: '13px',
+    cursor: enabled ? 'pointer' : 'not-allowed',
+  });
+
+  const disabled = saving || isViewOnly;
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          padding: '24px',
+          maxWidth: '800px',
+          width: '90%',
+          maxHeight: '90vh',
+          overflow: 'auto',
+          boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>Manage Funnels</h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              padding: '4px',
+              display: 'flex',
+              alignItems: 'center',
+            }}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {error && (
+          <div style={{
+            padding: '12px',
+            backgroundColor: '#fef2f2',
+            border: '1px solid #fecaca',
+            borderRadius: '6px',
+            color: '#991b1b',
+            fontSize: '14px',
+            marginBottom: '16px',
+          }}>
+            {error}
+          </div>
+        )}
+
+        {/* Funnels */}
+        <h3 style={{ fontSize: '16px', fontWeight: '600', margin: '0 0 12px 0', color: '#1f2937' }}>Funnels</h3>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '12px' }}>
+          {funnels.map(funnel => {
+            const draft = names[funnel.id] ?? funnel.name;
+            return (
+              <div key={funnel.id} style={{ display: 'flex', gap: '8px', alignItems: 'center', opacity: funnel.archivedAt ? 0.6 : 1 }}>
+                <input
+                  type="text"
+                  value={draft}
+                  disabled={disabled}
+                  onChange={(e) => setNames(prev => ({ ...prev, [funnel.id]: e.target.value }))}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleRename(funnel); }}
+                  style={inputStyle}
+                />
+                {funnel.archivedAt && <span style={{ fontSize: '12px', color: '#6b7280' }}>Archived</span>}
+                <button
+                  onClick={() => handleRename(funnel)}
+                  disabled={disabled || draft.trim() === funnel.name}
+                  style={iconButtonStyle(!disabled && draft.trim() !== funnel.name)}
+                  title="Save name"
+                >
+                  <Check size={14} />
+                  Rename
+                </button>
+                <button
+                  onClick={() => handleArchive(funnel)}
+                  disabled={disabled}
+                  style={iconButtonStyle(!disabled)}
+                  title={funnel.archivedAt ? 'Show this funnel in selectors again' : 'Hide this funnel from selectors (its months still count toward All funnels)'}
+                >
+                  {funnel.archivedAt ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+                  {funnel.archivedAt ? 'Restore' : 'Archive'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+        <div style={{ display: 'flex', gap: '8px', marginBottom: '24px' }}>
+          <input
+            type="text"
+            value={newName}
+            placeholder="New funnel name (e.g. Commercial)"
+            disabled={disabled}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+            style={inputStyle}
+          />
+          <button
+            onClick={handleCreate}
+            disabled={disabled || !newName.trim()}
+            style={{
+              ...iconButtonStyle(!disabled && !!newName.trim()),
+              backgroundColor: !disabled && newName.trim() ? '#3b82f6' : '#e5e7eb',
+              color: !disabled && newName.trim() ? 'white' : '#9ca3af',
+              border: 'none',
+            }}
+          >
+            <Plus size={14} />
+            Add Funnel
+          </button>
+        </div>
+
+        {/* Service types */}
+        <h3 style={{ fontSize: '16px', fontWeight: '600', margin: '0 0 4px 0', color: '#1f2937' }}>Service Types</h3>
+        <p style={{ fontSize: '13px', color: '#6b7280', margin: '0 0 12px 0' }}>
+          Bookings of a service type count as closes in the funnel it feeds. Untracked service types still count toward bookings and cash under All funnels.
+        </p>
+        {serviceTypes.length === 0 ? (
+          <p style={{ fontSize: '14px', color: '#6b7280', margin: 0 }}>No service types yet.</p>
+        ) : (
+          <table style={{ width: '100%', fontSize: '14px', borderCollapse: 'collapse' }}>
+            <tbody>
+              {serviceTypes.map(st => (
+                <tr key={st.id} style={{ borderBottom: '1px solid #e5e7eb' }}>
+                  <td style={{ padding: '8px 0', color: '#1f2937' }}>{st.name}</td>
+                  <td style={{ padding: '8px 0', textAlign: 'right' }}>
+                    <select
+                      value={funnelIdOfServiceType(st, funnels) || ''}
+                      disabled={disabled}
+                      onChange={(e) => handleServiceTypeFunnel(st.id, e.target.value)}
+                      style={{ padding: '6px 8px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '14px', minWidth: '180px' }}
+                    >
+                      <option value="">Not tracked</option>
+                      {funnels.map(funnel => (
+                        <option key={funnel.id} value={funnel.id}>
+                          {funnel.name}{funnel.archivedAt ? ' (archived)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import { useEffect, useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { UnifiedDataService } from '../services/unifiedDataService';
+import { diffVersions, formatVersionTotal } from '../services/forecastVersions';
+import { formatDateTime, toUSD } from '../utils/formatters';
+import type { ForecastModel, ForecastModelVersion, ServiceType } from '../types';
+
+interface ModelVersionsModalProps {
+  model: ForecastModel;
+  serviceTypes: ServiceType[];
+  userId: string;
+  onClose: () => void;
+}
+
+const cellStyle = {
+  padding: '8px',
+  borderBottom: '1px solid #e5e7eb',
+  fontSize: '13px',
+  verticalAlign: 'top' as const,
+};
+
+const headerStyle = { ...cellStyle, fontWeight: 600, color: '#374151', textAlign: 'left' as const };
+
+/**
+ * A forecast model's saved versions, and what changed between any two of them
+ */
+export default function ModelVersionsModal({ model, serviceTypes, userId, onClose }: ModelVersionsModalProps) {
+  const [versions, setVersions] = useState<ForecastModelVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<string[]>([]); // Up to two version IDs
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      const loaded = await UnifiedDataService.getForecastModelVersions(userId, model.id);
+      setVersions(loaded);
+      // Start with the latest change selected
+      setSelected(loaded.slice(0, 2).map(version => version.id));
+      setLoading(false);
+    };
+    load();
+  }, [userId, model.id]);
+
+  const diff = useMemo(() => {
+    if (selected.length !== 2) return null;
+    const [a, b] = selected.map(id => versions.find(version => version.id === id)!)
+      .sort((x, y) => x.version - y.version);
+    return { before: a, after: b, changes: diffVersions(a, b, serviceTypes) };
+  }, [selected, versions, serviceTypes]);
+
+  const toggle = (id: string) => {
+    setSelected(prev => prev.includes(id)
+      ? prev.filter(selectedId => selectedId !== id)
+      : [...prev, id].slice(-2));
+  };
+
+  const entryText = (entry: ForecastModel['serviceTypes'][number] | null) =>
+    entry ? `${entry.quantity.toLocaleString()} × ${toUSD(entry.avgBooking)} = ${toUSD(entry.totalForecast)}` : '—';
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          padding: '24px',
+          maxWidth: '800px',
+          width: '90%',
+          maxHeight: '90vh',
+          overflow: 'auto',
+          boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>Version History · {model.name}</h2>
+          <button
+            onClick={onClose}
+            style={{ background: 'none', border: 'none', cursor: 'pointer', padding: '4px', display: 'flex', alignItems: 'center' }}
+          >
+            <X size={20} />
+          </button>
+        </div>
+        <p style={{ margin: '0 0 16px 0', fontSize: '13px', color: '#6b7280' }}>
+          Every save is kept as a version. Pick two to see what changed between them.
+        </p>
+
+        {loading ? (
+          <div style={{ padding: '24px', textAlign: 'center', color: '#6b7280', fontSize: '14px' }}>Loading versions...</div>
+        ) : versions.length === 0 ? (
+          <div style={{ padding: '24px', textAlign: 'center', color: '#6b7280', fontSize: '14px' }}>
+            No versions yet. The next time this model is saved, it will be kept as version 1.
+          </div>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <th style={{ ...headerStyle, width: '32px' }}></th>
+                <th style={headerStyle}>Version</th>
+                <th style={headerStyle}>Saved</th>
+                <th style={headerStyle}>Note</th>
+                <th style={{ ...headerStyle, textAlign: 'right' }}>Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {versions.map(version => (
+                <tr key={version.id} style={{ backgroundColor: selected.includes(version.id) ? '#eff6ff' : undefined }}>
+                  <td style={cellStyle}>
+                    <input type="checkbox" checked={selected.includes(version.id)} onChange={() => toggle(version.id)} />
+                  </td>
+                  <td style={{ ...cellStyle, fontWeight: 500 }}>v{version.version}</td>
+                  <td style={{ ...cellStyle, color: '#6b7280', whiteSpace: 'nowrap' }}>{formatDateTime(version.savedAt)}</td>
+                  <td style={cellStyle}>{version.note || <span style={{ color: '#9ca3af' }}>No note</span>}</td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{formatVersionTotal(version)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {diff && (
+          <div style={{ marginTop: '24px' }}>
+            <h3 style={{ margin: '0 0 12px 0', fontSize: '16px', fontWeight: 600, color: '#1f2937' }}>
+              v{diff.before.version} → v{diff.after.version}
+            </h3>
+            {diff.changes.fields.length === 0 && diff.changes.serviceTypes.length === 0 ? (
+              <div style={{ fontSize: '13px', color: '#6b7280' }}>These versions are the same.</div>
+            ) : (
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr>
+                    <th style={headerStyle}></th>
+                    <th style={headerStyle}>v{diff.before.version}</th>
+                    <th style={headerStyle}>v{diff.after.version}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.changes.fields.map(field => (
+                    <tr key={field.label}>
+                      <td style={{ ...cellStyle, fontWeight: 500 }}>{field.label}</td>
+                      <td style={{ ...cellStyle, color: '#991b1b' }}>{field.before}</td>
+                      <td style={{ ...cellStyle, color: '#065f46' }}>{field.after}</td>
+                    </tr>
+                  ))}
+                  {diff.changes.serviceTypes.map(change => (
+                    <tr key={change.serviceTypeId}>
+                      <td style={{ ...cellStyle, fontWeight: 500 }}>
+                        {change.name}
+                        {change.change !== 'changed' && (
+                          <span style={{ marginLeft: '6px', fontSize: '11px', color: '#6b7280' }}>{change.change}</span>
+                        )}
+                      </td>
+                      <td style={{ ...cellStyle, color: '#991b1b' }}>{entryText(change.before)}</td>
+                      <td style={{ ...cellStyle, color: '#065f46' }}>{entryText(change.after)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <div style={{ marginTop: '12px', fontSize: '14px', color: '#374151' }}>
+              Total: {formatVersionTotal(diff.before, diff.changes.totalBefore)} → <strong>{formatVersionTotal(diff.after, diff.changes.totalAfter)}</strong>
+            </div>
+          </div>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '24px' }}>
+          <button
+            onClick={onClose}
+            style={{ padding: '8px 16px', border: '1px solid #d1d5db', borderRadius: '6px', backgroundColor: 'white', color: '#374151', fontSize: '14px', cursor: 'pointer' }}
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
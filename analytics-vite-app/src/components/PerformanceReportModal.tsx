@@ -0,0 +1,445 @@
+import { useMemo, useState } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { X, Printer } from 'lucide-react';
+import { buildPerformanceReport, type PerformanceReport, type PerformanceReportData } from '../services/performanceReport';
+import { MONTH_NAMES, monthToIndex, indexToMonth, type MonthRange } from '../services/insightsMetrics';
+import { toUSD, formatNumber } from '../utils/formatters';
+import { printHtml } from '../utils/print';
+import { logger } from '../utils/logger';
+
+interface PerformanceReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  data: PerformanceReportData;
+  companyName?: string;
+}
+
+// Page size and page breaks when printed (the preview shows pages stacked)
+const PRINT_CSS = `
+  @page { size: letter; margin: 16mm; }
+  .report-page { break-after: page; page-break-after: always; }
+  .report-page:last-child { break-after: auto; page-break-after: auto; }
+  .report-cover { min-height: 240mm; }
+  table { page-break-inside: auto; }
+  tr { page-break-inside: avoid; }
+`;
+
+const toMonthInput = (index: number) => {
+  const { year, month } = indexToMonth(index);
+  return `${year}-${String(month).padStart(2, '0')}`;
+};
+
+const fromMonthInput = (value: string): number | null => {
+  const match = value.match(/^(\d{4})-(\d{2})$/);
+  return match ? monthToIndex(Number(match[1]), Number(match[2])) : null;
+};
+
+/**
+ * Preset ranges relative to the current month
+ */
+function presetRanges(now: Date): { label: string; range: MonthRange }[] {
+  const current = monthToIndex(now.getFullYear(), now.getMonth() + 1);
+  const quarterStart = monthToIndex(now.getFullYear(), Math.floor(now.getMonth() / 3) * 3 + 1);
+  return [
+    { label: 'Last Month', range: { start: current - 1, end: current - 1 } },
+    { label: 'Last Quarter', range: { start: quarterStart - 3, end: quarterStart - 1 } },
+    { label: 'Year to Date', range: { start: monthToIndex(now.getFullYear(), 1), end: current } },
+    { label: 'Last Year', range: { start: monthToIndex(now.getFullYear() - 1, 1), end: monthToIndex(now.getFullYear() - 1, 12) } },
+  ];
+}
+
+/**
+ * Performance report
+ * Picks a range of months and prints a report for coaches: cover page, funnel, calls, lead sources,
+ * advertising, forecast pacing and the month-by-month funnel notes. Built entirely in the browser.
+ */
+export default function PerformanceReportModal({ isOpen, onClose, data, companyName }: PerformanceReportModalProps) {
+  const presets = useMemo(() => presetRanges(new Date()), []);
+  const [range, setRange] = useState<MonthRange>(presets[0].range);
+  const [error, setError] = useState<string | null>(null);
+
+  const rangeIsValid = range.start <= range.end;
+  const report = useMemo(
+    () => (isOpen && rangeIsValid ? buildPerformanceReport(data, range, companyName || 'Performance Report') : null),
+    [isOpen, rangeIsValid, data, range, companyName]
+  );
+
+  if (!isOpen) return null;
+
+  const handlePrint = () => {
+    if (!report) return;
+    setError(null);
+    try {
+      printHtml(
+        `${report.companyName} - ${report.periodLabel}`,
+        renderToStaticMarkup(<ReportDocument report={report} />),
+        PRINT_CSS
+      );
+    } catch (err) {
+      logger.error('Error printing performance report:', err);
+      setError(err instanceof Error ? err.message : 'Failed to print the report');
+    }
+  };
+
+  const updateRange = (field: keyof MonthRange, value: string) => {
+    const index = fromMonthInput(value);
+    if (index !== null) setRange(prev => ({ ...prev, [field]: index }));
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          padding: '24px',
+          maxWidth: '900px',
+          width: '90%',
+          maxHeight: '90vh',
+          overflow: 'auto',
+          boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>Performance Report</h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              padding: '4px',
+              display: 'flex',
+              alignItems: 'center',
+            }}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Range */}
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px', alignItems: 'flex-end', marginBottom: '16px' }}>
+          <label style={{ fontSize: '13px', color: '#374151' }}>
+            <div style={{ marginBottom: '4px', fontWeight: '500' }}>From</div>
+            <input
+              type="month"
+              value={toMonthInput(range.start)}
+              onChange={(e) => updateRange('start', e.target.value)}
+              style={{ padding: '8px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '14px' }}
+            />
+          </label>
+          <label style={{ fontSize: '13px', color: '#374151' }}>
+            <div style={{ marginBottom: '4px', fontWeight: '500' }}>To</div>
+            <input
+              type="month"
+              value={toMonthInput(range.end)}
+              onChange={(e) => updateRange('end', e.target.value)}
+              style={{ padding: '8px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '14px' }}
+            />
+          </label>
+          {presets.map(preset => {
+            const selected = preset.range.start === range.start && preset.range.end === range.end;
+            return (
+              <button
+                key={preset.label}
+                onClick={() => setRange(preset.range)}
+                style={{
+                  padding: '8px 12px',
+                  border: `1px solid ${selected ? '#3b82f6' : '#d1d5db'}`,
+                  backgroundColor: selected ? '#eff6ff' : 'white',
+                  color: selected ? '#1d4ed8' : '#374151',
+                  borderRadius: '6px',
+                  fontSize: '13px',
+                  cursor: 'pointer',
+                }}
+              >
+                {preset.label}
+              </button>
+            );
+          })}
+          <button
+            onClick={handlePrint}
+            disabled={!report}
+            style={{
+              marginLeft: 'auto',
+              padding: '8px 16px',
+              border: 'none',
+              borderRadius: '6px',
+              backgroundColor: report ? '#3b82f6' : '#9ca3af',
+              color: 'white',
+              fontSize: '14px',
+              fontWeight: '500',
+              cursor: report ? 'pointer' : 'not-allowed',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+            }}
+          >
+            <Printer size={16} />
+            Print / Save as PDF
+          </button>
+        </div>
+
+        {!rangeIsValid && (
+          <div style={{ marginBottom: '16px', padding: '12px', backgroundColor: '#fef2f2', border: '1px solid #fecaca', borderRadius: '6px', fontSize: '14px', color: '#dc2626' }}>
+            The start month must be on or before the end month.
+          </div>
+        )}
+        {error && (
+          <div style={{ marginBottom: '16px', padding: '12px', backgroundColor: '#fef2f2', border: '1px solid #fecaca', borderRadius: '6px', fontSize: '14px', color: '#dc2626' }}>
+            {error}
+          </div>
+        )}
+
+        {/* Preview */}
+        {report && (
+          <div style={{ backgroundColor: '#f3f4f6', padding: '16px', borderRadius: '8px' }}>
+            <ReportDocument report={report} preview />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const thStyle = {
+  padding: '6px 8px',
+  borderBottom: '2px solid #e5e7eb',
+  fontSize: '12px',
+  fontWeight: '600',
+  color: '#374151',
+  textAlign: 'left' as const,
+};
+
+const tdStyle = {
+  padding: '6px 8px',
+  borderBottom: '1px solid #f3f4f6',
+  fontSize: '12px',
+  color: '#1f2937',
+};
+
+const numberStyle = { ...tdStyle, textAlign: 'right' as const };
+
+function ReportPage({ children, preview, className }: { children: React.ReactNode; preview?: boolean; className?: string }) {
+  return (
+    <div
+      className={className ? `report-page ${className}` : 'report-page'}
+      style={preview
+        ? { backgroundColor: 'white', padding: '32px', marginBottom: '16px', boxShadow: '0 1px 3px rgba(0,0,0,0.1)' }
+        : {}}
+    >
+      {children}
+    </div>
+  );
+}
+
+function ReportSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div style={{ marginBottom: '24px' }}>
+      <h2 style={{ fontSize: '16px', fontWeight: '600', margin: '0 0 10px 0', paddingBottom: '6px', borderBottom: '1px solid #e5e7eb', color: '#1f2937' }}>
+        {title}
+      </h2>
+      {children}
+    </div>
+  );
+}
+
+function Stats({ items }: { items: { label: string; value: string }[] }) {
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '8px', marginBottom: '12px' }}>
+      {items.map(item => (
+        <div key={item.label} style={{ border: '1px solid #e5e7eb', borderRadius: '6px', padding: '8px 10px' }}>
+          <div style={{ fontSize: '11px', color: '#6b7280', marginBottom: '2px' }}>{item.label}</div>
+          <div style={{ fontSize: '16px', fontWeight: '600', color: '#1f2937' }}>{item.value}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * The report itself - rendered in the preview, and to static HTML for printing
+ */
+function ReportDocument({ report, preview = false }: { report: PerformanceReport; preview?: boolean }) {
+  const { salesTotals, callTotals, leadSources, advertising, forecast } = report;
+  const generatedOn = new Date(report.generatedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+  return (
+    <div style={{ fontFamily: 'system-ui, -apple-system, sans-serif', color: '#1f2937' }}>
+      {/* Cover */}
+      <ReportPage preview={preview} className="report-cover">
+        <div style={{ display: 'flex', flexDirection: 'column', justifyContent: 'center', minHeight: preview ? '320px' : undefined, height: '100%' }}>
+          <div style={{ fontSize: '14px', letterSpacing: '0.1em', textTransform: 'uppercase', color: '#6b7280', marginBottom: '12px' }}>
+            Performance Report
+          </div>
+          <div style={{ fontSize: '36px', fontWeight: '700', marginBottom: '12px' }}>{report.companyName}</div>
+          <div style={{ fontSize: '20px', color: '#374151', marginBottom: '32px' }}>{report.periodLabel}</div>
+          <div style={{ fontSize: '13px', color: '#6b7280' }}>Prepared {generatedOn}</div>
+        </div>
+      </ReportPage>
+
+      {/* Metrics */}
+      <ReportPage preview={preview}>
+        <ReportSection title="Sales Funnel">
+          <Stats items={[
+            { label: 'Inquiries', value: formatNumber(salesTotals.totalInquiries) },
+            { label: 'Closes', value: formatNumber(salesTotals.totalCloses) },
+            { label: 'Bookings', value: toUSD(salesTotals.totalBookings) },
+            { label: 'Cash', value: toUSD(salesTotals.totalCash) },
+            { label: 'Inquiry to Close', value: `${salesTotals.inquiryToClose}%` },
+            { label: 'Avg Bookings / Month', value: toUSD(salesTotals.avgBookings) },
+            { label: 'Avg Cash / Month', value: toUSD(salesTotals.avgCash) },
+            { label: 'Average Wedding Booking', value: toUSD(salesTotals.avgWeddingBooking) },
+          ]} />
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <th style={thStyle}>Month</th>
+                <th style={{ ...thStyle, textAlign: 'right' }}>Inquiries</th>
+                <th style={{ ...thStyle, textAlign: 'right' }}>Calls Booked</th>
+                <th style={{ ...thStyle, textAlign: 'right' }}>Calls Taken</th>
+                <th style={{ ...thStyle, textAlign: 'right' }}>Closes</th>
+                <th style={{ ...thStyle, textAlign: 'right' }}>Bookings</th>
+                <th style={{ ...thStyle, textAlign: 'right' }}>Cash</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.months.map(month => (
+                <tr key={`${month.year}-${month.month}`}>
+                  <td style={tdStyle}>{MONTH_NAMES[month.month - 1]} {month.year}</td>
+                  <td style={numberStyle}>{formatNumber(month.inquiries || 0)}</td>
+                  <td style={numberStyle}>{formatNumber(month.callsBooked || 0)}</td>
+                  <td style={numberStyle}>{formatNumber(month.callsTaken || 0)}</td>
+                  <td style={numberStyle}>{formatNumber(month.closes || 0)}</td>
+                  <td style={numberStyle}>{toUSD(month.bookings || 0)}</td>
+                  <td style={numberStyle}>{toUSD(month.cash || 0)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </ReportSection>
+
+        <ReportSection title="Calls">
+          <Stats items={[
+            { label: 'Calls Booked', value: formatNumber(callTotals.totalCallsBooked) },
+            { label: 'Calls Taken', value: formatNumber(callTotals.totalCallsTaken) },
+            { label: 'Call Show Up Rate', value: `${callTotals.showUpRate}%` },
+            { label: 'Revenue Per Call Taken', value: toUSD(callTotals.revenuePerCallTaken) },
+            { label: 'Inquiry to Call Booked', value: `${callTotals.inquiryToBooked}%` },
+            { label: 'Inquiry to Call Taken', value: `${callTotals.inquiryToTaken}%` },
+            { label: 'Call Taken to Close', value: `${callTotals.takenToClose}%` },
+          ]} />
+        </ReportSection>
+
+        <ReportSection title="Lead Sources">
+          {leadSources.items.length === 0 ? (
+            <p style={{ fontSize: '12px', color: '#6b7280', margin: 0 }}>No bookings in this period.</p>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr>
+                  <th style={thStyle}>Lead Source</th>
+                  <th style={{ ...thStyle, textAlign: 'right' }}>Bookings</th>
+                  <th style={{ ...thStyle, textAlign: 'right' }}>% of Bookings</th>
+                  <th style={{ ...thStyle, textAlign: 'right' }}>Revenue</th>
+                  <th style={{ ...thStyle, textAlign: 'right' }}>% of Revenue</th>
+                </tr>
+              </thead>
+              <tbody>
+                {leadSources.byRevenueDesc.map(item => (
+                  <tr key={item.id}>
+                    <td style={tdStyle}>{item.name}</td>
+                    <td style={numberStyle}>{formatNumber(item.count)}</td>
+                    <td style={numberStyle}>{item.pctCount}%</td>
+                    <td style={numberStyle}>{toUSD(item.revenue)}</td>
+                    <td style={numberStyle}>{item.pctRevenue}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p style={{ fontSize: '11px', color: '#6b7280', margin: '6px 0 0 0' }}>Includes only bookings whose service types are tracked in the Funnel.</p>
+        </ReportSection>
+
+        <ReportSection title="Advertising">
+          <Stats items={[
+            { label: 'Total Ad Spend', value: toUSD(advertising.totalAdSpend) },
+            { label: 'Total Booked from Ads', value: toUSD(advertising.totalBookedFromAds) },
+            { label: 'Ad Spend ROI', value: advertising.overallROI !== null ? advertising.overallROI.toFixed(2) : 'N/A' },
+            { label: 'Cost Per Close', value: toUSD(advertising.costPerClose) },
+          ]} />
+        </ReportSection>
+
+        <ReportSection title="Forecast Pacing">
+          {!forecast ? (
+            <p style={{ fontSize: '12px', color: '#6b7280', margin: 0 }}>No forecast model for {indexToMonth(report.range.end).year}.</p>
+          ) : (
+            <>
+              <Stats items={[
+                { label: `${forecast.year} Forecast (${forecast.modelName})`, value: toUSD(forecast.forecastGoal) },
+                { label: 'Actual', value: toUSD(forecast.actualRevenue) },
+                { label: '% of Plan', value: `${forecast.percentOfPlan}%` },
+                { label: `Pacing (${forecast.yearProgress}% of year)`, value: `${forecast.pacingDelta >= 0 ? '+' : ''}${forecast.pacingDelta}%` },
+              ]} />
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr>
+                    <th style={thStyle}>Service Type</th>
+                    <th style={{ ...thStyle, textAlign: 'right' }}>Forecast Goal</th>
+                    <th style={{ ...thStyle, textAlign: 'right' }}>Actual</th>
+                    <th style={{ ...thStyle, textAlign: 'right' }}>% of Plan</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {forecast.serviceTypes.map(row => (
+                    <tr key={row.serviceTypeId}>
+                      <td style={tdStyle}>{row.name}</td>
+                      <td style={numberStyle}>{toUSD(row.forecastGoal)}</td>
+                      <td style={numberStyle}>{toUSD(row.actualRevenue)}</td>
+                      <td style={numberStyle}>{row.percentOfPlan}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p style={{ fontSize: '11px', color: '#6b7280', margin: '6px 0 0 0' }}>
+                Pacing compares % of plan with how much of {forecast.year} had passed on {generatedOn}.
+              </p>
+            </>
+          )}
+        </ReportSection>
+      </ReportPage>
+
+      {/* Notes */}
+      <ReportPage preview={preview}>
+        <ReportSection title="Monthly Notes">
+          {report.notes.length === 0 ? (
+            <p style={{ fontSize: '12px', color: '#6b7280', margin: 0 }}>No notes were added to the funnel for these months.</p>
+          ) : (
+            report.notes.map(note => (
+              <div key={`${note.year}-${note.month}`} style={{ marginBottom: '16px', pageBreakInside: 'avoid' }}>
+                <div style={{ fontSize: '13px', fontWeight: '600', marginBottom: '4px' }}>{MONTH_NAMES[note.month - 1]} {note.year}</div>
+                <div style={{ fontSize: '12px', color: '#374151', whiteSpace: 'pre-wrap', lineHeight: 1.5 }}>{note.notes}</div>
+              </div>
+            ))
+          )}
+        </ReportSection>
+      </ReportPage>
+    </div>
+  );
+}
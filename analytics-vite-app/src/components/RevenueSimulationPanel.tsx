@@ -0,0 +1,161 @@
+import { useMemo, useState } from 'react';
+import { Dices } from 'lucide-react';
+import { simulateRevenue } from '../services/revenueSimulation';
+import type { FunnelScopeData } from '../services/funnelScope';
+import { MONTH_NAMES } from '../services/insightsMetrics';
+
+interface RevenueSimulationPanelProps {
+  data: FunnelScopeData;
+  target: number | null; // The active model's total, cents
+  targetName?: string;
+}
+
+const toUSD = (cents: number) => (cents / 100).toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+/**
+ * Range of year-end booked revenue from a Monte Carlo simulation, and the chance of hitting the active model
+ */
+export default function RevenueSimulationPanel({ data, target, targetName }: RevenueSimulationPanelProps) {
+  const [seed, setSeed] = useState(1);
+  const [showInputs, setShowInputs] = useState(false);
+
+  const simulation = useMemo(() => simulateRevenue(data, { seed, target }), [data, seed, target]);
+  const currentMonth = new Date().getMonth() + 1;
+
+  const cardStyle = {
+    flex: '1 1 160px',
+    padding: '16px',
+    borderRadius: '8px',
+    border: '1px solid #e5e7eb',
+    backgroundColor: '#f9fafb',
+  };
+  const cellStyle = { padding: '10px 16px', textAlign: 'right' as const };
+  const headerStyle = {
+    ...cellStyle,
+    fontSize: '12px',
+    fontWeight: 600,
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+    color: '#666',
+  };
+
+  return (
+    <div style={{ backgroundColor: 'white', borderRadius: '12px', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', overflow: 'hidden', marginTop: '24px' }}>
+      <div style={{ padding: '20px', borderBottom: '1px solid #e5e7eb', display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '16px' }}>
+        <div>
+          <h2 style={{ fontSize: '18px', fontWeight: '600', margin: '0 0 4px 0', color: '#1f2937' }}>Revenue Range</h2>
+          <p style={{ fontSize: '14px', color: '#6b7280', margin: 0 }}>
+            Year-end booked revenue from {simulation?.runs.toLocaleString() || 'many'} simulated years, based on how your
+            monthly inquiries, close rates and booking values have varied
+          </p>
+        </div>
+        {simulation && (
+          <button
+            onClick={() => setSeed(prev => prev + 1)}
+            style={{
+              backgroundColor: '#f3f4f6',
+              color: '#374151',
+              border: '1px solid #d1d5db',
+              borderRadius: '6px',
+              padding: '8px 12px',
+              fontSize: '12px',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '4px',
+              whiteSpace: 'nowrap'
+            }}
+            title={`Simulation seed ${seed}`}
+          >
+            <Dices size={12} />
+            Run again
+          </button>
+        )}
+      </div>
+
+      {!simulation ? (
+        <div style={{ padding: '40px 20px', textAlign: 'center', color: '#6b7280', fontSize: '14px' }}>
+          Log inquiries for at least a few months to see a range of outcomes.
+        </div>
+      ) : (
+        <>
+          <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap', padding: '20px' }}>
+            <div style={cardStyle}>
+              <div style={{ fontSize: '12px', color: '#6b7280' }}>Booked so far</div>
+              <div style={{ fontSize: '20px', fontWeight: 700, color: '#1f2937' }}>{toUSD(simulation.bookedToDate)}</div>
+            </div>
+            <div style={cardStyle}>
+              <div style={{ fontSize: '12px', color: '#6b7280' }}>Low (P10)</div>
+              <div style={{ fontSize: '20px', fontWeight: 700, color: '#991b1b' }}>{toUSD(simulation.p10)}</div>
+            </div>
+            <div style={{ ...cardStyle, backgroundColor: '#eff6ff', borderColor: '#93c5fd' }}>
+              <div style={{ fontSize: '12px', color: '#1d4ed8' }}>Likely (P50)</div>
+              <div style={{ fontSize: '20px', fontWeight: 700, color: '#1e3a8a' }}>{toUSD(simulation.p50)}</div>
+            </div>
+            <div style={cardStyle}>
+              <div style={{ fontSize: '12px', color: '#6b7280' }}>High (P90)</div>
+              <div style={{ fontSize: '20px', fontWeight: 700, color: '#065f46' }}>{toUSD(simulation.p90)}</div>
+            </div>
+          </div>
+
+          <div style={{ padding: '0 20px 16px 20px', fontSize: '14px', color: '#374151' }}>
+            {simulation.probabilityOfTarget !== null && simulation.target !== null ? (
+              <>
+                <strong>{Math.round(simulation.probabilityOfTarget * 100)}%</strong> chance of reaching{' '}
+                {targetName ? `${targetName} (${toUSD(simulation.target)})` : toUSD(simulation.target)} this year.
+              </>
+            ) : (
+              <span style={{ color: '#6b7280' }}>Activate a forecast model to see the chance of reaching its total.</span>
+            )}
+          </div>
+
+          <div style={{ overflowX: 'auto' }}>
+            <table style={{ width: '100%', fontSize: '14px', borderCollapse: 'collapse' }}>
+              <thead style={{ backgroundColor: '#f5f5f5' }}>
+                <tr>
+                  <th style={{ ...headerStyle, textAlign: 'left' }}>Through</th>
+                  <th style={headerStyle}>P10</th>
+                  <th style={headerStyle}>P50</th>
+                  <th style={headerStyle}>P90</th>
+                </tr>
+              </thead>
+              <tbody>
+                {simulation.months.filter(band => band.month >= currentMonth).map(band => (
+                  <tr key={band.month} style={{ borderBottom: '1px solid #eee' }}>
+                    <td style={{ ...cellStyle, textAlign: 'left', fontWeight: 500 }}>{MONTH_NAMES[band.month - 1]}</td>
+                    <td style={cellStyle}>{toUSD(band.p10)}</td>
+                    <td style={{ ...cellStyle, fontWeight: 600 }}>{toUSD(band.p50)}</td>
+                    <td style={cellStyle}>{toUSD(band.p90)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div style={{ padding: '12px 20px', fontSize: '13px', color: '#6b7280' }}>
+            <button
+              onClick={() => setShowInputs(prev => !prev)}
+              style={{ background: 'none', border: 'none', padding: 0, color: '#2563eb', cursor: 'pointer', fontSize: '13px' }}
+            >
+              {showInputs ? 'Hide inputs' : 'Show inputs'}
+            </button>
+            {showInputs && (
+              <div style={{ marginTop: '8px' }}>
+                <div>
+                  Measured over {simulation.inputs.historyMonths} months with inquiries:{' '}
+                  {simulation.inputs.inquiries.toFixed(1)} ± {simulation.inputs.inquiriesSd.toFixed(1)} inquiries a month
+                </div>
+                {simulation.inputs.serviceTypes.map(st => (
+                  <div key={st.serviceTypeId} style={{ marginTop: '2px' }}>
+                    {st.name}: {(st.closeRate * 100).toFixed(1)}% ± {(st.closeRateSd * 100).toFixed(1)}% of inquiries,{' '}
+                    {toUSD(st.averageValue)} ± {toUSD(st.valueSd)} per booking
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
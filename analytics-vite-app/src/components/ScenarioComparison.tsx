@@ -0,0 +1,140 @@
+import { useMemo, useState } from 'react';
+import { MAX_SCENARIOS, compareScenarios, type ScenarioCell, type ScenarioRow } from '../services/forecastScenarios';
+import { toUSD } from '../utils/formatters';
+import type { ForecastModel, ServiceType } from '../types';
+
+interface ScenarioComparisonProps {
+  plans: ForecastModel[]; // Hand-built models to pick scenarios from
+  serviceTypes: ServiceType[];
+  actualByServiceType: Record<string, number>; // This year's revenue, cents
+  yearProgress: number; // Percent of the year gone
+}
+
+const cellStyle = { padding: '10px 16px', textAlign: 'right' as const, borderBottom: '1px solid #eee' };
+const headerStyle = {
+  ...cellStyle,
+  fontSize: '12px',
+  fontWeight: 600,
+  textTransform: 'uppercase' as const,
+  letterSpacing: '0.05em',
+  color: '#666',
+};
+
+// Same colors as the tracker: ahead of the year, within five points, or behind
+const pacingColor = (delta: number | null) =>
+  delta === null ? '#6b7280' : delta >= 5 ? '#065f46' : delta >= -5 ? '#92400e' : '#991b1b';
+
+// Up to three plans for the current year, the active one first
+const defaultSelection = (plans: ForecastModel[]) => {
+  const year = new Date().getFullYear();
+  const sameYear = plans.filter(plan => plan.year === year);
+  return [...sameYear.filter(plan => plan.isActive), ...sameYear.filter(plan => !plan.isActive)]
+    .slice(0, MAX_SCENARIOS)
+    .map(plan => plan.id);
+};
+
+/**
+ * Up to three plans side by side, by service type and in total, paced against actual revenue
+ */
+export default function ScenarioComparison({ plans, serviceTypes, actualByServiceType, yearProgress }: ScenarioComparisonProps) {
+  const [selected, setSelected] = useState<string[]>(() => defaultSelection(plans));
+
+  const scenarios = useMemo(
+    () => selected.map(id => plans.find(plan => plan.id === id)).filter((plan): plan is ForecastModel => !!plan),
+    [selected, plans]
+  );
+  const comparison = useMemo(
+    () => compareScenarios(scenarios, actualByServiceType, serviceTypes, yearProgress),
+    [scenarios, actualByServiceType, serviceTypes, yearProgress]
+  );
+
+  const toggle = (id: string) => {
+    setSelected(prev => prev.includes(id)
+      ? prev.filter(selectedId => selectedId !== id)
+      : prev.length < MAX_SCENARIOS ? [...prev, id] : prev);
+  };
+
+  const renderCell = (cell: ScenarioCell, key: number, bold = false) => (
+    <td key={key} style={{ ...cellStyle, fontWeight: bold ? 700 : undefined }}>
+      <div>{toUSD(cell.forecast)}</div>
+      {cell.percentOfPlan !== null && (
+        <div style={{ fontSize: '12px', color: pacingColor(cell.pacingDelta) }}>
+          {cell.percentOfPlan}% of plan ({cell.pacingDelta! >= 0 ? '+' : ''}{cell.pacingDelta}%)
+        </div>
+      )}
+    </td>
+  );
+
+  const renderRow = (row: ScenarioRow, isTotal = false) => (
+    <tr
+      key={row.serviceTypeId || 'total'}
+      style={isTotal ? { backgroundColor: '#e5e7eb', borderTop: '2px solid #9ca3af' } : undefined}
+    >
+      <td style={{ ...cellStyle, textAlign: 'left', fontWeight: isTotal ? 700 : 500 }}>{row.name}</td>
+      <td style={{ ...cellStyle, fontWeight: isTotal ? 700 : undefined }}>{toUSD(row.actual)}</td>
+      {row.cells.map((cell, i) => renderCell(cell, i, isTotal))}
+    </tr>
+  );
+
+  return (
+    <div style={{ backgroundColor: 'white', borderRadius: '12px', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', overflow: 'hidden', marginTop: '24px' }}>
+      <div style={{ padding: '20px', borderBottom: '1px solid #e5e7eb' }}>
+        <h2 style={{ fontSize: '18px', fontWeight: '600', margin: '0 0 4px 0', color: '#1f2937' }}>Compare Scenarios</h2>
+        <p style={{ fontSize: '14px', color: '#6b7280', margin: 0 }}>
+          Pick up to {MAX_SCENARIOS} models (for example conservative, expected and stretch). Pacing compares this
+          year's revenue with each plan against the {yearProgress}% of the year gone.
+        </p>
+        <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', marginTop: '12px' }}>
+          {plans.map(plan => {
+            const isSelected = selected.includes(plan.id);
+            const isDisabled = !isSelected && selected.length >= MAX_SCENARIOS;
+            return (
+              <label
+                key={plan.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                  padding: '6px 10px',
+                  border: `1px solid ${isSelected ? '#3b82f6' : '#d1d5db'}`,
+                  backgroundColor: isSelected ? '#eff6ff' : 'white',
+                  borderRadius: '6px',
+                  fontSize: '13px',
+                  color: isDisabled ? '#9ca3af' : '#374151',
+                  cursor: isDisabled ? 'not-allowed' : 'pointer',
+                }}
+              >
+                <input type="checkbox" checked={isSelected} disabled={isDisabled} onChange={() => toggle(plan.id)} />
+                {plan.name} ({plan.year})
+              </label>
+            );
+          })}
+        </div>
+      </div>
+
+      {scenarios.length === 0 ? (
+        <div style={{ padding: '40px 20px', textAlign: 'center', color: '#6b7280', fontSize: '14px' }}>
+          Pick a model to compare.
+        </div>
+      ) : (
+        <div style={{ overflowX: 'auto' }}>
+          <table style={{ width: '100%', fontSize: '14px', borderCollapse: 'collapse' }}>
+            <thead style={{ backgroundColor: '#f5f5f5' }}>
+              <tr>
+                <th style={{ ...headerStyle, textAlign: 'left' }}>Service Type</th>
+                <th style={headerStyle}>Actual</th>
+                {scenarios.map(scenario => (
+                  <th key={scenario.id} style={headerStyle}>{scenario.name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.rows.map(row => renderRow(row))}
+              {renderRow(comparison.total, true)}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { Users, Phone, CheckCircle, ListChecks } from 'lucide-react';
+import type { FunnelStageSource } from '../types';
+
+interface StageIconProps {
+  source: FunnelStageSource;
+  size?: number;
+  color?: string; // Defaults to the stage's own color
+}
+
+const STAGE_COLORS: Record<FunnelStageSource, string> = {
+  inquiries: '#3b82f6',
+  callsBooked: '#10b981',
+  callsTaken: '#f59e0b',
+  closes: '#ef4444',
+  custom: '#6366f1',
+};
+
+/**
+ * Icon for a funnel stage (the same icons Insights used for the original four columns)
+ */
+export default function StageIcon({ source, size = 20, color }: StageIconProps) {
+  const iconColor = color || STAGE_COLORS[source];
+  switch (source) {
+    case 'inquiries':
+      return <Users size={size} color={iconColor} />;
+    case 'callsBooked':
+    case 'callsTaken':
+      return <Phone size={size} color={iconColor} />;
+    case 'closes':
+      return <CheckCircle size={size} color={iconColor} />;
+    default:
+      return <ListChecks size={size} color={iconColor} />;
+  }
+}
@@ -0,0 +1,390 @@
+import { useMemo, useState } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { X, Printer, Download } from 'lucide-react';
+import { buildYearEndSummary, buildYearEndSummaryCSV, type YearEndSummary } from '../services/yearEndSummary';
+import { MONTH_NAMES } from '../services/insightsMetrics';
+import { toUSD, formatNumber } from '../utils/formatters';
+import { downloadFile } from '../utils/download';
+import { printHtml } from '../utils/print';
+import { logger } from '../utils/logger';
+import type { Booking, Payment, ServiceType } from '../types';
+
+interface YearEndSummaryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  bookings: Booking[];
+  payments: Payment[];
+  serviceTypes: ServiceType[];
+  companyName?: string;
+}
+
+const PRINT_CSS = `
+  @page { size: letter; margin: 14mm; }
+  h2 { break-after: avoid; page-break-after: avoid; }
+  tr { page-break-inside: avoid; }
+`;
+
+/**
+ * Year-end revenue summary
+ * Pick a year, then download the summary as CSV or print it (or save it as PDF) for the accountant.
+ */
+export default function YearEndSummaryModal({ isOpen, onClose, bookings, payments, serviceTypes, companyName }: YearEndSummaryModalProps) {
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear - 1);
+  const [error, setError] = useState<string | null>(null);
+
+  // Every year with a payment in it, plus this year and last
+  const years = useMemo(() => {
+    const found = new Set([currentYear, currentYear - 1]);
+    payments.forEach(p => {
+      const paymentYear = parseInt((p.paymentDate || p.dueDate || p.expectedDate || '').slice(0, 4));
+      if (!isNaN(paymentYear)) found.add(paymentYear);
+    });
+    return Array.from(found).sort((a, b) => b - a);
+  }, [payments, currentYear]);
+
+  const summary = useMemo(
+    () => (isOpen ? buildYearEndSummary(year, { bookings, payments, serviceTypes }) : null),
+    [isOpen, year, bookings, payments, serviceTypes]
+  );
+
+  if (!isOpen || !summary) return null;
+
+  const handleDownload = () => {
+    downloadFile(`year-end-summary-${year}.csv`, buildYearEndSummaryCSV(summary), 'text/csv;charset=utf-8');
+  };
+
+  const handlePrint = () => {
+    setError(null);
+    try {
+      printHtml(
+        `${year} Year-End Revenue Summary`,
+        renderToStaticMarkup(<YearEndDocument summary={summary} companyName={companyName} />),
+        PRINT_CSS
+      );
+    } catch (err) {
+      logger.error('Error printing year-end summary:', err);
+      setError(err instanceof Error ? err.message : 'Failed to print the summary');
+    }
+  };
+
+  const actionButtonStyle = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '8px 16px',
+    borderRadius: '6px',
+    fontSize: '14px',
+    fontWeight: '500',
+    cursor: 'pointer',
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          padding: '24px',
+          maxWidth: '900px',
+          width: '90%',
+          maxHeight: '90vh',
+          overflow: 'auto',
+          boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>Year-End Revenue Summary</h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              padding: '4px',
+              display: 'flex',
+              alignItems: 'center',
+            }}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Controls */}
+        <div style={{ display: 'flex', gap: '12px', alignItems: 'center', marginBottom: '16px' }}>
+          <select
+            value={year}
+            onChange={(e) => setYear(Number(e.target.value))}
+            style={{ padding: '8px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '14px' }}
+          >
+            {years.map(y => (
+              <option key={y} value={y}>{y}</option>
+            ))}
+          </select>
+          <div style={{ marginLeft: 'auto', display: 'flex', gap: '8px' }}>
+            <button
+              onClick={handleDownload}
+              style={{ ...actionButtonStyle, border: '1px solid #d1d5db', backgroundColor: 'white', color: '#374151' }}
+            >
+              <Download size={16} />
+              Download CSV
+            </button>
+            <button
+              onClick={handlePrint}
+              style={{ ...actionButtonStyle, border: 'none', backgroundColor: '#3b82f6', color: 'white' }}
+            >
+              <Printer size={16} />
+              Print / Save as PDF
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div style={{ marginBottom: '16px', padding: '12px', backgroundColor: '#fef2f2', border: '1px solid #fecaca', borderRadius: '6px', fontSize: '14px', color: '#dc2626' }}>
+            {error}
+          </div>
+        )}
+
+        {/* Preview */}
+        <div style={{ border: '1px solid #e5e7eb', borderRadius: '8px', padding: '24px' }}>
+          <YearEndDocument summary={summary} companyName={companyName} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const thStyle = {
+  padding: '6px 8px',
+  borderBottom: '2px solid #e5e7eb',
+  fontSize: '12px',
+  fontWeight: '600',
+  color: '#374151',
+  textAlign: 'left' as const,
+};
+
+const tdStyle = {
+  padding: '6px 8px',
+  borderBottom: '1px solid #f3f4f6',
+  fontSize: '12px',
+  color: '#1f2937',
+};
+
+const numberStyle = { ...tdStyle, textAlign: 'right' as const };
+const totalStyle = { ...numberStyle, fontWeight: '600', borderTop: '2px solid #e5e7eb' };
+
+function SummarySection({ title, note, children }: { title: string; note?: string; children: React.ReactNode }) {
+  return (
+    <div style={{ marginBottom: '24px' }}>
+      <h2 style={{ fontSize: '15px', fontWeight: '600', margin: '0 0 4px 0', color: '#1f2937' }}>{title}</h2>
+      {note && <p style={{ fontSize: '11px', color: '#6b7280', margin: '0 0 8px 0' }}>{note}</p>}
+      {children}
+    </div>
+  );
+}
+
+function EmptyRow({ columns, text }: { columns: number; text: string }) {
+  return (
+    <tr>
+      <td colSpan={columns} style={{ ...tdStyle, color: '#6b7280' }}>{text}</td>
+    </tr>
+  );
+}
+
+/**
+ * The summary itself - rendered in the preview, and to static HTML for printing
+ */
+function YearEndDocument({ summary, companyName }: { summary: YearEndSummary; companyName?: string }) {
+  const generatedOn = new Date(summary.generatedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+  return (
+    <div style={{ fontFamily: 'system-ui, -apple-system, sans-serif', color: '#1f2937' }}>
+      <div style={{ marginBottom: '24px' }}>
+        {companyName && <div style={{ fontSize: '13px', color: '#6b7280' }}>{companyName}</div>}
+        <div style={{ fontSize: '22px', fontWeight: '700' }}>{summary.year} Year-End Revenue Summary</div>
+        <div style={{ fontSize: '12px', color: '#6b7280' }}>Prepared {generatedOn}</div>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '8px', marginBottom: '24px' }}>
+        {[
+          { label: 'Net Cash Received', value: toUSD(summary.totals.net) },
+          { label: 'Refunds', value: toUSD(summary.totals.refunds) },
+          { label: `Deposits for ${summary.year + 1}+ Projects`, value: toUSD(summary.depositsTotal) },
+          { label: 'Outstanding at Dec 31', value: toUSD(summary.receivablesTotal) },
+        ].map(item => (
+          <div key={item.label} style={{ border: '1px solid #e5e7eb', borderRadius: '6px', padding: '8px 10px' }}>
+            <div style={{ fontSize: '11px', color: '#6b7280', marginBottom: '2px' }}>{item.label}</div>
+            <div style={{ fontSize: '16px', fontWeight: '600' }}>{item.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <SummarySection title="Cash Received by Month">
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={thStyle}>Month</th>
+              {summary.serviceTypes.map(st => (
+                <th key={st.serviceTypeId} style={{ ...thStyle, textAlign: 'right' }}>{st.name}</th>
+              ))}
+              <th style={{ ...thStyle, textAlign: 'right' }}>Refunds</th>
+              <th style={{ ...thStyle, textAlign: 'right' }}>Net</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.months.map(month => (
+              <tr key={month.month}>
+                <td style={tdStyle}>{MONTH_NAMES[month.month - 1]}</td>
+                {summary.serviceTypes.map(st => (
+                  <td key={st.serviceTypeId} style={numberStyle}>{toUSD(month.receivedByServiceType[st.serviceTypeId] || 0)}</td>
+                ))}
+                <td style={numberStyle}>{toUSD(month.refunds)}</td>
+                <td style={numberStyle}>{toUSD(month.net)}</td>
+              </tr>
+            ))}
+            <tr>
+              <td style={{ ...totalStyle, textAlign: 'left' }}>Total</td>
+              {summary.serviceTypes.map(st => (
+                <td key={st.serviceTypeId} style={totalStyle}>{toUSD(st.received)}</td>
+              ))}
+              <td style={totalStyle}>{toUSD(summary.totals.refunds)}</td>
+              <td style={totalStyle}>{toUSD(summary.totals.net)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </SummarySection>
+
+      <SummarySection title="Cash Received by Service Type">
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={thStyle}>Service Type</th>
+              <th style={{ ...thStyle, textAlign: 'right' }}>Payments</th>
+              <th style={{ ...thStyle, textAlign: 'right' }}>Received</th>
+              <th style={{ ...thStyle, textAlign: 'right' }}>Refunds</th>
+              <th style={{ ...thStyle, textAlign: 'right' }}>Net</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.serviceTypes.length === 0 && <EmptyRow columns={5} text={`No payments received in ${summary.year}.`} />}
+            {summary.serviceTypes.map(st => (
+              <tr key={st.serviceTypeId}>
+                <td style={tdStyle}>{st.name}</td>
+                <td style={numberStyle}>{formatNumber(st.paymentCount)}</td>
+                <td style={numberStyle}>{toUSD(st.received)}</td>
+                <td style={numberStyle}>{toUSD(st.refunds)}</td>
+                <td style={numberStyle}>{toUSD(st.net)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </SummarySection>
+
+      <SummarySection title="Refunds" note="Payments recorded with a negative amount.">
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={thStyle}>Date</th>
+              <th style={thStyle}>Project</th>
+              <th style={thStyle}>Service Type</th>
+              <th style={{ ...thStyle, textAlign: 'right' }}>Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.refunds.length === 0 && <EmptyRow columns={4} text="No refunds." />}
+            {summary.refunds.map((refund, i) => (
+              <tr key={i}>
+                <td style={tdStyle}>{refund.date}</td>
+                <td style={tdStyle}>{refund.projectName}</td>
+                <td style={tdStyle}>{refund.serviceType}</td>
+                <td style={numberStyle}>{toUSD(refund.amount)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </SummarySection>
+
+      <SummarySection
+        title={`Deposits Received for Projects After ${summary.year}`}
+        note={`Cash received in ${summary.year} for projects dated ${summary.year + 1} or later (included in cash received above).`}
+      >
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={thStyle}>Project</th>
+              <th style={thStyle}>Service Type</th>
+              <th style={thStyle}>Project Date</th>
+              <th style={{ ...thStyle, textAlign: 'right' }}>Received</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.deposits.length === 0 && <EmptyRow columns={4} text="No deposits for future projects." />}
+            {summary.deposits.map((deposit, i) => (
+              <tr key={i}>
+                <td style={tdStyle}>{deposit.projectName}</td>
+                <td style={tdStyle}>{deposit.serviceType}</td>
+                <td style={tdStyle}>{deposit.projectDate}</td>
+                <td style={numberStyle}>{toUSD(deposit.amount)}</td>
+              </tr>
+            ))}
+            {summary.deposits.length > 0 && (
+              <tr>
+                <td colSpan={3} style={{ ...totalStyle, textAlign: 'left' }}>Total</td>
+                <td style={totalStyle}>{toUSD(summary.depositsTotal)}</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </SummarySection>
+
+      <SummarySection
+        title={`Outstanding Receivables at December 31, ${summary.year}`}
+        note={`Scheduled payments due by December 31 that hadn't been paid by then.`}
+      >
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={thStyle}>Project</th>
+              <th style={thStyle}>Service Type</th>
+              <th style={thStyle}>Due Date</th>
+              <th style={{ ...thStyle, textAlign: 'right' }}>Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.receivables.length === 0 && <EmptyRow columns={4} text="Nothing outstanding." />}
+            {summary.receivables.map((receivable, i) => (
+              <tr key={i}>
+                <td style={tdStyle}>{receivable.projectName}</td>
+                <td style={tdStyle}>{receivable.serviceType}</td>
+                <td style={tdStyle}>{receivable.dueDate}</td>
+                <td style={numberStyle}>{toUSD(receivable.amount)}</td>
+              </tr>
+            ))}
+            {summary.receivables.length > 0 && (
+              <tr>
+                <td colSpan={3} style={{ ...totalStyle, textAlign: 'left' }}>Total</td>
+                <td style={totalStyle}>{toUSD(summary.receivablesTotal)}</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </SummarySection>
+    </div>
+  );
+}
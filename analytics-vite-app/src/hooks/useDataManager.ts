@@ -2,7 +2,10 @@ import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { UnifiedDataService } from '../services/unifiedDataService';
 import { AdminService } from '../services/adminService';
-import type { FunnelData, Booking, Payment, ServiceType, LeadSource, AdCampaign, ForecastModel, DataManager } from '../types';
+import { funnelIdOfMonth } from '../services/funnelScope';
+import { funnelIdOfWeek, rollUpFunnelWeeks, emptyFunnelMonth } from '../services/funnelWeeks';
+import { isoWeekMonth } from '../utils/isoWeek';
+import type { FunnelData, FunnelDefinition, FunnelStage, FunnelWeek, Booking, Payment, ServiceType, LeadSource, AdCampaign, ForecastModel, DataManager } from '../types';
 import { logger } from '../utils/logger';
 
 export function useDataManager(): DataManager {
@@ -12,6 +15,9 @@ export function useDataManager(): DataManager {
 
   // Data state
   const [funnelData, setFunnelData] = useState<FunnelData[]>([]);
+  const [funnels, setFunnels] = useState<FunnelDefinition[]>([]);
+  const [funnelWeeks, setFunnelWeeks] = useState<FunnelWeek[]>([]);
+  const [funnelStages, setFunnelStages] = useState<FunnelStage[]>([]);
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [payments, setPayments] = useState<Payment[]>([]);
   const [serviceTypes, setServiceTypes] = useState<ServiceType[]>([]);
@@ -35,8 +41,11 @@ export function useDataManager(): DataManager {
     try {
       logger.debug('Loading all data for user', { userId, isViewOnly });
       
-      const [funnelDataResult, bookingsResult, paymentsResult, serviceTypesResult, leadSourcesResult, adCampaignsResult, forecastModelsResult] = await Promise.all([
+      const [funnelDataResult, funnelsResult, funnelWeeksResult, funnelStagesResult, bookingsResult, paymentsResult, serviceTypesResult, leadSourcesResult, adCampaignsResult, forecastModelsResult] = await Promise.all([
         UnifiedDataService.getAllFunnelData(userId),
+        UnifiedDataService.getFunnels(userId),
+        UnifiedDataService.getFunnelWeeks(userId),
+        UnifiedDataService.getFunnelStages(userId),
         UnifiedDataService.getBookings(userId),
         UnifiedDataService.getPayments(userId),
         UnifiedDataService.getServiceTypes(userId),
@@ -47,6 +56,9 @@ export function useDataManager(): DataManager {
 
       logger.debug('All data loaded successfully', {
         funnelData: funnelDataResult.length,
+        funnels: funnelsResult.length,
+        funnelWeeks: funnelWeeksResult.length,
+        funnelStages: funnelStagesResult.length,
         bookings: bookingsResult.length,
         payments: paymentsResult.length,
         serviceTypes: serviceTypesResult.length,
@@ -56,6 +68,9 @@ export function useDataManager(): DataManager {
       });
 
       setFunnelData(funnelDataResult);
+      setFunnels(funnelsResult);
+      setFunnelWeeks(funnelWeeksResult);
+      setFunnelStages(funnelStagesResult);
       setBookings(bookingsResult);
       setPayments(paymentsResult);
       setServiceTypes(serviceTypesResult);
@@ -96,11 +111,15 @@ export function useDataManager(): DataManager {
       }
       
       if (success) {
+        // Months saved without a funnel went to the first funnel
+        const savedMonth = { ...funnelData, funnelId: funnelData.funnelId || funnels[0]?.id };
+        const isSameMonth = (f: FunnelData) =>
+          f.year === savedMonth.year && f.month === savedMonth.month && (f.funnelId || funnels[0]?.id) === savedMonth.funnelId;
         setFunnelData(prev => {
-          const existing = prev.find(f => f.year === funnelData.year && f.month === funnelData.month);
+          const existing = prev.find(isSameMonth);
           return existing
-            ? prev.map(f => f.year === funnelData.year && f.month === funnelData.month ? funnelData : f)
-            : [...prev, funnelData];
+            ? prev.map(f => isSameMonth(f) ? savedMonth : f)
+            : [...prev, savedMonth];
         });
       }
       return success;
@@ -108,6 +127,117 @@ export function useDataManager(): DataManager {
       logger.error('Error saving funnel data:', err);
       return false;
     }
+  }, [effectiveUserId, user?.id, isViewOnly, funnels]);
+
+  // Saving a week also writes the sum of its month's weeks into that month's inquiries and calls
+  const saveFunnelWeek = useCallback(async (week: FunnelWeek) => {
+    const userId = effectiveUserId || user?.id;
+    if (!userId) return false;
+
+    try {
+      const saved = await UnifiedDataService.saveFunnelWeek(userId, week, isViewOnly);
+
+      if (isAdmin && impersonatingUserId) {
+        await AdminService.logAction('edit_data', impersonatingUserId, {
+          action: 'save_funnel_week',
+          year: week.year,
+          week: week.week,
+        }, impersonationSessionId || null);
+      }
+
+      if (!saved) return false;
+
+      // Weeks saved without a funnel went to the first funnel
+      const funnelId = saved.funnelId || funnels[0]?.id;
+      const savedWeek = { ...saved, funnelId };
+      const isSameWeek = (w: FunnelWeek) =>
+        w.year === savedWeek.year && w.week === savedWeek.week && funnelIdOfWeek(w, funnels) === funnelId;
+      const weeks = funnelWeeks.some(isSameWeek)
+        ? funnelWeeks.map(w => isSameWeek(w) ? savedWeek : w)
+        : [...funnelWeeks, savedWeek];
+      setFunnelWeeks(weeks);
+
+      const { year, month } = isoWeekMonth(savedWeek.year, savedWeek.week);
+      const totals = rollUpFunnelWeeks(weeks.filter(w => funnelIdOfWeek(w, funnels) === funnelId), year, month);
+      const existingMonth = funnelData.find(f => f.year === year && f.month === month && funnelIdOfMonth(f, funnels) === funnelId);
+      return await saveFunnelData({
+        ...(existingMonth || emptyFunnelMonth(year, month, funnelId)),
+        ...totals,
+        funnelId,
+        lastUpdated: new Date().toISOString(),
+      });
+    } catch (err) {
+      logger.error('Error saving funnel week:', err);
+      return false;
+    }
+  }, [effectiveUserId, user?.id, isViewOnly, isAdmin, impersonatingUserId, impersonationSessionId, funnels, funnelWeeks, funnelData, saveFunnelData]);
+
+  // Funnel stages are saved as a whole list (order, names, added and removed stages)
+  const saveFunnelStages = useCallback(async (stages: FunnelStage[]) => {
+    const userId = effectiveUserId || user?.id;
+    if (!userId) return false;
+
+    try {
+      const saved = await UnifiedDataService.saveFunnelStages(userId, stages, isViewOnly);
+      if (saved) {
+        setFunnelStages(saved);
+      }
+      return !!saved;
+    } catch (err) {
+      logger.error('Error saving funnel stages:', err);
+      return false;
+    }
+  }, [effectiveUserId, user?.id, isViewOnly]);
+
+  // Named funnel operations
+  const createFunnel = useCallback(async (name: string) => {
+    const userId = effectiveUserId || user?.id;
+    if (!userId) return null;
+
+    try {
+      const funnel = await UnifiedDataService.createFunnel(userId, name, isViewOnly);
+      if (funnel) {
+        setFunnels(prev => [...prev, funnel]);
+      }
+      return funnel;
+    } catch (err) {
+      logger.error('Error creating funnel:', err);
+      return null;
+    }
+  }, [effectiveUserId, user?.id, isViewOnly]);
+
+  const updateFunnel = useCallback(async (id: string, updates: Partial<Pick<FunnelDefinition, 'name' | 'archivedAt' | 'sortOrder'>>) => {
+    const userId = effectiveUserId || user?.id;
+    if (!userId) return false;
+
+    try {
+      const success = await UnifiedDataService.updateFunnel(userId, id, updates, isViewOnly);
+      if (success) {
+        setFunnels(prev => prev.map(funnel => funnel.id === id ? { ...funnel, ...updates } : funnel));
+      }
+      return success;
+    } catch (err) {
+      logger.error('Error updating funnel:', err);
+      return false;
+    }
+  }, [effectiveUserId, user?.id, isViewOnly]);
+
+  const setServiceTypeFunnel = useCallback(async (serviceTypeId: string, funnelId: string | null) => {
+    const userId = effectiveUserId || user?.id;
+    if (!userId) return false;
+
+    try {
+      const success = await UnifiedDataService.updateServiceTypeFunnel(userId, serviceTypeId, funnelId, isViewOnly);
+      if (success) {
+        setServiceTypes(prev => prev.map(st =>
+          st.id === serviceTypeId ? { ...st, funnelId, tracksInFunnel: funnelId !== null } : st
+        ));
+      }
+      return success;
+    } catch (err) {
+      logger.error('Error updating service type funnel:', err);
+      return false;
+    }
   }, [effectiveUserId, user?.id, isViewOnly]);
 
   // Service type operations
@@ -475,6 +605,9 @@ export function useDataManager(): DataManager {
     loading,
     error,
     funnelData,
+    funnels,
+    funnelWeeks,
+    funnelStages,
     bookings,
     payments,
     serviceTypes,
@@ -487,6 +620,13 @@ export function useDataManager(): DataManager {
     
     // Funnel operations
     saveFunnelData,
+    saveFunnelWeek,
+    saveFunnelStages,
+    
+    // Named funnel operations
+    createFunnel,
+    updateFunnel,
+    setServiceTypeFunnel,
     
     // Service type operations
     createServiceType,
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { calculateForecastAccuracy, dueSnapshots } from '../forecastAccuracy'
+import { fitForecastModel } from '../forecastModels'
+import { monthToIndex } from '../insightsMetrics'
+import { booking, payment, scopeData } from '../../test/fixtures'
+import type { ForecastModel, ForecastSnapshot, ServiceType } from '../../types'
+
+const now = new Date(2025, 5, 15) // Mid June 2025
+
+const serviceTypes: ServiceType[] = [
+  { id: 'st_wedding', name: 'Wedding', isCustom: false, tracksInFunnel: true },
+  { id: 'st_portrait', name: 'Portrait', isCustom: false, tracksInFunnel: true },
+]
+
+const bookings = [
+  booking('b_wedding', 'st_wedding', '2024-01-10', 150000),
+  booking('b_portrait', 'st_portrait', '2024-02-10', 30000),
+]
+
+// 2024: weddings 100,000 and portraits 20,000; 2025 so far: weddings 50,000 and portraits 10,000
+const payments = [
+  payment('p1', 'b_wedding', '2024-05-01', 100000),
+  payment('p2', 'b_portrait', '2024-07-01', 20000),
+  payment('p3', 'b_wedding', '2025-03-01', 50000),
+  payment('p4', 'b_portrait', '2025-04-01', 10000),
+]
+
+const data = scopeData({ bookings, payments, serviceTypes })
+
+const model = (overrides: Partial<ForecastModel>): ForecastModel => ({
+  id: 'plan_1',
+  name: 'Plan',
+  modelType: 'forecast',
+  year: 2025,
+  isActive: false,
+  serviceTypes: [],
+  createdAt: now.toISOString(),
+  updatedAt: now.toISOString(),
+  ...overrides,
+})
+
+let snapshotCount = 0
+const snapshot = (overrides: Partial<ForecastSnapshot>): ForecastSnapshot => ({
+  id: `snapshot_${++snapshotCount}`,
+  modelId: 'plan_1',
+  modelName: 'Plan',
+  modelType: 'forecast',
+  year: 2025,
+  checkpoint: 1,
+  total: 0,
+  serviceTypes: [],
+  metric: null,
+  takenAt: now.toISOString(),
+  ...overrides,
+})
+
+// A hand-built plan for weddings only: 10% high in January, 10% low in February
+const plan2024 = [
+  snapshot({ modelId: 'plan_2024', modelName: '2024 Plan', year: 2024, checkpoint: 1, total: 110000, serviceTypes: [{ serviceTypeId: 'st_wedding', amount: 110000 }] }),
+  snapshot({ modelId: 'plan_2024', modelName: '2024 Plan', year: 2024, checkpoint: 2, total: 90000, serviceTypes: [{ serviceTypeId: 'st_wedding', amount: 90000 }] }),
+]
+// A fitted model of booked revenue, 25% above 2024's bookings (180,000)
+const linear2024 = [
+  snapshot({ modelId: 'linear_2024', modelName: '2024 Trend', modelType: 'linear', year: 2024, checkpoint: 1, total: 225000, metric: 'bookings' }),
+]
+// A fitted model of cash, spot on for 2025 so far, but the year isn't over
+const exponential2025 = [
+  snapshot({ modelId: 'exponential_2025', modelName: '2025 Growth', modelType: 'exponential', year: 2025, checkpoint: 6, total: 60000, metric: 'cash' }),
+]
+
+describe('forecastAccuracy', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {}) // The revenue calculation logs its working
+  })
+
+  describe('dueSnapshots', () => {
+    const fit = fitForecastModel('linear', [0, 1, 2].map(i => ({ index: monthToIndex(2025, 1) + i, value: 1000 })), now)
+
+    it('should snapshot each saved, scorable model for this year once a month', () => {
+      const models = [
+        model({ id: 'plan_taken', serviceTypes: [{ serviceTypeId: 'st_wedding', quantity: 2, avgBooking: 5000, totalForecast: 10000 }] }),
+        model({ id: 'plan_due', serviceTypes: [{ serviceTypeId: 'st_wedding', quantity: 3, avgBooking: 5000, totalForecast: 15000 }] }),
+        model({ id: 'linear_due', modelType: 'linear', parameters: { year: 2025, serviceTypes: [], metric: 'bookings', fit } }),
+      ]
+      const snapshots = [
+        snapshot({ modelId: 'plan_taken', checkpoint: 6 }),
+        snapshot({ modelId: 'plan_due', checkpoint: 5 }),
+        snapshot({ modelId: 'plan_due', year: 2024, checkpoint: 6 }),
+      ]
+
+      const due = dueSnapshots(models, snapshots, now)
+      expect(due.map(s => s.modelId)).toEqual(['plan_due', 'linear_due'])
+      expect(due[0]).toMatchObject({ year: 2025, checkpoint: 6, total: 15000, serviceTypes: [{ serviceTypeId: 'st_wedding', amount: 15000 }] })
+      expect(due[0].metric).toBeNull()
+      expect(due[1].total).toBeCloseTo(12000)
+      expect(due[1].serviceTypes).toEqual([])
+      expect(due[1].metric).toBe('bookings')
+    })
+
+    it('should skip unsaved models, models of closes, unfitted models and other years', () => {
+      const models = [
+        model({ id: 'model_1718000000000' }),
+        model({ id: 'closes', modelType: 'linear', parameters: { year: 2025, serviceTypes: [], metric: 'closes', fit } }),
+        model({ id: 'unfitted', modelType: 'linear', parameters: { year: 2025, serviceTypes: [], metric: 'bookings', fit: null } }),
+        model({ id: 'last_year', year: 2024 }),
+      ]
+      expect(dueSnapshots(models, [], now)).toEqual([])
+    })
+  })
+
+  describe('calculateForecastAccuracy', () => {
+    it('should score plans on their own service types and fitted models on the figure they project', () => {
+      const accuracy = calculateForecastAccuracy([...plan2024, ...linear2024], data, now)
+      const plan = accuracy.models.find(m => m.modelId === 'plan_2024')!
+      expect(plan.actual).toBe(100000)
+      expect(plan.snapshots).toBe(2)
+      expect(plan.errors.mape).toBeCloseTo(0.1)
+      expect(plan.errors.bias).toBeCloseTo(0)
+      expect(plan.serviceTypes).toEqual([{ serviceTypeId: 'st_wedding', name: 'Wedding', errors: plan.errors }])
+
+      const linear = accuracy.models.find(m => m.modelId === 'linear_2024')!
+      expect(linear.metric).toBe('bookings')
+      expect(linear.actual).toBe(180000)
+      expect(linear.errors.mape).toBeCloseTo(0.25)
+      expect(linear.errors.bias).toBeCloseTo(0.25)
+      expect(linear.provisional).toBe(false)
+    })
+
+    it('should score fitted models of cash against cash', () => {
+      const cash2024 = linear2024.map(s => ({ ...s, total: 150000, metric: 'cash' as const }))
+      const [linear] = calculateForecastAccuracy(cash2024, data, now).models
+      expect(linear.metric).toBe('cash')
+      expect(linear.actual).toBe(120000)
+      expect(linear.errors.bias).toBeCloseTo(0.25)
+    })
+
+    it('should score fitted snapshots without a metric as booked revenue', () => {
+      const legacy = linear2024.map(s => ({ ...s, metric: null }))
+      const [linear] = calculateForecastAccuracy(legacy, data, now).models
+      expect(linear).toMatchObject({ metric: 'bookings', actual: 180000 })
+    })
+
+    it('should rank approaches on completed years only', () => {
+      const accuracy = calculateForecastAccuracy([...plan2024, ...linear2024, ...exponential2025], data, now)
+      expect(accuracy.models.find(m => m.modelId === 'exponential_2025')?.provisional).toBe(true)
+      expect(accuracy.models.find(m => m.modelId === 'exponential_2025')?.errors.mape).toBeCloseTo(0)
+      expect(accuracy.approaches.map(a => a.modelType)).toEqual(['forecast', 'linear'])
+      expect(accuracy.best).toBe('forecast')
+      expect(accuracy.provisional).toBe(false)
+    })
+
+    it('should rank on years under way when none are complete', () => {
+      const accuracy = calculateForecastAccuracy(exponential2025, data, now)
+      expect(accuracy.approaches.map(a => a.label)).toEqual(['Exponential growth'])
+      expect(accuracy.best).toBe('exponential')
+      expect(accuracy.provisional).toBe(true)
+    })
+
+    it('should keep scoring a deleted model by its name and type', () => {
+      const deleted = plan2024.map(s => ({ ...s, modelId: null }))
+      const accuracy = calculateForecastAccuracy(deleted, data, now)
+      expect(accuracy.models).toHaveLength(1)
+      expect(accuracy.models[0]).toMatchObject({ modelId: null, modelName: '2024 Plan', snapshots: 2 })
+    })
+
+    it('should not score years that have not started', () => {
+      const accuracy = calculateForecastAccuracy([snapshot({ year: 2026, total: 50000 })], data, now)
+      expect(accuracy).toEqual({ models: [], approaches: [], provisional: false, best: null })
+    })
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest'
+import { compareWithPlan, fitForecastModel, forecastHistory, projectMonth, projectYear, type HistoryPoint } from '../forecastModels'
+import { monthToIndex } from '../insightsMetrics'
+import { funnelMonth, scopeData } from '../../test/fixtures'
+import type { ForecastModel } from '../../types'
+
+const now = new Date(2025, 5, 15) // Mid June 2025
+const origin = monthToIndex(2023, 1)
+
+const history = (values: number[], start: number = origin): HistoryPoint[] =>
+  values.map((value, i) => ({ index: start + i, value }))
+
+const model = (overrides: Partial<ForecastModel>): ForecastModel => ({
+  id: 'model_1',
+  name: 'Model',
+  modelType: 'forecast',
+  year: 2025,
+  isActive: false,
+  serviceTypes: [],
+  createdAt: now.toISOString(),
+  updatedAt: now.toISOString(),
+  ...overrides,
+})
+
+// Symmetric around mid-year, so the first trend line through two years of it is flat
+const SEASONAL_PATTERN = [0.5, 1, 1, 1, 1, 1.5, 1.5, 1, 1, 1, 1, 0.5]
+
+describe('forecastModels', () => {
+  describe('fitForecastModel', () => {
+    it('should recover a perfect line', () => {
+      const fit = fitForecastModel('linear', history([1000, 1050, 1100, 1150, 1200, 1250]), now)
+      expect(fit?.intercept).toBeCloseTo(1000)
+      expect(fit?.slope).toBeCloseTo(50)
+      expect(fit?.rSquared).toBeCloseTo(1)
+      expect(fit?.historyStart).toBe(origin)
+      expect(fit?.historyEnd).toBe(origin + 5)
+      expect(fit?.fittedAt).toBe(now.toISOString())
+      expect(projectMonth('linear', fit!, origin + 10)).toBeCloseTo(1500)
+    })
+
+    it('should never project a falling line below zero', () => {
+      const fit = fitForecastModel('linear', history([300, 200, 100]), now)
+      expect(projectMonth('linear', fit!, origin + 5)).toBe(0)
+    })
+
+    it('should recover steady percentage growth', () => {
+      const fit = fitForecastModel('exponential', history([0, 1, 2, 3, 4, 5].map(t => 100 * 1.1 ** t)), now)
+      expect(fit?.intercept).toBeCloseTo(Math.log(100))
+      expect(fit?.slope).toBeCloseTo(Math.log(1.1))
+      expect(projectMonth('exponential', fit!, origin + 8)).toBeCloseTo(100 * 1.1 ** 8)
+    })
+
+    it('should leave zero and negative months out of the exponential fit', () => {
+      const values = [0, 1, 2, 3, 4, 5].map(t => 100 * 2 ** t)
+      values[1] = 0
+      values[3] = -50
+      const fit = fitForecastModel('exponential', history(values), now)
+      expect(fit?.slope).toBeCloseTo(Math.log(2))
+      expect(projectMonth('exponential', fit!, origin + 6)).toBeCloseTo(6400)
+    })
+
+    it('should not fit an exponential to fewer than three positive months', () => {
+      expect(fitForecastModel('exponential', history([0, 500, 0, -20, 700]), now)).toBeNull()
+    })
+
+    it('should recover a repeating seasonal pattern', () => {
+      const values = [...SEASONAL_PATTERN, ...SEASONAL_PATTERN].map(ratio => 1000 * ratio)
+      const fit = fitForecastModel('seasonal', history(values), now)
+      fit?.seasonalIndexes?.forEach((index, i) => expect(index).toBeCloseTo(SEASONAL_PATTERN[i]))
+      expect(fit?.intercept).toBeCloseTo(1000)
+      expect(fit?.slope).toBeCloseTo(0)
+      expect(projectMonth('seasonal', fit!, monthToIndex(2025, 1))).toBeCloseTo(500)
+      expect(projectMonth('seasonal', fit!, monthToIndex(2025, 7))).toBeCloseTo(1500)
+    })
+
+    it('should need enough months for each model type', () => {
+      expect(fitForecastModel('linear', history([100, 200]), now)).toBeNull()
+      expect(fitForecastModel('exponential', [], now)).toBeNull()
+      expect(fitForecastModel('seasonal', history(SEASONAL_PATTERN.slice(0, 11)), now)).toBeNull()
+      expect(fitForecastModel('seasonal', history(SEASONAL_PATTERN), now)).not.toBeNull()
+    })
+  })
+
+  describe('forecastHistory', () => {
+    it('should cover the complete months before now, from the first month with a value', () => {
+      const data = scopeData({
+        funnelData: [funnelMonth(2025, 2, { bookings: 4000 }), funnelMonth(2025, 4, { bookings: 6000 }), funnelMonth(2025, 6, { bookings: 9000 })],
+      })
+      expect(forecastHistory('bookings', data, 12, now)).toEqual([
+        { index: monthToIndex(2025, 2), value: 4000 },
+        { index: monthToIndex(2025, 3), value: 0 },
+        { index: monthToIndex(2025, 4), value: 6000 },
+        { index: monthToIndex(2025, 5), value: 0 },
+      ])
+    })
+
+    it('should be empty without any values', () => {
+      expect(forecastHistory('bookings', scopeData(), 12, now)).toEqual([])
+    })
+  })
+
+  describe('projectYear', () => {
+    it('should project each month of the model year', () => {
+      const fit = fitForecastModel('linear', history([100, 200, 300], monthToIndex(2024, 10)), now)
+      const projected = projectYear(model({ modelType: 'linear', parameters: { year: 2025, serviceTypes: [], fit } }))
+      expect(projected).toHaveLength(12)
+      expect(projected?.[0]).toBeCloseTo(400)
+      expect(projected?.[11]).toBeCloseTo(1500)
+    })
+
+    it('should return null for plans and for models without a fit', () => {
+      expect(projectYear(model({}))).toBeNull()
+      expect(projectYear(model({ modelType: 'linear', parameters: { year: 2025, serviceTypes: [], fit: null } }))).toBeNull()
+    })
+  })
+
+  describe('compareWithPlan', () => {
+    const fit = fitForecastModel('linear', history([1000, 1000, 1000], monthToIndex(2024, 10)), now)
+    const fitted = model({ modelType: 'linear', parameters: { year: 2025, serviceTypes: [], metric: 'bookings', fit } })
+    const plan = model({ serviceTypes: [{ serviceTypeId: 'st_1', quantity: 10, avgBooking: 1440, totalForecast: 14400 }] })
+    const data = scopeData({ funnelData: [funnelMonth(2025, 1, { bookings: 900 }), funnelMonth(2025, 6, { bookings: 1300 })] })
+
+    it('should set each month against a twelfth of the plan and the actuals so far', () => {
+      const rows = compareWithPlan(fitted, plan, data, now)
+      expect(rows).toHaveLength(12)
+      expect(rows[0]).toMatchObject({ month: 1, plan: 1200, actual: 900 })
+      expect(rows[0].projected).toBeCloseTo(1000)
+      expect(rows[0].difference).toBeCloseTo(-200)
+      expect(rows[5].actual).toBe(1300) // The current month counts
+      expect(rows[6].actual).toBeNull()
+    })
+
+    it('should leave the plan columns empty without a plan', () => {
+      const rows = compareWithPlan(fitted, null, data, now)
+      expect(rows.every(row => row.plan === null && row.difference === null)).toBe(true)
+    })
+  })
+})
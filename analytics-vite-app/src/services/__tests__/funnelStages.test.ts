@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_FUNNEL_STAGES, legacyGoalRate, orderedStages, requiredStageActivity, stageGoalRates } from '../funnelStages'
+import type { FunnelStage } from '../../types'
+
+const [inquiries, callsBooked, callsTaken, closes] = DEFAULT_FUNNEL_STAGES
+
+// Inquiries → Consultations (custom) → Proposals (custom) → Closes
+const customStages: FunnelStage[] = [
+  { ...inquiries, id: 'stage_inquiries' },
+  { id: 'stage_consultations', name: 'Consultations', source: 'custom', sortOrder: 1 },
+  { id: 'stage_proposals', name: 'Proposals', source: 'custom', sortOrder: 2 },
+  { ...closes, id: 'stage_closes', sortOrder: 3 },
+]
+
+const legacyGoals = { bookingsGoal: 20, inquiryToCall: 40, callToBooking: 25 }
+
+describe('funnelStages', () => {
+  describe('legacyGoalRate', () => {
+    it('should map only the steps the original goals measured', () => {
+      expect(legacyGoalRate(inquiries, callsBooked)).toBe('inquiryToCall')
+      expect(legacyGoalRate(callsTaken, closes)).toBe('callToBooking')
+      expect(legacyGoalRate(callsBooked, callsTaken)).toBeNull()
+      expect(legacyGoalRate(customStages[0], customStages[1])).toBeNull()
+      expect(legacyGoalRate(customStages[2], customStages[3])).toBeNull()
+    })
+  })
+
+  describe('stageGoalRates', () => {
+    it('should carry the original goals over to the default stages', () => {
+      expect(stageGoalRates(DEFAULT_FUNNEL_STAGES, legacyGoals)).toEqual([40, 100, 25])
+    })
+
+    it('should not use the inquiry-to-call goal when a custom stage follows inquiries', () => {
+      expect(stageGoalRates(orderedStages(customStages), legacyGoals)).toEqual([0, 0, 0])
+    })
+
+    it('should use rates saved on the stages', () => {
+      const goals = { ...legacyGoals, stageRates: { inquiries: 60, stage_consultations: 50, stage_proposals: 30 } }
+      expect(stageGoalRates(orderedStages(customStages), goals)).toEqual([60, 50, 30])
+    })
+  })
+
+  describe('requiredStageActivity', () => {
+    it('should work back from the goal through each rate', () => {
+      expect(requiredStageActivity([50, 50, 25], 10)).toEqual([160, 80, 40, 10])
+    })
+
+    it('should need nothing before a stage with a 0% rate', () => {
+      expect(requiredStageActivity([50, 0], 10)).toEqual([0, 0, 10])
+    })
+  })
+})
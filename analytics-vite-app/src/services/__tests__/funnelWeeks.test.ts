@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { buildFunnelWeeks } from '../funnelWeeks'
+import { ALL_FUNNELS, buildFunnelMonths } from '../funnelScope'
+import { monthToIndex } from '../insightsMetrics'
+import { booking, payment, scopeData } from '../../test/fixtures'
+import type { ServiceType } from '../../types'
+
+const serviceTypes: ServiceType[] = [{ id: 'st_1', name: 'Wedding', isCustom: false, tracksInFunnel: true }]
+
+// 2025-W05 runs Mon Jan 27 to Sun Feb 2 and rolls up into January; 2025-W14 runs Mon Mar 31 to
+// Sun Apr 6 and rolls up into April
+const data = {
+  ...scopeData({
+    serviceTypes,
+    bookings: [
+      booking('jan', 'st_1', '2025-01-31', 100000),
+      booking('feb', 'st_1', '2025-02-01', 200000),
+      booking('mar', 'st_1', '2025-03-31', 400000),
+    ],
+    payments: [payment('p1', 'feb', '2025-02-02', 50000)],
+  }),
+  funnelWeeks: [],
+}
+
+describe('funnelWeeks', () => {
+  describe('buildFunnelWeeks', () => {
+    const weeks = buildFunnelWeeks(ALL_FUNNELS, data, 2025)
+    const week = (number: number) => weeks.find(w => w.week === number)!
+
+    it('should count dates in a boundary week toward the neighbouring week of their own month', () => {
+      expect(week(5)).toMatchObject({ month: 1, closes: 1, bookings: 100000, cash: 0 })
+      expect(week(6)).toMatchObject({ month: 2, closes: 1, bookings: 200000, cash: 50000 })
+      expect(week(13)).toMatchObject({ month: 3, closes: 1, bookings: 400000 })
+      expect(week(14)).toMatchObject({ month: 4, closes: 0, bookings: 0 })
+    })
+
+    it('should add up to the monthly figures', () => {
+      const months = buildFunnelMonths(ALL_FUNNELS, data, { start: monthToIndex(2025, 1), end: monthToIndex(2025, 4) }, true)
+      months.forEach(month => {
+        const inMonth = weeks.filter(w => w.month === month.month)
+        expect(inMonth.reduce((sum, w) => sum + w.closes, 0)).toBe(month.closes)
+        expect(inMonth.reduce((sum, w) => sum + w.bookings, 0)).toBe(month.bookings)
+        expect(inMonth.reduce((sum, w) => sum + w.cash, 0)).toBe(month.cash)
+      })
+    })
+  })
+})
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildImportPreview,
+  funnelMonthsOnly,
+  mergeImportedFunnelMonth,
+  previousBookingValues,
+  previousPaymentValues,
+} from '../importPreview'
+import { booking, funnelMonth, payment } from '../../test/fixtures'
+import type { Booking, FunnelDefinition, ImportedPayment, ImportResult } from '../../types'
+
+const importResult = (result: Partial<ImportResult>): ImportResult => ({
+  bookings: [],
+  payments: [],
+  funnelData: [],
+  serviceTypes: [],
+  leadSources: [],
+  errors: [],
+  warnings: [],
+  skippedRows: [],
+  ...result,
+})
+
+const fromCRM = (record: Booking, externalId: string): Booking => ({ ...record, sourceSystem: 'dubsado', externalId })
+
+const importedPayment = (projectName: string, amount: number, expectedDate: string, values: Partial<ImportedPayment> = {}): ImportedPayment => ({
+  projectName,
+  rowNumber: 2,
+  amount,
+  amountCents: amount,
+  paymentDate: expectedDate,
+  dueDate: expectedDate,
+  expectedDate,
+  paidAt: null,
+  isExpected: true,
+  status: 'pending',
+  ...values,
+})
+
+const funnels: FunnelDefinition[] = [
+  { id: 'weddings', name: 'Weddings', sortOrder: 0, createdAt: '2025-01-01T00:00:00.000Z' },
+  { id: 'commercial', name: 'Commercial', sortOrder: 1, createdAt: '2025-01-01T00:00:00.000Z' },
+]
+
+describe('importPreview', () => {
+  describe('buildImportPreview bookings', () => {
+    const existing = [
+      fromCRM(booking('b1', 'st_1', '2025-03-01', 500000), 'D1'),
+      booking('b2', 'st_1', '2025-04-01', 300000), // Entered before external IDs
+      booking('b3', 'st_1', '2025-05-01', 200000),
+    ]
+
+    it('should match on source system and external ID even when the name changed', () => {
+      const renamed = { ...fromCRM(booking('i1', 'st_1', '2025-03-01', 550000), 'D1'), projectName: 'Renamed in the CRM' }
+      const [row] = buildImportPreview(importResult({ bookings: [renamed] }), existing, []).rows
+      expect(row).toMatchObject({ status: 'updated', existingBooking: existing[0], updates: { bookedRevenue: 550000 } })
+      expect(row.reason).toBe('Booked value $5,000.00 → $5,500.00')
+    })
+
+    it('should fall back to project name and booked date, attaching the external ID', () => {
+      const imported = { ...fromCRM(booking('i2', 'st_1', '2025-04-01', 300000), 'D2'), projectName: 'Project b2' }
+      const [row] = buildImportPreview(importResult({ bookings: [imported] }), existing, []).rows
+      expect(row).toMatchObject({ status: 'duplicate', existingBooking: existing[1], updates: { sourceSystem: 'dubsado', externalId: 'D2' } })
+    })
+
+    it('should not match a booking that already has an external ID by name', () => {
+      const imported = { ...fromCRM(booking('i3', 'st_1', '2025-03-01', 500000), 'D9'), projectName: 'Project b1' }
+      const [row] = buildImportPreview(importResult({ bookings: [imported] }), existing, []).rows
+      expect(row.status).toBe('new')
+    })
+
+    it('should classify new, duplicate, updated and skipped rows', () => {
+      const result = importResult({
+        bookings: [
+          { ...booking('i4', 'st_1', '2025-05-01', 250000), projectName: 'Project b3' },
+          fromCRM(booking('i5', 'st_1', '2025-06-01', 100000), 'D5'),
+          fromCRM(booking('i6', 'st_1', '2025-06-01', 100000), 'D5'),
+        ],
+        skippedRows: [{ rowNumber: 7, reason: 'Skipping row with no project name' }],
+      })
+      const preview = buildImportPreview(result, existing, [])
+
+      expect(preview.rows.map(row => [row.label, row.status, row.reason])).toEqual([
+        ['Project b3', 'updated', 'Booked value $2,000.00 → $2,500.00'],
+        ['Project i5', 'new', 'Not imported before'],
+        ['Project i6', 'duplicate', 'Appears earlier in this file'],
+        ['Row 7', 'skipped', 'Skipping row with no project name'],
+      ])
+      expect(preview.rows[0].updates).toEqual({ bookedRevenue: 250000, revenue: undefined })
+      expect(preview.counts).toEqual({ new: 1, duplicate: 1, updated: 1, skipped: 1 })
+    })
+  })
+
+  describe('buildImportPreview payments', () => {
+    const existingBookings = [booking('b1', 'st_1', '2025-03-01', 500000), booking('b2', 'st_1', '2025-04-01', 300000)]
+    const existingPayments = [
+      { ...payment('p1', 'b1', '2025-06-01', 100000), expectedDate: '2025-06-01', isExpected: true, paidAt: null, sourceSystem: 'honeybook', externalId: 'P1' },
+      { ...payment('p2', 'b2', '2025-07-15', 50000), expectedDate: '2025-07-15', isExpected: true, paidAt: null }, // Entered by hand
+    ]
+
+    it('should attach payments to bookings by name and match them on external ID or amount and month', () => {
+      const payments = [
+        importedPayment('Project b1', 100000, '2025-06-01', { paidAt: '2025-06-03', isExpected: false, status: 'completed', sourceSystem: 'honeybook', externalId: 'P1' }),
+        importedPayment('Project b2', 50000, '2025-07-01', { sourceSystem: 'honeybook', externalId: 'P2' }),
+        importedPayment('project b1', 20000, '2025-08-01'),
+        importedPayment('Nobody', 20000, '2025-08-01'),
+      ]
+      const { rows, counts } = buildImportPreview(importResult({ payments }), existingBookings, [], existingPayments)
+
+      expect(rows.map(row => [row.status, row.bookingId, row.existingPayment?.id])).toEqual([
+        ['updated', 'b1', 'p1'],
+        ['duplicate', 'b2', 'p2'],
+        ['new', 'b1', undefined],
+        ['skipped', undefined, undefined],
+      ])
+      expect(rows[0].paymentUpdates).toEqual({ paidAt: '2025-06-03', isExpected: false, status: 'completed' })
+      expect(rows[1].paymentUpdates).toEqual({ sourceSystem: 'honeybook', externalId: 'P2' })
+      expect(rows[3].reason).toBe('No booking named "Nobody" - import the Booked Client report first')
+      expect(counts).toEqual({ new: 1, duplicate: 1, updated: 1, skipped: 1 })
+    })
+  })
+
+  describe('buildImportPreview funnel months', () => {
+    const existingFunnelData = [
+      funnelMonth(2025, 3, { inquiries: 10, closes: 2 }), // First funnel; closes entered by hand
+      { ...funnelMonth(2025, 3, { inquiries: 40 }), funnelId: 'commercial' },
+      funnelMonth(2025, 5, { inquiries: 8 }),
+    ]
+    const result = importResult({
+      funnelData: [
+        funnelMonth(2025, 3, { inquiries: 12, closes: 3 }),
+        funnelMonth(2025, 4, { inquiries: 5 }),
+        funnelMonth(2025, 5, { inquiries: 8 }),
+      ],
+    })
+
+    it('should merge into the target funnel and flag manual values the import overwrites', () => {
+      const { funnelMonths } = buildImportPreview(result, [], existingFunnelData, [], funnels)
+
+      expect(funnelMonths.map(change => [change.funnelId, change.month, change.isNew])).toEqual([
+        ['weddings', 3, false],
+        ['weddings', 4, true],
+      ])
+      expect(funnelMonths[0].before).toEqual({ inquiries: 10, closes: 2, bookings: 0 })
+      expect(funnelMonths[0].after).toMatchObject({ funnelId: 'weddings', inquiries: 12, closes: 3 })
+      expect(funnelMonths[0].manualCollisions).toEqual(['closes'])
+      expect(funnelMonths[1].before).toBeNull()
+    })
+
+    it('should leave the months of other funnels alone', () => {
+      const { funnelMonths } = buildImportPreview(result, [], existingFunnelData, [], funnels, 'commercial')
+
+      expect(funnelMonths.map(change => [change.month, change.isNew])).toEqual([[3, false], [4, true], [5, true]])
+      expect(funnelMonths[0].before).toEqual({ inquiries: 40, closes: 0, bookings: 0 })
+      expect(funnelMonths[0].manualCollisions).toEqual([])
+    })
+  })
+
+  describe('mergeImportedFunnelMonth', () => {
+    it('should keep existing counts the import has none of', () => {
+      const existing = funnelMonth(2025, 3, { inquiries: 10, closes: 2, bookings: 400000 })
+      const merged = mergeImportedFunnelMonth(existing, funnelMonth(2025, 3, { inquiries: 14 }))
+      expect(merged).toMatchObject({ inquiries: 14, closes: 2, bookings: 400000, closesManual: true })
+    })
+  })
+
+  describe('funnelMonthsOnly', () => {
+    it('should drop bookings and payments', () => {
+      const result = importResult({
+        bookings: [booking('i1', 'st_1', '2025-03-01', 100000)],
+        payments: [importedPayment('Project i1', 100000, '2025-04-01')],
+        funnelData: [funnelMonth(2025, 3, { inquiries: 1 })],
+      })
+      expect(funnelMonthsOnly(result)).toEqual({ ...result, bookings: [], payments: [] })
+    })
+  })
+
+  describe('previousBookingValues', () => {
+    it('should record only the fields being updated, with empty fields as null', () => {
+      const existing = booking('b1', 'st_1', '2025-03-01', 500000)
+      expect(previousBookingValues(existing, { projectDate: '2025-09-01', sourceSystem: 'dubsado', externalId: 'D1' })).toEqual({
+        projectDate: null,
+        sourceSystem: null,
+        externalId: null,
+      })
+      expect(previousBookingValues(existing, { bookedRevenue: 1 })).toEqual({ bookedRevenue: 500000 })
+    })
+  })
+
+  describe('previousPaymentValues', () => {
+    it('should record the schedule and, when an external ID is attached, the previous one', () => {
+      const existing = payment('p1', 'b1', '2025-06-01', 100000)
+      expect(previousPaymentValues(existing, { amount: 1 })).toEqual({
+        amount: 100000,
+        dueDate: '2025-06-01',
+        expectedDate: null,
+        paidAt: null,
+        isExpected: null,
+      })
+      expect(previousPaymentValues(existing, { externalId: 'P1' })).toMatchObject({ sourceSystem: null, externalId: null })
+    })
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { simulateRevenue, simulationInputs } from '../revenueSimulation'
+import { booking, funnelMonth, scopeData } from '../../test/fixtures'
+
+const now = new Date(2025, 5, 15) // Mid June 2025
+
+// Six months of inquiries before June, with weddings and portraits booked from them
+const data = scopeData({
+  funnelData: [
+    funnelMonth(2024, 12, { inquiries: 20 }),
+    funnelMonth(2025, 1, { inquiries: 25 }),
+    funnelMonth(2025, 2, { inquiries: 18 }),
+    funnelMonth(2025, 3, { inquiries: 30 }),
+    funnelMonth(2025, 4, { inquiries: 22 }),
+    funnelMonth(2025, 5, { inquiries: 28 }),
+  ],
+  bookings: [
+    booking('b1', 'st_wedding', '2024-12-10', 500000),
+    booking('b2', 'st_wedding', '2025-01-08', 450000),
+    booking('b3', 'st_wedding', '2025-01-20', 520000),
+    booking('b4', 'st_wedding', '2025-03-03', 610000),
+    booking('b5', 'st_wedding', '2025-05-17', 480000),
+    booking('b6', 'st_portrait', '2025-02-11', 60000),
+    booking('b7', 'st_portrait', '2025-04-02', 45000),
+    booking('b8', 'st_portrait', '2025-05-29', 75000),
+    booking('b9', 'st_portrait', '2025-06-02', 50000),
+  ],
+  serviceTypes: [
+    { id: 'st_wedding', name: 'Wedding', isCustom: false, tracksInFunnel: true },
+    { id: 'st_portrait', name: 'Portrait', isCustom: false, tracksInFunnel: true },
+  ],
+})
+
+const run = (options: { seed?: number; target?: number | null } = {}) =>
+  simulateRevenue(data, { runs: 500, now, ...options })
+
+describe('revenueSimulation', () => {
+  describe('simulationInputs', () => {
+    it('should measure inquiries, close rates and values over the months with inquiries', () => {
+      const inputs = simulationInputs(data, 24, now)
+      expect(inputs?.historyMonths).toBe(6)
+      expect(inputs?.inquiries).toBeCloseTo(23.83, 2)
+      expect(inputs?.serviceTypes.map(st => st.name)).toEqual(['Wedding', 'Portrait'])
+      expect(inputs?.serviceTypes[0].averageValue).toBe(512000)
+    })
+
+    it('should return null with fewer than three months of inquiries', () => {
+      expect(simulationInputs(scopeData(), 24, now)).toBeNull()
+      expect(simulationInputs(scopeData({ funnelData: data.funnelData.slice(0, 2) }), 24, now)).toBeNull()
+    })
+  })
+
+  describe('simulateRevenue', () => {
+    it('should give the same result for the same seed', () => {
+      const first = run({ seed: 42 })
+      const second = run({ seed: 42 })
+      expect(second?.p10).toBe(first?.p10)
+      expect(second?.p50).toBe(first?.p50)
+      expect(second?.p90).toBe(first?.p90)
+      expect(second?.months).toEqual(first?.months)
+      expect(run({ seed: 43 })?.p50).not.toBe(first?.p50)
+    })
+
+    it('should order the outcomes and start from the revenue booked so far', () => {
+      const result = run()
+      expect(result?.bookedToDate).toBe(2_290_000) // This year's bookings up to today
+      expect(result!.p10).toBeGreaterThanOrEqual(result!.bookedToDate)
+      expect(result!.p10).toBeLessThanOrEqual(result!.p50)
+      expect(result!.p50).toBeLessThanOrEqual(result!.p90)
+      result!.months.slice(0, 5).forEach(month => expect(month.p50).toBe(month.p10)) // Past months don't vary
+      expect(result!.months[11].p50).toBe(result!.p50)
+    })
+
+    it('should give a lower chance of reaching a higher target', () => {
+      const result = run()!
+      const low = run({ target: result.p10 })!.probabilityOfTarget!
+      const high = run({ target: result.p90 })!.probabilityOfTarget!
+      expect(low).toBeGreaterThanOrEqual(0)
+      expect(low).toBeLessThanOrEqual(1)
+      expect(high).toBeGreaterThanOrEqual(0)
+      expect(high).toBeLessThan(low)
+      expect(run({ target: 1 })?.probabilityOfTarget).toBe(1)
+      expect(run({ target: result.p90 * 10 })?.probabilityOfTarget).toBe(0)
+    })
+
+    it('should leave the chance out without a target', () => {
+      expect(run({ target: null })?.probabilityOfTarget).toBeNull()
+      expect(run({ target: 0 })?.probabilityOfTarget).toBeNull()
+    })
+
+    it('should return null without history', () => {
+      expect(simulateRevenue(scopeData(), { now })).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,446 @@
+/**
+ * Account Archive
+ * Exports everything in an account to a versioned JSON backup and restores it, either into the
+ * same account or another one (e.g. production -> test). Every record gets a new ID on restore,
+ * so references between records are remapped through the IDs the archive was exported with.
+ */
+
+import { UnifiedDataService } from './unifiedDataService';
+import { funnelIdOfMonth } from './funnelScope';
+import { funnelIdOfWeek } from './funnelWeeks';
+import { orderedStages } from './funnelStages';
+import type { Booking, Payment } from '../types';
+import type {
+  AccountArchive,
+  AccountArchiveData,
+  AccountRestoreMode,
+  AccountRestoreSummary,
+} from '../types/archive';
+
+export const ACCOUNT_ARCHIVE_FORMAT = 'analytics-account-archive';
+
+// Bump when AccountArchiveData changes shape; restore refuses versions it can't read
+export const ACCOUNT_ARCHIVE_SCHEMA_VERSION = 1;
+const OLDEST_SUPPORTED_SCHEMA_VERSION = 1;
+
+const nameKey = (name: string) => name.toLowerCase().trim();
+
+function externalKey(record: { sourceSystem?: string; externalId?: string }): string | null {
+  return record.sourceSystem && record.externalId ? `${record.sourceSystem}:${record.externalId}` : null;
+}
+
+function bookingKey(booking: Booking): string | null {
+  if (!booking.projectName || !booking.dateBooked) return null;
+  return `${nameKey(booking.projectName)}-${booking.dateBooked}`;
+}
+
+function paymentKey(payment: Payment): string {
+  return `${payment.amount}-${payment.expectedDate || payment.dueDate || ''}`;
+}
+
+/**
+ * Load every table in the account into an archive
+ */
+export async function buildAccountArchive(
+  userId: string,
+  source: { email?: string; companyName?: string } = {}
+): Promise<AccountArchive> {
+  const [serviceTypes, leadSources, funnelDefinitions, funnelStages, funnels, funnelWeeks, bookings, payments, adCampaigns, forecastModels, calculatorGoals] = await Promise.all([
+    UnifiedDataService.getServiceTypes(userId),
+    UnifiedDataService.getLeadSources(userId),
+    UnifiedDataService.getFunnels(userId),
+    UnifiedDataService.getFunnelStages(userId),
+    UnifiedDataService.getAllFunnelData(userId),
+    UnifiedDataService.getFunnelWeeks(userId),
+    UnifiedDataService.getBookings(userId),
+    UnifiedDataService.getPayments(userId),
+    UnifiedDataService.getAdCampaigns(userId),
+    UnifiedDataService.getForecastModels(userId),
+    UnifiedDataService.getCalculatorGoals(userId),
+  ]);
+
+  return {
+    format: ACCOUNT_ARCHIVE_FORMAT,
+    schemaVersion: ACCOUNT_ARCHIVE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: { userId, ...source },
+    data: {
+      serviceTypes,
+      leadSources,
+      funnelDefinitions,
+      funnels: funnels.filter(funnel => funnel.year > 0), // year 0 is the calculator goals row
+      funnelWeeks,
+      funnelStages,
+      bookings,
+      payments,
+      adCampaigns: adCampaigns.filter(campaign => !campaign.id.startsWith('default_')),
+      forecastModels,
+      calculatorGoals,
+    },
+  };
+}
+
+/**
+ * File name for a backup, e.g. "acme-photo-backup-2025-10-18.json"
+ */
+export function accountArchiveFileName(archive: AccountArchive): string {
+  const slug = (archive.source.companyName || 'account').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'account'}-backup-${archive.exportedAt.slice(0, 10)}.json`;
+}
+
+/**
+ * Read a backup file
+ * Throws with a message for the user when the file isn't a backup or its schema version can't be restored.
+ */
+export function parseAccountArchive(text: string): AccountArchive {
+  let archive: Partial<AccountArchive>;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON - choose a backup exported from Account Settings');
+  }
+
+  if (!archive || typeof archive !== 'object' || archive.format !== ACCOUNT_ARCHIVE_FORMAT) {
+    throw new Error('This file is not an account backup - choose a backup exported from Account Settings');
+  }
+  if (typeof archive.schemaVersion !== 'number') {
+    throw new Error('This backup has no schema version and cannot be restored');
+  }
+  if (archive.schemaVersion > ACCOUNT_ARCHIVE_SCHEMA_VERSION) {
+    throw new Error(`This backup was made by a newer version of the app (schema ${archive.schemaVersion}) - reload the page to update, then try again`);
+  }
+  if (archive.schemaVersion < OLDEST_SUPPORTED_SCHEMA_VERSION) {
+    throw new Error(`This backup uses schema ${archive.schemaVersion}, which is no longer supported`);
+  }
+
+  const data = (archive.data || {}) as Partial<AccountArchiveData>;
+  const tables: (keyof AccountArchiveData)[] = ['serviceTypes', 'leadSources', 'funnels', 'bookings', 'payments', 'adCampaigns', 'forecastModels'];
+  const missing = tables.filter(table => !Array.isArray(data[table]));
+  if (missing.length > 0) {
+    throw new Error(`This backup is incomplete (missing ${missing.join(', ')})`);
+  }
+
+  return archive as AccountArchive;
+}
+
+interface RestorePlan {
+  serviceTypeIds: Map<string, string>; // Archive ID -> existing ID, for service types already in the account
+  leadSourceIds: Map<string, string>;
+  funnelIds: Map<string, string>;
+  stageIds: Map<string, string>; // Custom stages only; built-in stages are keyed by their source
+  bookingIds: Map<string, string>;
+  data: AccountArchiveData; // Archive records that will be created
+  summary: AccountRestoreSummary;
+}
+
+/**
+ * Work out what a restore creates and what it skips as already present
+ * existing is the account's current data, or null in replace mode (the account is emptied first).
+ */
+function planRestore(archive: AccountArchive, existing: AccountArchiveData | null): RestorePlan {
+  const current: AccountArchiveData = existing
+    || { serviceTypes: [], leadSources: [], funnels: [], bookings: [], payments: [], adCampaigns: [], forecastModels: [], calculatorGoals: null };
+  const { data } = archive;
+
+  const matchByName = <T extends { id: string; name: string }>(records: T[], existingRecords: T[]) => {
+    const existingByName = new Map(existingRecords.map(record => [nameKey(record.name), record.id]));
+    const ids = new Map<string, string>();
+    const created: T[] = [];
+    records.forEach(record => {
+      const existingId = existingByName.get(nameKey(record.name));
+      if (existingId) ids.set(record.id, existingId);
+      else created.push(record);
+    });
+    return { ids, created };
+  };
+
+  const serviceTypes = matchByName(data.serviceTypes, current.serviceTypes);
+  const leadSources = matchByName(data.leadSources, current.leadSources);
+
+  const funnelDefinitions = matchByName(data.funnelDefinitions || [], current.funnelDefinitions || []);
+
+  // Built-in stages are the same in every account and custom stages match on name. A merge adds
+  // the backup's other custom stages before Closes; a replace restores the backup's stage list.
+  const archiveStages = data.funnelStages || [];
+  const customStages = matchByName(
+    archiveStages.filter(stage => stage.source === 'custom'),
+    (current.funnelStages || []).filter(stage => stage.source === 'custom')
+  );
+  const funnelStages = existing ? customStages.created : (archiveStages.length > 0 ? orderedStages(archiveStages) : []);
+
+  // A month or week is already present when the funnel it restores into has it. Backups from
+  // before named funnels restore into the account's first funnel; a newly created funnel (null
+  // here) has nothing yet.
+  const restoresInto = (archiveFunnelId: string | undefined) =>
+    archiveFunnelId ? funnelDefinitions.ids.get(archiveFunnelId) ?? null : current.funnelDefinitions?.[0]?.id;
+  const existingMonths = new Set(current.funnels.map(month =>
+    `${funnelIdOfMonth(month, current.funnelDefinitions || [])}-${month.year}-${month.month}`));
+  const funnels = data.funnels.filter(month => {
+    const funnelId = restoresInto(funnelIdOfMonth(month, data.funnelDefinitions || []));
+    return funnelId === null || !existingMonths.has(`${funnelId}-${month.year}-${month.month}`);
+  });
+  const existingWeeks = new Set((current.funnelWeeks || []).map(week =>
+    `${funnelIdOfWeek(week, current.funnelDefinitions || [])}-${week.year}-${week.week}`));
+  const funnelWeeks = (data.funnelWeeks || []).filter(week => {
+    const funnelId = restoresInto(funnelIdOfWeek(week, data.funnelDefinitions || []));
+    return funnelId === null || !existingWeeks.has(`${funnelId}-${week.year}-${week.week}`);
+  });
+
+  const existingBookingKeys = new Map<string, string>();
+  current.bookings.forEach(booking => {
+    [externalKey(booking), bookingKey(booking)].forEach(key => {
+      if (key && !existingBookingKeys.has(key)) existingBookingKeys.set(key, booking.id);
+    });
+  });
+  const bookingIds = new Map<string, string>();
+  const bookings = data.bookings.filter(booking => {
+    const existingId = [externalKey(booking), bookingKey(booking)]
+      .map(key => (key ? existingBookingKeys.get(key) : undefined))
+      .find(Boolean);
+    if (existingId) bookingIds.set(booking.id, existingId);
+    return !existingId;
+  });
+
+  // Payments on bookings that were already there are only added when the booking doesn't have them yet
+  const existingPaymentKeys = new Set(current.payments.map(payment => `${payment.bookingId}-${paymentKey(payment)}`));
+  const existingPaymentExternalKeys = new Set(current.payments.map(externalKey).filter((key): key is string => key !== null));
+  const archiveBookingIds = new Set(data.bookings.map(booking => booking.id));
+  const payments = data.payments.filter(payment => {
+    if (!archiveBookingIds.has(payment.bookingId)) return false;
+    const matchedBookingId = bookingIds.get(payment.bookingId);
+    if (!matchedBookingId) return true;
+    const key = externalKey(payment);
+    if (key && existingPaymentExternalKeys.has(key)) return false;
+    return !existingPaymentKeys.has(`${matchedBookingId}-${paymentKey(payment)}`);
+  });
+
+  const leadSourceId = (id: string) => leadSources.ids.get(id) || id;
+  const existingCampaigns = new Set(current.adCampaigns.map(campaign => `${campaign.leadSourceId}-${campaign.monthYear}`));
+  const adCampaigns = data.adCampaigns.filter(campaign => !existingCampaigns.has(`${leadSourceId(campaign.leadSourceId)}-${campaign.monthYear}`));
+
+  const existingModels = new Set(current.forecastModels.map(model => nameKey(model.name)));
+  const forecastModels = data.forecastModels.filter(model => !existingModels.has(nameKey(model.name)));
+
+  const calculatorGoals = data.calculatorGoals && !current.calculatorGoals ? data.calculatorGoals : null;
+
+  return {
+    serviceTypeIds: serviceTypes.ids,
+    leadSourceIds: leadSources.ids,
+    funnelIds: funnelDefinitions.ids,
+    stageIds: customStages.ids,
+    bookingIds,
+    data: {
+      serviceTypes: serviceTypes.created,
+      leadSources: leadSources.created,
+      funnelDefinitions: funnelDefinitions.created,
+      funnels,
+      funnelWeeks,
+      funnelStages,
+      bookings,
+      payments,
+      adCampaigns,
+      forecastModels,
+      calculatorGoals,
+    },
+    summary: {
+      serviceTypes: { created: serviceTypes.created.length, matched: serviceTypes.ids.size },
+      leadSources: { created: leadSources.created.length, matched: leadSources.ids.size },
+      funnelDefinitions: { created: funnelDefinitions.created.length, matched: funnelDefinitions.ids.size },
+      funnels: { created: funnels.length, skipped: data.funnels.length - funnels.length },
+      funnelWeeks: { created: funnelWeeks.length, skipped: (data.funnelWeeks || []).length - funnelWeeks.length },
+      funnelStages: { created: funnelStages.length, matched: customStages.ids.size },
+      bookings: { created: bookings.length, skipped: data.bookings.length - bookings.length },
+      payments: { created: payments.length, skipped: data.payments.length - payments.length },
+      adCampaigns: { created: adCampaigns.length, skipped: data.adCampaigns.length - adCampaigns.length },
+      forecastModels: { created: forecastModels.length, skipped: data.forecastModels.length - forecastModels.length },
+      calculatorGoals: calculatorGoals !== null,
+      errors: [],
+    },
+  };
+}
+
+/**
+ * Load the account's current data in archive form (what a merge is compared against)
+ */
+async function loadAccountData(userId: string): Promise<AccountArchiveData> {
+  return (await buildAccountArchive(userId)).data;
+}
+
+/**
+ * Preview a restore without writing anything
+ */
+export async function previewAccountRestore(
+  userId: string,
+  archive: AccountArchive,
+  mode: AccountRestoreMode
+): Promise<AccountRestoreSummary> {
+  const existing = mode === 'merge' ? await loadAccountData(userId) : null;
+  return planRestore(archive, existing).summary;
+}
+
+/**
+ * Restore an archive into the account
+ * Replace mode deletes all of the account's data first (clear_account_data), so callers should
+ * offer a backup of the current data before calling it. Records that fail to save are reported
+ * in summary.errors and the restore carries on.
+ */
+export async function restoreAccountArchive(
+  userId: string,
+  archive: AccountArchive,
+  mode: AccountRestoreMode,
+  isViewOnly: boolean = false
+): Promise<AccountRestoreSummary> {
+  let existing: AccountArchiveData | null = null;
+  if (mode === 'replace') {
+    const cleared = await UnifiedDataService.clearAccountData(userId, isViewOnly);
+    if (!cleared) throw new Error('Could not clear the account before restoring. Nothing was changed.');
+  } else {
+    existing = await loadAccountData(userId);
+  }
+
+  const plan = planRestore(archive, existing);
+  const { summary } = plan;
+  const fail = (message: string) => summary.errors.push(message);
+
+  // Funnels first, so funnel months and service types can point at them
+  for (const funnel of plan.data.funnelDefinitions || []) {
+    const created = await UnifiedDataService.createFunnel(userId, funnel.name, isViewOnly);
+    if (!created) {
+      fail(`Funnel "${funnel.name}" could not be created`);
+      continue;
+    }
+    plan.funnelIds.set(funnel.id, created.id);
+    if (funnel.archivedAt && !(await UnifiedDataService.updateFunnel(userId, created.id, { archivedAt: funnel.archivedAt }, isViewOnly))) {
+      fail(`Funnel "${funnel.name}" could not be archived`);
+    }
+  }
+
+  // Stages before months, so custom stage counts can point at them. Created stages get new IDs
+  // and are matched back to the backup's stages by name.
+  const restoredStages = plan.data.funnelStages || [];
+  if (restoredStages.length > 0) {
+    const fresh = restoredStages.map((stage, index) => ({ ...stage, id: `restored_${index}` }));
+    const currentStages = existing ? orderedStages(existing.funnelStages || []) : [];
+    const stages = existing
+      ? [...currentStages.slice(0, -1), ...fresh, currentStages[currentStages.length - 1]]
+      : fresh;
+    const saved = await UnifiedDataService.saveFunnelStages(userId, stages, isViewOnly);
+    if (!saved) {
+      fail('Funnel stages could not be saved');
+    } else {
+      restoredStages.filter(stage => stage.source === 'custom').forEach(stage => {
+        const match = saved.find(savedStage => savedStage.source === 'custom' && nameKey(savedStage.name) === nameKey(stage.name));
+        if (match) plan.stageIds.set(stage.id, match.id);
+      });
+    }
+  }
+  const remapStageKeys = (values: Record<string, number> | undefined) =>
+    values && Object.fromEntries(Object.entries(values).map(([key, value]) => [plan.stageIds.get(key) || key, value]));
+
+  for (const serviceType of plan.data.serviceTypes) {
+    const created = await UnifiedDataService.createServiceType(userId, serviceType.name, serviceType.tracksInFunnel, isViewOnly);
+    if (!created) {
+      fail(`Service type "${serviceType.name}" could not be created`);
+      continue;
+    }
+    plan.serviceTypeIds.set(serviceType.id, created.id);
+    const funnelId = serviceType.funnelId ? plan.funnelIds.get(serviceType.funnelId) : undefined;
+    if (serviceType.tracksInFunnel && funnelId && !(await UnifiedDataService.updateServiceTypeFunnel(userId, created.id, funnelId, isViewOnly))) {
+      fail(`Service type "${serviceType.name}" could not be assigned to its funnel`);
+    }
+  }
+
+  for (const leadSource of plan.data.leadSources) {
+    const created = await UnifiedDataService.createLeadSource(userId, leadSource.name, isViewOnly);
+    if (created) plan.leadSourceIds.set(leadSource.id, created.id);
+    else fail(`Lead source "${leadSource.name}" could not be created`);
+  }
+
+  for (const funnel of plan.data.funnels) {
+    const label = `${funnel.year}-${String(funnel.month).padStart(2, '0')}`;
+    const archiveFunnelId = funnelIdOfMonth(funnel, archive.data.funnelDefinitions || []);
+    const funnelId = archiveFunnelId ? plan.funnelIds.get(archiveFunnelId) : undefined;
+    if (archiveFunnelId && !funnelId) {
+      fail(`Funnel data for ${label} skipped - its funnel is missing from the backup`);
+      continue;
+    }
+    // Without a funnel ID the month goes into the account's first funnel
+    const saved = await UnifiedDataService.saveFunnelData(userId, { ...funnel, funnelId, stageCounts: remapStageKeys(funnel.stageCounts) }, isViewOnly);
+    if (!saved) fail(`Funnel data for ${label} could not be saved`);
+  }
+
+  // The restored months already hold their weeks' totals
+  for (const week of plan.data.funnelWeeks || []) {
+    const label = `${week.year}-W${String(week.week).padStart(2, '0')}`;
+    const archiveFunnelId = funnelIdOfWeek(week, archive.data.funnelDefinitions || []);
+    const funnelId = archiveFunnelId ? plan.funnelIds.get(archiveFunnelId) : undefined;
+    if (archiveFunnelId && !funnelId) {
+      fail(`Funnel data for ${label} skipped - its funnel is missing from the backup`);
+      continue;
+    }
+    const saved = await UnifiedDataService.saveFunnelWeek(userId, { ...week, funnelId }, isViewOnly);
+    if (!saved) fail(`Funnel data for ${label} could not be saved`);
+  }
+
+  for (const booking of plan.data.bookings) {
+    const serviceTypeId = plan.serviceTypeIds.get(booking.serviceTypeId);
+    const leadSourceId = plan.leadSourceIds.get(booking.leadSourceId);
+    if (!serviceTypeId || !leadSourceId) {
+      fail(`Booking "${booking.projectName}" skipped - its ${serviceTypeId ? 'lead source' : 'service type'} is missing from the backup`);
+      continue;
+    }
+    const created = await UnifiedDataService.createBooking(userId, {
+      projectName: booking.projectName,
+      clientName: booking.clientName,
+      serviceTypeId,
+      leadSourceId,
+      bookingDate: booking.bookingDate,
+      status: booking.status,
+      notes: booking.notes,
+      dateInquired: booking.dateInquired,
+      dateBooked: booking.dateBooked,
+      projectDate: booking.projectDate,
+      bookedRevenue: booking.bookedRevenue,
+      sourceSystem: booking.sourceSystem,
+      externalId: booking.externalId,
+    }, isViewOnly);
+    if (created) plan.bookingIds.set(booking.id, created.id);
+    else fail(`Booking "${booking.projectName}" could not be created`);
+  }
+
+  for (const payment of plan.data.payments) {
+    const bookingId = plan.bookingIds.get(payment.bookingId);
+    if (!bookingId) continue; // Booking failed above and was already reported
+    const created = await UnifiedDataService.createPayment(userId, { ...payment, bookingId }, isViewOnly);
+    if (!created) fail(`A ${payment.isExpected ? 'scheduled ' : ''}payment for ${payment.expectedDate || payment.dueDate} could not be created`);
+  }
+
+  for (const campaign of plan.data.adCampaigns) {
+    const leadSourceId = plan.leadSourceIds.get(campaign.leadSourceId);
+    if (!leadSourceId) {
+      fail(`Ad spend for ${campaign.monthYear} skipped - its lead source is missing from the backup`);
+      continue;
+    }
+    const created = await UnifiedDataService.createAdCampaign(userId, { ...campaign, leadSourceId }, isViewOnly);
+    if (!created) fail(`Ad spend for ${campaign.monthYear} could not be created`);
+  }
+
+  for (const model of plan.data.forecastModels) {
+    const saved = await UnifiedDataService.saveForecastModel(userId, {
+      ...model,
+      id: '', // Always create
+      serviceTypes: model.serviceTypes
+        .filter(entry => plan.serviceTypeIds.has(entry.serviceTypeId))
+        .map(entry => ({ ...entry, serviceTypeId: plan.serviceTypeIds.get(entry.serviceTypeId) as string })),
+    }, isViewOnly);
+    if (!saved) fail(`Forecast model "${model.name}" could not be created`);
+  }
+
+  if (plan.data.calculatorGoals) {
+    const goals = plan.data.calculatorGoals;
+    const saved = await UnifiedDataService.saveCalculatorGoals(userId, { ...goals, stageRates: remapStageKeys(goals.stageRates) }, isViewOnly);
+    if (!saved) fail('Calculator goals could not be saved');
+  }
+
+  return summary;
+}
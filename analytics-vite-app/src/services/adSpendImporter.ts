@@ -0,0 +1,312 @@
+/**
+ * Ad Spend Importer
+ * Reads Meta Ads Manager and Google Ads performance exports and rolls daily spend and leads up
+ * into the monthly AdCampaign rows the Advertising page tracks per lead source.
+ * Each ad account or campaign is mapped to a lead source once; the mapping is saved per platform.
+ */
+
+import { parseCents, parseNumber, parseDate } from '../utils/csvParser';
+import type { AdCampaign, LeadSource } from '../types';
+import type {
+  AdPlatform,
+  AdSpendMatchBy,
+  AdSpendReport,
+  AdSpendRow,
+  AdSpendMonthChange,
+  AdAccountMapping,
+  ImportSkippedRow,
+} from '../types/import';
+
+type AdColumn = 'date' | 'dateEnd' | 'account' | 'campaign' | 'spend' | 'leads' | 'currency';
+
+interface AdPlatformDefinition {
+  id: AdPlatform;
+  name: string;
+  keywords: string[]; // Lead source names that suggest this platform (e.g. "Instagram")
+  columns: Partial<Record<AdColumn, string[]>>;
+}
+
+/**
+ * Supported exports
+ * Meta: Ads Manager > Reports > Export table data, with a "Day" breakdown
+ * Google Ads: Campaigns report > Download, segmented by "Day" (or "Month")
+ */
+export const AD_PLATFORMS: AdPlatformDefinition[] = [
+  {
+    id: 'meta',
+    name: 'Meta Ads',
+    keywords: ['meta', 'facebook', 'instagram'],
+    columns: {
+      date: ['day', 'month', 'reporting starts'],
+      dateEnd: ['reporting ends'],
+      account: ['account name'],
+      campaign: ['campaign name'],
+      spend: ['amount spent'],
+      leads: ['leads', 'on-facebook leads', 'website leads', 'results'],
+      currency: ['currency'],
+    },
+  },
+  {
+    id: 'google-ads',
+    name: 'Google Ads',
+    keywords: ['google', 'adwords'],
+    columns: {
+      date: ['day', 'date', 'month'],
+      account: ['account name', 'account'],
+      campaign: ['campaign', 'campaign name'],
+      spend: ['cost'],
+      leads: ['conversions', 'leads'],
+      currency: ['currency code', 'currency'],
+    },
+  },
+];
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Exports start with a title and date range on some platforms, so the header row is searched for
+const MAX_TITLE_LINES = 10;
+
+/**
+ * Column index for the first alias that matches a header exactly, or with a currency suffix
+ * ("Amount spent (USD)"). Stricter than findColumn so "Cost" never matches "Cost per result".
+ */
+function pickColumn(headers: string[], aliases: string[] = []): number | undefined {
+  const lower = headers.map(header => header.toLowerCase().trim());
+  for (const alias of aliases) {
+    const index = lower.findIndex(header => header === alias || header.startsWith(`${alias} (`));
+    if (index !== -1) return index;
+  }
+  return undefined;
+}
+
+/**
+ * Year and month of a report date: a day ("2025-10-01", "Oct 1, 2025"), a month ("October 2025")
+ * or a period ("2025-10-01 - 2025-10-31", counted in the month it starts)
+ */
+function parseReportMonth(value: string): { year: number; month: number } | null {
+  const start = value.split(/\s+-\s+/)[0];
+  const date = parseDate(start);
+  if (date) return { year: Number(date.slice(0, 4)), month: Number(date.slice(5, 7)) };
+
+  const monthName = start.trim().match(/^([A-Za-z]{3,})\.?,?\s+(\d{4})$/);
+  if (monthName) {
+    const month = MONTH_NAMES.indexOf(monthName[1].slice(0, 3).toLowerCase()) + 1;
+    if (month > 0) return { year: Number(monthName[2]), month };
+  }
+
+  const isoMonth = start.trim().match(/^(\d{4})-(\d{1,2})$/);
+  if (isoMonth && Number(isoMonth[2]) >= 1 && Number(isoMonth[2]) <= 12) {
+    return { year: Number(isoMonth[1]), month: Number(isoMonth[2]) };
+  }
+
+  return null;
+}
+
+/**
+ * Parse an ad platform export from its raw records
+ * Returns null when no header row in the first lines looks like a Meta or Google Ads export.
+ */
+export function parseAdSpendReport(records: string[][]): AdSpendReport | null {
+  for (let headerIndex = 0; headerIndex < Math.min(records.length, MAX_TITLE_LINES); headerIndex++) {
+    const headers = records[headerIndex];
+    for (const platform of AD_PLATFORMS) {
+      const columns: Partial<Record<AdColumn, number>> = {};
+      (Object.keys(platform.columns) as AdColumn[]).forEach(column => {
+        columns[column] = pickColumn(headers, platform.columns[column]);
+      });
+      if (columns.date === undefined || columns.spend === undefined) continue;
+
+      // The reporting period only matters when there is no Day/Month breakdown
+      if (headers[columns.date].toLowerCase().trim() !== 'reporting starts') delete columns.dateEnd;
+
+      return readAdSpendRows(platform, headers, columns, records, headerIndex);
+    }
+  }
+  return null;
+}
+
+function readAdSpendRows(
+  platform: AdPlatformDefinition,
+  headers: string[],
+  columns: Partial<Record<AdColumn, number>>,
+  records: string[][],
+  headerIndex: number
+): AdSpendReport {
+  const rows: AdSpendRow[] = [];
+  const warnings: string[] = [];
+  const skippedRows: ImportSkippedRow[] = [];
+  const currencies = new Set<string>();
+
+  // "Amount spent (EUR)" names the currency in the header
+  const headerCurrency = headers[columns.spend as number].match(/\(([A-Z]{3})\)/)?.[1];
+  if (headerCurrency) currencies.add(headerCurrency);
+
+  let rowCount = 0;
+  for (let i = headerIndex + 1; i < records.length; i++) {
+    const values = records[i];
+    const rowNumber = i + 1;
+    const cell = (column: AdColumn) => {
+      const index = columns[column];
+      return index === undefined ? '' : (values[index] || '').trim();
+    };
+
+    if (values.every(value => value.trim() === '')) continue;
+    rowCount++;
+
+    // Google Ads appends "Total: ..." rows; Meta's summary row has no account or campaign
+    if (/^total\b/i.test(values.find(value => value.trim() !== '')?.trim() || '')) continue;
+    if ((columns.account !== undefined || columns.campaign !== undefined) && !cell('account') && !cell('campaign')) {
+      skippedRows.push({ rowNumber, reason: 'Summary row, skipping' });
+      continue;
+    }
+
+    const period = parseReportMonth(cell('date'));
+    if (!period) {
+      skippedRows.push({ rowNumber, reason: `Could not read the date "${cell('date')}", skipping` });
+      continue;
+    }
+
+    // Exports without a breakdown have one row for the whole reporting period
+    const periodEnd = cell('dateEnd') ? parseReportMonth(cell('dateEnd')) : null;
+    if (periodEnd && (periodEnd.year !== period.year || periodEnd.month !== period.month)) {
+      skippedRows.push({
+        rowNumber,
+        reason: `Row covers ${cell('date')} to ${cell('dateEnd')} - export with a Day or Month breakdown so spend can be split by month`,
+      });
+      continue;
+    }
+
+    const spendCents = parseCents(cell('spend')) || 0;
+    const leads = Math.round(parseNumber(cell('leads')) || 0);
+    if (spendCents === 0 && leads === 0) continue; // Days the ads didn't run
+
+    if (cell('currency')) currencies.add(cell('currency').toUpperCase());
+
+    rows.push({
+      rowNumber,
+      accountName: cell('account'),
+      campaignName: cell('campaign'),
+      year: period.year,
+      month: period.month,
+      spendCents,
+      leads,
+    });
+  }
+
+  if (columns.leads === undefined) {
+    warnings.push(`No leads column found - add the Leads (Meta) or Conversions (Google Ads) column to the export to import leads`);
+  }
+  if (currencies.size > 1) {
+    warnings.push(`The export mixes currencies (${[...currencies].join(', ')}) - amounts are imported as-is`);
+  } else if (currencies.size === 1 && !currencies.has('USD')) {
+    warnings.push(`Spend is in ${[...currencies][0]} - amounts are imported as-is`);
+  }
+
+  return {
+    platform: platform.id,
+    platformName: platform.name,
+    rows,
+    hasAccounts: columns.account !== undefined,
+    hasCampaigns: columns.campaign !== undefined,
+    currency: currencies.size === 1 ? [...currencies][0] : undefined,
+    warnings,
+    skippedRows,
+    rowCount,
+  };
+}
+
+/**
+ * Account or campaign name a row is mapped by
+ * Exports without that column are treated as a single source named after the platform.
+ */
+export function adSourceName(report: AdSpendReport, row: AdSpendRow, matchBy: AdSpendMatchBy): string {
+  return (matchBy === 'campaign' ? row.campaignName : row.accountName) || report.platformName;
+}
+
+/**
+ * Accounts or campaigns in the export, with their totals, for the mapping step
+ */
+export function summarizeAdSources(report: AdSpendReport, matchBy: AdSpendMatchBy): { name: string; spendCents: number; leads: number }[] {
+  const sources = new Map<string, { name: string; spendCents: number; leads: number }>();
+  report.rows.forEach(row => {
+    const name = adSourceName(report, row, matchBy);
+    const source = sources.get(name) || { name, spendCents: 0, leads: 0 };
+    source.spendCents += row.spendCents;
+    source.leads += row.leads;
+    sources.set(name, source);
+  });
+  return [...sources.values()].sort((a, b) => b.spendCents - a.spendCents);
+}
+
+/**
+ * Lead source to map an account/campaign to: its saved mapping, else a lead source with the same
+ * name, else the only lead source named after the platform (e.g. "Instagram" for Meta)
+ */
+export function suggestLeadSource(
+  platform: AdPlatform,
+  matchBy: AdSpendMatchBy,
+  name: string,
+  savedMappings: AdAccountMapping[],
+  leadSources: LeadSource[]
+): string | null | undefined {
+  const saved = savedMappings.find(m => m.platform === platform && m.matchBy === matchBy && m.externalName === name);
+  if (saved) return saved.leadSourceId;
+
+  const sameName = leadSources.find(ls => ls.name.toLowerCase().trim() === name.toLowerCase().trim());
+  if (sameName) return sameName.id;
+
+  const keywords = AD_PLATFORMS.find(p => p.id === platform)?.keywords || [];
+  const platformSources = leadSources.filter(ls => keywords.some(keyword => ls.name.toLowerCase().includes(keyword)));
+  return platformSources.length === 1 ? platformSources[0].id : undefined;
+}
+
+/**
+ * Roll mapped rows up into one row per lead source and month, and compare with existing campaigns
+ * Rows mapped to the same lead source are summed. Months are matched on leadSourceId + year + month,
+ * the key Insights dedupes on, and imported totals replace the month's spend and leads.
+ */
+export function buildAdSpendImport(
+  report: AdSpendReport,
+  matchBy: AdSpendMatchBy,
+  mapping: Record<string, string | null | undefined>,
+  existingCampaigns: AdCampaign[]
+): AdSpendMonthChange[] {
+  const months = new Map<string, AdSpendMonthChange>();
+
+  report.rows.forEach(row => {
+    const name = adSourceName(report, row, matchBy);
+    const leadSourceId = mapping[name];
+    if (!leadSourceId) return;
+
+    const key = `${leadSourceId}_${row.year}_${row.month}`;
+    const change = months.get(key) || {
+      leadSourceId,
+      year: row.year,
+      month: row.month,
+      spendCents: 0,
+      leadsGenerated: 0,
+      sources: [],
+      existing: null,
+      status: 'new' as const,
+    };
+    change.spendCents += row.spendCents;
+    change.leadsGenerated += row.leads;
+    if (!change.sources.includes(name)) change.sources.push(name);
+    months.set(key, change);
+  });
+
+  return [...months.values()]
+    .map(change => {
+      const existing = existingCampaigns.find(c =>
+        !c.id.startsWith('default_')
+        && c.leadSourceId === change.leadSourceId
+        && c.year === change.year
+        && c.month === change.month
+      ) || null;
+      const status: AdSpendMonthChange['status'] = !existing
+        ? 'new'
+        : (existing.adSpendCents === change.spendCents && existing.leadsGenerated === change.leadsGenerated ? 'unchanged' : 'updated');
+      return { ...change, existing, status };
+    })
+    .sort((a, b) => a.year - b.year || a.month - b.month || a.leadSourceId.localeCompare(b.leadSourceId));
+}
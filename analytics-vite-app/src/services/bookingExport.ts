@@ -0,0 +1,127 @@
+/**
+ * Booking Export
+ * CSV exports of the Bookings & Billings table for bookkeeping: one row per booking with
+ * what's been paid and what's still owed, and optionally one row per payment.
+ */
+
+import { toCSV, centsToDecimal } from '../utils/csvExport';
+import type { Booking, Payment, ServiceType, LeadSource } from '../types';
+
+interface BookingExportContext {
+  payments: Payment[];
+  serviceTypes: ServiceType[];
+  leadSources: LeadSource[];
+}
+
+const DELETED_SERVICE_TYPE = 'Deleted Service Type';
+const DELETED_LEAD_SOURCE = 'Deleted Lead Source';
+
+/**
+ * Date a payment is due: its due date, or the first of the month it's expected in (YYYY-MM)
+ */
+export function paymentDueDate(payment: Payment): string {
+  const date = payment.dueDate || payment.expectedDate || '';
+  return /^\d{4}-\d{2}$/.test(date) ? `${date}-01` : date.slice(0, 10);
+}
+
+/**
+ * Totals for one booking: paid so far, what's left, and when the next unpaid payment is due
+ * The next due date is the earliest unpaid payment, so an overdue payment shows up first.
+ */
+export function summarizeBookingPayments(booking: Booking, payments: Payment[]): {
+  totalPaid: number;
+  remaining: number;
+  nextDueDate: string | null;
+} {
+  const bookingPayments = payments.filter(p => p.bookingId === booking.id);
+  const totalPaid = bookingPayments.filter(p => p.paidAt).reduce((total, p) => total + (p.amount || 0), 0);
+  const dueDates = bookingPayments
+    .filter(p => !p.paidAt)
+    .map(paymentDueDate)
+    .filter(date => date !== '')
+    .sort();
+
+  return {
+    totalPaid,
+    remaining: (booking.bookedRevenue || 0) - totalPaid,
+    nextDueDate: dueDates[0] || null,
+  };
+}
+
+/**
+ * One row per booking, in the order given (the table's current filter and sort)
+ */
+export function buildBookingsCSV(bookings: Booking[], { payments, serviceTypes, leadSources }: BookingExportContext): string {
+  const headers = [
+    'Project Name',
+    'Service Type',
+    'Lead Source',
+    'Status',
+    'Date Inquired',
+    'Date Booked',
+    'Project Date',
+    'Booked Revenue',
+    'Total Paid',
+    'Remaining Balance',
+    'Next Due Date',
+    'Notes',
+  ];
+
+  const rows = bookings.map(booking => {
+    const { totalPaid, remaining, nextDueDate } = summarizeBookingPayments(booking, payments);
+    return [
+      booking.projectName,
+      serviceTypes.find(st => st.id === booking.serviceTypeId)?.name || DELETED_SERVICE_TYPE,
+      leadSources.find(ls => ls.id === booking.leadSourceId)?.name || DELETED_LEAD_SOURCE,
+      booking.status,
+      booking.dateInquired,
+      booking.dateBooked,
+      booking.projectDate,
+      centsToDecimal(booking.bookedRevenue),
+      centsToDecimal(totalPaid),
+      centsToDecimal(remaining),
+      nextDueDate,
+      booking.notes,
+    ];
+  });
+
+  return toCSV(headers, rows);
+}
+
+/**
+ * One row per payment on the given bookings, grouped by booking in the same order, earliest due first
+ */
+export function buildPaymentsCSV(bookings: Booking[], { payments, serviceTypes, leadSources }: BookingExportContext): string {
+  const headers = [
+    'Project Name',
+    'Service Type',
+    'Lead Source',
+    'Amount',
+    'Due Date',
+    'Status',
+    'Paid Date',
+    'Payment Method',
+    'Memo',
+  ];
+
+  const rows = bookings.flatMap(booking => {
+    const serviceType = serviceTypes.find(st => st.id === booking.serviceTypeId)?.name || DELETED_SERVICE_TYPE;
+    const leadSource = leadSources.find(ls => ls.id === booking.leadSourceId)?.name || DELETED_LEAD_SOURCE;
+    return payments
+      .filter(p => p.bookingId === booking.id)
+      .sort((a, b) => paymentDueDate(a).localeCompare(paymentDueDate(b)))
+      .map(payment => [
+        booking.projectName,
+        serviceType,
+        leadSource,
+        centsToDecimal(payment.amount),
+        paymentDueDate(payment),
+        payment.paidAt ? 'Paid' : 'Scheduled',
+        payment.paidAt ? payment.paidAt.slice(0, 10) : '',
+        payment.paymentMethod,
+        payment.memo,
+      ]);
+  });
+
+  return toCSV(headers, rows);
+}
@@ -0,0 +1,94 @@
+/**
+ * Calendar Export
+ * Upcoming payment due dates and project dates as an iCalendar (.ics) file, and the URL of the
+ * subscribable feed that serves the same events (calendar_feed database function).
+ * UIDs are built from record IDs in both, so events imported from a file are updated, not
+ * duplicated, when the file is imported again or the calendar subscribes to the feed.
+ */
+
+import { buildICalendar, type CalendarEvent } from '../utils/icalendar';
+import { toUSD } from '../utils/formatters';
+import { paymentDueDate } from './bookingExport';
+import type { Booking, Payment, ServiceType } from '../types';
+
+export const CALENDAR_NAME = 'fnnl Payments & Projects';
+const UID_DOMAIN = 'fnnlapp.com';
+
+interface CalendarExportContext {
+  payments: Payment[];
+  serviceTypes: ServiceType[];
+  from?: string; // YYYY-MM-DD - events before this date are left out (defaults to today)
+}
+
+const todayISO = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * One event per unpaid payment due on or after `from`, and one per project date on or after `from`
+ * Payments only appear for the bookings given, so a filtered table exports just its own payments.
+ */
+export function buildBookingCalendarEvents(
+  bookings: Booking[],
+  { payments, serviceTypes, from = todayISO() }: CalendarExportContext
+): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+
+  bookings.forEach(booking => {
+    const serviceType = serviceTypes.find(st => st.id === booking.serviceTypeId)?.name;
+
+    payments
+      .filter(p => p.bookingId === booking.id && !p.paidAt)
+      .forEach(payment => {
+        const dueDate = paymentDueDate(payment);
+        if (!dueDate || dueDate < from) return;
+        const amount = toUSD(payment.amount || 0);
+        events.push({
+          uid: `payment-${payment.id}@${UID_DOMAIN}`,
+          date: dueDate,
+          summary: `Payment due: ${amount} - ${booking.projectName}`,
+          description: [
+            `Amount: ${amount}`,
+            `Booking: ${booking.projectName}`,
+            serviceType ? `Service: ${serviceType}` : '',
+            payment.memo ? `Memo: ${payment.memo}` : '',
+          ].filter(Boolean).join('\n'),
+          categories: ['Payment'],
+        });
+      });
+
+    const projectDate = booking.projectDate?.slice(0, 10);
+    if (projectDate && /^\d{4}-\d{2}-\d{2}$/.test(projectDate) && projectDate >= from) {
+      events.push({
+        uid: `project-${booking.id}@${UID_DOMAIN}`,
+        date: projectDate,
+        summary: `Project: ${booking.projectName}`,
+        description: [
+          serviceType ? `Service: ${serviceType}` : '',
+          `Booked revenue: ${toUSD(booking.bookedRevenue || 0)}`,
+        ].filter(Boolean).join('\n'),
+        categories: ['Project'],
+      });
+    }
+  });
+
+  return events.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * The .ics file for the given bookings
+ */
+export function buildBookingsCalendar(bookings: Booking[], context: CalendarExportContext): string {
+  return buildICalendar(CALENDAR_NAME, buildBookingCalendarEvents(bookings, context));
+}
+
+/**
+ * Subscription URL for a feed token
+ * The feed is a database function served by the Supabase REST API; calendar apps can't send
+ * headers, so the (public) anon key goes in the query string.
+ */
+export function calendarFeedUrl(token: string): string {
+  const params = new URLSearchParams({ token, apikey: import.meta.env.VITE_SUPABASE_ANON_KEY || '' });
+  return `${import.meta.env.VITE_SUPABASE_URL}/rest/v1/rpc/calendar_feed?${params.toString()}`;
+}
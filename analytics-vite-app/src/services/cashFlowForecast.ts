@@ -0,0 +1,225 @@
+/**
+ * Cash Flow Forecast
+ * Money expected to come in over the coming months, from two sources:
+ * - scheduled payments: expected payments not yet paid, in the month they're expected (or due).
+ *   Overdue ones are counted in the current month.
+ * - bookings not yet signed: each service type's average monthly booked revenue, paid out on the
+ *   schedule its past bookings followed (the share of booked revenue paid in the month it was booked,
+ *   the month after, and so on)
+ *
+ * Inflow is added to a starting balance, less any monthly expenses, for a running balance. Months
+ * whose inflow doesn't cover expenses (or, without expenses, falls well below the average month)
+ * are flagged as thin.
+ */
+
+import { monthToIndex, indexToMonth, paymentCashDate } from './insightsMetrics';
+import { mean } from '../utils/statistics';
+import type { Booking, Payment, ServiceType } from '../types';
+
+export const CASH_FLOW_HORIZONS = [12, 18, 24];
+export const CASH_FLOW_HISTORY_MONTHS = 12; // Months of bookings averaged for the new-bookings estimate
+export const PAYMENT_PATTERN_HISTORY_MONTHS = 24; // Months of bookings the payment schedules are learned from
+export const PAYMENT_PATTERN_MAX_OFFSET = 24; // Payments later than this many months after booking are left out
+export const THIN_MONTH_SHARE = 0.5; // Without expenses, a month under half the average inflow is thin
+
+export interface PaymentPattern {
+  serviceTypeId: string | null; // Null for the pattern pooled across all service types
+  bookingCount: number;
+  shares: number[]; // Share of booked revenue paid n months after booking (index n)
+}
+
+export interface CashFlowMonth {
+  year: number;
+  month: number;
+  scheduled: number; // cents
+  overdue: number; // Part of scheduled that was due before today, cents
+  estimated: number; // From bookings not yet signed, cents
+  inflow: number; // scheduled + estimated
+  expenses: number;
+  balance: number; // Running balance at the end of the month
+  isThin: boolean;
+}
+
+export interface CashFlowForecast {
+  months: CashFlowMonth[];
+  totalScheduled: number;
+  totalEstimated: number;
+  patterns: PaymentPattern[];
+}
+
+export interface CashFlowOptions {
+  horizonMonths?: number;
+  startingBalance?: number; // cents
+  monthlyExpenses?: number; // cents
+  now?: Date;
+}
+
+const dateToIndex = (date: string | undefined): number | null => {
+  const match = date?.match(/^(\d{4})-(\d{2})/);
+  return match ? monthToIndex(parseInt(match[1]), parseInt(match[2])) : null;
+};
+
+const localDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const paymentAmount = (payment: Payment) => payment.amount || payment.amountCents || 0;
+
+/**
+ * Whether a payment is still to come (scheduled and not marked paid)
+ */
+export function isScheduledPayment(payment: Payment): boolean {
+  return !!payment.isExpected && !payment.paidAt;
+}
+
+/**
+ * How past bookings were paid over the months after booking, per service type and pooled
+ * Learned from bookings booked in the PAYMENT_PATTERN_HISTORY_MONTHS before now that have payments
+ * (paid or scheduled), so it reflects both deposits and installment plans.
+ */
+export function calculatePaymentPatterns(
+  bookings: Booking[],
+  payments: Payment[],
+  now: Date = new Date()
+): PaymentPattern[] {
+  const currentIndex = monthToIndex(now.getFullYear(), now.getMonth() + 1);
+  const paymentsByBooking = new Map<string, Payment[]>();
+  payments.forEach(payment => {
+    const list = paymentsByBooking.get(payment.bookingId) || [];
+    list.push(payment);
+    paymentsByBooking.set(payment.bookingId, list);
+  });
+
+  const sample = bookings.filter(booking => {
+    const index = dateToIndex(booking.dateBooked);
+    return index !== null &&
+      index <= currentIndex &&
+      index > currentIndex - PAYMENT_PATTERN_HISTORY_MONTHS &&
+      (booking.bookedRevenue || 0) > 0 &&
+      paymentsByBooking.has(booking.id);
+  });
+
+  const pattern = (serviceTypeId: string | null, group: Booking[]): PaymentPattern => {
+    const paid = Array<number>(PAYMENT_PATTERN_MAX_OFFSET + 1).fill(0);
+    let booked = 0;
+    group.forEach(booking => {
+      const bookedIndex = dateToIndex(booking.dateBooked)!;
+      booked += booking.bookedRevenue;
+      (paymentsByBooking.get(booking.id) || []).forEach(payment => {
+        const index = dateToIndex(paymentCashDate(payment));
+        if (index === null) return;
+        // Payments taken before the booking date count as paid at booking
+        const offset = Math.max(0, index - bookedIndex);
+        if (offset <= PAYMENT_PATTERN_MAX_OFFSET) paid[offset] += paymentAmount(payment);
+      });
+    });
+    return {
+      serviceTypeId,
+      bookingCount: group.length,
+      shares: paid.map(amount => (booked > 0 ? amount / booked : 0)),
+    };
+  };
+
+  const serviceTypeIds = [...new Set(sample.map(booking => booking.serviceTypeId))];
+  return [
+    pattern(null, sample),
+    ...serviceTypeIds.map(id => pattern(id, sample.filter(booking => booking.serviceTypeId === id))),
+  ];
+}
+
+/**
+ * Average monthly booked revenue per service type over the complete months before now
+ */
+export function averageMonthlyBookings(
+  bookings: Booking[],
+  serviceTypes: ServiceType[],
+  now: Date = new Date()
+): Map<string, number> {
+  const end = monthToIndex(now.getFullYear(), now.getMonth() + 1) - 1;
+  const start = end - CASH_FLOW_HISTORY_MONTHS + 1;
+  const averages = new Map<string, number>();
+  serviceTypes.forEach(st => {
+    const monthly = Array<number>(CASH_FLOW_HISTORY_MONTHS).fill(0);
+    bookings.forEach(booking => {
+      const index = dateToIndex(booking.dateBooked);
+      if (booking.serviceTypeId !== st.id || index === null || index < start || index > end) return;
+      monthly[index - start] += booking.bookedRevenue || 0;
+    });
+    const average = mean(monthly);
+    if (average > 0) averages.set(st.id, average);
+  });
+  return averages;
+}
+
+/**
+ * Month-by-month cash flow for the coming months, starting with the current one
+ */
+export function forecastCashFlow(
+  bookings: Booking[],
+  payments: Payment[],
+  serviceTypes: ServiceType[],
+  options: CashFlowOptions = {}
+): CashFlowForecast {
+  const { horizonMonths = 12, startingBalance = 0, monthlyExpenses = 0, now = new Date() } = options;
+  const currentIndex = monthToIndex(now.getFullYear(), now.getMonth() + 1);
+  const lastIndex = currentIndex + horizonMonths - 1;
+  const today = localDate(now);
+
+  const scheduled = Array<number>(horizonMonths).fill(0);
+  const overdue = Array<number>(horizonMonths).fill(0);
+  payments.filter(isScheduledPayment).forEach(payment => {
+    const date = paymentCashDate(payment);
+    const index = dateToIndex(date);
+    if (index === null || index > lastIndex) return;
+    const amount = paymentAmount(payment);
+    if (index < currentIndex || (date && date < today)) {
+      scheduled[0] += amount;
+      overdue[0] += amount;
+    } else {
+      scheduled[index - currentIndex] += amount;
+    }
+  });
+
+  // New bookings through the horizon, paid on their service type's schedule. The current month only
+  // counts for its days still to come, since bookings already signed have their payments scheduled.
+  const patterns = calculatePaymentPatterns(bookings, payments, now);
+  const pooled = patterns[0];
+  const averages = averageMonthlyBookings(bookings, serviceTypes, now);
+  const daysInMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0).getDate();
+  const currentShare = (daysInMonth - now.getDate()) / daysInMonth;
+  const estimated = Array<number>(horizonMonths).fill(0);
+  averages.forEach((average, serviceTypeId) => {
+    const shares = (patterns.find(p => p.serviceTypeId === serviceTypeId) || pooled).shares;
+    for (let booked = 0; booked < horizonMonths; booked++) {
+      const amount = average * (booked === 0 ? currentShare : 1);
+      for (let paid = booked; paid < horizonMonths && paid - booked < shares.length; paid++) {
+        estimated[paid] += amount * shares[paid - booked];
+      }
+    }
+  });
+
+  const inflows = scheduled.map((value, i) => value + estimated[i]);
+  const averageInflow = mean(inflows);
+  let balance = startingBalance;
+  const months = inflows.map((inflow, i) => {
+    balance += inflow - monthlyExpenses;
+    const { year, month } = indexToMonth(currentIndex + i);
+    return {
+      year,
+      month,
+      scheduled: scheduled[i],
+      overdue: overdue[i],
+      estimated: estimated[i],
+      inflow,
+      expenses: monthlyExpenses,
+      balance,
+      isThin: monthlyExpenses > 0 ? inflow < monthlyExpenses : inflow < averageInflow * THIN_MONTH_SHARE,
+    };
+  });
+
+  return {
+    months,
+    totalScheduled: scheduled.reduce((sum, value) => sum + value, 0),
+    totalEstimated: estimated.reduce((sum, value) => sum + value, 0),
+    patterns,
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Project/Job Export Importers for Táve, 17hats, Studio Ninja, Sprout Studio and generic spreadsheets
+ * Each export lists leads and booked jobs together, so they share the project export row mapper
+ */
+
+import { createProjectExportImporter } from './projectExportImporter';
+
+/**
+ * Táve Jobs export
+ * Columns: Job ID, Job Name, Job Type, Job Stage, Lead Source, Inquiry Date, Booked On,
+ *          Event Date, Primary Contact, Email, Total
+ */
+export const taveJobsImporter = createProjectExportImporter({
+  id: 'tave-jobs',
+  crm: 'tave',
+  crmName: 'Táve',
+  name: 'Táve Jobs export',
+  description: 'Every job counts as an Inquiry; jobs with a Booked On date count as Closes and create sales records.',
+  signature: ['job type', 'job stage', 'booked on', 'inquiry date'],
+  columns: {
+    externalId: ['job id', 'job number'],
+    projectName: ['job name', 'job title', 'job'],
+    clientName: ['primary contact', 'client name', 'contact'],
+    email: ['email address', 'email'],
+    phone: ['phone number', 'phone'],
+    status: ['job stage', 'stage', 'status'],
+    projectType: ['job type', 'event type', 'type'],
+    leadSource: ['lead source', 'source'],
+    dateCreated: ['inquiry date', 'lead date', 'created'],
+    bookedDate: ['booked on', 'booked date', 'date booked'],
+    projectDate: ['event date', 'job date', 'session date'],
+    totalAmount: ['total', 'job total', 'contract total', 'amount'],
+  },
+  bookedStatuses: ['booked', 'fulfillment', 'completed', 'complete'],
+});
+
+/**
+ * 17hats Projects export
+ * Columns: Project Name, Contact, Project Status, Project Type, Lead Source,
+ *          Date Created, Project Start Date, Total Invoiced
+ */
+export const seventeenHatsProjectsImporter = createProjectExportImporter({
+  id: '17hats-projects',
+  crm: '17hats',
+  crmName: '17hats',
+  name: '17hats Projects export',
+  description: 'Every project counts as an Inquiry; Booked/Active/Completed projects count as Closes and create sales records.',
+  signature: ['project status', 'project start date', 'total invoiced', 'contact'],
+  columns: {
+    externalId: ['project id'],
+    projectName: ['project name', 'project'],
+    clientName: ['contact', 'contact name', 'client name'],
+    email: ['contact email', 'email'],
+    phone: ['contact phone', 'phone'],
+    status: ['project status', 'status'],
+    projectType: ['project type', 'type'],
+    leadSource: ['lead source', 'source'],
+    dateCreated: ['date created', 'created date', 'created'],
+    bookedDate: ['booked date', 'date booked'],
+    projectDate: ['project start date', 'start date', 'event date'],
+    totalAmount: ['total invoiced', 'project total', 'total', 'amount'],
+  },
+  bookedStatuses: ['booked', 'active', 'in progress', 'completed', 'complete'],
+});
+
+/**
+ * Studio Ninja Jobs export
+ * Columns: Job Name, Client, Job Type, Job Status, Lead Source, Created,
+ *          Job Date, Booked Date, Job Value
+ */
+export const studioNinjaJobsImporter = createProjectExportImporter({
+  id: 'studio-ninja-jobs',
+  crm: 'studio-ninja',
+  crmName: 'Studio Ninja',
+  name: 'Studio Ninja Jobs export',
+  description: 'Every job counts as an Inquiry; Booked/Completed jobs count as Closes and create sales records.',
+  signature: ['job name', 'job status', 'job value', 'job date'],
+  columns: {
+    externalId: ['job id', 'job number'],
+    projectName: ['job name', 'job'],
+    clientName: ['client', 'client name'],
+    email: ['client email', 'email'],
+    phone: ['client phone', 'phone'],
+    status: ['job status', 'status'],
+    projectType: ['job type', 'type'],
+    leadSource: ['lead source', 'source'],
+    dateCreated: ['created', 'date created', 'enquiry date', 'inquiry date'],
+    bookedDate: ['booked date', 'date booked'],
+    projectDate: ['job date', 'event date'],
+    totalAmount: ['job value', 'total', 'amount'],
+  },
+  bookedStatuses: ['booked', 'job', 'completed', 'complete'],
+});
+
+/**
+ * Sprout Studio Projects export
+ * Columns: Project Name, Client Name, Project Type, Project Stage, Lead Source,
+ *          Lead Date, Booked Date, Project Date, Project Total
+ */
+export const sproutStudioProjectsImporter = createProjectExportImporter({
+  id: 'sprout-studio-projects',
+  crm: 'sprout-studio',
+  crmName: 'Sprout Studio',
+  name: 'Sprout Studio Projects export',
+  description: 'Every project counts as an Inquiry; booked projects count as Closes and create sales records.',
+  signature: ['project stage', 'lead date', 'project total'],
+  columns: {
+    externalId: ['project id'],
+    projectName: ['project name', 'project'],
+    clientName: ['client name', 'client'],
+    email: ['client email', 'email'],
+    phone: ['client phone', 'phone'],
+    status: ['project stage', 'stage', 'status'],
+    projectType: ['project type', 'type'],
+    leadSource: ['lead source', 'source'],
+    dateCreated: ['lead date', 'date created', 'created'],
+    bookedDate: ['booked date', 'date booked'],
+    projectDate: ['project date', 'event date', 'session date'],
+    totalAmount: ['project total', 'total', 'amount'],
+  },
+  bookedStatuses: ['booked', 'in progress', 'completed', 'complete'],
+});
+
+/**
+ * Any other spreadsheet of leads/bookings (one row per project)
+ * Never auto-detected - picked in the column mapping step, where the columns are matched by hand
+ */
+export const genericSpreadsheetImporter = createProjectExportImporter({
+  id: 'generic-spreadsheet',
+  crm: 'other',
+  crmName: 'Spreadsheet',
+  name: 'Spreadsheet (one row per project)',
+  description: 'Every row counts as an Inquiry; rows with a booked date or Booked status count as Closes and create sales records.',
+  signature: [],
+  columns: {
+    externalId: ['external id', 'project id', 'job id', '#'],
+    projectName: ['project name', 'project', 'client', 'name'],
+    clientName: ['client name', 'client', 'customer'],
+    email: ['email'],
+    phone: ['phone'],
+    status: ['status', 'stage'],
+    projectType: ['service type', 'service', 'package', 'type'],
+    leadSource: ['lead source', 'source', 'referral'],
+    dateCreated: ['date inquired', 'inquiry date', 'date created', 'created', 'lead date'],
+    bookedDate: ['date booked', 'booked date', 'booked on', 'signed'],
+    projectDate: ['project date', 'event date', 'wedding date', 'session date'],
+    totalAmount: ['booked revenue', 'contract value', 'total', 'amount', 'price'],
+  },
+  bookedStatuses: ['booked', 'signed', 'won', 'completed', 'complete'],
+});
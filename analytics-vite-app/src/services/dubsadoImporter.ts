@@ -0,0 +1,41 @@
+/**
+ * Dubsado CSV Importer
+ * Maps Dubsado Projects/Leads exports to our data structures
+ */
+
+import { createProjectExportImporter } from './projectExportImporter';
+
+/**
+ * Dubsado Projects or Leads export
+ * Columns: Project Name, Client Name (or First Name/Last Name), Email, Phone,
+ *          Status, Project Type, Lead Source, Date Created, Booked Date,
+ *          Start Date, Project Total
+ *
+ * Dubsado moves a lead to "Job" once the contract is signed; completed jobs stay booked.
+ * Archived rows stay as inquiries unless they carry a Booked Date.
+ */
+export const dubsadoProjectsImporter = createProjectExportImporter({
+  id: 'dubsado-projects',
+  crm: 'dubsado',
+  crmName: 'Dubsado',
+  name: 'Dubsado Projects export',
+  description: 'Every project counts as an Inquiry; Booked/Job/Completed projects count as Closes and create sales records.',
+  signature: ['date created', 'start date', 'status', 'project name', 'client name'],
+  columns: {
+    externalId: ['project id'],
+    projectName: ['project name', 'project title', 'lead name', 'project'],
+    clientName: ['client name', 'client', 'full name', 'contact name'],
+    firstName: ['first name', 'firstname'],
+    lastName: ['last name', 'lastname'],
+    email: ['email address', 'client email', 'email'],
+    phone: ['phone number', 'client phone', 'phone'],
+    status: ['project status', 'status', 'stage'],
+    projectType: ['project type', 'job type', 'service type', 'package'],
+    leadSource: ['lead source', 'source', 'referral source', 'how did you hear'],
+    dateCreated: ['date created', 'created date', 'created on', 'created', 'lead date'],
+    bookedDate: ['booked date', 'date booked', 'converted to job', 'contract signed'],
+    projectDate: ['start date', 'project date', 'event date', 'session date'],
+    totalAmount: ['project total', 'invoice total', 'total', 'amount', 'price'],
+  },
+  bookedStatuses: ['booked', 'job', 'active', 'completed', 'complete'],
+});
@@ -0,0 +1,203 @@
+/**
+ * Forecast Accuracy
+ * Backtesting for forecast models. Each month a model's projection for its year is captured as a
+ * snapshot; snapshots are then scored with MAPE and bias against what the model projects: hand-built
+ * plans against the year's actual revenue by service type (the same figures as the Forecast
+ * Tracker), fitted models against the year's booked revenue or cash (the funnel figures they were
+ * fitted to).
+ *
+ * Snapshots are taken when the account owner opens Forecast Modeling (see dueSnapshots), so a
+ * month in which nobody opens it has no snapshot for that checkpoint.
+ *
+ * Years still under way are scored against the revenue received and scheduled so far, so their
+ * scores are provisional. Which approach has been most accurate is judged on completed years when
+ * there are any.
+ */
+
+import { FITTED_MODEL_TYPES, isFittedModel, projectYear } from './forecastModels';
+import { calculateCurrentYearRevenueByServiceType } from './revenueCalculationService';
+import { ALL_FUNNELS, buildFunnelMonths, type FunnelScopeData } from './funnelScope';
+import { monthToIndex } from './insightsMetrics';
+import { forecastErrors, type ForecastErrors } from '../utils/statistics';
+import type { ForecastMetric, ForecastModel, ForecastModelType, ForecastSnapshot } from '../types';
+
+export type NewForecastSnapshot = Omit<ForecastSnapshot, 'id' | 'takenAt'>;
+
+export interface ServiceTypeAccuracy {
+  serviceTypeId: string;
+  name: string;
+  errors: ForecastErrors;
+}
+
+export interface ModelAccuracy {
+  key: string;
+  modelId: string | null;
+  modelName: string;
+  modelType: ForecastModelType;
+  metric: ForecastMetric | null; // Fitted models only: booked revenue or cash
+  year: number;
+  snapshots: number;
+  provisional: boolean; // Year still under way
+  actual: number; // Revenue (or booked revenue or cash) the model is scored against, cents
+  errors: ForecastErrors; // Year totals
+  serviceTypes: ServiceTypeAccuracy[]; // Hand-built plans only
+}
+
+export interface ApproachAccuracy {
+  modelType: ForecastModelType;
+  label: string;
+  models: number;
+  errors: ForecastErrors;
+}
+
+export interface ForecastAccuracy {
+  models: ModelAccuracy[];
+  approaches: ApproachAccuracy[]; // Most accurate first; unscored approaches last
+  provisional: boolean; // Approaches are scored on years still under way (no completed years yet)
+  best: ForecastModelType | null;
+}
+
+/**
+ * Display name of a modeling approach
+ */
+export function approachLabel(modelType: ForecastModelType): string {
+  return modelType === 'forecast'
+    ? 'Hand-built plan'
+    : FITTED_MODEL_TYPES.find(info => info.type === modelType)?.label || modelType;
+}
+
+/**
+ * Whether a model projects revenue, so it can be scored (models of closes can't)
+ */
+export function isScorableModel(model: ForecastModel): boolean {
+  return !isFittedModel(model) || (model.parameters?.metric || 'bookings') !== 'closes';
+}
+
+/**
+ * A model's projection for its year as a snapshot for the given month
+ */
+export function snapshotModel(model: ForecastModel, checkpoint: number): NewForecastSnapshot {
+  const serviceTypes = isFittedModel(model)
+    ? []
+    : model.serviceTypes.map(entry => ({ serviceTypeId: entry.serviceTypeId, amount: entry.totalForecast || 0 }));
+  const total = isFittedModel(model)
+    ? (projectYear(model) || []).reduce((sum, value) => sum + value, 0)
+    : serviceTypes.reduce((sum, entry) => sum + entry.amount, 0);
+  return {
+    modelId: model.id,
+    modelName: model.name,
+    modelType: model.modelType,
+    year: model.year,
+    checkpoint,
+    total,
+    serviceTypes,
+    metric: isFittedModel(model) ? model.parameters?.metric || 'bookings' : null,
+  };
+}
+
+/**
+ * Snapshots to take now: one per scorable model for the current year without one this month
+ * Models with temporary (unsaved) IDs wait until they're saved.
+ */
+export function dueSnapshots(models: ForecastModel[], snapshots: ForecastSnapshot[], now: Date = new Date()): NewForecastSnapshot[] {
+  const year = now.getFullYear();
+  const checkpoint = now.getMonth() + 1;
+  const taken = new Set(
+    snapshots.filter(s => s.year === year && s.checkpoint === checkpoint).map(s => s.modelId)
+  );
+  return models
+    .filter(model => model.year === year && !model.id.startsWith('model_') && !taken.has(model.id) && isScorableModel(model))
+    .filter(model => !isFittedModel(model) || !!model.parameters?.fit)
+    .map(model => snapshotModel(model, checkpoint));
+}
+
+/**
+ * Score every model's snapshots against what actually came in, and rank the modeling approaches
+ */
+export function calculateForecastAccuracy(
+  snapshots: ForecastSnapshot[],
+  data: FunnelScopeData,
+  now: Date = new Date()
+): ForecastAccuracy {
+  const currentYear = now.getFullYear();
+  const serviceTypeName = (id: string) => data.serviceTypes.find(st => st.id === id)?.name || 'Unknown';
+
+  // Actual revenue by service type and the funnel's booked revenue and cash for each year with
+  // snapshots (past and current years only)
+  const actualsByYear = new Map<number, Map<string, number>>();
+  const funnelTotalsByYear = new Map<number, Record<'bookings' | 'cash', number>>();
+  [...new Set(snapshots.map(s => s.year))].filter(year => year <= currentYear).forEach(year => {
+    const revenue = calculateCurrentYearRevenueByServiceType(data.payments, data.bookings, data.serviceTypes, year);
+    actualsByYear.set(year, new Map(revenue.map(entry => [entry.serviceTypeId, entry.totalRevenueCents])));
+
+    const months = buildFunnelMonths(ALL_FUNNELS, data, { start: monthToIndex(year, 1), end: monthToIndex(year, 12) }, true);
+    funnelTotalsByYear.set(year, {
+      bookings: months.reduce((sum, month) => sum + (month.bookings || 0), 0),
+      cash: months.reduce((sum, month) => sum + (month.cash || 0), 0),
+    });
+  });
+
+  const snapshotKey = (snapshot: ForecastSnapshot) =>
+    `${snapshot.modelId || `${snapshot.modelType}:${snapshot.modelName}`}:${snapshot.year}`;
+  const groups = new Map<string, ForecastSnapshot[]>();
+  snapshots.filter(s => actualsByYear.has(s.year)).forEach(snapshot => {
+    const key = snapshotKey(snapshot);
+    groups.set(key, [...(groups.get(key) || []), snapshot]);
+  });
+
+  // Year-total forecast and actual pairs per model, shared by the model and approach scores
+  const totalPairs = new Map<string, { forecast: number; actual: number }[]>();
+  const models: ModelAccuracy[] = [...groups.entries()].map(([key, group]) => {
+    const latest = group[group.length - 1];
+    const actuals = actualsByYear.get(latest.year)!;
+    const funnelTotals = funnelTotalsByYear.get(latest.year)!;
+    // A plan is scored on its own service types' revenue; fitted models on the funnel figure they project
+    const actualFor = (snapshot: ForecastSnapshot) => snapshot.modelType === 'forecast'
+      ? snapshot.serviceTypes.reduce((sum, entry) => sum + (actuals.get(entry.serviceTypeId) || 0), 0)
+      : funnelTotals[snapshot.metric === 'cash' ? 'cash' : 'bookings'];
+    const pairs = group.map(snapshot => ({ forecast: snapshot.total, actual: actualFor(snapshot) }));
+    totalPairs.set(key, pairs);
+
+    const serviceTypeIds = [...new Set(group.flatMap(snapshot => snapshot.serviceTypes.map(entry => entry.serviceTypeId)))];
+    return {
+      key,
+      modelId: latest.modelId,
+      modelName: latest.modelName,
+      modelType: latest.modelType,
+      metric: latest.modelType === 'forecast' ? null : latest.metric || 'bookings',
+      year: latest.year,
+      snapshots: group.length,
+      provisional: latest.year >= currentYear,
+      actual: actualFor(latest),
+      errors: forecastErrors(pairs),
+      serviceTypes: serviceTypeIds.map(serviceTypeId => ({
+        serviceTypeId,
+        name: serviceTypeName(serviceTypeId),
+        errors: forecastErrors(group.flatMap(snapshot => snapshot.serviceTypes
+          .filter(entry => entry.serviceTypeId === serviceTypeId)
+          .map(entry => ({ forecast: entry.amount, actual: actuals.get(serviceTypeId) || 0 })))),
+      })),
+    };
+  }).sort((a, b) => b.year - a.year || a.modelName.localeCompare(b.modelName));
+
+  // Rank approaches on completed years when there are any
+  const completed = models.filter(model => !model.provisional);
+  const ranked = completed.length > 0 ? completed : models;
+  const approaches = [...new Set(ranked.map(model => model.modelType))].map(modelType => {
+    const approachModels = ranked.filter(model => model.modelType === modelType);
+    return {
+      modelType,
+      label: approachLabel(modelType),
+      models: approachModels.length,
+      errors: forecastErrors(approachModels.flatMap(model => totalPairs.get(model.key) || [])),
+    };
+  }).sort((a, b) => (a.errors.mape ?? Infinity) - (b.errors.mape ?? Infinity));
+  const best = approaches.length > 0 && approaches[0].errors.mape !== null ? approaches[0].modelType : null;
+
+  return {
+    models,
+    approaches,
+    provisional: completed.length === 0 && models.length > 0,
+    best,
+  };
+}
@@ -0,0 +1,237 @@
+/**
+ * Forecast Models
+ * Statistical forecast models fitted to the account's monthly history, alongside the hand-built
+ * plans (quantity x average booking per service type):
+ * - linear: a straight-line trend
+ * - exponential: steady percentage growth (a straight line through the logged values)
+ * - seasonal: a trend line scaled by how each calendar month compared with the trend in prior years
+ *
+ * History is the account's funnel months with manual overrides applied (the same figures as
+ * Insights), all funnels together. A model's fit is worked out when it's saved and stored in its
+ * parameters, so its projections don't shift as new months come in until it's refitted.
+ */
+
+import { ALL_FUNNELS, buildFunnelMonths, type FunnelScopeData } from './funnelScope';
+import { indexToMonth, monthToIndex } from './insightsMetrics';
+import { linearRegression, mean } from '../utils/statistics';
+import type { ForecastFit, ForecastMetric, ForecastModel, ForecastModelParameters, ForecastModelType } from '../types';
+
+export type FittedModelType = Exclude<ForecastModelType, 'forecast'>;
+
+export const FITTED_MODEL_TYPES: { type: FittedModelType; label: string; description: string; defaultHistoryMonths: number; minHistoryMonths: number }[] = [
+  {
+    type: 'linear',
+    label: 'Linear trend',
+    description: 'Extends the straight-line trend of your history',
+    defaultHistoryMonths: 24,
+    minHistoryMonths: 3,
+  },
+  {
+    type: 'exponential',
+    label: 'Exponential growth',
+    description: 'Assumes the same percentage growth every month',
+    defaultHistoryMonths: 24,
+    minHistoryMonths: 3,
+  },
+  {
+    type: 'seasonal',
+    label: 'Seasonal',
+    description: 'Trend adjusted by how each calendar month did in prior years',
+    defaultHistoryMonths: 36,
+    minHistoryMonths: 12,
+  },
+];
+
+export const FORECAST_METRICS: { metric: ForecastMetric; label: string }[] = [
+  { metric: 'bookings', label: 'Booked revenue' },
+  { metric: 'cash', label: 'Cash' },
+  { metric: 'closes', label: 'Closes' },
+];
+
+export interface HistoryPoint {
+  index: number; // monthToIndex value
+  value: number;
+}
+
+export interface PlanComparisonMonth {
+  month: number; // 1-12
+  projected: number;
+  plan: number | null; // Null without a plan to compare
+  difference: number | null; // projected - plan
+  actual: number | null; // Null for months that haven't started
+}
+
+/**
+ * A metric's value for display: closes as a count, revenue and cash in dollars
+ */
+export function formatMetricValue(metric: ForecastMetric, value: number): string {
+  return metric === 'closes'
+    ? Math.round(value).toLocaleString()
+    : (value / 100).toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+}
+
+/**
+ * Whether a model is fitted to history (as opposed to a hand-built plan)
+ */
+export function isFittedModel(model: Pick<ForecastModel, 'modelType'>): boolean {
+  return model.modelType !== 'forecast';
+}
+
+const fittedModelInfo = (type: FittedModelType) => FITTED_MODEL_TYPES.find(info => info.type === type)!;
+
+/**
+ * Monthly values of a metric over the complete months before now (oldest first)
+ * Months before the first with any value are left off, so a new account's empty months don't
+ * read as a flat start.
+ */
+export function forecastHistory(
+  metric: ForecastMetric,
+  data: FunnelScopeData,
+  historyMonths: number,
+  now: Date = new Date()
+): HistoryPoint[] {
+  const end = monthToIndex(now.getFullYear(), now.getMonth() + 1) - 1;
+  const range = { start: end - historyMonths + 1, end };
+  const points = buildFunnelMonths(ALL_FUNNELS, data, range, true).map(month => ({
+    index: monthToIndex(month.year, month.month),
+    value: month[metric] || 0,
+  }));
+  const first = points.findIndex(point => point.value > 0);
+  return first === -1 ? [] : points.slice(first);
+}
+
+/**
+ * Fit a model to history, or null when there's too little of it
+ */
+export function fitForecastModel(type: FittedModelType, history: HistoryPoint[], now: Date = new Date()): ForecastFit | null {
+  if (history.length < fittedModelInfo(type).minHistoryMonths) return null;
+
+  const originIndex = history[0].index;
+  const base = {
+    originIndex,
+    historyStart: originIndex,
+    historyEnd: history[history.length - 1].index,
+    fittedAt: now.toISOString(),
+  };
+  const ts = history.map(point => point.index - originIndex);
+  const values = history.map(point => point.value);
+
+  if (type === 'linear') {
+    const line = linearRegression(ts, values);
+    return line && { ...base, intercept: line.intercept, slope: line.slope, rSquared: line.rSquared };
+  }
+
+  if (type === 'exponential') {
+    const positive = history.filter(point => point.value > 0);
+    if (positive.length < fittedModelInfo(type).minHistoryMonths) return null;
+    const line = linearRegression(positive.map(point => point.index - originIndex), positive.map(point => Math.log(point.value)));
+    return line && { ...base, intercept: line.intercept, slope: line.slope, rSquared: line.rSquared };
+  }
+
+  // Seasonal: each calendar month's average ratio to the overall trend, then the trend refitted
+  // with those ratios taken out
+  const trend = linearRegression(ts, values);
+  if (!trend) return null;
+  const ratios: number[][] = Array.from({ length: 12 }, () => []);
+  history.forEach((point, i) => {
+    const expected = trend.intercept + trend.slope * ts[i];
+    if (expected > 0) ratios[indexToMonth(point.index).month - 1].push(point.value / expected);
+  });
+  const raw = ratios.map(monthRatios => (monthRatios.length > 0 ? mean(monthRatios) : 1));
+  const rawMean = mean(raw);
+  const seasonalIndexes = raw.map(ratio => (rawMean > 0 ? ratio / rawMean : 1));
+
+  const deseasonalized = history
+    .map((point, i) => ({ t: ts[i], value: point.value, seasonal: seasonalIndexes[indexToMonth(point.index).month - 1] }))
+    .filter(point => point.seasonal > 0);
+  const line = linearRegression(deseasonalized.map(point => point.t), deseasonalized.map(point => point.value / point.seasonal));
+  return line && { ...base, intercept: line.intercept, slope: line.slope, seasonalIndexes, rSquared: line.rSquared };
+}
+
+/**
+ * A fitted model's value for one month (never below zero)
+ */
+export function projectMonth(type: FittedModelType, fit: ForecastFit, index: number): number {
+  const t = index - fit.originIndex;
+  const trend = fit.intercept + fit.slope * t;
+  switch (type) {
+    case 'linear':
+      return Math.max(0, trend);
+    case 'exponential':
+      return Math.exp(trend);
+    case 'seasonal':
+      return Math.max(0, trend * (fit.seasonalIndexes?.[indexToMonth(index).month - 1] ?? 1));
+  }
+}
+
+/**
+ * A fitted model's twelve monthly values for its year, or null if it has no fit
+ */
+export function projectYear(model: Pick<ForecastModel, 'modelType' | 'year' | 'parameters'>): number[] | null {
+  const fit = model.parameters?.fit;
+  if (!isFittedModel(model) || !fit) return null;
+  return Array.from({ length: 12 }, (_, i) =>
+    projectMonth(model.modelType as FittedModelType, fit, monthToIndex(model.year, i + 1)));
+}
+
+/**
+ * Parameters for a fitted model, with the fit worked out from the current history
+ */
+export function fitModelParameters(
+  type: FittedModelType,
+  metric: ForecastMetric,
+  historyMonths: number,
+  year: number,
+  data: FunnelScopeData,
+  now: Date = new Date()
+): ForecastModelParameters {
+  return {
+    year,
+    serviceTypes: [],
+    metric,
+    historyMonths,
+    fit: fitForecastModel(type, forecastHistory(metric, data, historyMonths, now), now),
+  };
+}
+
+/**
+ * A plan's yearly target for a metric: planned quantity for closes, planned revenue otherwise
+ * Plans have no monthly split, so each month's share is a twelfth.
+ */
+export function planTarget(plan: ForecastModel, metric: ForecastMetric): number {
+  return plan.serviceTypes.reduce(
+    (sum, entry) => sum + (metric === 'closes' ? entry.quantity || 0 : entry.totalForecast || 0),
+    0
+  );
+}
+
+/**
+ * A fitted model's projection month by month, next to a hand-built plan and the actuals so far
+ */
+export function compareWithPlan(
+  model: ForecastModel,
+  plan: ForecastModel | null,
+  data: FunnelScopeData,
+  now: Date = new Date()
+): PlanComparisonMonth[] {
+  const projected = projectYear(model);
+  if (!projected) return [];
+
+  const metric = model.parameters?.metric || 'bookings';
+  const monthlyPlan = plan ? planTarget(plan, metric) / 12 : null;
+  const currentIndex = monthToIndex(now.getFullYear(), now.getMonth() + 1);
+  const actuals = buildFunnelMonths(
+    ALL_FUNNELS,
+    data,
+    { start: monthToIndex(model.year, 1), end: monthToIndex(model.year, 12) },
+    true
+  );
+
+  return projected.map((value, i) => ({
+    month: i + 1,
+    projected: value,
+    plan: monthlyPlan,
+    difference: monthlyPlan === null ? null : value - monthlyPlan,
+    actual: monthToIndex(model.year, i + 1) <= currentIndex ? actuals[i]?.[metric] || 0 : null,
+  }));
+}
@@ -0,0 +1,82 @@
+/**
+ * Forecast Scenarios
+ * Side-by-side comparison of up to three hand-built plans (e.g. conservative, expected and stretch),
+ * by service type and in total, each paced against this year's actual revenue the same way as the
+ * Forecast Tracker: percent of plan reached against percent of the year gone.
+ */
+
+import type { ForecastModel, ServiceType } from '../types';
+
+export const MAX_SCENARIOS = 3;
+
+export interface ScenarioCell {
+  forecast: number; // cents
+  remaining: number; // forecast - actual, cents
+  percentOfPlan: number | null; // Null without a forecast, or for a plan of another year
+  pacingDelta: number | null; // percentOfPlan - year progress, in points
+}
+
+export interface ScenarioRow {
+  serviceTypeId: string | null; // Null for the total row
+  name: string;
+  actual: number; // This year's revenue, cents
+  cells: ScenarioCell[]; // One per scenario, in order
+}
+
+export interface ScenarioComparison {
+  rows: ScenarioRow[];
+  total: ScenarioRow;
+}
+
+const cell = (forecast: number, actual: number, yearProgress: number, isCurrentYear: boolean): ScenarioCell => {
+  const percentOfPlan = isCurrentYear && forecast > 0 ? Math.round((actual / forecast) * 100) : null;
+  return {
+    forecast,
+    remaining: forecast - actual,
+    percentOfPlan,
+    pacingDelta: percentOfPlan === null ? null : percentOfPlan - yearProgress,
+  };
+};
+
+/**
+ * Compare plans by service type and in total against actual revenue by service type
+ * Service types appear in the order the plans list them; one missing from a plan counts as zero there.
+ */
+export function compareScenarios(
+  scenarios: ForecastModel[],
+  actualByServiceType: Record<string, number>,
+  serviceTypes: ServiceType[],
+  yearProgress: number,
+  currentYear: number = new Date().getFullYear()
+): ScenarioComparison {
+  const ids = [...new Set(scenarios.flatMap(scenario => scenario.serviceTypes.map(entry => entry.serviceTypeId)))];
+  const forecastFor = (scenario: ForecastModel, serviceTypeId: string) =>
+    scenario.serviceTypes.find(entry => entry.serviceTypeId === serviceTypeId)?.totalForecast || 0;
+
+  const rows = ids.map(serviceTypeId => {
+    const actual = actualByServiceType[serviceTypeId] || 0;
+    return {
+      serviceTypeId,
+      name: serviceTypes.find(st => st.id === serviceTypeId)?.name || 'Unknown',
+      actual,
+      cells: scenarios.map(scenario =>
+        cell(forecastFor(scenario, serviceTypeId), actual, yearProgress, scenario.year === currentYear)),
+    };
+  });
+
+  const totalActual = ids.reduce((sum, id) => sum + (actualByServiceType[id] || 0), 0);
+  return {
+    rows,
+    total: {
+      serviceTypeId: null,
+      name: 'Total',
+      actual: totalActual,
+      cells: scenarios.map(scenario => cell(
+        scenario.serviceTypes.reduce((sum, entry) => sum + (entry.totalForecast || 0), 0),
+        totalActual,
+        yearProgress,
+        scenario.year === currentYear
+      )),
+    },
+  };
+}
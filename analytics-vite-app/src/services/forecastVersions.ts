@@ -0,0 +1,114 @@
+/**
+ * Forecast Model Versions
+ * Compares two saved versions of a forecast model: the settings that changed and, for hand-built
+ * plans, each service type's quantity, average booking and forecast.
+ */
+
+import { FITTED_MODEL_TYPES, FORECAST_METRICS, formatMetricValue, isFittedModel, projectYear } from './forecastModels';
+import { indexToMonth, MONTH_NAMES } from './insightsMetrics';
+import type { ForecastModel, ForecastModelVersion, ServiceType } from '../types';
+
+type PlanEntry = ForecastModel['serviceTypes'][number];
+
+export interface VersionFieldChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface ServiceTypeVersionChange {
+  serviceTypeId: string;
+  name: string;
+  change: 'added' | 'removed' | 'changed';
+  before: PlanEntry | null;
+  after: PlanEntry | null;
+}
+
+export interface VersionDiff {
+  fields: VersionFieldChange[];
+  serviceTypes: ServiceTypeVersionChange[];
+  totalBefore: number;
+  totalAfter: number;
+}
+
+const typeLabel = (version: ForecastModelVersion) => version.modelType === 'forecast'
+  ? 'Hand-built plan'
+  : FITTED_MODEL_TYPES.find(info => info.type === version.modelType)?.label || version.modelType;
+
+const metricLabel = (version: ForecastModelVersion) =>
+  FORECAST_METRICS.find(option => option.metric === version.parameters.metric)?.label || '—';
+
+const fitWindow = (version: ForecastModelVersion) => {
+  const fit = version.parameters.fit;
+  if (!fit) return 'Not fitted';
+  const start = indexToMonth(fit.historyStart);
+  const end = indexToMonth(fit.historyEnd);
+  return `${MONTH_NAMES[start.month - 1]} ${start.year} – ${MONTH_NAMES[end.month - 1]} ${end.year}`;
+};
+
+/**
+ * A version's projected total for its year: forecast revenue for plans, the projection for fitted models
+ */
+export function versionTotal(version: ForecastModelVersion): number {
+  if (isFittedModel(version)) {
+    return (projectYear(version) || []).reduce((sum, value) => sum + value, 0);
+  }
+  return version.serviceTypes.reduce((sum, entry) => sum + (entry.totalForecast || 0), 0);
+}
+
+/**
+ * Format a version's total the way its model measures it
+ */
+export function formatVersionTotal(version: ForecastModelVersion, value: number = versionTotal(version)): string {
+  return formatMetricValue(isFittedModel(version) ? version.parameters.metric || 'bookings' : 'bookings', value);
+}
+
+/**
+ * What changed from one version to another
+ */
+export function diffVersions(
+  before: ForecastModelVersion,
+  after: ForecastModelVersion,
+  serviceTypes: ServiceType[]
+): VersionDiff {
+  const fields: VersionFieldChange[] = [];
+  const compare = (label: string, format: (version: ForecastModelVersion) => string) => {
+    const a = format(before);
+    const b = format(after);
+    if (a !== b) fields.push({ label, before: a, after: b });
+  };
+  compare('Name', version => version.name);
+  compare('Type', typeLabel);
+  compare('Year', version => String(version.year));
+  if (isFittedModel(before) || isFittedModel(after)) {
+    compare('Forecast', metricLabel);
+    compare('History', version => version.parameters.historyMonths ? `${version.parameters.historyMonths} months` : '—');
+    compare('Fitted to', fitWindow);
+  }
+
+  const beforeEntries = new Map(before.serviceTypes.map(entry => [entry.serviceTypeId, entry]));
+  const afterEntries = new Map(after.serviceTypes.map(entry => [entry.serviceTypeId, entry]));
+  const ids = [...new Set([...beforeEntries.keys(), ...afterEntries.keys()])];
+  const changes = ids.flatMap((serviceTypeId): ServiceTypeVersionChange[] => {
+    const a = beforeEntries.get(serviceTypeId) || null;
+    const b = afterEntries.get(serviceTypeId) || null;
+    const change = !a ? 'added' : !b ? 'removed'
+      : a.quantity !== b.quantity || a.avgBooking !== b.avgBooking || a.totalForecast !== b.totalForecast ? 'changed'
+      : null;
+    if (!change) return [];
+    return [{
+      serviceTypeId,
+      name: serviceTypes.find(st => st.id === serviceTypeId)?.name || 'Unknown',
+      change,
+      before: a,
+      after: b,
+    }];
+  });
+
+  return {
+    fields,
+    serviceTypes: changes,
+    totalBefore: versionTotal(before),
+    totalAfter: versionTotal(after),
+  };
+}
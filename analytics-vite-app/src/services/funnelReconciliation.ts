@@ -0,0 +1,99 @@
+/**
+ * Funnel Reconciliation
+ * Finds funnel months where a manual closes, bookings or cash value differs from what the
+ * bookings and payments compute, with the bookings and payments behind the calculated figure.
+ * Each difference can be reverted to the calculated value or kept with a reason; a kept override
+ * counts as reviewed only while its manual value is still the one that was kept.
+ */
+
+import { ALL_FUNNELS, buildFunnelMonths, funnelIdOfMonth, scopeToFunnel, type FunnelScopeData } from './funnelScope';
+import { monthToIndex, isDateInRange, paymentCashDate } from './insightsMetrics';
+import type { Booking, FunnelData, ManualFunnelField, Payment } from '../types';
+
+export const MANUAL_FUNNEL_FIELDS: { field: ManualFunnelField; label: string; manualFlag: 'closesManual' | 'bookingsManual' | 'cashManual' }[] = [
+  { field: 'closes', label: 'Closes', manualFlag: 'closesManual' },
+  { field: 'bookings', label: 'Bookings', manualFlag: 'bookingsManual' },
+  { field: 'cash', label: 'Cash', manualFlag: 'cashManual' },
+];
+
+export interface ReconciliationItem {
+  key: string; // Month row ID and field
+  month: FunnelData;
+  funnelName?: string; // Set when the account has several funnels
+  field: ManualFunnelField;
+  label: string;
+  manual: number; // Count for closes, cents for bookings and cash
+  calculated: number;
+  difference: number; // manual - calculated
+  bookings: Booking[]; // Booked in the month (closes: tracked service types only)
+  payments: Payment[]; // Counted toward the month's cash (cash only)
+  keptReason: string | null; // Reason the current manual value was kept
+}
+
+/**
+ * Every manual override that differs from its calculated value, newest month first
+ */
+export function findManualOverrideDifferences(data: FunnelScopeData): ReconciliationItem[] {
+  const items: ReconciliationItem[] = [];
+
+  data.funnelData
+    .filter(month => month.year > 0 && MANUAL_FUNNEL_FIELDS.some(({ manualFlag }) => month[manualFlag]))
+    .forEach(month => {
+      // With one funnel every booking counts toward it, as on the Funnel page
+      const funnelId = funnelIdOfMonth(month, data.funnels);
+      const selection = data.funnels.length <= 1 || !funnelId ? ALL_FUNNELS : funnelId;
+      const range = { start: monthToIndex(month.year, month.month), end: monthToIndex(month.year, month.month) };
+      const [calculated] = buildFunnelMonths(selection, { ...data, funnelData: [] }, range, true);
+      const scope = scopeToFunnel(selection, data);
+      const trackableServiceIds = new Set(scope.serviceTypes.filter(st => st.tracksInFunnel).map(st => st.id));
+      const bookedInMonth = scope.bookings.filter(b => isDateInRange(b.dateBooked, range));
+
+      MANUAL_FUNNEL_FIELDS.forEach(({ field, label, manualFlag }) => {
+        if (!month[manualFlag]) return;
+        const manual = month[field] || 0;
+        const calculatedValue = calculated?.[field] || 0;
+        if (manual === calculatedValue) return;
+
+        const kept = month.overrideReasons?.[field];
+        items.push({
+          key: `${month.id}_${field}`,
+          month,
+          funnelName: data.funnels.length > 1 ? data.funnels.find(f => f.id === funnelId)?.name : undefined,
+          field,
+          label,
+          manual,
+          calculated: calculatedValue,
+          difference: manual - calculatedValue,
+          bookings: field === 'closes'
+            ? bookedInMonth.filter(b => trackableServiceIds.has(b.serviceTypeId))
+            : field === 'bookings' ? bookedInMonth : [],
+          payments: field === 'cash' ? scope.payments.filter(p => isDateInRange(paymentCashDate(p), range)) : [],
+          keptReason: kept && kept.value === manual ? kept.reason : null,
+        });
+      });
+    });
+
+  return items.sort((a, b) =>
+    monthToIndex(b.month.year, b.month.month) - monthToIndex(a.month.year, a.month.month) ||
+    MANUAL_FUNNEL_FIELDS.findIndex(f => f.field === a.field) - MANUAL_FUNNEL_FIELDS.findIndex(f => f.field === b.field));
+}
+
+/**
+ * The month with a field switched back to its calculated value
+ */
+export function revertToCalculated(item: ReconciliationItem): FunnelData {
+  const manualFlag = MANUAL_FUNNEL_FIELDS.find(f => f.field === item.field)!.manualFlag;
+  const overrideReasons = { ...item.month.overrideReasons };
+  delete overrideReasons[item.field];
+  return { ...item.month, [item.field]: item.calculated, [manualFlag]: false, overrideReasons };
+}
+
+/**
+ * The month with a field's manual value kept, and why
+ */
+export function keepManualValue(item: ReconciliationItem, reason: string): FunnelData {
+  return {
+    ...item.month,
+    overrideReasons: { ...item.month.overrideReasons, [item.field]: { reason: reason.trim(), value: item.manual } },
+  };
+}
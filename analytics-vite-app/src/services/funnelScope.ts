@@ -0,0 +1,157 @@
+/**
+ * Funnel Scope
+ * Narrows funnel months, bookings and payments to one named funnel, or rolls every funnel up into
+ * "All funnels". A funnel is fed by the tracked service types assigned to it; months and tracked
+ * service types without a funnel belong to the account's first funnel.
+ *
+ * "All funnels" gives the same figures as before named funnels existed: bookings and cash count
+ * every booking and payment, closes count tracked service types, and inquiries, calls and custom
+ * stage counts are summed across funnels.
+ */
+
+import {
+  type MonthRange,
+  type SalesFunnelMonth,
+  indexToMonth,
+  monthToIndex,
+  isMonthInRange,
+  buildSalesFunnelMonths,
+} from './insightsMetrics';
+import { sumStageCounts } from './funnelStages';
+import type { FunnelData, FunnelDefinition, Booking, Payment, ServiceType } from '../types';
+
+export const ALL_FUNNELS = 'all';
+
+// ALL_FUNNELS or a funnel ID
+export type FunnelSelection = string;
+
+export interface FunnelScopeData {
+  funnels: FunnelDefinition[];
+  funnelData: FunnelData[];
+  bookings: Booking[];
+  payments: Payment[];
+  serviceTypes: ServiceType[];
+}
+
+export type FunnelScope = Omit<FunnelScopeData, 'funnels'>;
+
+/**
+ * Funnels that can be picked in a selector (not archived)
+ */
+export function activeFunnels(funnels: FunnelDefinition[]): FunnelDefinition[] {
+  return funnels.filter(funnel => !funnel.archivedAt);
+}
+
+/**
+ * Funnel a month belongs to
+ */
+export function funnelIdOfMonth(month: Pick<FunnelData, 'funnelId'>, funnels: FunnelDefinition[]): string | undefined {
+  return month.funnelId || funnels[0]?.id;
+}
+
+/**
+ * Funnel a service type feeds, or null if it isn't tracked in the funnel
+ */
+export function funnelIdOfServiceType(serviceType: ServiceType, funnels: FunnelDefinition[]): string | null {
+  if (!serviceType.tracksInFunnel) return null;
+  return serviceType.funnelId || funnels[0]?.id || null;
+}
+
+/**
+ * The months, service types, bookings and payments that belong to a selection
+ * "All funnels" returns everything unchanged.
+ */
+export function scopeToFunnel(selection: FunnelSelection, data: FunnelScopeData): FunnelScope {
+  if (selection === ALL_FUNNELS) {
+    return { funnelData: data.funnelData, bookings: data.bookings, payments: data.payments, serviceTypes: data.serviceTypes };
+  }
+
+  const serviceTypes = data.serviceTypes.filter(st => funnelIdOfServiceType(st, data.funnels) === selection);
+  const serviceTypeIds = new Set(serviceTypes.map(st => st.id));
+  const bookings = data.bookings.filter(b => serviceTypeIds.has(b.serviceTypeId));
+  const bookingIds = new Set(bookings.map(b => b.id));
+
+  return {
+    funnelData: data.funnelData.filter(month => funnelIdOfMonth(month, data.funnels) === selection),
+    bookings,
+    payments: data.payments.filter(p => bookingIds.has(p.bookingId)),
+    serviceTypes,
+  };
+}
+
+/**
+ * Funnel months for a selection, with closes, bookings and cash resolved (see buildSalesFunnelMonths)
+ * With several funnels, "All funnels" adds up each funnel's months (so each funnel's manual
+ * overrides count) plus the bookings and cash of service types that feed no funnel.
+ */
+export function buildFunnelMonths(
+  selection: FunnelSelection,
+  data: FunnelScopeData,
+  range: MonthRange,
+  fillRange: boolean
+): SalesFunnelMonth[] {
+  if (selection !== ALL_FUNNELS || data.funnels.length <= 1) {
+    const scope = scopeToFunnel(selection, data);
+    return buildSalesFunnelMonths(scope.funnelData, scope.bookings, scope.payments, scope.serviceTypes, range, fillRange);
+  }
+
+  const perFunnel = data.funnels.map(funnel => ({
+    funnel,
+    months: buildFunnelMonths(funnel.id, data, range, true),
+  }));
+
+  // Bookings (and their payments) that no funnel picks up
+  const assignedServiceTypeIds = new Set(
+    data.serviceTypes.filter(st => funnelIdOfServiceType(st, data.funnels) !== null).map(st => st.id)
+  );
+  const unassignedBookings = data.bookings.filter(b => !assignedServiceTypeIds.has(b.serviceTypeId));
+  const assignedBookingIds = new Set(data.bookings.filter(b => assignedServiceTypeIds.has(b.serviceTypeId)).map(b => b.id));
+  const unassigned = buildSalesFunnelMonths(
+    [],
+    unassignedBookings,
+    data.payments.filter(p => !assignedBookingIds.has(p.bookingId)),
+    [],
+    range,
+    true
+  );
+
+  const months: SalesFunnelMonth[] = [];
+  for (let idx = range.start; idx <= range.end; idx++) {
+    const { year, month } = indexToMonth(idx);
+    const i = idx - range.start;
+    const parts = [...perFunnel.map(({ months: funnelMonths }) => funnelMonths[i]), unassigned[i]];
+    const notes = perFunnel
+      .filter(({ months: funnelMonths }) => funnelMonths[i].notes)
+      .map(({ funnel, months: funnelMonths }) => `${funnel.name}: ${funnelMonths[i].notes}`);
+    const sum = (field: 'inquiries' | 'callsBooked' | 'callsTaken' | 'closes' | 'bookings' | 'cash') =>
+      parts.reduce((total, part) => total + (part[field] || 0), 0);
+
+    months.push({
+      id: `${ALL_FUNNELS}_${year}_${month}`,
+      year,
+      month,
+      inquiries: sum('inquiries'),
+      callsBooked: sum('callsBooked'),
+      callsTaken: sum('callsTaken'),
+      closes: sum('closes'),
+      bookings: sum('bookings'),
+      cash: sum('cash'),
+      closesManual: parts.some(part => part.closesManual),
+      bookingsManual: parts.some(part => part.bookingsManual),
+      cashManual: parts.some(part => part.cashManual),
+      notes: notes.join('\n\n'),
+      stageCounts: sumStageCounts(parts.map(part => part.stageCounts)),
+      lastUpdated: parts.map(part => part.lastUpdated || '').sort().pop(),
+    });
+  }
+
+  if (fillRange) return months;
+
+  // Without fillRange, only months some funnel has a row for
+  const monthsWithRows = new Set(
+    data.funnelData
+      .filter(month => isMonthInRange(month.year, month.month, range))
+      .map(month => monthToIndex(month.year, month.month))
+  );
+  return months.filter(month => monthsWithRows.has(monthToIndex(month.year, month.month)));
+}
@@ -0,0 +1,126 @@
+/**
+ * Funnel Stages
+ * The account's ordered funnel stages and the math over them: per-stage totals, stage-to-stage
+ * conversion rates, and the activity each stage needs for a bookings goal. Stages with a built-in
+ * source read the original columns (inquiries, calls booked, calls taken, closes); custom stages
+ * read FunnelData.stageCounts. Accounts that never set up stages get the default template.
+ */
+
+import type { CalculatorGoals, FunnelData, FunnelStage } from '../types';
+
+export const DEFAULT_FUNNEL_STAGES: FunnelStage[] = [
+  { id: 'default_inquiries', name: 'Inquiries', source: 'inquiries', sortOrder: 0 },
+  { id: 'default_callsBooked', name: 'Calls Booked', source: 'callsBooked', sortOrder: 1 },
+  { id: 'default_callsTaken', name: 'Calls Taken', source: 'callsTaken', sortOrder: 2 },
+  { id: 'default_closes', name: 'Closes', source: 'closes', sortOrder: 3 },
+];
+
+const CLOSES_STAGE = DEFAULT_FUNNEL_STAGES[DEFAULT_FUNNEL_STAGES.length - 1];
+
+// Anything a stage can be counted on: funnel months, their resolved SalesFunnelMonth form, weeks' totals
+export type StageCountSource = Partial<Pick<FunnelData, 'inquiries' | 'callsBooked' | 'callsTaken' | 'closes' | 'stageCounts'>>;
+
+export interface StageConversion {
+  from: FunnelStage;
+  to: FunnelStage;
+  rate: number | null; // Percent of "from" that reached "to"; null when "from" has nothing
+}
+
+/**
+ * The account's stages in funnel order, closes last
+ * Falls back to the default template when the account has none saved.
+ */
+export function orderedStages(stages: FunnelStage[]): FunnelStage[] {
+  if (stages.length === 0) return DEFAULT_FUNNEL_STAGES;
+  const sorted = [...stages].sort((a, b) => a.sortOrder - b.sortOrder);
+  const closes = sorted.find(stage => stage.source === 'closes') || CLOSES_STAGE;
+  return [...sorted.filter(stage => stage.source !== 'closes'), closes];
+}
+
+/**
+ * Key a stage's calculator rate is saved under
+ * Built-in stages use their source, so rates survive the default template being saved as real rows.
+ */
+export function stageKey(stage: FunnelStage): string {
+  return stage.source === 'custom' ? stage.id : stage.source;
+}
+
+/**
+ * A stage's count in one month (or week)
+ */
+export function stageCount(counts: StageCountSource, stage: FunnelStage): number {
+  if (stage.source === 'custom') return counts.stageCounts?.[stage.id] || 0;
+  return counts[stage.source] || 0;
+}
+
+/**
+ * Each stage's total over a set of months, in stage order
+ */
+export function stageTotals(stages: FunnelStage[], months: StageCountSource[]): number[] {
+  return stages.map(stage => months.reduce((sum, month) => sum + stageCount(month, stage), 0));
+}
+
+/**
+ * Add custom stage counts together (for rolling several funnels' months into one)
+ */
+export function sumStageCounts(counts: (Record<string, number> | undefined)[]): Record<string, number> {
+  const sum: Record<string, number> = {};
+  counts.forEach(entry => {
+    Object.entries(entry || {}).forEach(([stageId, count]) => {
+      sum[stageId] = (sum[stageId] || 0) + (count || 0);
+    });
+  });
+  return sum;
+}
+
+/**
+ * Conversion from each stage to the next, given the stages' totals
+ */
+export function stageConversions(stages: FunnelStage[], totals: number[]): StageConversion[] {
+  return stages.slice(0, -1).map((from, index) => ({
+    from,
+    to: stages[index + 1],
+    rate: totals[index] > 0 ? (totals[index + 1] / totals[index]) * 100 : null,
+  }));
+}
+
+/**
+ * Calculator goal saved before stages existed that measured the step from one stage to the next:
+ * inquiry-to-call for Inquiries → Calls Booked and call-to-booking for Calls Taken → Closes
+ * Any other step (e.g. Inquiries → a custom stage) has no legacy goal.
+ */
+export function legacyGoalRate(from: FunnelStage, to: FunnelStage): 'inquiryToCall' | 'callToBooking' | null {
+  if (from.source === 'inquiries' && to.source === 'callsBooked') return 'inquiryToCall';
+  if (from.source === 'callsTaken' && to.source === 'closes') return 'callToBooking';
+  return null;
+}
+
+/**
+ * Calculator goal rate (percent) from each stage to the next
+ * Rates saved before stages existed carry over for the steps they measured (see legacyGoalRate),
+ * and Calls Booked → Calls Taken assumes every booked call is taken.
+ */
+export function stageGoalRates(stages: FunnelStage[], goals: CalculatorGoals): number[] {
+  return stages.slice(0, -1).map((stage, index) => {
+    const saved = goals.stageRates?.[stageKey(stage)];
+    if (saved !== undefined) return saved;
+    const next = stages[index + 1];
+    const legacy = legacyGoalRate(stage, next);
+    if (legacy) return goals[legacy] || 0;
+    return stage.source === 'callsBooked' && next.source === 'callsTaken' ? 100 : 0;
+  });
+}
+
+/**
+ * Activity each stage needs for the last stage to reach the goal, working back through the
+ * stage-to-stage rates (percent, one fewer than the stages). A stage whose rate onward is 0 needs 0.
+ */
+export function requiredStageActivity(rates: number[], goal: number): number[] {
+  const required = new Array<number>(rates.length + 1).fill(0);
+  required[rates.length] = goal;
+  for (let index = rates.length - 1; index >= 0; index--) {
+    const rate = rates[index] / 100;
+    required[index] = rate > 0 && required[index + 1] > 0 ? required[index + 1] / rate : 0;
+  }
+  return required;
+}
@@ -0,0 +1,180 @@
+/**
+ * Funnel Weeks
+ * Week-by-week view of the funnel: optional ISO-week rows hold inquiries and calls, and closes,
+ * bookings and cash are bucketed by the ISO week of each booking and payment date (same rules as
+ * the monthly figures). Weeks roll up into the month their Thursday falls in: once a month has
+ * weekly rows, its inquiries and calls are their sum.
+ * Closes, bookings and cash are clipped to that month: a date in the days a boundary week spills
+ * into the next or previous month is counted in the neighbouring week of its own month, so a
+ * month's weeks add up to its monthly figures.
+ */
+
+import { ALL_FUNNELS, scopeToFunnel, type FunnelScopeData, type FunnelSelection } from './funnelScope';
+import { isoWeekOf, isoWeekStart, isoWeekEnd, isoWeekMonth, isoWeeksInYear, formatIsoWeek, type IsoWeek } from '../utils/isoWeek';
+import type { FunnelData, FunnelDefinition, FunnelWeek } from '../types';
+
+export interface SalesFunnelWeek {
+  id: string;
+  year: number; // ISO week-numbering year
+  week: number;
+  month: number; // Month of the year the week rolls up into
+  startDate: string; // Monday, YYYY-MM-DD
+  endDate: string; // Sunday
+  inquiries: number;
+  callsBooked: number;
+  callsTaken: number;
+  closes: number;
+  bookings: number; // cents
+  cash: number; // cents
+  notes: string;
+  hasRow: boolean; // Whether inquiries and calls were entered for the week
+}
+
+export type FunnelWeekTotals = Pick<FunnelWeek, 'inquiries' | 'callsBooked' | 'callsTaken'>;
+
+const weekKey = (year: number, week: number) => `${year}-${week}`;
+
+/**
+ * Week a booking or payment date counts toward: its ISO week, or the neighbouring week when its
+ * ISO week rolls up into a different month than the date's own
+ */
+function clippedWeekOf(date: string | undefined): IsoWeek | null {
+  const isoWeek = isoWeekOf(date);
+  if (!date || !isoWeek) return null;
+
+  const rollsInto = isoWeekMonth(isoWeek.year, isoWeek.week);
+  const monthsApart = (parseInt(date.slice(0, 4), 10) - rollsInto.year) * 12 + parseInt(date.slice(5, 7), 10) - rollsInto.month;
+  if (monthsApart > 0) {
+    return isoWeek.week < isoWeeksInYear(isoWeek.year) ? { year: isoWeek.year, week: isoWeek.week + 1 } : { year: isoWeek.year + 1, week: 1 };
+  }
+  if (monthsApart < 0) {
+    return isoWeek.week > 1 ? { year: isoWeek.year, week: isoWeek.week - 1 } : { year: isoWeek.year - 1, week: isoWeeksInYear(isoWeek.year - 1) };
+  }
+  return isoWeek;
+}
+
+/**
+ * Funnel a weekly row belongs to
+ */
+export function funnelIdOfWeek(week: Pick<FunnelWeek, 'funnelId'>, funnels: FunnelDefinition[]): string | undefined {
+  return week.funnelId || funnels[0]?.id;
+}
+
+/**
+ * Every ISO week of a year for a funnel selection ("All funnels" adds the funnels' weeks together)
+ * Bookings and payments whose date has no day (YYYY-MM) can't be placed in a week and are left out.
+ */
+export function buildFunnelWeeks(
+  selection: FunnelSelection,
+  data: FunnelScopeData & { funnelWeeks: FunnelWeek[] },
+  year: number
+): SalesFunnelWeek[] {
+  const scope = scopeToFunnel(selection, data);
+  const rows = selection === ALL_FUNNELS
+    ? data.funnelWeeks
+    : data.funnelWeeks.filter(week => funnelIdOfWeek(week, data.funnels) === selection);
+  const trackableServiceIds = new Set(scope.serviceTypes.filter(st => st.tracksInFunnel).map(st => st.id));
+
+  const weeks = new Map<string, SalesFunnelWeek>();
+  for (let week = 1; week <= isoWeeksInYear(year); week++) {
+    weeks.set(weekKey(year, week), {
+      id: formatIsoWeek(year, week),
+      year,
+      week,
+      month: isoWeekMonth(year, week).month,
+      startDate: isoWeekStart(year, week),
+      endDate: isoWeekEnd(year, week),
+      inquiries: 0,
+      callsBooked: 0,
+      callsTaken: 0,
+      closes: 0,
+      bookings: 0,
+      cash: 0,
+      notes: '',
+      hasRow: false,
+    });
+  }
+  const weekOf = (date: string | undefined) => {
+    const isoWeek = clippedWeekOf(date);
+    return isoWeek ? weeks.get(weekKey(isoWeek.year, isoWeek.week)) : undefined;
+  };
+
+  rows.forEach(row => {
+    const entry = weeks.get(weekKey(row.year, row.week));
+    if (!entry) return;
+    entry.inquiries += row.inquiries || 0;
+    entry.callsBooked += row.callsBooked || 0;
+    entry.callsTaken += row.callsTaken || 0;
+    if (row.notes) {
+      const funnelName = selection === ALL_FUNNELS && data.funnels.length > 1
+        ? data.funnels.find(funnel => funnel.id === funnelIdOfWeek(row, data.funnels))?.name
+        : undefined;
+      const note = funnelName ? `${funnelName}: ${row.notes}` : row.notes;
+      entry.notes = entry.notes ? `${entry.notes}\n\n${note}` : note;
+    }
+    entry.hasRow = true;
+  });
+
+  // Bookings: every booking; closes: tracked service types only
+  scope.bookings.forEach(booking => {
+    const entry = weekOf(booking.dateBooked);
+    if (!entry) return;
+    entry.bookings += booking.bookedRevenue || 0;
+    if (trackableServiceIds.has(booking.serviceTypeId)) entry.closes += 1;
+  });
+
+  // Cash comes from scheduled/expected payments
+  scope.payments.forEach(payment => {
+    const entry = weekOf(payment.expectedDate || payment.dueDate || payment.paymentDate);
+    if (!entry) return;
+    entry.cash += payment.amount || payment.amountCents || 0;
+  });
+
+  return Array.from(weeks.values());
+}
+
+/**
+ * Sum of one funnel's weekly rows that roll up into a month, or null if the month has none
+ */
+export function rollUpFunnelWeeks(weeks: FunnelWeek[], year: number, month: number): FunnelWeekTotals | null {
+  const inMonth = weeks.filter(week => {
+    const rollsInto = isoWeekMonth(week.year, week.week);
+    return rollsInto.year === year && rollsInto.month === month;
+  });
+  if (inMonth.length === 0) return null;
+
+  return inMonth.reduce((totals, week) => ({
+    inquiries: totals.inquiries + (week.inquiries || 0),
+    callsBooked: totals.callsBooked + (week.callsBooked || 0),
+    callsTaken: totals.callsTaken + (week.callsTaken || 0),
+  }), { inquiries: 0, callsBooked: 0, callsTaken: 0 });
+}
+
+/**
+ * A month with nothing entered yet
+ */
+export function emptyFunnelMonth(year: number, month: number, funnelId?: string): FunnelData {
+  return {
+    id: `temp_${year}_${month}`,
+    funnelId,
+    name: 'Default',
+    year,
+    month,
+    inquiries: 0,
+    inquiriesYtd: 0,
+    callsBooked: 0,
+    callsTaken: 0,
+    callsYtd: 0,
+    inquiryToCall: 0,
+    callToBooking: 0,
+    closes: 0,
+    bookings: 0,
+    bookingsYtd: 0,
+    bookingsGoal: 0,
+    cash: 0,
+    notes: undefined,
+    closesManual: false,
+    bookingsManual: false,
+    cashManual: false
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Honeybook Payments CSV Importer
+ * Maps the Honeybook Payments (invoices) report to payment schedules on existing bookings
+ */
+
+import { parseDate, parseCents } from '../utils/csvParser';
+import type { CRMImporter } from '../types/import';
+
+const PAID_STATUSES = ['paid', 'completed', 'complete', 'paid manually'];
+
+/**
+ * Honeybook Payments report
+ * Columns: Payment #, Project Name, Client Name, Payment Amount, Due Date, Paid Date,
+ *          Payment Status, Payment Method
+ *
+ * One row per scheduled payment. Payments are matched to bookings by project name when the import
+ * is applied (see services/importPreview), so import the Booked Client report first.
+ * Rows with a Paid Date (or a Paid status) are paid; the rest are expected on their due date.
+ * Does not touch funnel counts - Cash is calculated from payments.
+ */
+export const honeybookPaymentsImporter: CRMImporter = {
+  id: 'honeybook-payments',
+  crm: 'honeybook',
+  crmName: 'Honeybook',
+  name: 'Honeybook Payments report',
+  description: 'Adds paid and upcoming payments to your existing sales records, matched by project name.',
+  signature: ['payment amount', 'due date', 'paid date', 'payment status'],
+  columns: {
+    externalId: ['payment #', 'payment id', 'invoice #', 'invoice number'],
+    projectName: ['project name', 'project'],
+    amount: ['payment amount', 'amount', 'total'],
+    dueDate: ['due date', 'payment due date', 'scheduled date'],
+    paidDate: ['paid date', 'date paid', 'paid on'],
+    status: ['payment status', 'status'],
+    paymentMethod: ['payment method', 'method'],
+  },
+  createsBookings: false,
+  mapRow: (row, columns, rowNumber, context) => {
+    const projectName = columns.projectName ? row[columns.projectName]?.trim() : '';
+    if (!projectName) {
+      context.skip(rowNumber, 'Skipping row with no project name');
+      return;
+    }
+
+    const amount = columns.amount ? parseCents(row[columns.amount], context.decimalSeparator) || 0 : 0;
+    if (amount <= 0) {
+      context.skip(rowNumber, `No payment amount for "${projectName}", skipping`);
+      return;
+    }
+
+    const status = columns.status ? (row[columns.status] || '').trim().toLowerCase() : '';
+    const dueDate = columns.dueDate && row[columns.dueDate]?.trim()
+      ? parseDate(row[columns.dueDate], context.dateFormats.dueDate)
+      : null;
+    const paidDate = columns.paidDate && row[columns.paidDate]?.trim()
+      ? parseDate(row[columns.paidDate], context.dateFormats.paidDate)
+      : null;
+
+    // Paid without a paid date (e.g. marked paid manually): count it on the due date
+    const paidOn = paidDate || (PAID_STATUSES.includes(status) ? dueDate : null);
+    const scheduledOn = paidOn || dueDate;
+    if (!scheduledOn) {
+      context.skip(rowNumber, `Payment for "${projectName}" has no due or paid date, skipping`);
+      return;
+    }
+
+    // Payment # when the report has it, else project name + due date + amount
+    const externalId = context.externalId(
+      columns.externalId ? row[columns.externalId] : null,
+      projectName,
+      `${dueDate || scheduledOn}|${amount}`
+    );
+    if (context.seen.has(externalId)) {
+      context.skip(rowNumber, `Payment for "${projectName}" appears more than once in this file, skipping`);
+      return;
+    }
+    context.seen.add(externalId);
+
+    context.result.payments.push({
+      projectName,
+      rowNumber,
+      amount,
+      amountCents: amount,
+      paymentDate: scheduledOn,
+      dueDate: dueDate || scheduledOn,
+      expectedDate: scheduledOn, // Cash is counted in this month
+      paidAt: paidOn,
+      isExpected: !paidOn,
+      status: paidOn ? 'completed' : 'pending',
+      paymentMethod: columns.paymentMethod ? row[columns.paymentMethod]?.trim() || undefined : undefined,
+      memo: '',
+      sourceSystem: 'honeybook',
+      externalId,
+    });
+  },
+};
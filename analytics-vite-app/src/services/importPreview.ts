@@ -0,0 +1,403 @@
+/**
+ * Import Preview
+ * Dry run of an ImportResult against the user's existing bookings and funnel data.
+ * The import handlers apply the same classification, so the preview is exactly what gets written.
+ */
+
+import { toUSD } from '../utils/formatters';
+import { funnelIdOfMonth, funnelIdOfServiceType } from './funnelScope';
+import type { Booking, Payment, FunnelData, FunnelDefinition, ServiceType } from '../types';
+import type {
+  ImportResult,
+  ImportedPayment,
+  ImportPreview,
+  ImportPreviewRow,
+  ImportFunnelMonthChange,
+  ImportRowStatus,
+  ImportBatchBookingValues,
+  ImportBatchPaymentValues,
+} from '../types/import';
+
+const bookingAmount = (booking: Booking) => booking.bookedRevenue ?? booking.revenue ?? 0;
+
+/**
+ * Match key for a booking: project name + booked date (null when either is missing)
+ */
+function bookingKey(booking: Booking): string | null {
+  if (!booking.projectName || !booking.dateBooked) return null;
+  return `${booking.projectName.toLowerCase().trim()}-${booking.dateBooked}`;
+}
+
+/**
+ * Merge an imported funnel month into the existing row
+ * Imported counts replace existing ones only when non-zero, so a Leads report (inquiries)
+ * and a Booked Client report (closes/bookings) can be imported one after the other
+ */
+export function mergeImportedFunnelMonth(existing: FunnelData | undefined, imported: FunnelData): FunnelData {
+  if (!existing) return imported;
+  return {
+    ...existing,
+    inquiries: imported.inquiries > 0 ? imported.inquiries : existing.inquiries,
+    closes: imported.closes > 0 ? imported.closes : existing.closes,
+    bookings: imported.bookings > 0 ? imported.bookings : existing.bookings,
+  };
+}
+
+/**
+ * An import reduced to its funnel months, for the Funnel page, which doesn't create sales records
+ * Bookings and payments in the report are dropped so the preview lists only what gets written.
+ */
+export function funnelMonthsOnly(result: ImportResult): ImportResult {
+  return { ...result, bookings: [], payments: [] };
+}
+
+/**
+ * Funnel an import's months go into: the funnel fed by the imported bookings' service types,
+ * or the account's first funnel when they feed several funnels (or none)
+ * Service types the import creates have no funnel yet, so they count toward the first funnel.
+ */
+export function importTargetFunnelId(
+  result: ImportResult,
+  existingServiceTypes: ServiceType[],
+  funnels: FunnelDefinition[]
+): string | undefined {
+  const funnelIds = new Set<string>();
+  result.bookings.forEach(booking => {
+    const serviceType = existingServiceTypes.find(st => st.id === booking.serviceTypeId)
+      || result.serviceTypes.find(st => st.id === booking.serviceTypeId);
+    const funnelId = serviceType ? funnelIdOfServiceType(serviceType, funnels) : null;
+    if (funnelId) funnelIds.add(funnelId);
+  });
+  return funnelIds.size === 1 ? [...funnelIds][0] : funnels[0]?.id;
+}
+
+/**
+ * Match key for an imported record: source system + external ID (null for manually entered records)
+ */
+function externalKey(record: { sourceSystem?: string; externalId?: string }): string | null {
+  if (!record.externalId) return null;
+  return `${record.sourceSystem || ''}|${record.externalId}`;
+}
+
+/**
+ * Field-level changes between an existing booking and its re-imported version
+ * Project date is only compared when the report has one (older bookings fall back to the booked date)
+ */
+function diffBooking(existing: Booking, imported: Booking): { updates: Partial<Booking>; changes: string[] } {
+  const updates: Partial<Booking> = {};
+  const changes: string[] = [];
+
+  const before = bookingAmount(existing);
+  const after = bookingAmount(imported);
+  if (before !== after) {
+    updates.bookedRevenue = imported.bookedRevenue;
+    updates.revenue = imported.revenue;
+    changes.push(`booked value ${toUSD(before)} → ${toUSD(after)}`);
+  }
+  if (imported.dateBooked && imported.dateBooked !== existing.dateBooked) {
+    updates.dateBooked = imported.dateBooked;
+    updates.bookingDate = imported.bookingDate;
+    changes.push(`booked date ${existing.dateBooked || '—'} → ${imported.dateBooked}`);
+  }
+  if (imported.projectDate && imported.projectDate !== existing.projectDate) {
+    updates.projectDate = imported.projectDate;
+    changes.push(`project date ${existing.projectDate || '—'} → ${imported.projectDate}`);
+  }
+
+  return { updates, changes };
+}
+
+/**
+ * What an import's updates replace on a booking, recorded in the import batch so a rollback restores it
+ * An attached external ID is recorded too, so a rolled-back booking no longer claims the CRM record.
+ * Fields that were empty are recorded as null (JSON drops undefined), so rollback clears what the import filled in.
+ */
+export function previousBookingValues(existing: Booking, updates: Partial<Booking>): ImportBatchBookingValues {
+  return {
+    ...(updates.bookedRevenue !== undefined && { bookedRevenue: existing.bookedRevenue ?? null }),
+    ...(updates.dateBooked !== undefined && { dateBooked: existing.dateBooked ?? null }),
+    ...(updates.projectDate !== undefined && { projectDate: existing.projectDate ?? null }),
+    ...(updates.externalId !== undefined && { sourceSystem: existing.sourceSystem ?? null, externalId: existing.externalId ?? null }),
+  };
+}
+
+/**
+ * What an import's updates replace on a payment (see previousBookingValues)
+ */
+export function previousPaymentValues(existing: Payment, updates: Partial<Payment>): ImportBatchPaymentValues {
+  return {
+    amount: existing.amount,
+    dueDate: existing.dueDate ?? null,
+    expectedDate: existing.expectedDate ?? null,
+    paidAt: existing.paidAt ?? null,
+    isExpected: existing.isExpected ?? null,
+    ...(updates.externalId !== undefined && { sourceSystem: existing.sourceSystem ?? null, externalId: existing.externalId ?? null }),
+  };
+}
+
+/**
+ * Payment record to create for an imported payment attached to a booking
+ */
+export function toPaymentData(payment: ImportedPayment, bookingId: string): Omit<Payment, 'id'> {
+  return {
+    bookingId,
+    amount: payment.amount,
+    amountCents: payment.amountCents,
+    paymentDate: payment.paymentDate,
+    dueDate: payment.dueDate,
+    expectedDate: payment.expectedDate,
+    paidAt: payment.paidAt,
+    isExpected: payment.isExpected,
+    status: payment.status,
+    paymentMethod: payment.paymentMethod,
+    memo: payment.memo,
+    sourceSystem: payment.sourceSystem,
+    externalId: payment.externalId,
+  };
+}
+
+/**
+ * Fallback match key for a payment entered by hand: booking + amount + month it's expected in
+ */
+function paymentKey(bookingId: string, payment: Pick<Payment, 'amount' | 'expectedDate' | 'dueDate'>): string | null {
+  const month = (payment.expectedDate || payment.dueDate || '').slice(0, 7);
+  if (!month) return null;
+  return `${bookingId}|${payment.amount}|${month}`;
+}
+
+/**
+ * Field-level changes between an existing payment and its re-imported version
+ */
+function diffPayment(existing: Payment, imported: ImportedPayment): { updates: Partial<Payment>; changes: string[] } {
+  const updates: Partial<Payment> = {};
+  const changes: string[] = [];
+
+  if (existing.amount !== imported.amount) {
+    updates.amount = imported.amount;
+    updates.amountCents = imported.amountCents;
+    changes.push(`amount ${toUSD(existing.amount)} → ${toUSD(imported.amount)}`);
+  }
+  if (!existing.paidAt !== !imported.paidAt) {
+    updates.paidAt = imported.paidAt;
+    updates.isExpected = imported.isExpected;
+    updates.status = imported.status;
+    changes.push(imported.paidAt ? `paid on ${imported.paidAt}` : 'no longer paid');
+  }
+  if ((existing.expectedDate || '').slice(0, 7) !== (imported.expectedDate || '').slice(0, 7)) {
+    updates.expectedDate = imported.expectedDate;
+    updates.dueDate = imported.dueDate;
+    changes.push(`expected ${existing.expectedDate || '—'} → ${imported.expectedDate}`);
+  }
+
+  return { updates, changes };
+}
+
+/**
+ * Classify imported payments: attach each to a booking by project name, then match it to
+ * existing payments on external ID (or booking + amount + month for payments entered by hand)
+ */
+function classifyPayments(payments: ImportedPayment[], existingBookings: Booking[], existingPayments: Payment[]): ImportPreviewRow[] {
+  const rows: ImportPreviewRow[] = [];
+
+  // Project name -> most recently booked booking with that name
+  const bookingsByName = new Map<string, Booking>();
+  existingBookings.forEach(booking => {
+    const name = booking.projectName?.toLowerCase().trim();
+    if (!name) return;
+    const current = bookingsByName.get(name);
+    if (!current || (booking.dateBooked || '') > (current.dateBooked || '')) bookingsByName.set(name, booking);
+  });
+
+  const existingByExternalKey = new Map<string, Payment>();
+  const legacyByKey = new Map<string, Payment>();
+  existingPayments.forEach(payment => {
+    const external = externalKey(payment);
+    if (external) {
+      existingByExternalKey.set(external, payment);
+      return;
+    }
+    const key = paymentKey(payment.bookingId, payment);
+    if (key && !legacyByKey.has(key)) legacyByKey.set(key, payment);
+  });
+
+  payments.forEach(payment => {
+    const label = `${payment.projectName} · ${toUSD(payment.amount)}`;
+    const booking = bookingsByName.get(payment.projectName.toLowerCase().trim());
+    if (!booking) {
+      rows.push({
+        kind: 'payment',
+        status: 'skipped',
+        label,
+        reason: `No booking named "${payment.projectName}" - import the Booked Client report first`,
+        rowNumber: payment.rowNumber,
+        payment,
+      });
+      return;
+    }
+
+    const external = externalKey(payment);
+    const byExternalId = external ? existingByExternalKey.get(external) : undefined;
+    const legacy = paymentKey(booking.id, payment);
+    const existing = byExternalId || (legacy ? legacyByKey.get(legacy) : undefined);
+    if (!existing) {
+      rows.push({
+        kind: 'payment',
+        status: 'new',
+        label,
+        reason: payment.paidAt ? `Paid ${payment.paidAt}` : `Expected ${payment.expectedDate}`,
+        rowNumber: payment.rowNumber,
+        payment,
+        bookingId: booking.id,
+      });
+      return;
+    }
+
+    const { updates, changes } = diffPayment(existing, payment);
+    if (!byExternalId && payment.externalId) {
+      updates.sourceSystem = payment.sourceSystem;
+      updates.externalId = payment.externalId;
+    }
+
+    const reason = changes.join('; ');
+    rows.push({
+      kind: 'payment',
+      status: changes.length > 0 ? 'updated' : 'duplicate',
+      label,
+      reason: changes.length > 0 ? reason.charAt(0).toUpperCase() + reason.slice(1) : 'Already up to date',
+      rowNumber: payment.rowNumber,
+      payment,
+      bookingId: booking.id,
+      existingPayment: existing,
+      paymentUpdates: Object.keys(updates).length > 0 ? updates : undefined,
+    });
+  });
+
+  return rows;
+}
+
+/**
+ * Classify every row of an import against existing data
+ *
+ * Bookings are matched on source system + external ID; bookings entered or imported before
+ * external IDs existed are matched on project name + booked date instead (and get the ID attached).
+ * - new: no matching booking
+ * - duplicate: matches a booking and nothing changed (or appears earlier in the file)
+ * - updated: matches a booking whose value or dates changed - the existing booking is updated
+ * - skipped: dropped by the importer (missing name/date, parse error, ...)
+ * Payments are classified the same way (see classifyPayments).
+ * Funnel months are merged into the target funnel's months only (see importTargetFunnelId).
+ */
+export function buildImportPreview(
+  result: ImportResult,
+  existingBookings: Booking[],
+  existingFunnelData: FunnelData[],
+  existingPayments: Payment[] = [],
+  funnels: FunnelDefinition[] = [],
+  targetFunnelId: string | undefined = funnels[0]?.id
+): ImportPreview {
+  const rows: ImportPreviewRow[] = [];
+
+  const existingByExternalKey = new Map<string, Booking>();
+  const legacyByKey = new Map<string, Booking>();
+  existingBookings.forEach(booking => {
+    const external = externalKey(booking);
+    if (external) {
+      if (!existingByExternalKey.has(external)) existingByExternalKey.set(external, booking);
+      return;
+    }
+    const key = bookingKey(booking);
+    if (key && !legacyByKey.has(key)) legacyByKey.set(key, booking);
+  });
+  const importedKeys = new Set<string>();
+
+  result.bookings.forEach(booking => {
+    const external = externalKey(booking);
+    const legacy = bookingKey(booking);
+    const key = external || legacy;
+    const label = booking.projectName;
+
+    if (key && importedKeys.has(key)) {
+      rows.push({ kind: 'booking', status: 'duplicate', label, reason: 'Appears earlier in this file', booking });
+      return;
+    }
+    if (key) importedKeys.add(key);
+
+    const byExternalId = external ? existingByExternalKey.get(external) : undefined;
+    const existing = byExternalId || (legacy ? legacyByKey.get(legacy) : undefined);
+    if (!existing) {
+      rows.push({ kind: 'booking', status: 'new', label, reason: 'Not imported before', booking });
+      return;
+    }
+
+    const { updates, changes } = diffBooking(existing, booking);
+
+    // Attach the external ID to a booking matched by name so the next import matches it directly
+    if (!byExternalId && booking.externalId) {
+      updates.sourceSystem = booking.sourceSystem;
+      updates.externalId = booking.externalId;
+    }
+
+    if (changes.length === 0) {
+      rows.push({
+        kind: 'booking',
+        status: 'duplicate',
+        label,
+        reason: `Already up to date (booked ${existing.dateBooked}, ${toUSD(bookingAmount(existing))})`,
+        booking,
+        existingBooking: existing,
+        updates: Object.keys(updates).length > 0 ? updates : undefined,
+      });
+    } else {
+      const reason = changes.join('; ');
+      rows.push({
+        kind: 'booking',
+        status: 'updated',
+        label,
+        reason: reason.charAt(0).toUpperCase() + reason.slice(1),
+        booking,
+        existingBooking: existing,
+        updates,
+      });
+    }
+  });
+
+  rows.push(...classifyPayments(result.payments, existingBookings, existingPayments));
+
+  result.skippedRows.forEach(skipped => {
+    rows.push({ status: 'skipped', label: `Row ${skipped.rowNumber}`, reason: skipped.reason, rowNumber: skipped.rowNumber });
+  });
+
+  const funnelMonths: ImportFunnelMonthChange[] = [];
+  result.funnelData.forEach(imported => {
+    const existing = existingFunnelData.find(
+      f => f.year === imported.year && f.month === imported.month && funnelIdOfMonth(f, funnels) === targetFunnelId
+    );
+    const after = { ...mergeImportedFunnelMonth(existing, imported), funnelId: targetFunnelId };
+
+    if (existing
+      && existing.inquiries === after.inquiries
+      && existing.closes === after.closes
+      && existing.bookings === after.bookings) {
+      return; // Nothing changes for this month
+    }
+
+    const manualCollisions: ImportFunnelMonthChange['manualCollisions'] = [];
+    if (existing?.closesManual && existing.closes !== after.closes) manualCollisions.push('closes');
+    if (existing?.bookingsManual && existing.bookings !== after.bookings) manualCollisions.push('bookings');
+
+    funnelMonths.push({
+      funnelId: targetFunnelId,
+      year: imported.year,
+      month: imported.month,
+      isNew: !existing,
+      before: existing ? { inquiries: existing.inquiries, closes: existing.closes, bookings: existing.bookings } : null,
+      after,
+      manualCollisions,
+    });
+  });
+
+  const counts: Record<ImportRowStatus, number> = { new: 0, duplicate: 0, updated: 0, skipped: 0 };
+  rows.forEach(row => { counts[row.status]++; });
+
+  return { rows, funnelMonths, counts };
+}
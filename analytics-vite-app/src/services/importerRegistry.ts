@@ -0,0 +1,360 @@
+/**
+ * CRM Importer Registry
+ * Every CRM report importer registers its header signature, column aliases and row mapper here.
+ * CSVImportModal detects the uploaded report from its header row and runs the matching importer.
+ */
+
+import { parseCSV, findColumn, decimalSeparatorFor, type CSVParseResult } from '../utils/csvParser';
+import type { FunnelData, ServiceType, LeadSource } from '../types';
+import type { CRMType } from '../types/auth';
+import type { CRMImporter, ColumnMap, ImportContext, ImportOverrides, ImportResult } from '../types/import';
+import { honeybookLeadsImporter } from './honeybookImporter';
+import { honeybookBookedClientsImporter } from './honeybookBookedClientImporter';
+import { honeybookPaymentsImporter } from './honeybookPaymentsImporter';
+import { dubsadoProjectsImporter } from './dubsadoImporter';
+import {
+  taveJobsImporter,
+  seventeenHatsProjectsImporter,
+  studioNinjaJobsImporter,
+  sproutStudioProjectsImporter,
+  genericSpreadsheetImporter,
+} from './crmProjectImporters';
+import { logger } from '../utils/logger';
+
+/**
+ * Registered importers, in priority order for detection ties
+ */
+export const IMPORTERS: CRMImporter[] = [
+  honeybookBookedClientsImporter,
+  honeybookLeadsImporter,
+  honeybookPaymentsImporter,
+  dubsadoProjectsImporter,
+  taveJobsImporter,
+  seventeenHatsProjectsImporter,
+  studioNinjaJobsImporter,
+  sproutStudioProjectsImporter,
+  genericSpreadsheetImporter,
+];
+
+/**
+ * Display labels for importer fields, shown in the column mapping step
+ */
+export const FIELD_LABELS: Record<string, string> = {
+  externalId: 'CRM Project ID',
+  projectName: 'Project Name',
+  clientName: 'Client Name',
+  firstName: 'First Name',
+  lastName: 'Last Name',
+  email: 'Client Email',
+  phone: 'Client Phone',
+  status: 'Status',
+  projectType: 'Service Type',
+  leadSource: 'Lead Source',
+  projectSource: 'Lead Source',
+  dateCreated: 'Date Inquired',
+  dateInquired: 'Date Inquired',
+  projectCreationDate: 'Date Inquired',
+  bookedDate: 'Date Booked',
+  bookingDate: 'Date Booked',
+  projectDate: 'Project Date',
+  totalAmount: 'Booked Revenue',
+  totalBookedValue: 'Booked Revenue',
+  amount: 'Payment Amount',
+  dueDate: 'Due Date',
+  paidDate: 'Paid Date',
+  paymentMethod: 'Payment Method',
+};
+
+/**
+ * Fields parsed with parseDate - these get a date format override in the mapping step
+ */
+export const DATE_FIELDS = new Set([
+  'dateCreated',
+  'dateInquired',
+  'projectCreationDate',
+  'bookedDate',
+  'bookingDate',
+  'projectDate',
+  'dueDate',
+  'paidDate',
+]);
+
+export function getImporter(id: string): CRMImporter | undefined {
+  return IMPORTERS.find(importer => importer.id === id);
+}
+
+/**
+ * Resolve an importer's column aliases against the CSV headers
+ */
+export function resolveColumns(importer: CRMImporter, headers: string[]): ColumnMap {
+  const columns: ColumnMap = {};
+  Object.entries(importer.columns).forEach(([field, aliases]) => {
+    columns[field] = findColumn(headers, aliases);
+  });
+  return columns;
+}
+
+/**
+ * Score how well a header row matches an importer's signature (0 = no match)
+ */
+function scoreImporter(importer: CRMImporter, lowerHeaders: string[]): number {
+  if (importer.signature.length === 0) return 0; // Only picked explicitly
+  const matched = importer.signature.filter(header => lowerHeaders.includes(header.toLowerCase())).length;
+  return matched / importer.signature.length;
+}
+
+/**
+ * Detect which report was uploaded from its header row
+ * Ties (and header rows no signature matches) go to the user's saved CRM, then Honeybook Leads
+ */
+export function detectImporter(headers: string[], preferredCrm?: CRMType): CRMImporter {
+  const lowerHeaders = headers.map(h => h.toLowerCase().trim());
+
+  let best: CRMImporter | null = null;
+  let bestScore = 0;
+  for (const importer of IMPORTERS) {
+    const score = scoreImporter(importer, lowerHeaders);
+    const winsTie = score === bestScore && score > 0 && importer.crm === preferredCrm && best?.crm !== preferredCrm;
+    if (score > bestScore || winsTie) {
+      best = importer;
+      bestScore = score;
+    }
+  }
+
+  if (best) return best;
+
+  return IMPORTERS.find(importer => importer.crm === preferredCrm) || honeybookLeadsImporter;
+}
+
+/**
+ * Build the helpers a row mapper uses to create service types, lead sources and funnel months
+ */
+function createImportContext(
+  result: ImportResult,
+  importer: CRMImporter,
+  existingServiceTypes: ServiceType[],
+  existingLeadSources: LeadSource[],
+  userId: string,
+  monthlyData: Map<string, { year: number; month: number; inquiries: number; closes: number; bookings: number }>,
+  dateFormats: ImportContext['dateFormats'],
+  decimalSeparator: ImportContext['decimalSeparator']
+): ImportContext {
+  const serviceTypeMap = new Map<string, string>(); // name -> id
+  const leadSourceMap = new Map<string, string>(); // name -> id
+  existingServiceTypes.forEach(st => serviceTypeMap.set(st.name.toLowerCase(), st.id));
+  existingLeadSources.forEach(ls => leadSourceMap.set(ls.name.toLowerCase(), ls.id));
+
+  let serviceTypeCounter = existingServiceTypes.length;
+  let leadSourceCounter = existingLeadSources.length;
+
+  const getServiceTypeId = (name?: string | null): string => {
+    const trimmed = name?.trim();
+    if (trimmed) {
+      const lowerName = trimmed.toLowerCase();
+      if (!serviceTypeMap.has(lowerName)) {
+        const newId = `imported-st-${Date.now()}-${serviceTypeCounter++}`;
+        result.serviceTypes.push({
+          id: newId,
+          name: trimmed,
+          description: `Imported from ${importer.crmName}`,
+          isCustom: true,
+          tracksInFunnel: true,
+        });
+        serviceTypeMap.set(lowerName, newId);
+      }
+      return serviceTypeMap.get(lowerName)!;
+    }
+
+    // Default service type if none found
+    if (result.serviceTypes.length > 0) return result.serviceTypes[0].id;
+    const defaultId = `imported-st-default-${Date.now()}`;
+    result.serviceTypes.push({
+      id: defaultId,
+      name: 'General Service',
+      description: 'Default service type for imported bookings',
+      isCustom: true,
+      tracksInFunnel: true,
+    });
+    serviceTypeMap.set('general service', defaultId);
+    return defaultId;
+  };
+
+  const getLeadSourceId = (name?: string | null): string => {
+    const trimmed = name?.trim();
+    if (trimmed) {
+      const lowerName = trimmed.toLowerCase();
+      if (!leadSourceMap.has(lowerName)) {
+        const newId = `imported-ls-${Date.now()}-${leadSourceCounter++}`;
+        result.leadSources.push({
+          id: newId,
+          name: trimmed,
+          description: `Imported from ${importer.crmName}`,
+          isCustom: true,
+        });
+        leadSourceMap.set(lowerName, newId);
+      }
+      return leadSourceMap.get(lowerName)!;
+    }
+
+    // Default lead source if none found
+    if (result.leadSources.length > 0) return result.leadSources[0].id;
+    const defaultId = `imported-ls-default-${Date.now()}`;
+    result.leadSources.push({
+      id: defaultId,
+      name: 'Direct',
+      description: 'Default lead source for imported bookings',
+      isCustom: true,
+    });
+    leadSourceMap.set('direct', defaultId);
+    return defaultId;
+  };
+
+  const tally: ImportContext['tally'] = (date, counts) => {
+    // Split YYYY-MM-DD directly to avoid timezone shifts
+    const [yearStr, monthStr] = date.split('-');
+    const year = parseInt(yearStr, 10);
+    const month = parseInt(monthStr, 10);
+    if (!Number.isFinite(year) || !Number.isFinite(month)) return;
+
+    const key = `${year}-${month}`;
+    if (!monthlyData.has(key)) {
+      monthlyData.set(key, { year, month, inquiries: 0, closes: 0, bookings: 0 });
+    }
+    const data = monthlyData.get(key)!;
+    data.inquiries += counts.inquiries || 0;
+    data.closes += counts.closes || 0;
+    data.bookings += counts.bookings || 0;
+  };
+
+  const externalId: ImportContext['externalId'] = (crmId, projectName, createdDate) => {
+    const trimmed = crmId?.trim();
+    if (trimmed) return trimmed;
+    return `${projectName.toLowerCase().trim()}|${createdDate || 'unknown'}`;
+  };
+
+  const skip: ImportContext['skip'] = (rowNumber, reason) => {
+    result.warnings.push(`Row ${rowNumber}: ${reason}`);
+    result.skippedRows.push({ rowNumber, reason });
+  };
+
+  return { result, userId, getServiceTypeId, getLeadSourceId, externalId, skip, tally, seen: new Set<string>(), dateFormats, decimalSeparator };
+}
+
+/**
+ * Convert monthly tallies into FunnelData rows with YTD values
+ */
+function buildFunnelData(
+  importerId: string,
+  monthlyData: Map<string, { year: number; month: number; inquiries: number; closes: number; bookings: number }>
+): FunnelData[] {
+  const funnelData: FunnelData[] = Array.from(monthlyData.values())
+    .sort((a, b) => {
+      if (a.year !== b.year) return a.year - b.year;
+      return a.month - b.month;
+    })
+    .map(data => ({
+      id: `imported-funnel-${importerId}-${data.year}-${data.month}`,
+      name: 'Default',
+      year: data.year,
+      month: data.month,
+      inquiries: data.inquiries,
+      inquiriesYtd: 0, // Calculated below
+      callsBooked: 0,
+      callsTaken: 0,
+      callsYtd: 0,
+      inquiryToCall: 0,
+      callToBooking: 0,
+      closes: data.closes,
+      bookings: data.bookings,
+      bookingsYtd: 0, // Calculated below
+      bookingsGoal: 0,
+      cash: 0,
+      notes: undefined, // Don't add import notes - notes field is for marketing strategy changes
+      closesManual: false,
+      bookingsManual: false,
+      cashManual: false,
+      lastUpdated: new Date().toISOString(),
+    }));
+
+  // Calculate YTD values
+  funnelData.forEach((data, index) => {
+    const sameYear = index > 0 && funnelData[index - 1].year === data.year;
+    data.inquiriesYtd = (sameYear ? funnelData[index - 1].inquiriesYtd : 0) + data.inquiries;
+    data.bookingsYtd = (sameYear ? funnelData[index - 1].bookingsYtd : 0) + data.bookings;
+  });
+
+  return funnelData;
+}
+
+/**
+ * Run an importer over already-parsed CSV data
+ * Overrides from the column mapping step replace the alias guesses field by field
+ */
+export function runImporter(
+  importer: CRMImporter,
+  parsed: CSVParseResult,
+  existingServiceTypes: ServiceType[],
+  existingLeadSources: LeadSource[],
+  userId: string,
+  overrides: ImportOverrides = {}
+): ImportResult {
+  const result: ImportResult = {
+    bookings: [],
+    payments: [],
+    funnelData: [],
+    serviceTypes: [...existingServiceTypes],
+    leadSources: [...existingLeadSources],
+    errors: [...parsed.errors],
+    warnings: [],
+    skippedRows: [],
+    importerId: importer.id,
+    rowCount: parsed.rows.length,
+  };
+
+  if (parsed.headers.length === 0) {
+    result.errors.push('No headers found in CSV file');
+    return result;
+  }
+
+  const columns: ColumnMap = { ...resolveColumns(importer, parsed.headers) };
+  Object.entries(overrides.columns || {}).forEach(([field, header]) => {
+    // Ignore saved headers that aren't in this file
+    if (field in columns && (header === null || parsed.headers.includes(header))) {
+      columns[field] = header;
+    }
+  });
+  logger.debug(`${importer.name} column mapping:`, columns);
+
+  const monthlyData = new Map<string, { year: number; month: number; inquiries: number; closes: number; bookings: number }>();
+  const context = createImportContext(result, importer, existingServiceTypes, existingLeadSources, userId, monthlyData, overrides.dateFormats || {}, decimalSeparatorFor(parsed.delimiter));
+
+  parsed.rows.forEach((row, index) => {
+    const rowNumber = index + 2; // +1 for header row, +1 for 1-based numbering
+    try {
+      importer.mapRow(row, columns, rowNumber, context);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      result.errors.push(`Row ${rowNumber}: ${message}`);
+      result.skippedRows.push({ rowNumber, reason: message });
+    }
+  });
+
+  result.funnelData = buildFunnelData(importer.id, monthlyData);
+
+  return result;
+}
+
+/**
+ * Parse a CSV, detect its report type and import it
+ */
+export function importCSV(
+  csvText: string,
+  existingServiceTypes: ServiceType[],
+  existingLeadSources: LeadSource[],
+  userId: string,
+  preferredCrm?: CRMType
+): ImportResult {
+  const parsed = parseCSV(csvText);
+  const importer = detectImporter(parsed.headers, preferredCrm);
+  return runImporter(importer, parsed, existingServiceTypes, existingLeadSources, userId);
+}
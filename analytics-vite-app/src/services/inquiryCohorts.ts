@@ -0,0 +1,146 @@
+/**
+ * Inquiry Cohorts
+ * Groups inquiries by the month they came in and follows each month's inquiries forward: what
+ * share had booked within 1, 2, 3, 6 and 12 months, plus the median days from inquiry to booking
+ * per service type and lead source. With long wedding sales cycles the monthly close rate mixes
+ * bookings from old inquiries with this month's inquiries; cohorts keep them apart.
+ *
+ * A cohort's size is the inquiries logged in the funnel for that month. Bookings join the cohort of
+ * their dateInquired; bookings without one can't be placed and are only counted. When fewer
+ * inquiries were logged than bookings came from the month, the bookings count is used instead.
+ */
+
+import { type MonthRange, type SalesFunnelMonth, indexToMonth, isDateInRange } from './insightsMetrics';
+import type { Booking, LeadSource, ServiceType } from '../types';
+
+// Months after the inquiry month that each cohort is followed for
+export const COHORT_HORIZONS = [1, 2, 3, 6, 12];
+
+export interface InquiryCohort {
+  year: number;
+  month: number;
+  inquiries: number;
+  booked: number; // Booked so far, whenever it happened
+  bookedWithin: number[]; // Per COHORT_HORIZONS entry
+  rates: (number | null)[]; // Percent booked per COHORT_HORIZONS entry; null until the cohort is that old
+}
+
+export interface DaysToBookGroup {
+  id: string;
+  name: string;
+  bookings: number;
+  medianDays: number;
+}
+
+export interface CohortAnalysis {
+  cohorts: InquiryCohort[]; // Oldest first
+  overallRates: (number | null)[]; // Per COHORT_HORIZONS entry, over the cohorts old enough for it
+  medianDays: number | null; // Every booking with both dates
+  byServiceType: DaysToBookGroup[]; // Slowest first
+  byLeadSource: DaysToBookGroup[]; // Slowest first
+  undatedBookings: number; // Booked in the range without a dateInquired
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseDate = (date: string): number | null => {
+  const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+  if (!Number.isFinite(year) || !Number.isFinite(month) || !Number.isFinite(day)) return null;
+  return Date.UTC(year, month - 1, day);
+};
+
+// Same day N months later, clamped to the end of shorter months (Jan 31 + 1 month = Feb 28/29)
+const addMonths = (time: number, months: number): number => {
+  const date = new Date(time);
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const daysInTarget = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  return Date.UTC(target.getUTCFullYear(), target.getUTCMonth(), Math.min(date.getUTCDate(), daysInTarget));
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+const daysToBookGroups = (
+  entries: { key: string; days: number }[],
+  nameOf: (key: string) => string
+): DaysToBookGroup[] => {
+  const byKey = new Map<string, number[]>();
+  entries.forEach(({ key, days }) => byKey.set(key, [...(byKey.get(key) || []), days]));
+  return Array.from(byKey.entries())
+    .map(([id, days]) => ({ id, name: nameOf(id), bookings: days.length, medianDays: median(days) }))
+    .sort((a, b) => b.medianDays - a.medianDays || a.name.localeCompare(b.name));
+};
+
+/**
+ * Cohorts for the inquiry months in a range
+ * Cohort booking rates count service types tracked in the funnel (like closes); the days-to-book
+ * medians cover every service type.
+ */
+export function calculateInquiryCohorts(
+  months: SalesFunnelMonth[],
+  bookings: Booking[],
+  serviceTypes: ServiceType[],
+  leadSources: LeadSource[],
+  range: MonthRange,
+  now: Date = new Date()
+): CohortAnalysis {
+  const today = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+  const trackableServiceIds = new Set(serviceTypes.filter(st => st.tracksInFunnel).map(st => st.id));
+
+  const dated = bookings
+    .filter(b => b.dateInquired && b.dateBooked && isDateInRange(b.dateInquired, range))
+    .map(b => ({ booking: b, inquired: parseDate(b.dateInquired!), booked: parseDate(b.dateBooked!) }))
+    .filter((entry): entry is { booking: Booking; inquired: number; booked: number } =>
+      entry.inquired !== null && entry.booked !== null && entry.booked >= entry.inquired);
+
+  const cohorts: InquiryCohort[] = [];
+  for (let idx = range.start; idx <= range.end; idx++) {
+    const { year, month } = indexToMonth(idx);
+    const monthEnd = Date.UTC(year, month, 0);
+    if (Date.UTC(year, month - 1, 1) > today) break;
+
+    const cohortBookings = dated.filter(({ booking }) =>
+      trackableServiceIds.has(booking.serviceTypeId) && isDateInRange(booking.dateInquired, { start: idx, end: idx }));
+    const logged = months.find(m => m.year === year && m.month === month)?.inquiries || 0;
+    const inquiries = Math.max(logged, cohortBookings.length);
+    const bookedWithin = COHORT_HORIZONS.map(horizon =>
+      cohortBookings.filter(({ inquired, booked }) => booked <= addMonths(inquired, horizon)).length);
+
+    cohorts.push({
+      year,
+      month,
+      inquiries,
+      booked: cohortBookings.length,
+      bookedWithin,
+      rates: COHORT_HORIZONS.map((horizon, i) =>
+        addMonths(monthEnd, horizon) <= today && inquiries > 0 ? (bookedWithin[i] / inquiries) * 100 : null),
+    });
+  }
+
+  const overallRates = COHORT_HORIZONS.map((_, i) => {
+    const matured = cohorts.filter(cohort => cohort.rates[i] !== null);
+    const inquiries = matured.reduce((sum, cohort) => sum + cohort.inquiries, 0);
+    return inquiries > 0 ? (matured.reduce((sum, cohort) => sum + cohort.bookedWithin[i], 0) / inquiries) * 100 : null;
+  });
+
+  const days = dated.map(({ booking, inquired, booked }) => ({ booking, days: Math.round((booked - inquired) / DAY_MS) }));
+
+  return {
+    cohorts,
+    overallRates,
+    medianDays: days.length > 0 ? median(days.map(entry => entry.days)) : null,
+    byServiceType: daysToBookGroups(
+      days.map(({ booking, days }) => ({ key: booking.serviceTypeId, days })),
+      id => serviceTypes.find(st => st.id === id)?.name || 'Unknown'
+    ),
+    byLeadSource: daysToBookGroups(
+      days.map(({ booking, days }) => ({ key: booking.leadSourceId, days })),
+      id => leadSources.find(ls => ls.id === id)?.name || 'Unknown'
+    ),
+    undatedBookings: bookings.filter(b => !b.dateInquired && isDateInRange(b.dateBooked, range)).length,
+  };
+}
+
@@ -0,0 +1,362 @@
+/**
+ * Insights Metrics
+ * The sales funnel, call, lead source and advertising figures shown on Insights, computed for a
+ * range of months. Shared by the Insights page and the printable performance report so both
+ * always show the same numbers.
+ */
+
+import { stageTotals, stageConversions, type StageConversion } from './funnelStages';
+import type { FunnelData, FunnelStage, Booking, Payment, ServiceType, AdCampaign, LeadSource } from '../types';
+
+// Inclusive range of month indexes (see monthToIndex)
+export type MonthRange = { start: number; end: number };
+
+export const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+export const monthToIndex = (year: number, month: number) => year * 12 + (month - 1);
+
+export const indexToMonth = (index: number) => ({ year: Math.floor(index / 12), month: (index % 12) + 1 });
+
+export const isMonthInRange = (year: number, month: number, range: MonthRange) => {
+  const idx = monthToIndex(year, month);
+  return idx >= range.start && idx <= range.end;
+};
+
+const parseDateToMonthIndex = (date: string | undefined | null) => {
+  if (!date) return null;
+  const parts = date.split('-');
+  if (parts.length < 2) return null;
+  const year = parseInt(parts[0], 10);
+  const month = parseInt(parts[1], 10);
+  if (!Number.isFinite(year) || !Number.isFinite(month) || month < 1 || month > 12) return null;
+  return monthToIndex(year, month);
+};
+
+export const isDateInRange = (date: string | undefined, range: MonthRange) => {
+  const idx = parseDateToMonthIndex(date);
+  if (idx === null) return false;
+  return idx >= range.start && idx <= range.end;
+};
+
+// Date a payment counts toward a month's cash (scheduled/expected date first)
+export const paymentCashDate = (payment: Payment) => payment.expectedDate || payment.dueDate || payment.paymentDate;
+
+/**
+ * A funnel month with closes, bookings and cash resolved (manual override or calculated)
+ */
+export type SalesFunnelMonth = Pick<FunnelData,
+  'id' | 'year' | 'month' | 'inquiries' | 'callsBooked' | 'callsTaken' | 'closes' | 'bookings' | 'cash' |
+  'closesManual' | 'bookingsManual' | 'cashManual' | 'notes' | 'stageCounts' | 'lastUpdated'>;
+
+/**
+ * Closes, bookings and cash per month from bookings and payments (same logic as the Funnel page)
+ * Keyed by "YYYY-M".
+ */
+function calculateMonthlyActuals(
+  bookings: Booking[],
+  payments: Payment[],
+  serviceTypes: ServiceType[],
+  range: MonthRange
+): Record<string, { bookings: number; closes: number; cash: number }> {
+  const trackableServiceIds = new Set(serviceTypes.filter(st => st.tracksInFunnel).map(st => st.id));
+  const monthlyData: Record<string, { bookings: number; closes: number; cash: number }> = {};
+
+  for (let idx = range.start; idx <= range.end; idx++) {
+    const { year, month } = indexToMonth(idx);
+    monthlyData[`${year}-${month}`] = { bookings: 0, closes: 0, cash: 0 };
+  }
+
+  bookings.forEach(booking => {
+    const idx = parseDateToMonthIndex(booking?.dateBooked);
+    if (idx === null || idx < range.start || idx > range.end) return;
+    const { year, month } = indexToMonth(idx);
+    const entry = monthlyData[`${year}-${month}`];
+    entry.bookings += booking.bookedRevenue || 0;
+    if (trackableServiceIds.has(booking.serviceTypeId)) entry.closes += 1;
+  });
+
+  // Cash comes from scheduled/expected payments
+  payments.forEach(payment => {
+    const idx = parseDateToMonthIndex(paymentCashDate(payment));
+    if (idx === null || idx < range.start || idx > range.end) return;
+    const { year, month } = indexToMonth(idx);
+    monthlyData[`${year}-${month}`].cash += payment.amount || payment.amountCents || 0;
+  });
+
+  return monthlyData;
+}
+
+/**
+ * Funnel months in the range, with manual overrides applied
+ * With fillRange, every month in the range is returned (blank where nothing was entered);
+ * otherwise only months that have a funnel row.
+ */
+export function buildSalesFunnelMonths(
+  funnelData: FunnelData[],
+  bookings: Booking[],
+  payments: Payment[],
+  serviceTypes: ServiceType[],
+  range: MonthRange,
+  fillRange: boolean
+): SalesFunnelMonth[] {
+  const actuals = calculateMonthlyActuals(bookings, payments, serviceTypes, range);
+  const existingMonths = funnelData.filter(month => isMonthInRange(month.year, month.month, range));
+  const empty = { bookings: 0, closes: 0, cash: 0 };
+
+  if (!fillRange) {
+    return existingMonths.map(month => {
+      const dynamicData = actuals[`${month.year}-${month.month}`] || empty;
+      return {
+        ...month,
+        closes: month.closesManual ? (month.closes || 0) : dynamicData.closes,
+        bookings: month.bookingsManual ? (month.bookings || 0) : dynamicData.bookings,
+        cash: month.cashManual ? (month.cash || 0) : dynamicData.cash,
+      };
+    });
+  }
+
+  const months: SalesFunnelMonth[] = [];
+  for (let idx = range.start; idx <= range.end; idx++) {
+    const { year, month } = indexToMonth(idx);
+    const existingData = existingMonths.find(m => m.year === year && m.month === month);
+    const dynamicData = actuals[`${year}-${month}`] || empty;
+    months.push({
+      id: existingData?.id || `${year}_${MONTH_NAMES[month - 1].toLowerCase()}`,
+      year,
+      month,
+      inquiries: existingData?.inquiries || 0,
+      callsBooked: existingData?.callsBooked || 0,
+      callsTaken: existingData?.callsTaken || 0,
+      closes: existingData?.closesManual ? (existingData.closes || 0) : dynamicData.closes,
+      bookings: existingData?.bookingsManual ? (existingData.bookings || 0) : dynamicData.bookings,
+      cash: existingData?.cashManual ? (existingData.cash || 0) : dynamicData.cash,
+      closesManual: existingData?.closesManual || false,
+      bookingsManual: existingData?.bookingsManual || false,
+      cashManual: existingData?.cashManual || false,
+      notes: existingData?.notes || '',
+      stageCounts: existingData?.stageCounts || {},
+      lastUpdated: existingData?.lastUpdated || new Date().toISOString(),
+    });
+  }
+  return months;
+}
+
+const hasFunnelActivity = (month: SalesFunnelMonth) =>
+  (month.inquiries || 0) > 0 ||
+  (month.callsBooked || 0) > 0 ||
+  (month.callsTaken || 0) > 0 ||
+  (month.closes || 0) > 0 ||
+  (month.bookings || 0) > 0 ||
+  Object.values(month.stageCounts || {}).some(count => count > 0);
+
+const total = (months: SalesFunnelMonth[], field: 'inquiries' | 'callsBooked' | 'callsTaken' | 'closes' | 'bookings' | 'cash') =>
+  months.reduce((sum, month) => sum + (month[field] || 0), 0);
+
+const percent = (numerator: number, denominator: number) => (denominator > 0 ? ((numerator / denominator) * 100).toFixed(1) : '0.0');
+
+export interface SalesTotals {
+  totalInquiries: number;
+  totalCloses: number;
+  totalBookings: number;
+  totalCash: number;
+  inquiryToClose: string; // Percent with one decimal
+  monthsWithData: number;
+  avgInquiries: number;
+  avgCloses: number;
+  avgBookings: number;
+  avgCash: number;
+  avgWeddingBooking: number;
+}
+
+/**
+ * Funnel totals, and monthly averages over the months that have any activity
+ */
+export function calculateSalesTotals(
+  months: SalesFunnelMonth[],
+  bookings: Booking[],
+  serviceTypes: ServiceType[],
+  range: MonthRange
+): SalesTotals {
+  const totalInquiries = total(months, 'inquiries');
+  const totalCash = total(months, 'cash');
+  const totalCloses = total(months, 'closes');
+  const totalBookings = total(months, 'bookings');
+  const monthsWithData = months.filter(hasFunnelActivity).length;
+  const average = (value: number) => (monthsWithData > 0 ? Math.round(value / monthsWithData) : 0);
+
+  // Average booked revenue of Wedding bookings booked in the range
+  const weddingServiceType = serviceTypes.find(st => st.name === 'Wedding');
+  const weddingBookings = weddingServiceType
+    ? bookings.filter(b => b.serviceTypeId === weddingServiceType.id && isDateInRange(b.dateBooked, range))
+    : [];
+  const avgWeddingBooking = weddingBookings.length > 0
+    ? Math.round(weddingBookings.reduce((sum, b) => sum + (b.bookedRevenue || 0), 0) / weddingBookings.length)
+    : 0;
+
+  return {
+    totalInquiries,
+    totalCloses,
+    totalBookings,
+    totalCash,
+    inquiryToClose: percent(totalCloses, totalInquiries),
+    monthsWithData,
+    avgInquiries: average(totalInquiries),
+    avgCloses: average(totalCloses),
+    avgBookings: average(totalBookings),
+    avgCash: average(totalCash),
+    avgWeddingBooking,
+  };
+}
+
+export interface CallTotals {
+  totalCallsBooked: number;
+  totalCallsTaken: number;
+  inquiryToBooked: string;
+  inquiryToTaken: string;
+  showUpRate: string;
+  takenToClose: string;
+  revenuePerCallTaken: number;
+  avgCallsBooked: number;
+  avgCallsTaken: number;
+}
+
+export function calculateCallTotals(months: SalesFunnelMonth[]): CallTotals {
+  const totalInquiries = total(months, 'inquiries');
+  const totalCallsBooked = total(months, 'callsBooked');
+  const totalCallsTaken = total(months, 'callsTaken');
+  const totalCloses = total(months, 'closes');
+  const totalBookings = total(months, 'bookings');
+  const monthsWithData = months.filter(hasFunnelActivity).length;
+  const average = (value: number) => (monthsWithData > 0 ? Math.round(value / monthsWithData) : 0);
+
+  return {
+    totalCallsBooked,
+    totalCallsTaken,
+    inquiryToBooked: percent(totalCallsBooked, totalInquiries),
+    inquiryToTaken: percent(totalCallsTaken, totalInquiries),
+    showUpRate: percent(totalCallsTaken, totalCallsBooked),
+    takenToClose: percent(totalCloses, totalCallsTaken),
+    revenuePerCallTaken: totalCallsTaken > 0 ? Math.round(totalBookings / totalCallsTaken) : 0,
+    avgCallsBooked: average(totalCallsBooked),
+    avgCallsTaken: average(totalCallsTaken),
+  };
+}
+
+export interface StageFunnelTotals {
+  stages: { stage: FunnelStage; total: number; average: number }[];
+  conversions: StageConversion[]; // Each stage to the next
+  overallRate: number | null; // First stage to last, percent
+}
+
+/**
+ * Totals, monthly averages and stage-to-stage conversion for the account's funnel stages
+ */
+export function calculateStageFunnel(stages: FunnelStage[], months: SalesFunnelMonth[]): StageFunnelTotals {
+  const totals = stageTotals(stages, months);
+  const monthsWithData = months.filter(hasFunnelActivity).length;
+  const first = totals[0] || 0;
+
+  return {
+    stages: stages.map((stage, index) => ({
+      stage,
+      total: totals[index],
+      average: monthsWithData > 0 ? Math.round(totals[index] / monthsWithData) : 0,
+    })),
+    conversions: stageConversions(stages, totals),
+    overallRate: stages.length > 1 && first > 0 ? (totals[totals.length - 1] / first) * 100 : null,
+  };
+}
+
+export interface LeadSourceBreakdownItem {
+  id: string;
+  name: string;
+  count: number;
+  revenue: number;
+  pctCount: number;
+  pctRevenue: number;
+}
+
+export interface LeadSourceBreakdown {
+  items: LeadSourceBreakdownItem[];
+  totalCount: number;
+  totalRevenue: number;
+  byCountDesc: LeadSourceBreakdownItem[];
+  byRevenueDesc: LeadSourceBreakdownItem[];
+}
+
+/**
+ * Bookings and booked revenue per lead source, counting only service types tracked in the funnel
+ */
+export function calculateLeadSourceBreakdown(
+  bookings: Booking[],
+  leadSources: LeadSource[],
+  serviceTypes: ServiceType[],
+  range: MonthRange
+): LeadSourceBreakdown {
+  const trackableServiceIds = new Set(serviceTypes.filter(st => st.tracksInFunnel).map(st => st.id));
+  const byCount: Record<string, number> = {};
+  const byRevenue: Record<string, number> = {};
+  bookings
+    .filter(b => trackableServiceIds.has(b.serviceTypeId) && isDateInRange(b.dateBooked, range))
+    .forEach(b => {
+      byCount[b.leadSourceId] = (byCount[b.leadSourceId] || 0) + 1;
+      byRevenue[b.leadSourceId] = (byRevenue[b.leadSourceId] || 0) + (b.bookedRevenue || 0);
+    });
+
+  const totalCount = Object.values(byCount).reduce((sum, value) => sum + value, 0);
+  const totalRevenue = Object.values(byRevenue).reduce((sum, value) => sum + value, 0);
+  const items = Object.keys(byCount).map(lsId => {
+    const count = byCount[lsId] || 0;
+    const revenue = byRevenue[lsId] || 0;
+    return {
+      id: lsId,
+      name: leadSources.find(l => l.id === lsId)?.name || 'Unknown',
+      count,
+      revenue,
+      pctCount: totalCount > 0 ? Math.round((count / totalCount) * 100) : 0,
+      pctRevenue: totalRevenue > 0 ? Math.round((revenue / totalRevenue) * 100) : 0,
+    };
+  });
+
+  return {
+    items,
+    totalCount,
+    totalRevenue,
+    byCountDesc: [...items].sort((a, b) => b.count - a.count),
+    byRevenueDesc: [...items].sort((a, b) => b.revenue - a.revenue),
+  };
+}
+
+export interface AdvertisingTotals {
+  totalAdSpend: number;
+  totalBookedFromAds: number;
+  overallROI: number | null; // Booked revenue per dollar spent
+  costPerClose: number;
+}
+
+/**
+ * Ad spend against revenue booked from the lead sources that were advertised in the range
+ * Campaigns are deduped on lead source + month (the first one wins).
+ */
+export function calculateAdvertisingTotals(adCampaigns: AdCampaign[], bookings: Booking[], range: MonthRange): AdvertisingTotals {
+  const seenKeys = new Set<string>();
+  const campaigns = adCampaigns.filter(campaign => {
+    if (campaign.id.startsWith('default_') || !isMonthInRange(campaign.year, campaign.month, range)) return false;
+    const key = `${campaign.leadSourceId}_${campaign.year}_${campaign.month}`;
+    if (seenKeys.has(key)) return false;
+    seenKeys.add(key);
+    return true;
+  });
+
+  if (campaigns.length === 0) {
+    return { totalAdSpend: 0, totalBookedFromAds: 0, overallROI: null, costPerClose: 0 };
+  }
+
+  const advertisedLeadSourceIds = new Set(campaigns.map(c => c.leadSourceId));
+  const totalAdSpend = campaigns.reduce((sum, campaign) => sum + (campaign.spend ?? campaign.adSpendCents ?? 0), 0);
+  const bookingsFromAds = bookings.filter(b => isDateInRange(b.dateBooked, range) && advertisedLeadSourceIds.has(b.leadSourceId));
+  const totalBookedFromAds = bookingsFromAds.reduce((sum, booking) => sum + (booking.revenue || booking.bookedRevenue || 0), 0);
+  const overallROI = totalAdSpend > 0 && totalBookedFromAds > 0 ? totalBookedFromAds / totalAdSpend : null;
+  const costPerClose = bookingsFromAds.length > 0 ? Math.round(totalAdSpend / bookingsFromAds.length) : 0;
+  return { totalAdSpend, totalBookedFromAds, overallROI, costPerClose };
+}
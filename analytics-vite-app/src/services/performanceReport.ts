@@ -0,0 +1,168 @@
+/**
+ * Performance Report
+ * Gathers everything the printable performance report shows for a range of months: funnel and
+ * call metrics, lead sources, advertising ROI, forecast pacing and each month's funnel notes.
+ * Figures come from the same calculations as Insights and cover all of the account's funnels.
+ */
+
+import {
+  type MonthRange,
+  type SalesFunnelMonth,
+  type SalesTotals,
+  type CallTotals,
+  type LeadSourceBreakdown,
+  type AdvertisingTotals,
+  MONTH_NAMES,
+  indexToMonth,
+  calculateSalesTotals,
+  calculateCallTotals,
+  calculateLeadSourceBreakdown,
+  calculateAdvertisingTotals,
+} from './insightsMetrics';
+import { ALL_FUNNELS, buildFunnelMonths } from './funnelScope';
+import { calculateCurrentYearRevenueByServiceType } from './revenueCalculationService';
+import type { FunnelData, FunnelDefinition, Booking, Payment, ServiceType, LeadSource, AdCampaign, ForecastModel } from '../types';
+
+export interface ForecastPacing {
+  modelName: string;
+  year: number;
+  forecastGoal: number; // cents
+  actualRevenue: number; // cents
+  percentOfPlan: number;
+  yearProgress: number; // Percent of the year elapsed
+  pacingDelta: number; // percentOfPlan - yearProgress
+  serviceTypes: {
+    serviceTypeId: string;
+    name: string;
+    forecastGoal: number;
+    actualRevenue: number;
+    percentOfPlan: number;
+  }[];
+}
+
+export interface PerformanceReport {
+  companyName: string;
+  range: MonthRange;
+  periodLabel: string;
+  generatedAt: string; // ISO timestamp
+  months: SalesFunnelMonth[];
+  salesTotals: SalesTotals;
+  callTotals: CallTotals;
+  leadSources: LeadSourceBreakdown;
+  advertising: AdvertisingTotals;
+  forecast: ForecastPacing | null;
+  notes: { year: number; month: number; notes: string }[]; // Months with funnel notes, in order
+}
+
+export interface PerformanceReportData {
+  funnels: FunnelDefinition[];
+  funnelData: FunnelData[];
+  bookings: Booking[];
+  payments: Payment[];
+  serviceTypes: ServiceType[];
+  leadSources: LeadSource[];
+  adCampaigns: AdCampaign[];
+  forecastModels: ForecastModel[];
+}
+
+/**
+ * "March 2025", "January - March 2025", "2025" or "November 2024 - February 2025"
+ */
+export function formatMonthRange(range: MonthRange): string {
+  const start = indexToMonth(range.start);
+  const end = indexToMonth(range.end);
+  if (range.start === range.end) return `${MONTH_NAMES[start.month - 1]} ${start.year}`;
+  if (start.year === end.year) {
+    if (start.month === 1 && end.month === 12) return `${start.year}`;
+    return `${MONTH_NAMES[start.month - 1]} - ${MONTH_NAMES[end.month - 1]} ${end.year}`;
+  }
+  return `${MONTH_NAMES[start.month - 1]} ${start.year} - ${MONTH_NAMES[end.month - 1]} ${end.year}`;
+}
+
+/**
+ * Percent of the year elapsed on a date (0 before the year starts, 100 after it ends)
+ */
+function yearProgressOn(year: number, date: Date): number {
+  if (date.getFullYear() < year) return 0;
+  if (date.getFullYear() > year) return 100;
+  const startOfYear = new Date(year, 0, 1);
+  const endOfYear = new Date(year, 11, 31);
+  const totalDays = Math.ceil((endOfYear.getTime() - startOfYear.getTime()) / (1000 * 60 * 60 * 24));
+  const daysElapsed = Math.ceil((date.getTime() - startOfYear.getTime()) / (1000 * 60 * 60 * 24));
+  return Math.round((daysElapsed / totalDays) * 100);
+}
+
+/**
+ * How a forecast model is tracking, the way the Forecast Tracker shows it: the year's revenue per
+ * service type against the model's goals, and % of plan against % of the year elapsed
+ */
+export function calculateForecastPacing(
+  model: ForecastModel,
+  payments: Payment[],
+  bookings: Booking[],
+  serviceTypes: ServiceType[],
+  asOf: Date = new Date()
+): ForecastPacing {
+  const revenue = calculateCurrentYearRevenueByServiceType(payments, bookings, serviceTypes, model.year);
+  const yearProgress = yearProgressOn(model.year, asOf);
+  const percentOf = (actual: number, goal: number) => (goal > 0 ? Math.round((actual / goal) * 100) : 0);
+
+  const rows = model.serviceTypes.map(entry => {
+    const actualRevenue = revenue.find(r => r.serviceTypeId === entry.serviceTypeId)?.totalRevenueCents || 0;
+    return {
+      serviceTypeId: entry.serviceTypeId,
+      name: serviceTypes.find(st => st.id === entry.serviceTypeId)?.name || 'Unknown',
+      forecastGoal: entry.totalForecast,
+      actualRevenue,
+      percentOfPlan: percentOf(actualRevenue, entry.totalForecast),
+    };
+  });
+
+  const forecastGoal = rows.reduce((sum, row) => sum + row.forecastGoal, 0);
+  const actualRevenue = rows.reduce((sum, row) => sum + row.actualRevenue, 0);
+  const percentOfPlan = percentOf(actualRevenue, forecastGoal);
+
+  return {
+    modelName: model.name,
+    year: model.year,
+    forecastGoal,
+    actualRevenue,
+    percentOfPlan,
+    yearProgress,
+    pacingDelta: percentOfPlan - yearProgress,
+    serviceTypes: rows,
+  };
+}
+
+/**
+ * Build the report for a range of months
+ * Forecast pacing uses the active model for the year the range ends in (or that year's only model).
+ */
+export function buildPerformanceReport(
+  data: PerformanceReportData,
+  range: MonthRange,
+  companyName: string,
+  now: Date = new Date()
+): PerformanceReport {
+  const months = buildFunnelMonths(ALL_FUNNELS, data, range, true);
+
+  const reportYear = indexToMonth(range.end).year;
+  const yearModels = data.forecastModels.filter(model => model.year === reportYear);
+  const model = yearModels.find(m => m.isActive) || (yearModels.length === 1 ? yearModels[0] : undefined);
+
+  return {
+    companyName,
+    range,
+    periodLabel: formatMonthRange(range),
+    generatedAt: now.toISOString(),
+    months,
+    salesTotals: calculateSalesTotals(months, data.bookings, data.serviceTypes, range),
+    callTotals: calculateCallTotals(months),
+    leadSources: calculateLeadSourceBreakdown(data.bookings, data.leadSources, data.serviceTypes, range),
+    advertising: calculateAdvertisingTotals(data.adCampaigns, data.bookings, range),
+    forecast: model ? calculateForecastPacing(model, data.payments, data.bookings, data.serviceTypes, now) : null,
+    notes: months
+      .filter(month => month.notes && month.notes.trim() !== '')
+      .map(month => ({ year: month.year, month: month.month, notes: (month.notes || '').trim() })),
+  };
+}
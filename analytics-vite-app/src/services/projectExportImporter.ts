@@ -0,0 +1,137 @@
+/**
+ * Project Export Importer
+ * Shared row mapper for CRMs whose project/job list export holds both leads and booked projects
+ * (Dubsado, Táve, 17hats, Studio Ninja, Sprout Studio)
+ */
+
+import { parseDate, parseCents } from '../utils/csvParser';
+import type { Booking } from '../types';
+import type { CRMImporter, ColumnAliases } from '../types/import';
+
+/**
+ * Column aliases a project export importer can map
+ * Required: projectName, status, dateCreated. Everything else is optional.
+ * externalId is the CRM's own project/job ID, used to match rows across re-imports.
+ */
+type ProjectExportField =
+  | 'externalId'
+  | 'projectName'
+  | 'clientName'
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'phone'
+  | 'status'
+  | 'projectType'
+  | 'leadSource'
+  | 'dateCreated'
+  | 'bookedDate'
+  | 'projectDate'
+  | 'totalAmount';
+
+interface ProjectExportOptions extends Omit<CRMImporter, 'columns' | 'createsBookings' | 'mapRow'> {
+  columns: Partial<Record<ProjectExportField, string[]>> & ColumnAliases;
+  bookedStatuses: string[]; // Lower-case statuses that count as a close
+}
+
+/**
+ * Create an importer for a project/job list export
+ *
+ * Every row is an inquiry (by its created date). Rows with a booked status or a booked date
+ * are closes and become bookings; the close month falls back to the created date when the
+ * export has no booked date. Archived/lost rows stay as inquiries unless they carry a booked date.
+ */
+export function createProjectExportImporter(options: ProjectExportOptions): CRMImporter {
+  const { bookedStatuses, ...definition } = options;
+
+  return {
+    ...definition,
+    createsBookings: true,
+    mapRow: (row, columns, rowNumber, context) => {
+      const projectName = columns.projectName ? row[columns.projectName]?.trim() : '';
+      if (!projectName) {
+        context.skip(rowNumber, 'Skipping row with no project name');
+        return;
+      }
+
+      const status = columns.status ? (row[columns.status] || '').trim().toLowerCase() : '';
+
+      const dateCreated = columns.dateCreated ? parseDate(row[columns.dateCreated], context.dateFormats.dateCreated) : null;
+      const bookedDate = columns.bookedDate && row[columns.bookedDate]?.trim()
+        ? parseDate(row[columns.bookedDate], context.dateFormats.bookedDate)
+        : null;
+      const projectDate = columns.projectDate && row[columns.projectDate]?.trim()
+        ? parseDate(row[columns.projectDate], context.dateFormats.projectDate)
+        : null;
+
+      const isBooked = !!bookedDate || bookedStatuses.includes(status);
+
+      // Every project started as a lead - count it as an inquiry in its creation month
+      if (dateCreated) {
+        context.tally(dateCreated, { inquiries: 1 });
+      } else {
+        context.result.warnings.push(`Row ${rowNumber}: Missing created date for "${projectName}", not counted as an inquiry`);
+      }
+
+      if (!isBooked) return;
+
+      // The CRM's project/job ID, else project name + created date
+      const externalId = context.externalId(
+        columns.externalId ? row[columns.externalId] : null,
+        projectName,
+        dateCreated
+      );
+      if (context.seen.has(externalId)) {
+        context.skip(rowNumber, `"${projectName}" appears more than once in this file, skipping`);
+        return;
+      }
+      context.seen.add(externalId);
+
+      const closeDate = bookedDate || dateCreated;
+      if (!closeDate) {
+        context.skip(rowNumber, `"${projectName}" is booked but has no booked or created date, skipping`);
+        return;
+      }
+
+      const totalAmount = columns.totalAmount
+        ? parseCents(row[columns.totalAmount], context.decimalSeparator) || 0
+        : 0;
+
+      context.tally(closeDate, { closes: 1, bookings: totalAmount });
+
+      const serviceTypeId = context.getServiceTypeId(columns.projectType ? row[columns.projectType] : null);
+      const leadSourceId = context.getLeadSourceId(columns.leadSource ? row[columns.leadSource] : null);
+
+      // Client name: explicit column, else First + Last, else project name
+      const fullName = [
+        columns.firstName ? row[columns.firstName]?.trim() : '',
+        columns.lastName ? row[columns.lastName]?.trim() : '',
+      ].filter(Boolean).join(' ');
+      const clientName = (columns.clientName && row[columns.clientName]?.trim()) || fullName || projectName;
+
+      const booking: Booking = {
+        id: `imported-${definition.crm}-${Date.now()}-${rowNumber}`,
+        projectName,
+        clientName,
+        clientEmail: columns.email ? row[columns.email]?.trim() || undefined : undefined,
+        clientPhone: columns.phone ? row[columns.phone]?.trim() || undefined : undefined,
+        serviceTypeId,
+        leadSourceId,
+        bookingDate: closeDate,
+        status: 'booked',
+        notes: undefined,
+        dateInquired: dateCreated || undefined,
+        dateBooked: closeDate,
+        projectDate: projectDate || undefined,
+        bookedRevenue: totalAmount,
+        revenue: totalAmount,
+        createdAt: new Date().toISOString(),
+        payments: [], // Payment schedules will be added manually
+        sourceSystem: definition.crm,
+        externalId,
+      };
+
+      context.result.bookings.push(booking);
+    },
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * Revenue Simulation
+ * Monte Carlo simulation of booked revenue for the rest of the year. Each run draws, month by month:
+ * - inquiries, from the spread of monthly inquiries in the history
+ * - for each service type, the share of inquiries that booked it (its inquiry-to-close rate)
+ * - a booking value for every close, from the spread of that service type's booking values
+ * Runs are added to the revenue already booked this year; the spread of the results gives the
+ * P10/P50/P90 outcomes and the chance of reaching a target.
+ *
+ * The random numbers come from a seeded generator, so the same seed and data always give the same
+ * result.
+ */
+
+import { ALL_FUNNELS, buildFunnelMonths, type FunnelScopeData } from './funnelScope';
+import { monthToIndex } from './insightsMetrics';
+import { mean, normalSample, percentile, seededRandom, standardDeviation } from '../utils/statistics';
+import type { Booking } from '../types';
+
+export const DEFAULT_SIMULATION_RUNS = 2000;
+export const DEFAULT_SIMULATION_HISTORY_MONTHS = 24;
+export const MIN_SIMULATION_HISTORY_MONTHS = 3; // Months with inquiries needed to measure any spread
+
+export interface ServiceTypeSimulationInputs {
+  serviceTypeId: string;
+  name: string;
+  closeRate: number; // Bookings per inquiry in an average month
+  closeRateSd: number;
+  averageValue: number; // cents
+  valueSd: number; // cents
+}
+
+export interface SimulationInputs {
+  historyMonths: number; // Months with inquiries the inputs were measured from
+  inquiries: number; // Average per month
+  inquiriesSd: number;
+  serviceTypes: ServiceTypeSimulationInputs[];
+}
+
+export interface SimulationBand {
+  month: number; // 1-12
+  p10: number; // Booked revenue for the year through this month, cents
+  p50: number;
+  p90: number;
+}
+
+export interface RevenueSimulation {
+  year: number;
+  seed: number;
+  runs: number;
+  bookedToDate: number; // cents
+  p10: number; // Year-end booked revenue, cents
+  p50: number;
+  p90: number;
+  mean: number;
+  target: number | null;
+  probabilityOfTarget: number | null; // 0-1
+  months: SimulationBand[];
+  inputs: SimulationInputs;
+}
+
+export interface SimulationOptions {
+  seed?: number;
+  runs?: number;
+  target?: number | null; // cents
+  historyMonths?: number;
+  now?: Date;
+}
+
+// Month index of a YYYY-MM or YYYY-MM-DD date, or null if it can't be read
+const dateToIndex = (date: string | undefined): number | null => {
+  const match = date?.match(/^(\d{4})-(\d{2})/);
+  return match ? monthToIndex(parseInt(match[1]), parseInt(match[2])) : null;
+};
+
+const localDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Monthly inquiry, close-rate and booking-value inputs measured over the complete months before now
+ * Only months with inquiries count, since a close rate needs inquiries to be measured against.
+ * Returns null with fewer than MIN_SIMULATION_HISTORY_MONTHS such months.
+ */
+export function simulationInputs(
+  data: FunnelScopeData,
+  historyMonths: number = DEFAULT_SIMULATION_HISTORY_MONTHS,
+  now: Date = new Date()
+): SimulationInputs | null {
+  const end = monthToIndex(now.getFullYear(), now.getMonth() + 1) - 1;
+  const range = { start: end - historyMonths + 1, end };
+  const months = buildFunnelMonths(ALL_FUNNELS, data, range, true)
+    .map(month => ({ index: monthToIndex(month.year, month.month), inquiries: month.inquiries || 0 }))
+    .filter(month => month.inquiries > 0);
+  if (months.length < MIN_SIMULATION_HISTORY_MONTHS) return null;
+
+  const monthIndexes = new Set(months.map(month => month.index));
+  const bookingsByServiceType = new Map<string, Booking[]>();
+  data.bookings.forEach(booking => {
+    const index = dateToIndex(booking.dateBooked);
+    if (index === null || !monthIndexes.has(index)) return;
+    const bookings = bookingsByServiceType.get(booking.serviceTypeId) || [];
+    bookings.push(booking);
+    bookingsByServiceType.set(booking.serviceTypeId, bookings);
+  });
+
+  const serviceTypes = [...bookingsByServiceType.entries()].map(([serviceTypeId, bookings]) => {
+    const rates = months.map(month =>
+      bookings.filter(booking => dateToIndex(booking.dateBooked) === month.index).length / month.inquiries);
+    const values = bookings.map(booking => booking.bookedRevenue || 0);
+    return {
+      serviceTypeId,
+      name: data.serviceTypes.find(st => st.id === serviceTypeId)?.name || 'Unknown',
+      closeRate: mean(rates),
+      closeRateSd: standardDeviation(rates),
+      averageValue: mean(values),
+      valueSd: standardDeviation(values),
+    };
+  });
+
+  const inquiries = months.map(month => month.inquiries);
+  return {
+    historyMonths: months.length,
+    inquiries: mean(inquiries),
+    inquiriesSd: standardDeviation(inquiries),
+    serviceTypes: serviceTypes.sort((a, b) => b.closeRate * b.averageValue - a.closeRate * a.averageValue),
+  };
+}
+
+/**
+ * Simulate booked revenue for the rest of the current year
+ * The current month is simulated for the share of its days still to come. Returns null when there
+ * isn't enough history to measure the inputs.
+ */
+export function simulateRevenue(data: FunnelScopeData, options: SimulationOptions = {}): RevenueSimulation | null {
+  const {
+    seed = 1,
+    runs = DEFAULT_SIMULATION_RUNS,
+    target = null,
+    historyMonths = DEFAULT_SIMULATION_HISTORY_MONTHS,
+    now = new Date(),
+  } = options;
+
+  const inputs = simulationInputs(data, historyMonths, now);
+  if (!inputs) return null;
+
+  const year = now.getFullYear();
+  const currentMonth = now.getMonth() + 1;
+  const today = localDate(now);
+  const daysInMonth = new Date(year, currentMonth, 0).getDate();
+
+  // Revenue booked so far this year, by month
+  const booked = Array<number>(12).fill(0);
+  data.bookings.forEach(booking => {
+    const index = dateToIndex(booking.dateBooked);
+    if (index === null || !booking.dateBooked || booking.dateBooked > today) return;
+    const month = index - monthToIndex(year, 1);
+    if (month >= 0 && month < 12) booked[month] += booking.bookedRevenue || 0;
+  });
+  const bookedToDate = booked.reduce((sum, value) => sum + value, 0);
+
+  // Share of each month still to simulate
+  const remaining = Array.from({ length: 12 }, (_, i) =>
+    i + 1 < currentMonth ? 0 : i + 1 === currentMonth ? (daysInMonth - now.getDate()) / daysInMonth : 1);
+
+  const random = seededRandom(seed);
+  const totals: number[] = [];
+  const cumulative: number[][] = Array.from({ length: 12 }, () => []);
+
+  for (let run = 0; run < runs; run++) {
+    let total = 0;
+    for (let i = 0; i < 12; i++) {
+      total += booked[i];
+      const share = remaining[i];
+      if (share > 0) {
+        // Spread shrinks with the square root of the share, as for a sum of independent days
+        const inquiries = Math.max(0, normalSample(random, inputs.inquiries * share, inputs.inquiriesSd * Math.sqrt(share)));
+        inputs.serviceTypes.forEach(st => {
+          const expected = inquiries * clamp(normalSample(random, st.closeRate, st.closeRateSd), 0, 1);
+          // Round at random so fractional closes add up correctly across runs
+          const closes = Math.floor(expected) + (random() < expected - Math.floor(expected) ? 1 : 0);
+          for (let c = 0; c < closes; c++) {
+            total += Math.max(0, normalSample(random, st.averageValue, st.valueSd));
+          }
+        });
+      }
+      cumulative[i].push(total);
+    }
+    totals.push(total);
+  }
+
+  const sortedTotals = [...totals].sort((a, b) => a - b);
+  const months = cumulative.map((values, i) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return { month: i + 1, p10: percentile(sorted, 10), p50: percentile(sorted, 50), p90: percentile(sorted, 90) };
+  });
+
+  return {
+    year,
+    seed,
+    runs,
+    bookedToDate,
+    p10: percentile(sortedTotals, 10),
+    p50: percentile(sortedTotals, 50),
+    p90: percentile(sortedTotals, 90),
+    mean: mean(totals),
+    target: target && target > 0 ? target : null,
+    probabilityOfTarget: target && target > 0 && runs > 0
+      ? totals.filter(value => value >= target).length / runs
+      : null,
+    months,
+    inputs,
+  };
+}
@@ -3,14 +3,109 @@ import { MockDataService } from './mockDataService';
 import { logger } from '../utils/logger';
 import type { 
   FunnelData, 
+  FunnelDefinition,
+  FunnelStage,
+  FunnelStageSource,
+  FunnelWeek,
+  CalculatorGoals,
   ServiceType, 
   LeadSource, 
   Booking, 
   Payment,
   AdCampaign,
-  ForecastModel
+  ForecastModel,
+  ForecastModelType,
+  ForecastMetric,
+  ForecastModelVersion,
+  ForecastSnapshot,
+  SavedColumnMapping,
+  ImportBatch,
+  AdAccountMapping,
+  AdPlatform
 } from '../types';
 
+// funnel_definitions row as returned by Supabase
+interface FunnelDefinitionRow {
+  id: string;
+  name: string;
+  sort_order: number | null;
+  archived_at: string | null;
+  created_at: string;
+}
+
+// funnel_weeks row as returned by Supabase
+interface FunnelWeekRow {
+  id: string;
+  funnel_id: string;
+  iso_year: number;
+  iso_week: number;
+  inquiries: number | null;
+  calls_booked: number | null;
+  calls_taken: number | null;
+  notes: string | null;
+  updated_at: string | null;
+}
+
+// funnel_stages row as returned by Supabase
+interface FunnelStageRow {
+  id: string;
+  name: string;
+  source: string;
+  sort_order: number | null;
+}
+
+// forecast_snapshots row as returned by Supabase
+interface ForecastSnapshotRow {
+  id: string;
+  model_id: string | null;
+  model_name: string;
+  model_type: string;
+  year: number;
+  checkpoint: number;
+  total: number | null;
+  service_types: ForecastSnapshot['serviceTypes'] | null;
+  metric: string | null;
+  taken_at: string;
+}
+
+// forecast_model_versions row as returned by Supabase
+interface ForecastModelVersionRow {
+  id: string;
+  model_id: string;
+  version: number;
+  name: string;
+  model_type: string;
+  parameters: Partial<ForecastModelVersion['parameters']> | null;
+  note: string | null;
+  saved_at: string;
+}
+
+// funnel_stages.source is snake_case in the database
+const STAGE_SOURCE_COLUMNS: Record<FunnelStageSource, string> = {
+  inquiries: 'inquiries',
+  callsBooked: 'calls_booked',
+  callsTaken: 'calls_taken',
+  closes: 'closes',
+  custom: 'custom',
+};
+
+// import_batches row as returned by Supabase
+interface ImportBatchRow {
+  id: string;
+  file_name: string;
+  importer_id: string;
+  row_count: number | null;
+  booking_ids: string[] | null;
+  updated_bookings: ImportBatch['updatedBookings'] | null;
+  service_type_ids: string[] | null;
+  lead_source_ids: string[] | null;
+  payment_ids: string[] | null;
+  updated_payments: ImportBatch['updatedPayments'] | null;
+  funnel_months: ImportBatch['funnelMonths'] | null;
+  rolled_back_at: string | null;
+  created_at: string;
+}
+
 export class UnifiedDataService {
   /**
    * Check if a write operation is allowed
@@ -75,6 +170,7 @@ export class UnifiedDataService {
     if (!records) return [];
     return records.map(record => ({
       id: record.id,
+      funnelId: record.funnel_id || undefined,
       year: record.year,
       month: record.month,
       inquiries: record.inquiries || 0,
@@ -94,6 +190,8 @@ export class UnifiedDataService {
       closesManual: record.closes_manual || false,
       bookingsManual: record.bookings_manual || false,
       cashManual: record.cash_manual || false,
+      stageCounts: record.stage_counts || {},
+      overrideReasons: record.override_reasons || {},
       lastUpdated: record.updated_at || new Date().toISOString()
     }));
   }
@@ -184,7 +282,8 @@ export class UnifiedDataService {
   /**
    * Save funnel data for a specific user and month/year
    * 
-   * Creates a new record if none exists, or updates an existing record for the same user/year/month.
+   * Creates a new record if none exists, or updates an existing record for the same funnel/year/month.
+   * Months without a funnelId are saved to the account's first funnel.
    * 
    * @param userId - The ID of the user owning the funnel data
    * @param funnelData - The funnel data to save (must include year and month)
@@ -216,12 +315,20 @@ export class UnifiedDataService {
         month: funnelData.month 
       });
       
-      // First, check if a record exists for this user/year/month combination
-      logger.debug('Checking for existing record', { userId, year: funnelData.year, month: funnelData.month });
+      // Months belong to a named funnel; rows saved without one go to the account's first funnel
+      const funnelId = funnelData.funnelId || await this.getDefaultFunnelId(userId);
+      if (!funnelId) {
+        logger.error('No funnel to save the month to', { userId });
+        return false;
+      }
+
+      // First, check if a record exists for this funnel/year/month combination
+      logger.debug('Checking for existing record', { userId, funnelId, year: funnelData.year, month: funnelData.month });
       const { data: existingData, error: fetchError } = await supabase
         .from('funnels')
         .select('id, name')
         .eq('user_id', userId)
+        .eq('funnel_id', funnelId)
         .eq('year', funnelData.year)
         .eq('month', funnelData.month);
 
@@ -234,6 +341,7 @@ export class UnifiedDataService {
       // Prepare the data for upsert - only include fields that exist in the database
       const upsertData: any = {
         user_id: userId,
+        funnel_id: funnelId,
         year: Number(funnelData.year),
         month: Number(funnelData.month),
         inquiries: Number(funnelData.inquiries || 0),
@@ -248,7 +356,7 @@ export class UnifiedDataService {
       // Don't include ID in upsertData - we'll use it separately for the update query
 
       // Add optional fields if they exist in the funnelData
-      // Use a unique name for each month to avoid constraint conflicts
+      // Name each row after its month (the funnel's own name lives in funnel_definitions)
       const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 
                          'July', 'August', 'September', 'October', 'November', 'December'];
       const monthName = monthNames[funnelData.month - 1];
@@ -261,6 +369,8 @@ export class UnifiedDataService {
       if (funnelData.callsYtd) upsertData.calls_ytd = Number(funnelData.callsYtd);
       if (funnelData.bookingsYtd) upsertData.bookings_ytd = Number(funnelData.bookingsYtd);
       if (funnelData.notes !== undefined) upsertData.notes = funnelData.notes || null;
+      if (funnelData.stageCounts !== undefined) upsertData.stage_counts = funnelData.stageCounts;
+      if (funnelData.overrideReasons !== undefined) upsertData.override_reasons = funnelData.overrideReasons;
       
       // Manual override flags
       upsertData.closes_manual = funnelData.closesManual || false;
@@ -320,6 +430,389 @@ export class UnifiedDataService {
     }
   }
 
+  // ============================================================================
+  // NAMED FUNNELS
+  // ============================================================================
+
+  // Single funnel used when Supabase isn't configured
+  private static readonly MOCK_FUNNEL: FunnelDefinition = {
+    id: 'mock_default_funnel',
+    name: 'Default',
+    sortOrder: 0,
+    archivedAt: null,
+    createdAt: new Date(0).toISOString()
+  };
+
+  private static transformFunnelDefinition(record: FunnelDefinitionRow): FunnelDefinition {
+    return {
+      id: record.id,
+      name: record.name,
+      sortOrder: record.sort_order || 0,
+      archivedAt: record.archived_at || null,
+      createdAt: record.created_at
+    };
+  }
+
+  /**
+   * Get the account's named funnels, archived ones included, in display order
+   *
+   * @returns Promise resolving to the funnels (empty if none were created yet)
+   */
+  static async getFunnels(userId: string): Promise<FunnelDefinition[]> {
+    if (!this.isSupabaseConfigured()) {
+      return [this.MOCK_FUNNEL];
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('funnel_definitions')
+        .select('*')
+        .eq('user_id', userId)
+        .order('sort_order', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        logger.error('Error fetching funnels:', error);
+        return [];
+      }
+
+      return (data || []).map(record => this.transformFunnelDefinition(record));
+    } catch (error) {
+      logger.error('Error fetching funnels:', error);
+      return [];
+    }
+  }
+
+  /**
+   * ID of the account's first funnel, creating a "Default" funnel if the account has none yet
+   */
+  private static async getDefaultFunnelId(userId: string): Promise<string | null> {
+    const funnels = await this.getFunnels(userId);
+    if (funnels.length > 0) {
+      return funnels[0].id;
+    }
+    const created = await this.createFunnel(userId, 'Default');
+    return created?.id || null;
+  }
+
+  /**
+   * Create a named funnel (names are unique per account)
+   *
+   * @returns Promise resolving to the created funnel, or null if creation failed
+   */
+  static async createFunnel(userId: string, name: string, isViewOnly: boolean = false): Promise<FunnelDefinition | null> {
+    this.checkWritePermission(isViewOnly);
+
+    if (!this.isSupabaseConfigured()) {
+      return { ...this.MOCK_FUNNEL, id: `mock_${Date.now()}`, name, createdAt: new Date().toISOString() };
+    }
+
+    try {
+      const { data: last } = await supabase
+        .from('funnel_definitions')
+        .select('sort_order')
+        .eq('user_id', userId)
+        .order('sort_order', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const { data, error } = await supabase
+        .from('funnel_definitions')
+        .insert({ user_id: userId, name: name.trim(), sort_order: last ? (last.sort_order || 0) + 1 : 0 })
+        .select()
+        .single();
+
+      if (error) {
+        logger.error('Error creating funnel:', { userId, name, error });
+        return null;
+      }
+
+      return this.transformFunnelDefinition(data);
+    } catch (error) {
+      logger.error('Error creating funnel:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Rename a funnel, or archive/unarchive it (archivedAt: a timestamp or null)
+   *
+   * @returns Promise resolving to true if the funnel was updated
+   */
+  static async updateFunnel(
+    userId: string,
+    id: string,
+    updates: Partial<Pick<FunnelDefinition, 'name' | 'archivedAt' | 'sortOrder'>>,
+    isViewOnly: boolean = false
+  ): Promise<boolean> {
+    this.checkWritePermission(isViewOnly);
+
+    if (!this.isSupabaseConfigured()) {
+      return true; // Mock success
+    }
+
+    try {
+      const updateData: Record<string, unknown> = { updated_at: new Date().toISOString() };
+      if (updates.name !== undefined) updateData.name = updates.name.trim();
+      if (updates.archivedAt !== undefined) updateData.archived_at = updates.archivedAt;
+      if (updates.sortOrder !== undefined) updateData.sort_order = updates.sortOrder;
+
+      const { error } = await supabase
+        .from('funnel_definitions')
+        .update(updateData)
+        .eq('id', id)
+        .eq('user_id', userId);
+
+      if (error) {
+        logger.error('Error updating funnel:', { userId, id, error });
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logger.error('Error updating funnel:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Choose the funnel a service type feeds
+   * funnelId null stops tracking it in any funnel; a funnel ID also turns tracking on.
+   *
+   * @returns Promise resolving to true if the service type was updated
+   */
+  static async updateServiceTypeFunnel(userId: string, serviceTypeId: string, funnelId: string | null, isViewOnly: boolean = false): Promise<boolean> {
+    this.checkWritePermission(isViewOnly);
+
+    if (!this.isSupabaseConfigured()) {
+      return true; // Mock success
+    }
+
+    try {
+      const { error } = await supabase
+        .from('service_types')
+        .update({ funnel_id: funnelId, tracks_in_funnel: funnelId !== null })
+        .eq('id', serviceTypeId)
+        .eq('user_id', userId);
+
+      if (error) {
+        logger.error('Error updating service type funnel:', { userId, serviceTypeId, error });
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logger.error('Error updating service type funnel:', error);
+      return false;
+    }
+  }
+
+  // ============================================================================
+  // FUNNEL WEEKS
+  // ============================================================================
+
+  private static transformFunnelWeek(record: FunnelWeekRow): FunnelWeek {
+    return {
+      id: record.id,
+      funnelId: record.funnel_id,
+      year: record.iso_year,
+      week: record.iso_week,
+      inquiries: record.inquiries || 0,
+      callsBooked: record.calls_booked || 0,
+      callsTaken: record.calls_taken || 0,
+      notes: record.notes,
+      lastUpdated: record.updated_at || undefined
+    };
+  }
+
+  /**
+   * Get every weekly funnel row in the account
+   *
+   * @returns Promise resolving to the weeks (empty if none were entered)
+   */
+  static async getFunnelWeeks(userId: string): Promise<FunnelWeek[]> {
+    if (!this.isSupabaseConfigured()) {
+      return [];
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('funnel_weeks')
+        .select('*')
+        .eq('user_id', userId)
+        .order('iso_year', { ascending: true })
+        .order('iso_week', { ascending: true });
+
+      if (error) {
+        logger.error('Error fetching funnel weeks:', error);
+        return [];
+      }
+
+      return (data || []).map(record => this.transformFunnelWeek(record));
+    } catch (error) {
+      logger.error('Error fetching funnel weeks:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create or update a week's row (one per funnel and ISO week)
+   * Doesn't touch the month it rolls up into; callers save the month's new totals.
+   *
+   * @returns Promise resolving to the saved week, or null if saving failed
+   */
+  static async saveFunnelWeek(userId: string, week: FunnelWeek, isViewOnly: boolean = false): Promise<FunnelWeek | null> {
+    this.checkWritePermission(isViewOnly);
+
+    if (!this.isSupabaseConfigured()) {
+      return { ...week, id: week.id || `mock_week_${week.year}_${week.week}`, lastUpdated: new Date().toISOString() };
+    }
+
+    try {
+      const funnelId = week.funnelId || await this.getDefaultFunnelId(userId);
+      if (!funnelId) {
+        logger.error('Error saving funnel week: no funnel to save it in', { userId });
+        return null;
+      }
+
+      const { data, error } = await supabase
+        .from('funnel_weeks')
+        .upsert({
+          user_id: userId,
+          funnel_id: funnelId,
+          iso_year: week.year,
+          iso_week: week.week,
+          inquiries: week.inquiries || 0,
+          calls_booked: week.callsBooked || 0,
+          calls_taken: week.callsTaken || 0,
+          notes: week.notes || null,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'funnel_id,iso_year,iso_week' })
+        .select()
+        .single();
+
+      if (error) {
+        logger.error('Error saving funnel week:', { userId, year: week.year, week: week.week, error });
+        return null;
+      }
+
+      return this.transformFunnelWeek(data);
+    } catch (error) {
+      logger.error('Error saving funnel week:', error);
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // FUNNEL STAGES
+  // ============================================================================
+
+  private static transformFunnelStage(record: FunnelStageRow): FunnelStage {
+    const source = (Object.keys(STAGE_SOURCE_COLUMNS) as FunnelStageSource[])
+      .find(key => STAGE_SOURCE_COLUMNS[key] === record.source) || 'custom';
+    return {
+      id: record.id,
+      name: record.name,
+      source,
+      sortOrder: record.sort_order || 0
+    };
+  }
+
+  /**
+   * Get the account's funnel stages in order
+   *
+   * @returns Promise resolving to the stages (empty if the account uses the default template)
+   */
+  static async getFunnelStages(userId: string): Promise<FunnelStage[]> {
+    if (!this.isSupabaseConfigured()) {
+      return [];
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('funnel_stages')
+        .select('*')
+        .eq('user_id', userId)
+        .order('sort_order', { ascending: true });
+
+      if (error) {
+        logger.error('Error fetching funnel stages:', error);
+        return [];
+      }
+
+      return (data || []).map(record => this.transformFunnelStage(record));
+    } catch (error) {
+      logger.error('Error fetching funnel stages:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Replace the account's stages with an ordered list
+   * Stages whose ID is already saved are renamed/reordered, the rest are created, and saved stages
+   * missing from the list are deleted (their monthly counts stay in funnels.stage_counts unused).
+   * sortOrder is taken from the position in the list.
+   *
+   * @returns Promise resolving to the saved stages, or null if saving failed
+   */
+  static async saveFunnelStages(userId: string, stages: FunnelStage[], isViewOnly: boolean = false): Promise<FunnelStage[] | null> {
+    this.checkWritePermission(isViewOnly);
+
+    if (!this.isSupabaseConfigured()) {
+      return stages.map((stage, index) => ({ ...stage, id: stage.id || `mock_stage_${index}`, sortOrder: index }));
+    }
+
+    try {
+      const { data: existing, error: fetchError } = await supabase
+        .from('funnel_stages')
+        .select('id')
+        .eq('user_id', userId);
+
+      if (fetchError) {
+        logger.error('Error fetching funnel stages:', fetchError);
+        return null;
+      }
+
+      const savedIds = new Set((existing || []).map(record => record.id as string));
+      const keptIds = new Set(stages.filter(stage => savedIds.has(stage.id)).map(stage => stage.id));
+      const removedIds = [...savedIds].filter(id => !keptIds.has(id));
+
+      // Delete first so a new stage can take a removed stage's name or source
+      if (removedIds.length > 0) {
+        const { error } = await supabase
+          .from('funnel_stages')
+          .delete()
+          .eq('user_id', userId)
+          .in('id', removedIds);
+        if (error) {
+          logger.error('Error deleting funnel stages:', { userId, error });
+          return null;
+        }
+      }
+
+      for (const [index, stage] of stages.entries()) {
+        const row = {
+          name: stage.name.trim(),
+          source: STAGE_SOURCE_COLUMNS[stage.source],
+          sort_order: index,
+          updated_at: new Date().toISOString()
+        };
+        const { error } = keptIds.has(stage.id)
+          ? await supabase.from('funnel_stages').update(row).eq('id', stage.id).eq('user_id', userId)
+          : await supabase.from('funnel_stages').insert({ ...row, user_id: userId });
+        if (error) {
+          logger.error('Error saving funnel stage:', { userId, name: stage.name, error });
+          return null;
+        }
+      }
+
+      return this.getFunnelStages(userId);
+    } catch (error) {
+      logger.error('Error saving funnel stages:', error);
+      return null;
+    }
+  }
+
   // ============================================================================
   // SERVICE TYPES
   // ============================================================================
@@ -357,7 +850,8 @@ export class UnifiedDataService {
         id: item.id,
         name: item.name,
         isCustom: true, // All database items are considered custom
-        tracksInFunnel: item.tracks_in_funnel ?? false // Read from database, default to false if null
+        tracksInFunnel: item.tracks_in_funnel ?? false, // Read from database, default to false if null
+        funnelId: item.funnel_id || null
       })) || [];
     } catch (error) {
       logger.error('Error fetching service types:', error);
@@ -669,7 +1163,9 @@ export class UnifiedDataService {
         bookedRevenue: item.booked_revenue || 0, // Use new column
         status: item.status,
         notes: item.notes || '',
-        createdAt: item.created_at
+        createdAt: item.created_at,
+        sourceSystem: item.source_system || undefined,
+        externalId: item.external_id || undefined
       })) || [];
     } catch (error) {
       logger.error('Error fetching bookings:', error);
@@ -699,7 +1195,9 @@ export class UnifiedDataService {
           project_date: bookingData.projectDate || null,
           booked_revenue: bookingData.bookedRevenue || 0,
           status: bookingData.status || 'confirmed',
-          notes: bookingData.notes || ''
+          notes: bookingData.notes || '',
+          source_system: bookingData.sourceSystem || null,
+          external_id: bookingData.externalId || null
         })
         .select()
         .single();
@@ -747,7 +1245,7 @@ export class UnifiedDataService {
       }
 
       // Update additional fields if they exist
-      if (updates.dateInquired !== undefined || updates.projectDate !== undefined || updates.bookedRevenue !== undefined) {
+      if (updates.dateInquired !== undefined || updates.projectDate !== undefined || updates.bookedRevenue !== undefined || updates.externalId !== undefined) {
         const additionalUpdates: any = {};
         
         if (updates.dateInquired !== undefined) {
@@ -761,6 +1259,11 @@ export class UnifiedDataService {
         if (updates.bookedRevenue !== undefined) {
           additionalUpdates.booked_revenue = updates.bookedRevenue;
         }
+
+        if (updates.externalId !== undefined) {
+          additionalUpdates.source_system = updates.sourceSystem || null;
+          additionalUpdates.external_id = updates.externalId || null;
+        }
         
         // Only update if we have additional fields
         if (Object.keys(additionalUpdates).length > 0) {
@@ -848,7 +1351,9 @@ export class UnifiedDataService {
         paymentMethod: item.payment_method || '',
         status: item.status,
         expectedDate: this.convertDateToMonthYear(item.expected_date),
-        isExpected: item.is_expected || false
+        isExpected: item.is_expected || false,
+        sourceSystem: item.source_system || undefined,
+        externalId: item.external_id || undefined
       })) || [];
     } catch (error) {
       logger.error('Error fetching payments:', error);
@@ -876,7 +1381,9 @@ export class UnifiedDataService {
           status: paymentData.paidAt ? 'completed' : 'pending',
         notes: paymentData.memo || null,
         expected_date: this.convertMonthYearToDate(paymentData.expectedDate),
-        is_expected: paymentData.isExpected || false
+        is_expected: paymentData.isExpected || false,
+        source_system: paymentData.sourceSystem || null,
+        external_id: paymentData.externalId || null
       };
       
       // Only include payment_date if we have a date value
@@ -940,6 +1447,10 @@ export class UnifiedDataService {
         updateData.expected_date = this.convertMonthYearToDate(updates.expectedDate);
       }
       if (updates.isExpected !== undefined) updateData.is_expected = updates.isExpected;
+      if (updates.externalId !== undefined) {
+        updateData.source_system = updates.sourceSystem || null;
+        updateData.external_id = updates.externalId || null;
+      }
 
       const { error } = await supabase
         .from('payments')
@@ -1140,18 +1651,133 @@ export class UnifiedDataService {
     }
   }
 
-  // Forecast Model operations
-  static async getForecastModels(userId: string): Promise<ForecastModel[]> {
+  /**
+   * Create or overwrite monthly campaigns in one request, keyed on lead source + month
+   * Used by the ad spend import; notes on existing rows are left alone
+   */
+  static async upsertAdCampaigns(
+    userId: string,
+    campaigns: Array<Pick<AdCampaign, 'leadSourceId' | 'monthYear' | 'adSpendCents' | 'leadsGenerated'>>,
+    isViewOnly: boolean = false
+  ): Promise<boolean> {
+    this.checkWritePermission(isViewOnly);
+
     if (!this.isSupabaseConfigured()) {
-      return [];
+      return true; // Mock success
     }
 
+    if (campaigns.length === 0) return true;
+
     try {
-      const { data, error } = await supabase
-        .from('forecast_models')
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
+      const now = new Date().toISOString();
+      const { error } = await supabase
+        .from('ad_campaigns')
+        .upsert(campaigns.map(campaign => ({
+          user_id: userId,
+          lead_source_id: campaign.leadSourceId,
+          month_year: campaign.monthYear,
+          ad_spend_cents: campaign.adSpendCents,
+          leads_generated: campaign.leadsGenerated,
+          last_updated: now,
+          updated_at: now,
+        })), { onConflict: 'user_id,lead_source_id,month_year' });
+
+      if (error) {
+        logger.error('Error upserting ad campaigns:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logger.error('Error upserting ad campaigns:', error);
+      return false;
+    }
+  }
+
+  // ============================================================================
+  // AD ACCOUNT MAPPINGS (ad spend import: account/campaign -> lead source)
+  // ============================================================================
+
+  /**
+   * Get the lead source mappings saved for an ad platform's accounts and campaigns
+   */
+  static async getAdAccountMappings(userId: string, platform: AdPlatform): Promise<AdAccountMapping[]> {
+    if (!this.isSupabaseConfigured()) {
+      return [];
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('ad_account_mappings')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('platform', platform);
+
+      if (error) {
+        logger.error('Error fetching ad account mappings:', error);
+        return [];
+      }
+
+      return (data || []).map(row => ({
+        platform: row.platform,
+        matchBy: row.match_by,
+        externalName: row.external_name,
+        leadSourceId: row.lead_source_id,
+      }));
+    } catch (error) {
+      logger.error('Error fetching ad account mappings:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save (insert or replace) ad account/campaign mappings
+   */
+  static async saveAdAccountMappings(userId: string, mappings: AdAccountMapping[], isViewOnly: boolean = false): Promise<boolean> {
+    this.checkWritePermission(isViewOnly);
+
+    if (!this.isSupabaseConfigured()) {
+      return true; // Mock success
+    }
+
+    if (mappings.length === 0) return true;
+
+    try {
+      const { error } = await supabase
+        .from('ad_account_mappings')
+        .upsert(mappings.map(mapping => ({
+          user_id: userId,
+          platform: mapping.platform,
+          match_by: mapping.matchBy,
+          external_name: mapping.externalName,
+          lead_source_id: mapping.leadSourceId,
+          updated_at: new Date().toISOString(),
+        })), { onConflict: 'user_id,platform,match_by,external_name' });
+
+      if (error) {
+        logger.error('Error saving ad account mappings:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logger.error('Error saving ad account mappings:', error);
+      return false;
+    }
+  }
+
+  // Forecast Model operations
+  static async getForecastModels(userId: string): Promise<ForecastModel[]> {
+    if (!this.isSupabaseConfigured()) {
+      return [];
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('forecast_models')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
 
       if (error) {
         logger.error('Error loading forecast models:', error);
@@ -1198,6 +1824,7 @@ export class UnifiedDataService {
         model_type: model.modelType || 'forecast',
         is_active: model.isActive || false,
         parameters: {
+          ...model.parameters, // Fitted models keep their metric, history length and fit here
           year: model.year,
           serviceTypes: model.serviceTypes || []
         },
@@ -1305,12 +1932,225 @@ export class UnifiedDataService {
     }
   }
 
+  // ============================================================================
+  // FORECAST MODEL VERSIONS
+  // ============================================================================
+
+  private static transformForecastModelVersion(record: ForecastModelVersionRow): ForecastModelVersion {
+    const params = record.parameters || {};
+    const year = params.year || new Date().getFullYear();
+    const serviceTypes = params.serviceTypes || [];
+    return {
+      id: record.id,
+      modelId: record.model_id,
+      version: record.version,
+      name: record.name,
+      modelType: (record.model_type || 'forecast') as ForecastModelType,
+      year,
+      serviceTypes,
+      parameters: { ...params, year, serviceTypes },
+      note: record.note || '',
+      savedAt: record.saved_at
+    };
+  }
+
+  /**
+   * Get a forecast model's saved versions, newest first
+   *
+   * @returns Promise resolving to the versions (empty if it hasn't been saved since versions were kept)
+   */
+  static async getForecastModelVersions(userId: string, modelId: string): Promise<ForecastModelVersion[]> {
+    if (!this.isSupabaseConfigured()) {
+      return [];
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('forecast_model_versions')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('model_id', modelId)
+        .order('version', { ascending: false });
+
+      if (error) {
+        logger.error('Error fetching forecast model versions:', error);
+        return [];
+      }
+
+      return (data || []).map(record => this.transformForecastModelVersion(record));
+    } catch (error) {
+      logger.error('Error fetching forecast model versions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Keep a saved model as its next version
+   * Call after the model itself has been saved, so it has its database ID.
+   *
+   * @returns Promise resolving to the new version, or null if saving failed
+   */
+  static async saveForecastModelVersion(
+    userId: string,
+    model: ForecastModel,
+    note: string = '',
+    isViewOnly: boolean = false
+  ): Promise<ForecastModelVersion | null> {
+    this.checkWritePermission(isViewOnly);
+
+    const parameters = { ...model.parameters, year: model.year, serviceTypes: model.serviceTypes || [] };
+    if (!this.isSupabaseConfigured()) {
+      return {
+        id: `mock_version_${model.id}_${Date.now()}`,
+        modelId: model.id,
+        version: 1,
+        name: model.name,
+        modelType: model.modelType,
+        year: model.year,
+        serviceTypes: parameters.serviceTypes,
+        parameters,
+        note,
+        savedAt: new Date().toISOString()
+      };
+    }
+
+    try {
+      const { data: latest, error: latestError } = await supabase
+        .from('forecast_model_versions')
+        .select('version')
+        .eq('model_id', model.id)
+        .order('version', { ascending: false })
+        .limit(1);
+
+      if (latestError) {
+        logger.error('Error numbering forecast model version:', latestError);
+        return null;
+      }
+
+      const { data, error } = await supabase
+        .from('forecast_model_versions')
+        .insert({
+          user_id: userId,
+          model_id: model.id,
+          version: (latest?.[0]?.version || 0) + 1,
+          name: model.name,
+          model_type: model.modelType || 'forecast',
+          parameters,
+          note: note.trim() || null,
+          saved_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        logger.error('Error saving forecast model version:', { userId, modelId: model.id, error });
+        return null;
+      }
+
+      return this.transformForecastModelVersion(data);
+    } catch (error) {
+      logger.error('Error saving forecast model version:', error);
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // FORECAST SNAPSHOTS
+  // ============================================================================
+
+  private static transformForecastSnapshot(record: ForecastSnapshotRow): ForecastSnapshot {
+    return {
+      id: record.id,
+      modelId: record.model_id,
+      modelName: record.model_name,
+      modelType: (record.model_type || 'forecast') as ForecastModelType,
+      year: record.year,
+      checkpoint: record.checkpoint,
+      total: record.total || 0,
+      serviceTypes: record.service_types || [],
+      metric: (record.metric as ForecastMetric | null) || null,
+      takenAt: record.taken_at
+    };
+  }
+
+  /**
+   * Get every forecast snapshot in the account, oldest first
+   *
+   * @returns Promise resolving to the snapshots (empty if none were taken)
+   */
+  static async getForecastSnapshots(userId: string): Promise<ForecastSnapshot[]> {
+    if (!this.isSupabaseConfigured()) {
+      return [];
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('forecast_snapshots')
+        .select('*')
+        .eq('user_id', userId)
+        .order('year', { ascending: true })
+        .order('checkpoint', { ascending: true });
+
+      if (error) {
+        logger.error('Error fetching forecast snapshots:', error);
+        return [];
+      }
+
+      return (data || []).map(record => this.transformForecastSnapshot(record));
+    } catch (error) {
+      logger.error('Error fetching forecast snapshots:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save a model's snapshot for a checkpoint (one per model, year and month)
+   *
+   * @returns Promise resolving to the saved snapshot, or null if saving failed
+   */
+  static async saveForecastSnapshot(
+    userId: string,
+    snapshot: Omit<ForecastSnapshot, 'id' | 'takenAt'>,
+    isViewOnly: boolean = false
+  ): Promise<ForecastSnapshot | null> {
+    this.checkWritePermission(isViewOnly);
+
+    if (!this.isSupabaseConfigured()) {
+      return { ...snapshot, id: `mock_snapshot_${snapshot.modelId}_${snapshot.year}_${snapshot.checkpoint}`, takenAt: new Date().toISOString() };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('forecast_snapshots')
+        .upsert({
+          user_id: userId,
+          model_id: snapshot.modelId,
+          model_name: snapshot.modelName,
+          model_type: snapshot.modelType,
+          year: snapshot.year,
+          checkpoint: snapshot.checkpoint,
+          total: Math.round(snapshot.total),
+          service_types: snapshot.serviceTypes,
+          metric: snapshot.metric,
+          taken_at: new Date().toISOString()
+        }, { onConflict: 'model_id,year,checkpoint' })
+        .select()
+        .single();
+
+      if (error) {
+        logger.error('Error saving forecast snapshot:', { userId, modelId: snapshot.modelId, checkpoint: snapshot.checkpoint, error });
+        return null;
+      }
+
+      return this.transformForecastSnapshot(data);
+    } catch (error) {
+      logger.error('Error saving forecast snapshot:', error);
+      return null;
+    }
+  }
+
   // Calculator Goals - stored as a special row in funnels table with year=0, month=0
-  static async getCalculatorGoals(userId: string): Promise<{
-    bookingsGoal: number;
-    inquiryToCall: number;
-    callToBooking: number;
-  } | null> {
+  static async getCalculatorGoals(userId: string): Promise<CalculatorGoals | null> {
     if (!this.isSupabaseConfigured()) {
       return { bookingsGoal: 0, inquiryToCall: 0, callToBooking: 0 };
     }
@@ -1318,7 +2158,7 @@ export class UnifiedDataService {
     try {
       const { data, error } = await supabase
         .from('funnels')
-        .select('bookings_goal, inquiry_to_call, call_to_booking')
+        .select('bookings_goal, inquiry_to_call, call_to_booking, stage_rates')
         .eq('user_id', userId)
         .eq('year', 0)
         .eq('month', 0)
@@ -1337,6 +2177,7 @@ export class UnifiedDataService {
         bookingsGoal: data.bookings_goal || 0,
         inquiryToCall: data.inquiry_to_call || 0,
         callToBooking: data.call_to_booking || 0,
+        stageRates: data.stage_rates || undefined,
       };
     } catch (error) {
       logger.error('Error fetching calculator goals:', error);
@@ -1346,7 +2187,7 @@ export class UnifiedDataService {
 
   static async saveCalculatorGoals(
     userId: string,
-    goals: { bookingsGoal: number; inquiryToCall: number; callToBooking: number },
+    goals: CalculatorGoals,
     isViewOnly: boolean = false
   ): Promise<boolean> {
     this.checkWritePermission(isViewOnly);
@@ -1372,14 +2213,23 @@ export class UnifiedDataService {
 
       const recordId = existingData?.id;
 
+      // Every funnels row belongs to a named funnel; the goals row lives in the first one
+      const funnelId = recordId ? undefined : await this.getDefaultFunnelId(userId);
+      if (!recordId && !funnelId) {
+        logger.error('Error saving calculator goals: no funnel to save them in', { userId });
+        return false;
+      }
+
       const upsertData: any = {
         user_id: userId,
+        ...(funnelId ? { funnel_id: funnelId } : {}),
         name: 'Calculator',
         year: 0,
         month: 0,
         bookings_goal: goals.bookingsGoal,
         inquiry_to_call: goals.inquiryToCall,
         call_to_booking: goals.callToBooking,
+        ...(goals.stageRates ? { stage_rates: goals.stageRates } : {}),
         updated_at: new Date().toISOString(),
       };
 
@@ -1411,13 +2261,391 @@ export class UnifiedDataService {
     }
   }
 
+  // ============================================================================
+  // IMPORT COLUMN MAPPINGS
+  // ============================================================================
+
+  /**
+   * Get the column mapping a user saved for a CRM report, if any
+   *
+   * @param userId - The ID of the user owning the mapping
+   * @param crm - The CRM the report comes from
+   * @param importerId - The registered importer (see services/importerRegistry)
+   * @returns Promise resolving to the saved mapping, or null if none was saved
+   */
+  static async getImportColumnMapping(userId: string, crm: string, importerId: string): Promise<SavedColumnMapping | null> {
+    if (!this.isSupabaseConfigured()) {
+      return null;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('import_column_mappings')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('crm', crm)
+        .eq('importer_id', importerId)
+        .maybeSingle();
+
+      if (error) {
+        logger.error('Error fetching import column mapping:', error);
+        return null;
+      }
+
+      if (!data) return null;
+
+      return {
+        importerId: data.importer_id,
+        crm: data.crm,
+        columns: data.columns || {},
+        dateFormats: data.date_formats || {},
+        updatedAt: data.updated_at,
+      };
+    } catch (error) {
+      logger.error('Error fetching import column mapping:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save (create or replace) a user's column mapping for a CRM report
+   */
+  static async saveImportColumnMapping(userId: string, mapping: SavedColumnMapping, isViewOnly: boolean = false): Promise<boolean> {
+    this.checkWritePermission(isViewOnly);
+
+    if (!this.isSupabaseConfigured()) {
+      return true; // Mock success
+    }
+
+    try {
+      const { error } = await supabase
+        .from('import_column_mappings')
+        .upsert({
+          user_id: userId,
+          crm: mapping.crm,
+          importer_id: mapping.importerId,
+          columns: mapping.columns,
+          date_formats: mapping.dateFormats,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'user_id,crm,importer_id' });
+
+      if (error) {
+        logger.error('Error saving import column mapping:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logger.error('Error saving import column mapping:', error);
+      return false;
+    }
+  }
+
+  // ============================================================================
+  // IMPORT BATCHES
+  // ============================================================================
+
+  private static mapImportBatch(row: ImportBatchRow): ImportBatch {
+    return {
+      id: row.id,
+      fileName: row.file_name,
+      importerId: row.importer_id,
+      rowCount: row.row_count || 0,
+      bookingIds: row.booking_ids || [],
+      updatedBookings: row.updated_bookings || [],
+      serviceTypeIds: row.service_type_ids || [],
+      leadSourceIds: row.lead_source_ids || [],
+      paymentIds: row.payment_ids || [],
+      updatedPayments: row.updated_payments || [],
+      funnelMonths: row.funnel_months || [],
+      rolledBackAt: row.rolled_back_at,
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * Get a user's import history, newest first
+   */
+  static async getImportBatches(userId: string): Promise<ImportBatch[]> {
+    if (!this.isSupabaseConfigured()) {
+      return [];
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('import_batches')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        logger.error('Error fetching import batches:', error);
+        return [];
+      }
+
+      return (data || []).map(row => this.mapImportBatch(row));
+    } catch (error) {
+      logger.error('Error fetching import batches:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record an import run so it can be rolled back later
+   * Created before the run writes anything; updateImportBatch records what it wrote.
+   */
+  static async createImportBatch(
+    userId: string,
+    batch: Omit<ImportBatch, 'id' | 'createdAt' | 'rolledBackAt'>,
+    isViewOnly: boolean = false
+  ): Promise<ImportBatch | null> {
+    this.checkWritePermission(isViewOnly);
+
+    if (!this.isSupabaseConfigured()) {
+      return { ...batch, id: `mock_${Date.now()}`, createdAt: new Date().toISOString() };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('import_batches')
+        .insert({
+          user_id: userId,
+          file_name: batch.fileName,
+          importer_id: batch.importerId,
+          row_count: batch.rowCount,
+          booking_ids: batch.bookingIds,
+          updated_bookings: batch.updatedBookings,
+          service_type_ids: batch.serviceTypeIds,
+          lead_source_ids: batch.leadSourceIds,
+          payment_ids: batch.paymentIds,
+          updated_payments: batch.updatedPayments,
+          funnel_months: batch.funnelMonths,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        logger.error('Error creating import batch:', error);
+        return null;
+      }
+
+      return this.mapImportBatch(data);
+    } catch (error) {
+      logger.error('Error creating import batch:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Record the records an import run created or overwrote on its batch
+   *
+   * @returns Promise resolving to true if the batch was updated
+   */
+  static async updateImportBatch(
+    userId: string,
+    batchId: string,
+    batch: Pick<ImportBatch, 'bookingIds' | 'updatedBookings' | 'serviceTypeIds' | 'leadSourceIds' | 'paymentIds' | 'updatedPayments' | 'funnelMonths'>,
+    isViewOnly: boolean = false
+  ): Promise<boolean> {
+    this.checkWritePermission(isViewOnly);
+
+    if (!this.isSupabaseConfigured()) {
+      return true; // Mock success
+    }
+
+    try {
+      const { error } = await supabase
+        .from('import_batches')
+        .update({
+          booking_ids: batch.bookingIds,
+          updated_bookings: batch.updatedBookings,
+          service_type_ids: batch.serviceTypeIds,
+          lead_source_ids: batch.leadSourceIds,
+          payment_ids: batch.paymentIds,
+          updated_payments: batch.updatedPayments,
+          funnel_months: batch.funnelMonths,
+        })
+        .eq('id', batchId)
+        .eq('user_id', userId);
+
+      if (error) {
+        logger.error('Error updating import batch:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logger.error('Error updating import batch:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Roll back an import batch
+   * Runs as one database function (rollback_import_batch) so it either fully applies or not at all
+   *
+   * @returns Promise resolving to true if the batch was rolled back
+   */
+  static async rollbackImportBatch(userId: string, batchId: string, isViewOnly: boolean = false): Promise<boolean> {
+    this.checkWritePermission(isViewOnly);
+
+    if (!this.isSupabaseConfigured()) {
+      return true; // Mock success
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('rollback_import_batch', { p_batch_id: batchId });
+
+      if (error) {
+        logger.error('Error rolling back import batch:', error);
+        return false;
+      }
+
+      if (!data) {
+        logger.warn('Import batch not found or already rolled back', { userId, batchId });
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logger.error('Error rolling back import batch:', error);
+      return false;
+    }
+  }
+
+  // ============================================================================
+  // ACCOUNT RESTORE
+  // ============================================================================
+
+  /**
+   * Delete all of the account's data before a backup is restored in replace mode
+   * Runs as one database function (clear_account_data) so the account is never left half-emptied.
+   * Profile, sharing and saved import column mappings are kept.
+   *
+   * @returns Promise resolving to true if the account was cleared
+   */
+  static async clearAccountData(userId: string, isViewOnly: boolean = false): Promise<boolean> {
+    this.checkWritePermission(isViewOnly);
+
+    if (!this.isSupabaseConfigured()) {
+      return true; // Mock success
+    }
+
+    try {
+      const { error } = await supabase.rpc('clear_account_data');
+
+      if (error) {
+        logger.error('Error clearing account data:', { userId, error });
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logger.error('Error clearing account data:', error);
+      return false;
+    }
+  }
+
+  // ============================================================================
+  // CALENDAR FEED
+  // ============================================================================
+
+  /**
+   * Get the account's calendar feed token, if a feed has been turned on
+   *
+   * @returns Promise resolving to the token, or null if there's no feed
+   */
+  static async getCalendarFeedToken(userId: string): Promise<string | null> {
+    if (!this.isSupabaseConfigured()) {
+      return null;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('calendar_feeds')
+        .select('token')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        logger.error('Error fetching calendar feed:', error);
+        return null;
+      }
+
+      return data?.token || null;
+    } catch (error) {
+      logger.error('Error fetching calendar feed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Turn the calendar feed on, or give it a new token so the old URL stops working
+   *
+   * @returns Promise resolving to the new token, or null on failure
+   */
+  static async resetCalendarFeedToken(userId: string, isViewOnly: boolean = false): Promise<string | null> {
+    this.checkWritePermission(isViewOnly);
+
+    const token = crypto.randomUUID();
+
+    if (!this.isSupabaseConfigured()) {
+      return token;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('calendar_feeds')
+        .upsert({ user_id: userId, token, created_at: new Date().toISOString() }, { onConflict: 'user_id' });
+
+      if (error) {
+        logger.error('Error resetting calendar feed:', { userId, error });
+        return null;
+      }
+
+      return token;
+    } catch (error) {
+      logger.error('Error resetting calendar feed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Turn the calendar feed off; subscribed calendars stop updating
+   */
+  static async deleteCalendarFeed(userId: string, isViewOnly: boolean = false): Promise<boolean> {
+    this.checkWritePermission(isViewOnly);
+
+    if (!this.isSupabaseConfigured()) {
+      return true; // Mock success
+    }
+
+    try {
+      const { error } = await supabase
+        .from('calendar_feeds')
+        .delete()
+        .eq('user_id', userId);
+
+      if (error) {
+        logger.error('Error deleting calendar feed:', { userId, error });
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logger.error('Error deleting calendar feed:', error);
+      return false;
+    }
+  }
+
   /**
    * Creates default service types and lead sources for new users
    * Called automatically when a user signs up
    */
   static async createDefaultDataForNewUser(userId: string): Promise<void> {
     try {
-      // Create default Service Type: "Wedding" with tracks_in_funnel = true
+      // Create the first funnel, fed by the default Service Type: "Wedding" with tracks_in_funnel = true
+      await this.createFunnel(userId, 'Default');
       await this.createServiceType(userId, 'Wedding', true);
 
       // Create default Lead Sources
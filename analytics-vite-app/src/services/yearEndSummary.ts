@@ -0,0 +1,230 @@
+/**
+ * Year-End Summary
+ * The revenue package an accountant asks for in January: cash received by month and by service
+ * type, refunds, deposits taken for next year's projects, and what was still owed at year end.
+ * Cash figures come from calculateCurrentYearRevenueByServiceType run over paid payments only.
+ *
+ * Refunds are paid payments recorded with a negative amount. Payments on deleted bookings aren't
+ * included (the revenue calculation can't assign them a service type).
+ */
+
+import { calculateCurrentYearRevenueByServiceType } from './revenueCalculationService';
+import { paymentDueDate } from './bookingExport';
+import { toCSV, centsToDecimal, type CSVValue } from '../utils/csvExport';
+import { MONTH_NAMES } from './insightsMetrics';
+import type { Booking, Payment, ServiceType } from '../types';
+
+export interface YearEndMonth {
+  month: number; // 1-12
+  receivedByServiceType: Record<string, number>; // cents, keyed by service type ID
+  received: number;
+  refunds: number; // Positive cents refunded
+  net: number;
+}
+
+export interface YearEndServiceTypeTotal {
+  serviceTypeId: string;
+  name: string;
+  paymentCount: number;
+  received: number;
+  refunds: number;
+  net: number;
+}
+
+export interface YearEndSummary {
+  year: number;
+  generatedAt: string; // ISO timestamp
+  months: YearEndMonth[]; // Always 12
+  serviceTypes: YearEndServiceTypeTotal[]; // Service types with cash in the year, by name
+  totals: { received: number; refunds: number; net: number };
+  refunds: { date: string; projectName: string; serviceType: string; amount: number; memo: string }[];
+  deposits: { projectName: string; serviceType: string; projectDate: string; amount: number }[];
+  depositsTotal: number;
+  receivables: { projectName: string; serviceType: string; dueDate: string; amount: number }[];
+  receivablesTotal: number;
+}
+
+interface YearEndSummaryData {
+  bookings: Booking[];
+  payments: Payment[];
+  serviceTypes: ServiceType[];
+}
+
+/**
+ * Build the year-end summary for a calendar year
+ */
+export function buildYearEndSummary(
+  year: number,
+  { bookings, payments, serviceTypes }: YearEndSummaryData,
+  now: Date = new Date()
+): YearEndSummary {
+  const yearEnd = `${year}-12-31`;
+  const paymentsById = new Map(payments.map(p => [p.id, p]));
+  const bookingsById = new Map(bookings.map(b => [b.id, b]));
+  const serviceTypeName = (booking: Booking | undefined) =>
+    serviceTypes.find(st => st.id === booking?.serviceTypeId)?.name || 'Unknown';
+
+  const months: YearEndMonth[] = MONTH_NAMES.map((_, i) => ({
+    month: i + 1,
+    receivedByServiceType: {},
+    received: 0,
+    refunds: 0,
+    net: 0,
+  }));
+  const refunds: YearEndSummary['refunds'] = [];
+  const depositsByBooking = new Map<string, YearEndSummary['deposits'][number]>();
+
+  const revenue = calculateCurrentYearRevenueByServiceType(payments.filter(p => p.paidAt), bookings, serviceTypes, year);
+
+  const serviceTypeTotals = revenue.map(entry => {
+    const total: YearEndServiceTypeTotal = {
+      serviceTypeId: entry.serviceTypeId,
+      name: entry.serviceTypeName,
+      paymentCount: entry.paymentCount,
+      received: 0,
+      refunds: 0,
+      net: entry.totalRevenueCents,
+    };
+
+    entry.payments.forEach(line => {
+      const month = months[parseInt(line.date.slice(5, 7)) - 1];
+      const booking = bookingsById.get(paymentsById.get(line.paymentId)?.bookingId || '');
+      if (!month) return;
+
+      if (line.amountCents < 0) {
+        total.refunds -= line.amountCents;
+        month.refunds -= line.amountCents;
+        refunds.push({
+          date: line.date,
+          projectName: line.bookingName,
+          serviceType: entry.serviceTypeName,
+          amount: -line.amountCents,
+          memo: paymentsById.get(line.paymentId)?.memo || '',
+        });
+        return;
+      }
+
+      total.received += line.amountCents;
+      month.received += line.amountCents;
+      month.receivedByServiceType[entry.serviceTypeId] = (month.receivedByServiceType[entry.serviceTypeId] || 0) + line.amountCents;
+
+      // Cash taken this year for a project that happens next year or later
+      const projectDate = booking?.projectDate?.slice(0, 10) || '';
+      if (booking && projectDate > yearEnd) {
+        const deposit = depositsByBooking.get(booking.id) || {
+          projectName: booking.projectName,
+          serviceType: entry.serviceTypeName,
+          projectDate,
+          amount: 0,
+        };
+        deposit.amount += line.amountCents;
+        depositsByBooking.set(booking.id, deposit);
+      }
+    });
+
+    return total;
+  });
+
+  months.forEach(month => { month.net = month.received - month.refunds; });
+
+  // Due by December 31 and not paid by then (paid later, or still unpaid)
+  const receivables = payments
+    .filter(p => (p.amount || 0) > 0 && bookingsById.has(p.bookingId))
+    .filter(p => {
+      const dueDate = paymentDueDate(p);
+      const paidOn = p.paidAt ? (p.paymentDate || p.paidAt).slice(0, 10) : null;
+      return dueDate !== '' && dueDate <= yearEnd && (!paidOn || paidOn > yearEnd);
+    })
+    .map(p => {
+      const booking = bookingsById.get(p.bookingId);
+      return {
+        projectName: booking?.projectName || '',
+        serviceType: serviceTypeName(booking),
+        dueDate: paymentDueDate(p),
+        amount: p.amount || 0,
+      };
+    })
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.projectName.localeCompare(b.projectName));
+
+  const deposits = Array.from(depositsByBooking.values())
+    .sort((a, b) => a.projectDate.localeCompare(b.projectDate) || a.projectName.localeCompare(b.projectName));
+
+  const received = months.reduce((sum, m) => sum + m.received, 0);
+  const refunded = months.reduce((sum, m) => sum + m.refunds, 0);
+
+  return {
+    year,
+    generatedAt: now.toISOString(),
+    months,
+    serviceTypes: serviceTypeTotals,
+    totals: { received, refunds: refunded, net: received - refunded },
+    refunds: refunds.sort((a, b) => a.date.localeCompare(b.date)),
+    deposits,
+    depositsTotal: deposits.reduce((sum, d) => sum + d.amount, 0),
+    receivables,
+    receivablesTotal: receivables.reduce((sum, r) => sum + r.amount, 0),
+  };
+}
+
+/**
+ * The whole summary as one CSV, a titled section per table with a blank row between sections
+ */
+export function buildYearEndSummaryCSV(summary: YearEndSummary): string {
+  const rows: CSVValue[][] = [];
+  const section = (title: string, headers: string[], sectionRows: CSVValue[][]) => {
+    rows.push([], [title], headers, ...sectionRows);
+  };
+
+  section(
+    'Cash Received by Month',
+    ['Month', ...summary.serviceTypes.map(st => st.name), 'Total Received', 'Refunds', 'Net'],
+    [
+      ...summary.months.map(month => [
+        MONTH_NAMES[month.month - 1],
+        ...summary.serviceTypes.map(st => centsToDecimal(month.receivedByServiceType[st.serviceTypeId] || 0)),
+        centsToDecimal(month.received),
+        centsToDecimal(month.refunds),
+        centsToDecimal(month.net),
+      ]),
+      [
+        'Total',
+        ...summary.serviceTypes.map(st => centsToDecimal(st.received)),
+        centsToDecimal(summary.totals.received),
+        centsToDecimal(summary.totals.refunds),
+        centsToDecimal(summary.totals.net),
+      ],
+    ]
+  );
+
+  section(
+    'Cash Received by Service Type',
+    ['Service Type', 'Payments', 'Received', 'Refunds', 'Net'],
+    summary.serviceTypes.map(st => [st.name, st.paymentCount, centsToDecimal(st.received), centsToDecimal(st.refunds), centsToDecimal(st.net)])
+  );
+
+  section(
+    'Refunds',
+    ['Date', 'Project Name', 'Service Type', 'Amount', 'Memo'],
+    summary.refunds.map(r => [r.date, r.projectName, r.serviceType, centsToDecimal(r.amount), r.memo])
+  );
+
+  section(
+    `Deposits Received for Projects After ${summary.year}`,
+    ['Project Name', 'Service Type', 'Project Date', `Received in ${summary.year}`],
+    [
+      ...summary.deposits.map(d => [d.projectName, d.serviceType, d.projectDate, centsToDecimal(d.amount)]),
+      ['Total', '', '', centsToDecimal(summary.depositsTotal)],
+    ]
+  );
+
+  section(
+    `Outstanding Receivables at December 31, ${summary.year}`,
+    ['Project Name', 'Service Type', 'Due Date', 'Amount'],
+    [
+      ...summary.receivables.map(r => [r.projectName, r.serviceType, r.dueDate, centsToDecimal(r.amount)]),
+      ['Total', '', '', centsToDecimal(summary.receivablesTotal)],
+    ]
+  );
+
+  return toCSV([`${summary.year} Year-End Revenue Summary`], rows);
+}
@@ -0,0 +1,61 @@
+import type { FunnelScopeData } from '../services/funnelScope'
+import type { Booking, FunnelData, Payment } from '../types'
+
+/**
+ * Funnel month with the given counts; bookings, closes and cash given here count as entered by hand
+ */
+export function funnelMonth(year: number, month: number, values: Partial<FunnelData> = {}): FunnelData {
+  return {
+    id: `${year}_${month}`,
+    name: `${year} ${month}`,
+    year,
+    month,
+    inquiries: 0,
+    inquiriesYtd: 0,
+    callsBooked: 0,
+    callsTaken: 0,
+    callsYtd: 0,
+    inquiryToCall: 0,
+    callToBooking: 0,
+    closes: 0,
+    bookings: 0,
+    bookingsYtd: 0,
+    bookingsGoal: 0,
+    cash: 0,
+    ...values,
+    closesManual: values.closes !== undefined,
+    bookingsManual: values.bookings !== undefined,
+    cashManual: values.cash !== undefined,
+  }
+}
+
+export function booking(id: string, serviceTypeId: string, dateBooked: string, bookedRevenue: number): Booking {
+  return {
+    id,
+    projectName: `Project ${id}`,
+    clientName: `Client ${id}`,
+    serviceTypeId,
+    leadSourceId: 'ls_1',
+    bookingDate: dateBooked,
+    status: 'booked',
+    dateBooked,
+    bookedRevenue,
+    createdAt: `${dateBooked}T00:00:00.000Z`,
+  }
+}
+
+export function scopeData(data: Partial<FunnelScopeData> = {}): FunnelScopeData {
+  return { funnels: [], funnelData: [], bookings: [], payments: [], serviceTypes: [], ...data }
+}
+
+export function payment(id: string, bookingId: string, paymentDate: string, amount: number): Payment {
+  return {
+    id,
+    bookingId,
+    amount,
+    amountCents: amount,
+    paymentDate,
+    dueDate: paymentDate,
+    status: 'completed',
+  }
+}
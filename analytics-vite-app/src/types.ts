@@ -30,9 +30,39 @@ export interface SubscriptionFeatures {
 // FUNNEL TYPES
 // ============================================================================
 
+/**
+ * A named funnel (e.g. "Weddings", "Commercial") with its own monthly rows
+ * Service types feed it through ServiceType.funnelId.
+ */
+export interface FunnelDefinition {
+  id: string;
+  name: string;
+  sortOrder: number;
+  archivedAt?: string | null; // Hidden from funnel selectors, still part of the "All funnels" roll-up
+  createdAt: string;
+}
+
+/**
+ * Where a stage's monthly count comes from: one of the original funnel columns (closes is counted
+ * from bookings), or entered per month for a custom stage (FunnelData.stageCounts)
+ */
+export type FunnelStageSource = 'inquiries' | 'callsBooked' | 'callsTaken' | 'closes' | 'custom';
+
+/**
+ * A step of the account's funnel (e.g. "Inquiries", "Proposals Sent", "Tastings")
+ * Stages apply to every named funnel; closes is always the last stage.
+ */
+export interface FunnelStage {
+  id: string;
+  name: string;
+  source: FunnelStageSource;
+  sortOrder: number;
+}
+
 export interface FunnelData {
   id: string;
   name: string;
+  funnelId?: string; // Funnel the month belongs to (missing = the account's first funnel)
   year: number;
   month: number;
   inquiries: number;
@@ -51,6 +81,36 @@ export interface FunnelData {
   closesManual?: boolean; // If true, closes is manually entered
   bookingsManual?: boolean; // If true, bookings is manually entered
   cashManual?: boolean; // If true, cash is manually entered
+  stageCounts?: Record<string, number>; // Counts of custom stages, keyed by stage ID
+  overrideReasons?: Partial<Record<ManualFunnelField, ManualOverrideReason>>; // Why a manual value was kept
+  lastUpdated?: string;
+}
+
+// Funnel fields that are calculated from bookings and payments unless entered manually
+export type ManualFunnelField = 'closes' | 'bookings' | 'cash';
+
+/**
+ * A manual override reviewed and kept on the reconciliation view
+ * Only applies while the manual value is still the one that was kept.
+ */
+export interface ManualOverrideReason {
+  reason: string;
+  value: number;
+}
+
+/**
+ * Optional weekly funnel row (ISO week); a month's inquiries and calls are the sum of its weeks
+ * once any week in it has been entered
+ */
+export interface FunnelWeek {
+  id: string;
+  funnelId?: string; // Missing = the account's first funnel
+  year: number; // ISO week-numbering year
+  week: number; // ISO week, 1-53
+  inquiries: number;
+  callsBooked: number;
+  callsTaken: number;
+  notes?: string | null;
   lastUpdated?: string;
 }
 
@@ -70,6 +130,7 @@ export interface ServiceType {
   description?: string;
   isCustom: boolean;
   tracksInFunnel: boolean;
+  funnelId?: string | null; // Funnel it feeds when tracksInFunnel (missing = the account's first funnel)
 }
 
 export interface LeadSource {
@@ -97,6 +158,8 @@ export interface Booking {
   revenue?: number; // in cents
   createdAt: string;
   payments?: Payment[];
+  sourceSystem?: string; // CRM the booking was imported from (e.g. 'honeybook')
+  externalId?: string; // ID in that CRM - re-imports update the booking instead of duplicating it
 }
 
 export interface Payment {
@@ -113,6 +176,8 @@ export interface Payment {
   memo?: string;
   expectedDate?: string; // For scheduled payments
   isExpected?: boolean; // True if payment is scheduled/expected, false if paid
+  sourceSystem?: string; // CRM the payment was imported from
+  externalId?: string; // ID in that CRM
 }
 
 // ============================================================================
@@ -140,12 +205,47 @@ export interface AdCampaign {
 // FORECAST TYPES
 // ============================================================================
 
+// 'forecast' is a hand-built plan (quantity x average booking per service type); the others are
+// fitted to the account's monthly history
+export type ForecastModelType = 'forecast' | 'linear' | 'exponential' | 'seasonal';
+
+// Monthly figure a fitted model projects: booked revenue, cash (cents) or closes (count)
+export type ForecastMetric = 'bookings' | 'cash' | 'closes';
+
+/**
+ * Coefficients of a fitted model; t counts months from originIndex (a monthToIndex value)
+ * linear: intercept + slope * t
+ * exponential: e^(intercept + slope * t)
+ * seasonal: (intercept + slope * t) * seasonalIndexes[calendar month - 1]
+ */
+export interface ForecastFit {
+  originIndex: number;
+  intercept: number;
+  slope: number;
+  seasonalIndexes?: number[]; // Seasonal only, January first; average 1
+  rSquared: number | null; // How well the trend line fits the (deseasonalized or logged) history
+  historyStart: number; // Month indexes of the history fitted, inclusive
+  historyEnd: number;
+  fittedAt: string; // ISO timestamp
+}
+
+/**
+ * Stored in forecast_models.parameters
+ */
+export interface ForecastModelParameters {
+  year: number;
+  serviceTypes: ForecastModel['serviceTypes']; // Hand-built plans only
+  metric?: ForecastMetric; // Fitted models only
+  historyMonths?: number; // Fitted models only: complete months of history to fit
+  fit?: ForecastFit | null; // Fitted models only; null when there wasn't enough history
+}
+
 export interface ForecastModel {
   id: string;
   name: string;
   description?: string;
-  modelType: string;
-  parameters?: any;
+  modelType: ForecastModelType;
+  parameters?: ForecastModelParameters;
   year: number;
   isActive: boolean;
   serviceTypes: {
@@ -158,6 +258,39 @@ export interface ForecastModel {
   updatedAt: string;
 }
 
+/**
+ * A saved state of a forecast model, kept each time the model is created or edited
+ */
+export interface ForecastModelVersion {
+  id: string;
+  modelId: string;
+  version: number; // Numbered from 1
+  name: string;
+  modelType: ForecastModelType;
+  year: number;
+  serviceTypes: ForecastModel['serviceTypes'];
+  parameters: ForecastModelParameters;
+  note: string;
+  savedAt: string;
+}
+
+/**
+ * A model's projection for its year, captured once a month while the year is under way
+ * Kept after the model is deleted so past accuracy can still be scored.
+ */
+export interface ForecastSnapshot {
+  id: string;
+  modelId: string | null; // Null once the model has been deleted
+  modelName: string;
+  modelType: ForecastModelType;
+  year: number;
+  checkpoint: number; // Month of the year it was captured in, 1-12
+  total: number; // Projected revenue for the year, cents
+  metric: ForecastMetric | null; // Fitted models only: whether total is booked revenue or cash (null = booked revenue)
+  serviceTypes: { serviceTypeId: string; amount: number }[]; // Hand-built plans only, cents
+  takenAt: string;
+}
+
 // ============================================================================
 // FEATURE DEFINITIONS
 // ============================================================================
@@ -236,3 +369,5 @@ export interface Filters {
 // Re-export types from other type files
 export type { AuthUser, Session, SubscriptionFeatures } from './types/auth';
 export type { DataManager } from './types/dataManager';
+export type { ImportResult, ColumnAliases, ColumnMap, ImportContext, CRMImporter, ImportOverrides, SavedColumnMapping, ImportedPayment, ImportSkippedRow, ImportRowStatus, ImportPreviewRow, ImportFunnelMonthChange, ImportPreview, ImportBatchFunnelMonth, ImportBatchBookingValues, ImportBatchPaymentValues, ImportBatch, AdPlatform, AdSpendMatchBy, AdSpendRow, AdSpendReport, AdAccountMapping, AdSpendMonthChange } from './types/import';
+export type { CalculatorGoals, AccountArchiveData, AccountArchive, AccountRestoreMode, AccountRestoreSummary } from './types/archive';
@@ -0,0 +1,67 @@
+// ============================================================================
+// ACCOUNT ARCHIVE TYPES
+// ============================================================================
+
+import type { FunnelData, FunnelDefinition, FunnelStage, FunnelWeek, ServiceType, LeadSource, Booking, Payment, AdCampaign, ForecastModel } from '../types';
+
+export interface CalculatorGoals {
+  bookingsGoal: number;
+  inquiryToCall: number;
+  callToBooking: number;
+  stageRates?: Record<string, number>; // Percent from each stage to the next (see services/funnelStages stageKey)
+}
+
+/**
+ * Everything in an account, as written to a backup file
+ * Records keep their original IDs so restore can remap the references between them
+ * (booking -> service type/lead source, payment -> booking, forecast model -> service type).
+ */
+export interface AccountArchiveData {
+  serviceTypes: ServiceType[];
+  leadSources: LeadSource[];
+  funnelDefinitions?: FunnelDefinition[]; // Named funnels (missing from backups made before named funnels)
+  funnels: FunnelData[]; // Monthly funnel rows (the calculator goals row is stored separately)
+  funnelWeeks?: FunnelWeek[]; // Weekly funnel rows (missing from backups made before weekly tracking)
+  funnelStages?: FunnelStage[]; // Funnel stages (missing from backups made before configurable stages)
+  bookings: Booking[];
+  payments: Payment[];
+  adCampaigns: AdCampaign[];
+  forecastModels: ForecastModel[];
+  calculatorGoals: CalculatorGoals | null;
+}
+
+export interface AccountArchive {
+  format: 'analytics-account-archive';
+  schemaVersion: number; // Bumped whenever the shape of data changes incompatibly
+  exportedAt: string; // ISO timestamp
+  source: {
+    userId: string;
+    email?: string;
+    companyName?: string;
+  };
+  data: AccountArchiveData;
+}
+
+/**
+ * merge: add what the account doesn't have yet, matching on names/months/CRM IDs
+ * replace: delete everything in the account first, then restore the archive as-is
+ */
+export type AccountRestoreMode = 'merge' | 'replace';
+
+/**
+ * Per-table counts of what a restore will create (or already did), and what it skipped as already present
+ */
+export interface AccountRestoreSummary {
+  serviceTypes: { created: number; matched: number };
+  leadSources: { created: number; matched: number };
+  funnelDefinitions: { created: number; matched: number };
+  funnels: { created: number; skipped: number };
+  funnelWeeks: { created: number; skipped: number };
+  funnelStages: { created: number; matched: number };
+  bookings: { created: number; skipped: number };
+  payments: { created: number; skipped: number };
+  adCampaigns: { created: number; skipped: number };
+  forecastModels: { created: number; skipped: number };
+  calculatorGoals: boolean; // Whether the archive's goals are restored
+  errors: string[]; // Records that failed to save during the restore
+}
@@ -11,6 +11,7 @@ import type {
   AdCampaign,
   ForecastModel,
 } from './index';
+import type { FunnelDefinition, FunnelStage, FunnelWeek } from '../types';
 
 /**
  * Data manager interface - provides data and operations
@@ -20,6 +21,9 @@ export interface DataManager {
   loading: boolean;
   error: string | null;
   funnelData: FunnelData[];
+  funnels: FunnelDefinition[]; // Named funnels, archived ones included
+  funnelWeeks: FunnelWeek[]; // Optional ISO-week rows, all funnels
+  funnelStages: FunnelStage[]; // Saved stages (empty = default template, see services/funnelStages)
   bookings: Booking[];
   payments: Payment[];
   serviceTypes: ServiceType[];
@@ -29,8 +33,15 @@ export interface DataManager {
 
   // Funnel operations
   saveFunnelData: (funnelData: FunnelData) => Promise<boolean>;
+  saveFunnelWeek: (week: FunnelWeek) => Promise<boolean>; // Also updates the month the week rolls up into
+  saveFunnelStages: (stages: FunnelStage[]) => Promise<boolean>; // Replaces the whole ordered list
   loadAllData: () => Promise<void>; // Reloads all data including funnel data
 
+  // Named funnel operations
+  createFunnel: (name: string) => Promise<FunnelDefinition | null>;
+  updateFunnel: (id: string, updates: Partial<Pick<FunnelDefinition, 'name' | 'archivedAt' | 'sortOrder'>>) => Promise<boolean>;
+  setServiceTypeFunnel: (serviceTypeId: string, funnelId: string | null) => Promise<boolean>; // null = not tracked
+
   // Booking operations
   createBooking: (booking: Omit<Booking, 'id' | 'createdAt' | 'payments'>) => Promise<boolean>;
   updateBooking: (id: string, updates: Partial<Booking>) => Promise<boolean>;
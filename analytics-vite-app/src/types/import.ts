@@ -0,0 +1,260 @@
+// ============================================================================
+// CSV IMPORT TYPES
+// ============================================================================
+
+import type { Booking, Payment, FunnelData, ServiceType, LeadSource, AdCampaign } from '../types';
+import type { CRMType } from './auth';
+import type { CSVRow, DateFormat, DecimalSeparator } from '../utils/csvParser';
+
+/**
+ * Output of every CRM importer - consumed by CSVImportModal and the page import handlers
+ */
+export interface ImportResult {
+  bookings: Booking[];
+  payments: ImportedPayment[]; // Matched to bookings by project name when the import is applied
+  funnelData: FunnelData[];
+  serviceTypes: ServiceType[];
+  leadSources: LeadSource[];
+  errors: string[];
+  warnings: string[];
+  skippedRows: ImportSkippedRow[]; // Rows the importer dropped, with the reason
+  importerId?: string; // Which registered importer produced this result
+  rowCount?: number; // Data rows in the source file
+  fileName?: string; // Source file name, recorded on the import batch
+}
+
+/**
+ * A payment from a payments report, not yet attached to a booking
+ */
+export type ImportedPayment = Omit<Payment, 'id' | 'bookingId'> & {
+  projectName: string; // Booking to attach the payment to
+  rowNumber: number;
+};
+
+/**
+ * A CSV row the importer did not turn into data
+ */
+export interface ImportSkippedRow {
+  rowNumber: number; // 1-based, counting the header row
+  reason: string;
+}
+
+/**
+ * Field name -> header aliases, tried in order (see findColumn)
+ */
+export type ColumnAliases = Record<string, string[]>;
+
+/**
+ * Field name -> matched CSV header (null when the report has no such column)
+ */
+export type ColumnMap = Record<string, string | null>;
+
+/**
+ * Helpers handed to an importer's row mapper
+ */
+export interface ImportContext {
+  result: ImportResult;
+  userId: string;
+  /** Get or create a service type by name, falling back to a default */
+  getServiceTypeId: (name?: string | null) => string;
+  /** Get or create a lead source by name, falling back to a default */
+  getLeadSourceId: (name?: string | null) => string;
+  /** External ID for a record: the CRM's own ID when the report has one, else project name + creation date */
+  externalId: (crmId: string | null | undefined, projectName: string, createdDate: string | null) => string;
+  /** Record a dropped row (also added to warnings) */
+  skip: (rowNumber: number, reason: string) => void;
+  /** Add counts to the funnel month containing `date` (YYYY-MM-DD) */
+  tally: (date: string, counts: { inquiries?: number; closes?: number; bookings?: number }) => void;
+  /** Dedupe keys recorded by the row mapper during this import */
+  seen: Set<string>;
+  /** Date format overrides by field (missing fields auto-detect) */
+  dateFormats: Record<string, DateFormat>;
+  /** Decimal separator of the file's amounts (',' for semicolon-delimited exports) */
+  decimalSeparator: DecimalSeparator;
+}
+
+/**
+ * User corrections from the column mapping step, applied on top of the alias guesses
+ */
+export interface ImportOverrides {
+  columns?: ColumnMap;
+  dateFormats?: Record<string, DateFormat>;
+}
+
+/**
+ * A column mapping saved per user and per CRM report, reused on the next import
+ */
+export interface SavedColumnMapping {
+  importerId: string;
+  crm: CRMType;
+  columns: ColumnMap;
+  dateFormats: Record<string, DateFormat>;
+  updatedAt?: string;
+}
+
+/**
+ * How a row of an import would be applied to existing data
+ */
+export type ImportRowStatus = 'new' | 'duplicate' | 'updated' | 'skipped';
+
+/**
+ * One classified row of an import dry run
+ */
+export interface ImportPreviewRow {
+  kind?: 'booking' | 'payment'; // Unset for rows the importer skipped
+  status: ImportRowStatus;
+  label: string; // Project name, or "Row N" for skipped rows
+  reason: string;
+  rowNumber?: number;
+  booking?: Booking; // The imported booking (not set for skipped rows)
+  existingBooking?: Booking; // The booking it duplicates or updates
+  updates?: Partial<Booking>; // Fields to write to existingBooking (values that changed, external ID backfill)
+  payment?: ImportedPayment; // The imported payment
+  bookingId?: string; // Booking the payment is attached to
+  existingPayment?: Payment; // The payment it duplicates or updates
+  paymentUpdates?: Partial<Payment>; // Fields to write to existingPayment
+}
+
+/**
+ * A funnel month the import would change
+ */
+export interface ImportFunnelMonthChange {
+  funnelId?: string; // Funnel the month is imported into
+  year: number;
+  month: number;
+  isNew: boolean; // No funnel row exists for this month yet
+  before: Pick<FunnelData, 'inquiries' | 'closes' | 'bookings'> | null;
+  after: FunnelData; // The row that will be saved
+  manualCollisions: Array<'closes' | 'bookings'>; // Manually entered values the import overwrites
+}
+
+/**
+ * Dry run of an import against the user's existing data
+ */
+export interface ImportPreview {
+  rows: ImportPreviewRow[];
+  funnelMonths: ImportFunnelMonthChange[];
+  counts: Record<ImportRowStatus, number>;
+}
+
+/**
+ * A funnel month an import batch wrote, with the values it replaced (null if the import created it)
+ */
+export interface ImportBatchFunnelMonth {
+  funnelId?: string; // Funnel the month was imported into
+  year: number;
+  month: number;
+  previous: Pick<FunnelData, 'inquiries' | 'closes' | 'bookings'> | null;
+}
+
+/**
+ * Booking fields an import replaced, as they were before it (only the fields it changed)
+ * Null stands for a field that was empty, so the value survives JSON and rollback clears the field.
+ */
+export type ImportBatchBookingValues = {
+  [K in 'bookedRevenue' | 'dateBooked' | 'projectDate' | 'sourceSystem' | 'externalId']?: Booking[K] | null;
+};
+
+/**
+ * Payment fields an import replaced, as they were before it
+ */
+export type ImportBatchPaymentValues = {
+  [K in 'amount' | 'dueDate' | 'expectedDate' | 'paidAt' | 'isExpected' | 'sourceSystem' | 'externalId']?: Payment[K] | null;
+};
+
+/**
+ * One import run and everything it created or changed, kept so it can be rolled back
+ */
+export interface ImportBatch {
+  id: string;
+  fileName: string;
+  importerId: string;
+  rowCount: number;
+  bookingIds: string[]; // Bookings created
+  updatedBookings: Array<{ id: string; previous: ImportBatchBookingValues }>;
+  serviceTypeIds: string[]; // Service types created
+  leadSourceIds: string[]; // Lead sources created
+  paymentIds: string[]; // Payments created
+  updatedPayments: Array<{ id: string; previous: ImportBatchPaymentValues }>;
+  funnelMonths: ImportBatchFunnelMonth[];
+  rolledBackAt?: string | null;
+  createdAt: string;
+}
+
+/**
+ * A CRM report importer registered in services/importerRegistry
+ */
+export interface CRMImporter {
+  id: string;
+  crm: CRMType;
+  crmName: string; // e.g. "Honeybook"
+  name: string; // e.g. "Honeybook Leads report"
+  description: string; // One-line explanation shown in the import preview
+  signature: string[]; // Headers that identify this report (case-insensitive, exact)
+  columns: ColumnAliases;
+  createsBookings: boolean; // False for funnel-only reports (e.g. Honeybook Leads)
+  mapRow: (row: CSVRow, columns: ColumnMap, rowNumber: number, context: ImportContext) => void;
+}
+
+// ============================================================================
+// AD SPEND IMPORT TYPES
+// ============================================================================
+
+export type AdPlatform = 'meta' | 'google-ads';
+
+/**
+ * Whether ad spend is assigned to lead sources per ad account or per campaign
+ */
+export type AdSpendMatchBy = 'account' | 'campaign';
+
+/**
+ * One row of an ad platform export (usually one campaign on one day)
+ */
+export interface AdSpendRow {
+  rowNumber: number; // 1-based, counting any title lines above the header row
+  accountName: string;
+  campaignName: string;
+  year: number;
+  month: number;
+  spendCents: number;
+  leads: number;
+}
+
+/**
+ * A parsed Meta Ads Manager or Google Ads export
+ */
+export interface AdSpendReport {
+  platform: AdPlatform;
+  platformName: string; // e.g. "Meta Ads"
+  rows: AdSpendRow[];
+  hasAccounts: boolean; // Export has an account name column
+  hasCampaigns: boolean; // Export has a campaign name column
+  currency?: string; // Currency code from the export, when it names one
+  warnings: string[];
+  skippedRows: ImportSkippedRow[];
+  rowCount: number; // Data rows in the source file
+}
+
+/**
+ * An ad account or campaign mapped to a lead source, saved so it is only mapped once
+ */
+export interface AdAccountMapping {
+  platform: AdPlatform;
+  matchBy: AdSpendMatchBy;
+  externalName: string; // Account or campaign name as it appears in the export
+  leadSourceId: string | null; // null = don't import this account/campaign
+}
+
+/**
+ * A monthly AdCampaign row an ad spend import creates or overwrites
+ */
+export interface AdSpendMonthChange {
+  leadSourceId: string;
+  year: number;
+  month: number;
+  spendCents: number;
+  leadsGenerated: number;
+  sources: string[]; // Accounts/campaigns rolled up into this row
+  existing: AdCampaign | null;
+  status: 'new' | 'updated' | 'unchanged';
+}
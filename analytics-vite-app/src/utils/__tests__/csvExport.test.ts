@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { escapeCSVValue, toCSV, centsToDecimal } from '../csvExport'
+
+describe('csvExport', () => {
+  describe('escapeCSVValue', () => {
+    it('should quote values containing commas, quotes or line breaks', () => {
+      expect(escapeCSVValue('Smith, Jones')).toBe('"Smith, Jones"')
+      expect(escapeCSVValue('The "Big" Day')).toBe('"The ""Big"" Day"')
+      expect(escapeCSVValue('line one\nline two')).toBe('"line one\nline two"')
+      expect(escapeCSVValue('Smith Wedding')).toBe('Smith Wedding')
+    })
+
+    it('should keep text from being read as a formula', () => {
+      expect(escapeCSVValue('=HYPERLINK("x")')).toBe(`"'=HYPERLINK(""x"")"`)
+      expect(escapeCSVValue('-deposit')).toBe("'-deposit")
+      expect(escapeCSVValue(-150)).toBe('-150')
+      expect(escapeCSVValue('-1+2')).toBe("'-1+2")
+    })
+
+    it('should write empty values as empty cells', () => {
+      expect(escapeCSVValue(null)).toBe('')
+      expect(escapeCSVValue(undefined)).toBe('')
+    })
+  })
+
+  describe('toCSV', () => {
+    it('should join headers and rows with CRLF after a byte order mark', () => {
+      expect(toCSV(['Project Name', 'Total'], [['Smith Wedding', '1500.00']]))
+        .toBe('\uFEFFProject Name,Total\r\nSmith Wedding,1500.00\r\n')
+    })
+
+    it('should keep negative amounts numeric', () => {
+      expect(toCSV(['Project Name', 'Remaining Balance'], [['Smith Wedding', centsToDecimal(-2500)]]))
+        .toBe('\uFEFFProject Name,Remaining Balance\r\nSmith Wedding,-25.00\r\n')
+    })
+  })
+
+  describe('centsToDecimal', () => {
+    it('should format cents as a plain decimal', () => {
+      expect(centsToDecimal(123450)).toBe('1234.50')
+      expect(centsToDecimal(-2500)).toBe('-25.00')
+      expect(centsToDecimal(undefined)).toBe('0.00')
+    })
+  })
+})
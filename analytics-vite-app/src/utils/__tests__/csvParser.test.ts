@@ -0,0 +1,107 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { parseCSV, parseCSVFile, detectDelimiter, detectEncoding, parseCents, decimalSeparatorFor } from '../csvParser'
+
+describe('csvParser', () => {
+  describe('parseCSV', () => {
+    it('should parse headers and rows', () => {
+      const result = parseCSV('Project Name,Total\nSmith Wedding,"$1,500.00"\n')
+      expect(result.headers).toEqual(['Project Name', 'Total'])
+      expect(result.rows).toEqual([{ 'Project Name': 'Smith Wedding', Total: '$1,500.00' }])
+      expect(result.errors).toEqual([])
+    })
+
+    it('should keep line breaks inside quoted fields', () => {
+      const result = parseCSV('Project Name,Notes\nSmith Wedding,"Line one\nLine two"\nJones,Short\n')
+      expect(result.rows).toHaveLength(2)
+      expect(result.rows[0].Notes).toBe('Line one\nLine two')
+      expect(result.rows[1]['Project Name']).toBe('Jones')
+    })
+
+    it('should handle CRLF line endings and escaped quotes', () => {
+      const result = parseCSV('Name,Notes\r\n"The ""Big"" Day","a\r\nb"\r\n')
+      expect(result.rows).toEqual([{ Name: 'The "Big" Day', Notes: 'a\nb' }])
+    })
+
+    it('should strip a leading BOM', () => {
+      const result = parseCSV('\uFEFFProject Name,Total\nA,1\n')
+      expect(result.headers[0]).toBe('Project Name')
+    })
+
+    it('should parse semicolon-delimited exports', () => {
+      const result = parseCSV('Project Name;Total\nA;1.500,00\n')
+      expect(result.delimiter).toBe(';')
+      expect(result.rows[0]).toEqual({ 'Project Name': 'A', Total: '1.500,00' })
+    })
+
+    it('should read amounts in semicolon-delimited exports with a decimal comma', () => {
+      const result = parseCSV('Project Name;Total\nA;1.500,00\nB;€ 2.345,5\n')
+      const decimalSeparator = decimalSeparatorFor(result.delimiter)
+      expect(result.rows.map(row => parseCents(row.Total, decimalSeparator))).toEqual([150000, 234550])
+    })
+
+    it('should skip blank lines', () => {
+      const result = parseCSV('Name\n\nA\n\n\nB\n')
+      expect(result.rows.map(r => r.Name)).toEqual(['A', 'B'])
+    })
+
+    it('should report an unterminated quote with its line and column', () => {
+      const result = parseCSV('Name,Notes\nA,ok\nB,"never closed\nstill open\n')
+      expect(result.errorDetails).toEqual([{ line: 3, column: 3, message: 'Unterminated quoted field' }])
+      expect(result.errors[0]).toBe('Line 3, column 3: Unterminated quoted field')
+    })
+
+    it('should report an empty file', () => {
+      expect(parseCSV('').errors).toContain('CSV file is empty')
+    })
+  })
+
+  describe('detectDelimiter', () => {
+    it('should detect comma, semicolon and tab delimiters', () => {
+      expect(detectDelimiter('a,b,c\n1,2,3')).toBe(',')
+      expect(detectDelimiter('a;b;c\n1;"2,5";3')).toBe(';')
+      expect(detectDelimiter('a\tb\n1\t2')).toBe('\t')
+    })
+
+    it('should honor an Excel sep= hint', () => {
+      expect(detectDelimiter('sep=;\na;b\n')).toBe(';')
+    })
+  })
+
+  describe('parseCents', () => {
+    it('should read comma thousands separators by default', () => {
+      expect(parseCents('$1,500.00')).toBe(150000)
+      expect(parseCents('-25.5')).toBe(-2550)
+      expect(parseCents('')).toBeNull()
+    })
+
+    it('should read a decimal comma when asked to', () => {
+      expect(parseCents('1.500,00', ',')).toBe(150000)
+      expect(parseCents('12,5', ',')).toBe(1250)
+    })
+  })
+
+  describe('detectEncoding', () => {
+    it('should detect UTF-8 and fall back to Windows-1252', () => {
+      expect(detectEncoding(new TextEncoder().encode('Café'))).toBe('utf-8')
+      expect(detectEncoding(new Uint8Array([0x43, 0x61, 0x66, 0xe9]))).toBe('windows-1252')
+      expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x41, 0x00]))).toBe('utf-16le')
+    })
+  })
+
+  describe('parseCSVFile', () => {
+    it('should parse a file in chunks, including quotes and CRLF split across chunks', async () => {
+      const text = 'Name,Notes\r\nA,"multi\r\nline"\r\nB,plain\r\n'
+      const progress: number[] = []
+      const result = await parseCSVFile(new Blob([text]), {
+        chunkSize: 3,
+        onProgress: p => progress.push(p.bytesRead),
+      })
+      expect(result.rows).toEqual([
+        { Name: 'A', Notes: 'multi\nline' },
+        { Name: 'B', Notes: 'plain' },
+      ])
+      expect(progress[progress.length - 1]).toBe(text.length)
+    })
+  })
+})
@@ -0,0 +1,359 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { readWorkbook, sheetToParseResult, excelSerialToDate, isDateFormat } from '../excelParser'
+
+const encoder = new TextEncoder()
+
+async function deflateRaw(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Minimal zip writer (CRCs are left at 0 - the reader doesn't check them)
+ */
+async function buildZip(files: Record<string, string>, deflate: boolean): Promise<Blob> {
+  const parts: Uint8Array<ArrayBuffer>[] = []
+  const central: Uint8Array<ArrayBuffer>[] = []
+  let offset = 0
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name)
+    const raw = encoder.encode(content)
+    const data = deflate ? await deflateRaw(raw) : raw
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(8, deflate ? 8 : 0, true)
+    local.setUint32(18, data.length, true)
+    local.setUint32(22, raw.length, true)
+    local.setUint16(26, nameBytes.length, true)
+    parts.push(new Uint8Array(local.buffer), nameBytes, data)
+
+    const entry = new DataView(new ArrayBuffer(46))
+    entry.setUint32(0, 0x02014b50, true)
+    entry.setUint16(10, deflate ? 8 : 0, true)
+    entry.setUint32(20, data.length, true)
+    entry.setUint32(24, raw.length, true)
+    entry.setUint16(28, nameBytes.length, true)
+    entry.setUint32(42, offset, true)
+    central.push(new Uint8Array(entry.buffer), nameBytes)
+
+    offset += 30 + nameBytes.length + data.length
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, Object.keys(files).length, true)
+  end.setUint16(10, Object.keys(files).length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)])
+}
+
+const workbookFiles = {
+  'xl/workbook.xml': `<?xml version="1.0"?>
+<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <sheets>
+    <sheet name="Notes" sheetId="1" r:id="rId1"/>
+    <sheet name="Booked Clients" sheetId="2" r:id="rId2"/>
+  </sheets>
+</workbook>`,
+  'xl/_rels/workbook.xml.rels': `<?xml version="1.0"?>
+<Relationships>
+  <Relationship Id="rId1" Target="worksheets/sheet1.xml"/>
+  <Relationship Id="rId2" Target="/xl/worksheets/sheet2.xml"/>
+</Relationships>`,
+  'xl/sharedStrings.xml': `<?xml version="1.0"?>
+<sst><si><t>Project Name</t></si><si><t>Booked Date</t></si><si><t>Total</t></si>
+<si><r><t>Smith </t></r><r><t>&amp; Jones</t></r></si><si><t>Paid</t></si></sst>`,
+  'xl/styles.xml': `<?xml version="1.0"?>
+<styleSheet>
+  <numFmts count="2"><numFmt numFmtId="164" formatCode="&quot;$&quot;#,##0.00"/><numFmt numFmtId="165" formatCode="mmm d, yyyy"/></numFmts>
+  <cellXfs count="4"><xf numFmtId="0"/><xf numFmtId="14" applyNumberFormat="1"/><xf numFmtId="164"/><xf numFmtId="165"/></cellXfs>
+</styleSheet>`,
+  'xl/worksheets/sheet1.xml': `<worksheet><sheetData/></worksheet>`,
+  'xl/worksheets/sheet2.xml': `<worksheet><sheetData>
+  <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c><c r="D1" t="s"><v>4</v></c></row>
+  <row r="2"/>
+  <row r="3"><c r="A3" t="s"><v>3</v></c><c r="B3" s="1"><v>45675</v></c><c r="C3" s="2"><v>1500.1000000000001</v></c><c r="D3" t="b"><v>1</v></c></row>
+  <row r="4"><c r="A4" t="inlineStr"><is><t>Lee Portraits</t></is></c><c r="B4" s="3"><v>45700.75</v></c><c r="C4"><v>250</v></c></row>
+</sheetData></worksheet>`,
+}
+
+const SECTOR_SIZE = 512
+const FREE_SECTOR = 0xffffffff
+const END_OF_CHAIN = 0xfffffffe
+
+function biffRecord(type: number, ...parts: Uint8Array[]): Uint8Array {
+  const length = parts.reduce((sum, part) => sum + part.length, 0)
+  const record = new Uint8Array(4 + length)
+  const view = new DataView(record.buffer)
+  view.setUint16(0, type, true)
+  view.setUint16(2, length, true)
+  let offset = 4
+  parts.forEach(part => {
+    record.set(part, offset)
+    offset += part.length
+  })
+  return record
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  parts.forEach(part => {
+    bytes.set(part, offset)
+    offset += part.length
+  })
+  return bytes
+}
+
+function uint16s(...values: number[]): Uint8Array {
+  const view = new DataView(new ArrayBuffer(values.length * 2))
+  values.forEach((value, i) => view.setUint16(i * 2, value, true))
+  return new Uint8Array(view.buffer)
+}
+
+function uint32s(...values: number[]): Uint8Array {
+  const view = new DataView(new ArrayBuffer(values.length * 4))
+  values.forEach((value, i) => view.setUint32(i * 4, value, true))
+  return new Uint8Array(view.buffer)
+}
+
+function float64(value: number): Uint8Array {
+  const view = new DataView(new ArrayBuffer(8))
+  view.setFloat64(0, value, true)
+  return new Uint8Array(view.buffer)
+}
+
+// XLUnicodeString with 1-byte characters (ShortXLUnicodeString when lengthBytes is 1)
+function biffString(text: string, lengthBytes: 1 | 2 = 2): Uint8Array {
+  const length = lengthBytes === 1 ? new Uint8Array([text.length]) : uint16s(text.length)
+  return concat([length, new Uint8Array([0]), encoder.encode(text)])
+}
+
+function utf16(text: string): Uint8Array {
+  return uint16s(...Array.from(text, char => char.charCodeAt(0)))
+}
+
+/**
+ * Workbook stream with a Booked Clients sheet and a Notes sheet
+ * The shared string table spans two CONTINUE records: the first splits "Café Wedding" after "Caf"
+ * and carries the rest as UTF-16, the second starts on a string boundary.
+ */
+function buildBiffWorkbook(): Uint8Array<ArrayBuffer> {
+  const bof = biffRecord(0x0809, uint16s(0x0600, 0x0005, 0, 0, 0, 0, 0, 0))
+  const eof = biffRecord(0x000a)
+
+  const bookedSheet = concat([
+    biffRecord(0x0809, uint16s(0x0600, 0x0010, 0, 0, 0, 0, 0, 0)),
+    biffRecord(0x00fd, uint16s(0, 0, 0), uint32s(0)), // A1 "Project Name"
+    biffRecord(0x00fd, uint16s(0, 1, 0), uint32s(1)), // B1 "Booked Date"
+    biffRecord(0x00fd, uint16s(0, 2, 0), uint32s(2)), // C1 "Total"
+    biffRecord(0x00fd, uint16s(0, 3, 0), uint32s(3)), // D1 "Deposit"
+    biffRecord(0x00fd, uint16s(2, 0, 0), uint32s(4)), // A3 "Café Wedding"
+    biffRecord(0x027e, uint16s(2, 1, 1), uint32s((45675 << 2) | 0x02)), // B3 integer RK, built-in date format
+    biffRecord(0x00bd, uint16s(2, 2), uint16s(0), uint32s((150010 << 2) | 0x03), uint16s(0), uint32s(0x3ff80000), uint16s(3)), // C3:D3 MULRK
+    biffRecord(0x0204, uint16s(3, 0, 0), biffString('Lee Portraits')), // A4 LABEL
+    biffRecord(0x0203, uint16s(3, 1, 2), float64(45700.75)), // B4 NUMBER, custom date format
+    biffRecord(0x027e, uint16s(3, 2, 0), uint32s((250 << 2) | 0x02)), // C4
+    eof,
+  ])
+  const notesSheet = concat([
+    biffRecord(0x0809, uint16s(0x0600, 0x0010, 0, 0, 0, 0, 0, 0)),
+    biffRecord(0x00fd, uint16s(0, 0, 0), uint32s(5)),
+    eof,
+  ])
+
+  const xf = (numFmtId: number) => biffRecord(0x00e0, uint16s(0, numFmtId, 0, 0, 0, 0, 0, 0, 0, 0))
+  const sharedStrings = [
+    biffRecord(0x00fc, uint32s(6, 6), biffString('Project Name'), biffString('Booked Date'), biffString('Total'),
+      biffString('Deposit'), uint16s(12), new Uint8Array([0]), encoder.encode('Caf')),
+    biffRecord(0x003c, new Uint8Array([1]), utf16('é Wedding')),
+    biffRecord(0x003c, biffString('Planning notes')),
+  ]
+  const globals = (positions: number[]) => concat([
+    bof,
+    biffRecord(0x0022, uint16s(0)), // DATEMODE: 1900 date system
+    biffRecord(0x041e, uint16s(164), biffString('dd/mm/yyyy')),
+    xf(0),
+    xf(14),
+    xf(164),
+    ...sharedStrings,
+    biffRecord(0x0085, uint32s(positions[0]), new Uint8Array([0, 0]), biffString('Booked Clients', 1)),
+    biffRecord(0x0085, uint32s(positions[1]), new Uint8Array([0, 0]), biffString('Notes', 1)),
+    eof,
+  ])
+
+  const globalsLength = globals([0, 0]).length
+  return concat([globals([globalsLength, globalsLength + bookedSheet.length]), bookedSheet, notesSheet])
+}
+
+/**
+ * Minimal OLE compound file holding one stream
+ * Streams under 4096 bytes go in the mini stream, like Excel writes small workbooks.
+ */
+function buildCompoundFile(streamName: string, stream: Uint8Array): Blob {
+  const sectors: Uint8Array[] = [new Uint8Array(SECTOR_SIZE)] // Sector 0 holds the FAT
+  const fat: number[] = [0xfffffffd]
+  const allocate = (data: Uint8Array) => {
+    const start = sectors.length
+    const count = Math.max(1, Math.ceil(data.length / SECTOR_SIZE))
+    for (let i = 0; i < count; i++) {
+      const sector = new Uint8Array(SECTOR_SIZE)
+      sector.set(data.subarray(i * SECTOR_SIZE, (i + 1) * SECTOR_SIZE))
+      sectors.push(sector)
+      fat.push(i === count - 1 ? END_OF_CHAIN : start + i + 1)
+    }
+    return start
+  }
+
+  let streamStart: number
+  let rootStart = END_OF_CHAIN
+  let rootSize = 0
+  let miniFatStart = END_OF_CHAIN
+  if (stream.length < 4096) {
+    const miniSectors = Math.ceil(stream.length / 64)
+    const miniFat = Array.from({ length: SECTOR_SIZE / 4 }, (_value, i) =>
+      i < miniSectors - 1 ? i + 1 : i === miniSectors - 1 ? END_OF_CHAIN : FREE_SECTOR)
+    miniFatStart = allocate(uint32s(...miniFat))
+    rootSize = miniSectors * 64
+    const miniStream = new Uint8Array(rootSize)
+    miniStream.set(stream)
+    rootStart = allocate(miniStream)
+    streamStart = 0
+  } else {
+    streamStart = allocate(stream)
+  }
+
+  const directory = new Uint8Array(SECTOR_SIZE)
+  const directoryView = new DataView(directory.buffer)
+  const writeEntry = (offset: number, name: string, type: number, start: number, size: number) => {
+    directory.set(utf16(name), offset)
+    directoryView.setUint16(offset + 0x40, (name.length + 1) * 2, true)
+    directory[offset + 0x42] = type
+    directoryView.setUint32(offset + 0x74, start, true)
+    directoryView.setUint32(offset + 0x78, size, true)
+  }
+  writeEntry(0, 'Root Entry', 5, rootStart, rootSize)
+  writeEntry(128, streamName, 2, streamStart, stream.length)
+  const directoryStart = allocate(directory)
+
+  sectors[0] = uint32s(...Array.from({ length: SECTOR_SIZE / 4 }, (_value, i) => i < fat.length ? fat[i] : FREE_SECTOR))
+
+  const header = new Uint8Array(SECTOR_SIZE)
+  const headerView = new DataView(header.buffer)
+  header.set([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])
+  headerView.setUint16(0x18, 0x003e, true)
+  headerView.setUint16(0x1a, 3, true)
+  headerView.setUint16(0x1c, 0xfffe, true)
+  headerView.setUint16(0x1e, 9, true) // 512-byte sectors
+  headerView.setUint16(0x20, 6, true) // 64-byte mini sectors
+  headerView.setUint32(0x2c, 1, true) // FAT sectors
+  headerView.setUint32(0x30, directoryStart, true)
+  headerView.setUint32(0x38, 4096, true)
+  headerView.setUint32(0x3c, miniFatStart, true)
+  headerView.setUint32(0x40, miniFatStart === END_OF_CHAIN ? 0 : 1, true)
+  headerView.setUint32(0x44, END_OF_CHAIN, true)
+  for (let i = 0; i < 109; i++) headerView.setUint32(0x4c + i * 4, i === 0 ? 0 : FREE_SECTOR, true)
+
+  return new Blob([header, ...sectors] as Uint8Array<ArrayBuffer>[])
+}
+
+describe('excelParser', () => {
+  describe('excelSerialToDate', () => {
+    it('should convert 1900 date system serials', () => {
+      expect(excelSerialToDate(45675)).toBe('2025-01-18')
+      expect(excelSerialToDate(1)).toBe('1900-01-01')
+      expect(excelSerialToDate(61)).toBe('1900-03-01')
+    })
+
+    it('should convert 1904 date system serials', () => {
+      expect(excelSerialToDate(0.5, true)).toBeNull()
+      expect(excelSerialToDate(44213, true)).toBe('2025-01-18')
+    })
+  })
+
+  describe('isDateFormat', () => {
+    it('should recognize built-in and custom date formats', () => {
+      expect(isDateFormat(14)).toBe(true)
+      expect(isDateFormat(165, 'dd/mm/yyyy')).toBe(true)
+      expect(isDateFormat(166, 'mmm-yy')).toBe(true)
+    })
+
+    it('should not treat currency, text or time formats as dates', () => {
+      expect(isDateFormat(164, '"$"#,##0.00')).toBe(false)
+      expect(isDateFormat(167, '[$-409]#,##0.00 "days"')).toBe(false)
+      expect(isDateFormat(168, 'h:mm')).toBe(false)
+      expect(isDateFormat(0, 'General')).toBe(false)
+    })
+  })
+
+  describe('readWorkbook', () => {
+    it('should read every sheet and normalize dates and currency', async () => {
+      const sheets = await readWorkbook(await buildZip(workbookFiles, false))
+      expect(sheets.map(sheet => sheet.name)).toEqual(['Notes', 'Booked Clients'])
+      expect(sheets[0].rows).toEqual([])
+      expect(sheets[1].rows).toEqual([
+        ['Project Name', 'Booked Date', 'Total', 'Paid'],
+        ['Smith & Jones', '2025-01-18', '1500.1', 'TRUE'],
+        ['Lee Portraits', '2025-02-12', '250'],
+      ])
+    })
+
+    it('should read deflated workbooks', async () => {
+      const sheets = await readWorkbook(await buildZip(workbookFiles, true))
+      expect(sheets[1].rows[1][0]).toBe('Smith & Jones')
+    })
+
+    it('should reject files that are not workbooks', async () => {
+      await expect(readWorkbook(new Blob(['Project Name,Total\n']))).rejects.toThrow('not an Excel workbook')
+    })
+  })
+
+  describe('readWorkbook (xls)', () => {
+    const expectedRows = [
+      ['Project Name', 'Booked Date', 'Total', 'Deposit'],
+      ['Café Wedding', '2025-01-18', '1500.1', '1.5'],
+      ['Lee Portraits', '2025-02-12', '250'],
+    ]
+
+    it('should read every sheet of a workbook in the mini stream', async () => {
+      const sheets = await readWorkbook(buildCompoundFile('Workbook', buildBiffWorkbook()))
+      expect(sheets.map(sheet => sheet.name)).toEqual(['Booked Clients', 'Notes'])
+      expect(sheets[0].rows).toEqual(expectedRows)
+      expect(sheets[1].rows).toEqual([['Planning notes']])
+    })
+
+    it('should read a workbook stored in regular sectors', async () => {
+      const workbook = buildBiffWorkbook()
+      const padded = new Uint8Array(5000) // Zero bytes after the last EOF read as empty records
+      padded.set(workbook)
+      const sheets = await readWorkbook(buildCompoundFile('Workbook', padded))
+      expect(sheets[0].rows).toEqual(expectedRows)
+    })
+
+    it('should reject password protected and Excel 95 workbooks', async () => {
+      await expect(readWorkbook(buildCompoundFile('EncryptedPackage', new Uint8Array(64)))).rejects.toThrow('password protected')
+      await expect(readWorkbook(buildCompoundFile('Book', new Uint8Array(64)))).rejects.toThrow('Excel 5.0/95')
+    })
+  })
+
+  describe('sheetToParseResult', () => {
+    it('should use the first non-blank row as headers', () => {
+      const result = sheetToParseResult({
+        name: 'Sheet1',
+        rows: [['', ''], ['Project Name', 'Total'], ['Smith Wedding', '1500']],
+      })
+      expect(result.headers).toEqual(['Project Name', 'Total'])
+      expect(result.rows).toEqual([{ 'Project Name': 'Smith Wedding', Total: '1500' }])
+    })
+
+    it('should report an empty sheet', () => {
+      expect(sheetToParseResult({ name: 'Notes', rows: [] }).errors).toEqual(['Sheet "Notes" is empty'])
+    })
+  })
+})
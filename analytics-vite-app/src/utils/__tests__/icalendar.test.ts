@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { escapeICSText, foldICSLine, buildICalendar } from '../icalendar'
+
+describe('icalendar', () => {
+  describe('escapeICSText', () => {
+    it('should escape backslashes, semicolons, commas and newlines', () => {
+      expect(escapeICSText('Smith, Jones; deposit')).toBe('Smith\\, Jones\\; deposit')
+      expect(escapeICSText('C:\\path')).toBe('C:\\\\path')
+      expect(escapeICSText('line one\r\nline two\nline three')).toBe('line one\\nline two\\nline three')
+    })
+  })
+
+  describe('foldICSLine', () => {
+    it('should leave short lines alone', () => {
+      expect(foldICSLine('SUMMARY:Smith Wedding')).toBe('SUMMARY:Smith Wedding')
+    })
+
+    it('should fold long lines at 75 octets without splitting characters', () => {
+      const folded = foldICSLine('DESCRIPTION:' + 'é'.repeat(60))
+      const lines = folded.split('\r\n')
+      expect(lines.length).toBe(2)
+      lines.forEach(line => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75))
+      expect(lines[1].startsWith(' ')).toBe(true)
+      expect(lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe('DESCRIPTION:' + 'é'.repeat(60))
+    })
+  })
+
+  describe('buildICalendar', () => {
+    it('should write all-day events with their UIDs', () => {
+      const ics = buildICalendar('Payments', [
+        { uid: 'payment-1@fnnlapp.com', date: '2025-12-31', summary: 'Payment due, $500.00' },
+      ], new Date('2025-03-15T12:00:00Z'))
+
+      expect(ics).toContain('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')
+      expect(ics).toContain('UID:payment-1@fnnlapp.com\r\n')
+      expect(ics).toContain('DTSTAMP:20250315T120000Z\r\n')
+      expect(ics).toContain('DTSTART;VALUE=DATE:20251231\r\nDTEND;VALUE=DATE:20260101\r\n')
+      expect(ics).toContain('SUMMARY:Payment due\\, $500.00\r\n')
+      expect(ics.endsWith('END:VEVENT\r\nEND:VCALENDAR\r\n')).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import {
+  isoWeekOf,
+  isoWeekStart,
+  isoWeekEnd,
+  isoWeeksInYear,
+  isoWeekMonth,
+  isoWeeksInMonth,
+  formatIsoWeek
+} from '../isoWeek'
+
+describe('isoWeek', () => {
+  describe('isoWeekOf', () => {
+    it('should number weeks from the week containing January 4', () => {
+      expect(isoWeekOf('2025-01-01')).toEqual({ year: 2025, week: 1 })
+      expect(isoWeekOf('2025-02-12')).toEqual({ year: 2025, week: 7 })
+      expect(isoWeekOf('2025-12-28')).toEqual({ year: 2025, week: 52 })
+    })
+
+    it('should put days around January 1 in the year of their Thursday', () => {
+      expect(isoWeekOf('2024-12-30')).toEqual({ year: 2025, week: 1 })
+      expect(isoWeekOf('2021-01-03')).toEqual({ year: 2020, week: 53 })
+    })
+
+    it('should return null for missing or unreadable dates', () => {
+      expect(isoWeekOf(undefined)).toBeNull()
+      expect(isoWeekOf('')).toBeNull()
+      expect(isoWeekOf('March 2025')).toBeNull()
+    })
+  })
+
+  describe('isoWeekStart and isoWeekEnd', () => {
+    it('should return the Monday and Sunday of the week', () => {
+      expect(isoWeekStart(2025, 1)).toBe('2024-12-30')
+      expect(isoWeekEnd(2025, 1)).toBe('2025-01-05')
+      expect(isoWeekStart(2020, 53)).toBe('2020-12-28')
+      expect(isoWeekEnd(2020, 53)).toBe('2021-01-03')
+    })
+  })
+
+  describe('isoWeeksInYear', () => {
+    it('should return 53 for long years and 52 otherwise', () => {
+      expect(isoWeeksInYear(2020)).toBe(53)
+      expect(isoWeeksInYear(2026)).toBe(53)
+      expect(isoWeeksInYear(2025)).toBe(52)
+    })
+  })
+
+  describe('isoWeekMonth', () => {
+    it('should roll a week up into the month of its Thursday', () => {
+      // Mon Mar 31 - Sun Apr 6 2025, Thursday April 3
+      expect(isoWeekMonth(2025, 14)).toEqual({ year: 2025, month: 4 })
+      // Mon Dec 30 2024 - Sun Jan 5 2025, Thursday January 2
+      expect(isoWeekMonth(2025, 1)).toEqual({ year: 2025, month: 1 })
+    })
+  })
+
+  describe('isoWeeksInMonth', () => {
+    it('should list the weeks whose Thursday is in the month', () => {
+      expect(isoWeeksInMonth(2025, 1).map(w => w.week)).toEqual([1, 2, 3, 4, 5])
+      expect(isoWeeksInMonth(2025, 3).map(w => w.week)).toEqual([10, 11, 12, 13])
+      expect(isoWeeksInMonth(2020, 12).map(w => w.week)).toEqual([49, 50, 51, 52, 53])
+    })
+
+    it('should cover every week of the year exactly once', () => {
+      const weeks = Array.from({ length: 12 }, (_, i) => isoWeeksInMonth(2026, i + 1)).flat()
+      expect(weeks.length).toBe(isoWeeksInYear(2026))
+      expect(weeks.map(w => w.week)).toEqual(Array.from({ length: 53 }, (_, i) => i + 1))
+    })
+  })
+
+  describe('formatIsoWeek', () => {
+    it('should zero-pad the week number', () => {
+      expect(formatIsoWeek(2025, 7)).toBe('2025-W07')
+      expect(formatIsoWeek(2026, 53)).toBe('2026-W53')
+    })
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import { mean, standardDeviation, linearRegression, forecastErrors, percentile, seededRandom, normalSample } from '../statistics'
+
+describe('statistics', () => {
+  describe('mean', () => {
+    it('should average the values', () => {
+      expect(mean([2, 4, 9])).toBe(5)
+    })
+
+    it('should return 0 for an empty list', () => {
+      expect(mean([])).toBe(0)
+    })
+  })
+
+  describe('linearRegression', () => {
+    it('should recover an exact line', () => {
+      const fit = linearRegression([0, 1, 2, 3], [5, 7, 9, 11])
+      expect(fit?.intercept).toBeCloseTo(5)
+      expect(fit?.slope).toBeCloseTo(2)
+      expect(fit?.rSquared).toBeCloseTo(1)
+    })
+
+    it('should fit the least-squares line through noisy points', () => {
+      const fit = linearRegression([1, 2, 3, 4], [2, 4, 5, 4])
+      expect(fit?.slope).toBeCloseTo(0.7)
+      expect(fit?.intercept).toBeCloseTo(2)
+      expect(fit?.rSquared).toBeCloseTo(0.516, 3)
+    })
+
+    it('should report no r-squared when y is flat', () => {
+      const fit = linearRegression([0, 1, 2], [3, 3, 3])
+      expect(fit?.slope).toBe(0)
+      expect(fit?.intercept).toBe(3)
+      expect(fit?.rSquared).toBeNull()
+    })
+
+    it('should return null without two distinct x values', () => {
+      expect(linearRegression([1], [1])).toBeNull()
+      expect(linearRegression([2, 2], [1, 3])).toBeNull()
+    })
+  })
+
+  describe('standardDeviation', () => {
+    it('should return the sample standard deviation', () => {
+      expect(standardDeviation([2, 4, 4, 4, 5, 5, 7, 9])).toBeCloseTo(2.138, 3)
+    })
+
+    it('should return 0 with fewer than two values', () => {
+      expect(standardDeviation([5])).toBe(0)
+    })
+  })
+
+  describe('forecastErrors', () => {
+    it('should average absolute and signed percentage errors', () => {
+      const errors = forecastErrors([
+        { forecast: 110, actual: 100 },
+        { forecast: 150, actual: 200 },
+      ])
+      expect(errors.mape).toBeCloseTo(0.175)
+      expect(errors.bias).toBeCloseTo(-0.075)
+      expect(errors.count).toBe(2)
+    })
+
+    it('should skip pairs with a zero actual', () => {
+      const errors = forecastErrors([
+        { forecast: 50, actual: 0 },
+        { forecast: 90, actual: 100 },
+      ])
+      expect(errors.mape).toBeCloseTo(0.1)
+      expect(errors.count).toBe(1)
+    })
+
+    it('should return nulls with nothing to score', () => {
+      expect(forecastErrors([])).toEqual({ mape: null, bias: null, count: 0 })
+    })
+  })
+
+  describe('percentile', () => {
+    it('should interpolate between neighbouring values', () => {
+      const sorted = [10, 20, 30, 40, 50]
+      expect(percentile(sorted, 50)).toBe(30)
+      expect(percentile(sorted, 10)).toBe(14)
+      expect(percentile(sorted, 90)).toBe(46)
+    })
+
+    it('should clamp to the ends and handle an empty list', () => {
+      expect(percentile([1, 2], 150)).toBe(2)
+      expect(percentile([], 50)).toBe(0)
+    })
+  })
+
+  describe('seededRandom', () => {
+    it('should repeat the same sequence for the same seed', () => {
+      const a = seededRandom(42)
+      const b = seededRandom(42)
+      const first = [a(), a(), a()]
+      expect([b(), b(), b()]).toEqual(first)
+      first.forEach(value => {
+        expect(value).toBeGreaterThanOrEqual(0)
+        expect(value).toBeLessThan(1)
+      })
+    })
+
+    it('should give a different sequence for a different seed', () => {
+      expect(seededRandom(1)()).not.toBe(seededRandom(2)())
+    })
+  })
+
+  describe('normalSample', () => {
+    it('should return the mean when there is no spread', () => {
+      expect(normalSample(seededRandom(1), 10, 0)).toBe(10)
+    })
+
+    it('should centre samples on the mean', () => {
+      const random = seededRandom(7)
+      const samples = Array.from({ length: 5000 }, () => normalSample(random, 100, 15))
+      expect(mean(samples)).toBeCloseTo(100, 0)
+      expect(standardDeviation(samples)).toBeGreaterThan(14)
+      expect(standardDeviation(samples)).toBeLessThan(16)
+    })
+  })
+})
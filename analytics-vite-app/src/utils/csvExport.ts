@@ -0,0 +1,41 @@
+/**
+ * CSV Export Utilities
+ * Writes CSV files that open cleanly in Excel, Numbers and Google Sheets
+ */
+
+export type CSVValue = string | number | boolean | null | undefined;
+
+// Excel runs cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Plain numbers written as text (e.g. centsToDecimal amounts) - a leading minus is a sign, not a formula
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Quote a single value per RFC 4180
+ * Text that would be read as a formula (e.g. a project named "=SUM(...)") is prefixed with a quote
+ * so spreadsheets show it as text; numbers and numeric strings are written as-is so negatives stay numeric.
+ */
+export function escapeCSVValue(value: CSVValue): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value !== 'string') return String(value);
+
+  const text = FORMULA_PREFIX.test(value) && !PLAIN_NUMBER.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a CSV document from a header row and data rows
+ * Starts with a UTF-8 byte order mark so Excel reads accented client names correctly.
+ */
+export function toCSV(headers: string[], rows: CSVValue[][]): string {
+  const lines = [headers, ...rows].map(row => row.map(escapeCSVValue).join(','));
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Cents as a plain decimal amount ("1234.50") - spreadsheets treat it as a number, unlike toUSD
+ */
+export function centsToDecimal(cents: number | null | undefined): string {
+  return ((cents || 0) / 100).toFixed(2);
+}
@@ -1,98 +1,375 @@
 /**
  * CSV Parser Utility
  * Handles parsing CSV files and mapping to our data structures
+ *
+ * RFC 4180 tokenizer: quoted fields may contain delimiters, escaped quotes ("") and
+ * line breaks; CRLF, LF and CR line endings are accepted. The delimiter is sniffed
+ * (comma, semicolon, tab or pipe) and a leading BOM is stripped.
  */
 
 export interface CSVRow {
   [key: string]: string;
 }
 
+/**
+ * A parse problem with its exact position in the file (1-based)
+ */
+export interface CSVParseError {
+  line: number;
+  column: number;
+  message: string;
+}
+
 export interface CSVParseResult {
   headers: string[];
   rows: CSVRow[];
   errors: string[];
+  errorDetails?: CSVParseError[];
+  delimiter?: string;
+  encoding?: string;
+}
+
+export interface CSVParseOptions {
+  delimiter?: string; // Skip sniffing and use this delimiter
+}
+
+export interface CSVStreamOptions extends CSVParseOptions {
+  chunkSize?: number; // Bytes read per chunk (default 1MB)
+  onProgress?: (progress: { bytesRead: number; totalBytes: number; rows: number }) => void;
 }
 
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
 /**
- * Parse a CSV file into structured data
+ * Guess the delimiter from a sample of the file
+ * Picks the candidate that appears most consistently (outside quotes) across the first lines
  */
-export function parseCSV(csvText: string): CSVParseResult {
-  const errors: string[] = [];
-  const lines = csvText.split('\n').filter(line => line.trim());
-  
-  if (lines.length === 0) {
+export function detectDelimiter(sample: string): string {
+  // Excel writes an explicit "sep=;" hint line for some locales
+  const hint = sample.match(/^\uFEFF?sep=(.)\r?\n/i);
+  if (hint) return hint[1];
+
+  const lines: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < sample.length && lines.length < 10; i++) {
+    const char = sample[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if ((char === '\n' || char === '\r') && !inQuotes) {
+      if (current.trim()) lines.push(current);
+      current = '';
+      continue;
+    }
+    if (!inQuotes) current += char;
+  }
+  if (current.trim() && lines.length < 10) lines.push(current);
+
+  let best = ',';
+  let bestScore = 0;
+  CANDIDATE_DELIMITERS.forEach(delimiter => {
+    const counts = lines.map(line => line.split(delimiter).length - 1);
+    if (counts.length === 0) return;
+    // Lowest per-line count rewards delimiters present on every line
+    const score = Math.min(...counts) * 1000 + counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Incremental RFC 4180 tokenizer
+ * Feed text with push() (chunks may split anywhere, including inside quotes or CRLF) and call end()
+ */
+export class CSVTokenizer {
+  records: string[][] = [];
+  recordLines: number[] = []; // Line each record starts on
+  errors: CSVParseError[] = [];
+
+  private delimiter: string;
+  private field = '';
+  private record: string[] = [];
+  private state: 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted' = 'fieldStart';
+  private line = 1;
+  private column = 0;
+  private recordLine = 1;
+  private quoteLine = 1;
+  private quoteColumn = 1;
+  private pendingCR = false;
+  private started = false;
+
+  constructor(delimiter: string = ',') {
+    this.delimiter = delimiter;
+  }
+
+  push(text: string): void {
+    for (let i = 0; i < text.length; i++) {
+      let char = text[i];
+
+      // Strip a leading BOM
+      if (!this.started) {
+        this.started = true;
+        if (char === '\uFEFF') continue;
+      }
+
+      // Second half of a CRLF pair (possibly split across chunks)
+      if (this.pendingCR) {
+        this.pendingCR = false;
+        if (char === '\n') continue;
+      }
+
+      if (char === '\r' || char === '\n') {
+        if (char === '\r') this.pendingCR = true;
+        char = '\n';
+      } else {
+        this.column++;
+      }
+
+      switch (this.state) {
+        case 'fieldStart':
+          if (char === '"') {
+            this.state = 'quoted';
+            this.quoteLine = this.line;
+            this.quoteColumn = this.column;
+          } else if (char === this.delimiter) {
+            this.endField();
+          } else if (char === '\n') {
+            this.endRecord();
+          } else {
+            this.field += char;
+            this.state = 'unquoted';
+          }
+          break;
+
+        case 'unquoted':
+          if (char === this.delimiter) {
+            this.endField();
+          } else if (char === '\n') {
+            this.endRecord();
+          } else {
+            // A stray quote inside an unquoted field (e.g. 5" prints) is kept literally
+            this.field += char;
+          }
+          break;
+
+        case 'quoted':
+          if (char === '"') {
+            this.state = 'quoteInQuoted';
+          } else {
+            this.field += char;
+            if (char === '\n') this.newLine();
+          }
+          break;
+
+        case 'quoteInQuoted':
+          if (char === '"') {
+            // Escaped quote
+            this.field += '"';
+            this.state = 'quoted';
+          } else if (char === this.delimiter) {
+            this.endField();
+          } else if (char === '\n') {
+            this.endRecord();
+          } else {
+            this.errors.push({
+              line: this.line,
+              column: this.column,
+              message: `Unexpected character "${char}" after closing quote`,
+            });
+            this.field += char;
+            this.state = 'unquoted';
+          }
+          break;
+      }
+    }
+  }
+
+  end(): void {
+    if (this.state === 'quoted') {
+      this.errors.push({
+        line: this.quoteLine,
+        column: this.quoteColumn,
+        message: 'Unterminated quoted field',
+      });
+    }
+    if (this.state !== 'fieldStart' || this.record.length > 0) {
+      this.endRecord();
+    }
+  }
+
+  private newLine(): void {
+    this.line++;
+    this.column = 0;
+  }
+
+  private endField(): void {
+    this.record.push(this.field);
+    this.field = '';
+    this.state = 'fieldStart';
+  }
+
+  private endRecord(): void {
+    this.endField();
+    // Skip blank lines
+    if (this.record.some(value => value.trim() !== '')) {
+      this.records.push(this.record);
+      this.recordLines.push(this.recordLine);
+    }
+    this.record = [];
+    this.newLine();
+    this.recordLine = this.line;
+  }
+}
+
+/**
+ * Turn tokenized records into a parse result keyed by header
+ */
+function buildParseResult(tokenizer: CSVTokenizer, delimiter: string, encoding?: string): CSVParseResult {
+  const errorDetails = tokenizer.errors;
+  const errors = errorDetails.map(e => `Line ${e.line}, column ${e.column}: ${e.message}`);
+  let records = tokenizer.records;
+
+  // Drop Excel's "sep=;" hint line
+  if (records.length > 0 && records[0].length === 1 && /^sep=.$/i.test(records[0][0])) {
+    records = records.slice(1);
+  }
+
+  if (records.length === 0) {
     errors.push('CSV file is empty');
-    return { headers: [], rows: [], errors };
+    return { headers: [], rows: [], errors, errorDetails, delimiter, encoding };
   }
 
-  // Parse headers (first line)
-  const headers = parseCSVLine(lines[0]);
-  
-  if (headers.length === 0) {
+  const headers = records[0].map(header => header.trim());
+
+  if (headers.every(header => header === '')) {
     errors.push('CSV file has no headers');
-    return { headers: [], rows: [], errors };
+    return { headers: [], rows: [], errors, errorDetails, delimiter, encoding };
   }
 
-  // Parse data rows
   const rows: CSVRow[] = [];
-  for (let i = 1; i < lines.length; i++) {
-    const values = parseCSVLine(lines[i]);
-    if (values.length === 0) continue; // Skip empty rows
-    
+  for (let i = 1; i < records.length; i++) {
+    const values = records[i];
     const row: CSVRow = {};
     headers.forEach((header, index) => {
-      row[header.trim()] = values[index]?.trim() || '';
+      row[header] = values[index]?.trim() || '';
     });
     rows.push(row);
   }
 
-  return { headers, rows, errors };
+  return { headers, rows, errors, errorDetails, delimiter, encoding };
 }
 
 /**
- * Parse a single CSV line, handling quoted fields
+ * Parse a CSV file into structured data
  */
-function parseCSVLine(line: string): string[] {
-  const values: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    const nextChar = line[i + 1];
-    
-    if (char === '"') {
-      if (inQuotes && nextChar === '"') {
-        // Escaped quote
-        current += '"';
-        i++; // Skip next quote
-      } else {
-        // Toggle quote state
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      // End of field
-      values.push(current);
-      current = '';
-    } else {
-      current += char;
+export function parseCSV(csvText: string, options: CSVParseOptions = {}): CSVParseResult {
+  const delimiter = options.delimiter || detectDelimiter(csvText.slice(0, 64 * 1024));
+  const tokenizer = new CSVTokenizer(delimiter);
+  tokenizer.push(csvText);
+  tokenizer.end();
+  return buildParseResult(tokenizer, delimiter);
+}
+
+/**
+ * Detect the text encoding of the first bytes of a file
+ * BOMs win; otherwise valid UTF-8 is assumed, and anything else is treated as Windows-1252
+ * (what Excel on Windows saves "CSV" as)
+ */
+export function detectEncoding(bytes: Uint8Array, truncated: boolean = false): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  try {
+    // stream: true tolerates a multi-byte character cut off at the end of a truncated sample
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: truncated });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+/**
+ * Tokenize a CSV File/Blob in chunks, yielding to the browser between chunks
+ */
+async function tokenizeCSVFile(file: Blob, options: CSVStreamOptions): Promise<{ tokenizer: CSVTokenizer; delimiter: string; encoding: string }> {
+  const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
+  const totalBytes = file.size;
+
+  const firstBytes = new Uint8Array(await file.slice(0, Math.min(chunkSize, totalBytes)).arrayBuffer());
+  const encoding = detectEncoding(firstBytes, totalBytes > chunkSize);
+  const decoder = new TextDecoder(encoding);
+
+  let tokenizer: CSVTokenizer | null = null;
+  let delimiter = options.delimiter || ',';
+
+  for (let offset = 0; offset < totalBytes; offset += chunkSize) {
+    const bytes = offset === 0
+      ? firstBytes
+      : new Uint8Array(await file.slice(offset, offset + chunkSize).arrayBuffer());
+    const text = decoder.decode(bytes, { stream: offset + chunkSize < totalBytes });
+
+    if (!tokenizer) {
+      delimiter = options.delimiter || detectDelimiter(text);
+      tokenizer = new CSVTokenizer(delimiter);
     }
+    tokenizer.push(text);
+
+    const bytesRead = Math.min(offset + chunkSize, totalBytes);
+    options.onProgress?.({ bytesRead, totalBytes, rows: Math.max(tokenizer.records.length - 1, 0) });
+
+    // Let the browser paint between chunks
+    await new Promise(resolve => setTimeout(resolve, 0));
   }
-  
-  // Add last field
-  values.push(current);
-  
-  return values;
+
+  if (!tokenizer) tokenizer = new CSVTokenizer(delimiter);
+  tokenizer.end();
+
+  return { tokenizer, delimiter, encoding };
+}
+
+/**
+ * Parse a CSV File/Blob in chunks, yielding to the browser between chunks so large
+ * reports (20k+ rows) don't freeze the tab
+ */
+export async function parseCSVFile(file: Blob, options: CSVStreamOptions = {}): Promise<CSVParseResult> {
+  const { tokenizer, delimiter, encoding } = await tokenizeCSVFile(file, options);
+  return buildParseResult(tokenizer, delimiter, encoding);
+}
+
+/**
+ * Read a CSV File/Blob as raw records, for reports whose header row isn't the first line
+ * (e.g. Google Ads exports start with a report title and date range)
+ */
+export async function parseCSVRecords(file: Blob, options: CSVStreamOptions = {}): Promise<string[][]> {
+  const { tokenizer } = await tokenizeCSVFile(file, options);
+  return tokenizer.records;
+}
+
+export type DecimalSeparator = '.' | ',';
+
+/**
+ * Decimal separator to read amounts with: semicolon-delimited exports come from locales that
+ * write amounts as 1.500,00
+ */
+export function decimalSeparatorFor(delimiter?: string): DecimalSeparator {
+  return delimiter === ';' ? ',' : '.';
 }
 
 /**
  * Convert a value to a number (handles currency, percentages, etc.)
  */
-export function parseNumber(value: string): number | null {
+export function parseNumber(value: string, decimalSeparator: DecimalSeparator = '.'): number | null {
   if (!value || value.trim() === '') return null;
   
-  // Remove currency symbols, commas, and whitespace
-  const cleaned = value.replace(/[$,\s%]/g, '');
+  // Remove currency symbols, thousands separators, and whitespace
+  const cleaned = decimalSeparator === ','
+    ? value.replace(/[$€£.\s%]/g, '').replace(',', '.')
+    : value.replace(/[$€£,\s%]/g, '');
   const num = parseFloat(cleaned);
   
   return isNaN(num) ? null : num;
@@ -101,21 +378,72 @@ export function parseNumber(value: string): number | null {
 /**
  * Convert a value to cents (from dollars)
  */
-export function parseCents(value: string): number | null {
-  const num = parseNumber(value);
+export function parseCents(value: string, decimalSeparator: DecimalSeparator = '.'): number | null {
+  const num = parseNumber(value, decimalSeparator);
   return num !== null ? Math.round(num * 100) : null;
 }
 
+/**
+ * Date formats a column can be pinned to in the column mapping step
+ * 'auto' guesses (US month-first for ambiguous slashed dates)
+ */
+export type DateFormat = 'auto' | 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'MMM DD, YYYY';
+
+export const DATE_FORMATS: { value: DateFormat; label: string }[] = [
+  { value: 'auto', label: 'Auto-detect' },
+  { value: 'YYYY-MM-DD', label: 'YYYY-MM-DD (2025-06-30)' },
+  { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY (06/30/2025)' },
+  { value: 'DD/MM/YYYY', label: 'DD/MM/YYYY (30/06/2025)' },
+  { value: 'MMM DD, YYYY', label: 'MMM DD, YYYY (Jun 30, 2025)' },
+];
+
+/**
+ * Parse a date in an explicit format (time portions are ignored)
+ */
+function parseDateWithFormat(value: string, format: Exclude<DateFormat, 'auto'>): string | null {
+  let year: number;
+  let month: number;
+  let day: number;
+
+  if (format === 'MMM DD, YYYY') {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return null;
+    year = date.getFullYear();
+    month = date.getMonth() + 1;
+    day = date.getDate();
+  } else if (format === 'YYYY-MM-DD') {
+    const match = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+    if (!match) return null;
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    const match = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})\b/);
+    if (!match) return null;
+    const first = Number(match[1]);
+    const second = Number(match[2]);
+    year = Number(match[3]) < 100 ? 2000 + Number(match[3]) : Number(match[3]);
+    [month, day] = format === 'MM/DD/YYYY' ? [first, second] : [second, first];
+  }
+
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
 /**
  * Parse a date string (handles various formats including Honeybook formats)
  * Honeybook formats:
  * - Leads report: "MMM DD, YYYY" (e.g., "Jun 30, 2025")
  * - Booked Client report: "YYYY-MM-DD HH:MM:SS UTC" (e.g., "2025-01-18 13:38:59 UTC")
+ * Pass a format to skip guessing (e.g. DD/MM/YYYY exports from outside the US)
  */
-export function parseDate(dateString: string): string | null {
+export function parseDate(dateString: string, format: DateFormat = 'auto'): string | null {
   if (!dateString || dateString.trim() === '' || dateString.trim().toUpperCase() === 'TBD') {
     return null;
   }
+
+  // Spreadsheet dates arrive as YYYY-MM-DD whatever format the column is pinned to
+  if (format !== 'auto' && !/^\d{4}-\d{2}-\d{2}$/.test(dateString.trim())) {
+    return parseDateWithFormat(dateString.trim(), format);
+  }
   
   // Try to parse various date formats
   const formats = [
@@ -0,0 +1,19 @@
+/**
+ * Download Utilities
+ * Save generated content (backups, exports) as a file in the browser
+ */
+
+/**
+ * Trigger a browser download of text or binary content
+ */
+export function downloadFile(fileName: string, content: BlobPart, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
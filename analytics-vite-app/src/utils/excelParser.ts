@@ -0,0 +1,661 @@
+/**
+ * Excel Workbook Parser
+ * Reads .xlsx (Office Open XML) and legacy .xls (BIFF8) workbooks in the browser and turns a
+ * sheet into the same CSVParseResult the CSV importers consume, so column mapping, previews and
+ * imports work unchanged.
+ *
+ * Cells are normalized to what parseDate/parseCents expect: date-formatted serial numbers become
+ * YYYY-MM-DD, currency and number formats become plain numbers ("1234.5") and percentages "25%".
+ */
+
+import type { CSVParseResult, CSVRow } from './csvParser';
+
+export interface WorkbookSheet {
+  name: string;
+  rows: string[][]; // Cell text by row, blank rows dropped
+}
+
+const WORKBOOK_FILE = /\.(xlsx|xlsm|xls)$/i;
+
+/**
+ * Whether a file should be read as a workbook rather than as delimited text
+ */
+export function isWorkbookFile(fileName: string): boolean {
+  return WORKBOOK_FILE.test(fileName);
+}
+
+// ============================================================================
+// CELL VALUES
+// ============================================================================
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Convert an Excel date serial to YYYY-MM-DD (time of day is dropped)
+ * The 1900 date system counts Excel's phantom 29 Feb 1900, so serials from 61 on are one day ahead
+ * of a plain day count from 31 Dec 1899. Mac workbooks may use the 1904 date system instead.
+ */
+export function excelSerialToDate(serial: number, date1904: boolean = false): string | null {
+  if (!Number.isFinite(serial) || serial < 1) return null;
+
+  const days = Math.floor(serial);
+  const epoch = date1904
+    ? Date.UTC(1904, 0, 1)
+    : days >= 61 ? Date.UTC(1899, 11, 30) : Date.UTC(1899, 11, 31);
+  const date = new Date(epoch + days * MS_PER_DAY);
+  if (isNaN(date.getTime()) || date.getUTCFullYear() > 9999) return null;
+
+  return date.toISOString().slice(0, 10);
+}
+
+// Built-in number formats that display dates (time-only formats are left as numbers)
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 22, 27, 28, 29, 30, 31, 34, 35, 36, 50, 51, 52, 53, 54, 55, 56, 57, 58]);
+
+/**
+ * Strip the parts of a format code that are shown literally: "quoted text", \escapes,
+ * _ padding, * fill characters and [colors]/[$-locale] sections
+ */
+function formatTokens(formatCode: string): string {
+  return formatCode
+    .replace(/"[^"]*"/g, '')
+    .replace(/\\./g, '')
+    .replace(/[_*]./g, '')
+    .replace(/\[[^\]]*\]/g, '');
+}
+
+/**
+ * Whether a cell's number format displays a date
+ */
+export function isDateFormat(numFmtId: number, formatCode?: string): boolean {
+  if (BUILTIN_DATE_FORMATS.has(numFmtId)) return true;
+  if (!formatCode) return false;
+
+  const tokens = formatTokens(formatCode);
+  if (/general/i.test(tokens)) return false;
+  return /[dy]/i.test(tokens) || (/m/i.test(tokens) && !/[hs]/i.test(tokens));
+}
+
+/**
+ * Text for a numeric cell as the importers expect it
+ */
+function formatNumberCell(value: number, numFmtId: number, formatCode: string | undefined, date1904: boolean): string {
+  if (isDateFormat(numFmtId, formatCode)) {
+    const date = excelSerialToDate(value, date1904);
+    if (date) return date;
+  }
+
+  // Trim floating point noise (0.1 + 0.2 -> 0.3)
+  const clean = (n: number) => String(Number(n.toPrecision(15)));
+  const isPercent = numFmtId === 9 || numFmtId === 10 || (!!formatCode && formatTokens(formatCode).includes('%'));
+  return isPercent ? `${clean(value * 100)}%` : clean(value);
+}
+
+/**
+ * Turn a sheet into the result shape the CSV parser produces
+ * Blank rows are skipped, so the first row with any text is used as the header row
+ */
+export function sheetToParseResult(sheet: WorkbookSheet): CSVParseResult {
+  const records = sheet.rows.filter(row => row.some(cell => cell.trim() !== ''));
+  if (records.length === 0) {
+    return { headers: [], rows: [], errors: [`Sheet "${sheet.name}" is empty`] };
+  }
+
+  const headers = records[0].map(header => header.trim());
+  const rows: CSVRow[] = records.slice(1).map(values => {
+    const row: CSVRow = {};
+    headers.forEach((header, index) => {
+      row[header] = values[index]?.trim() || '';
+    });
+    return row;
+  });
+
+  return { headers, rows, errors: [] };
+}
+
+/**
+ * Read every sheet of an .xlsx or .xls workbook
+ * Throws when the file isn't a workbook or can't be read (e.g. it is password protected)
+ */
+export async function readWorkbook(file: Blob): Promise<WorkbookSheet[]> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b) return readXlsx(bytes);
+  if (bytes[0] === 0xd0 && bytes[1] === 0xcf && bytes[2] === 0x11 && bytes[3] === 0xe0) return readXls(bytes);
+
+  throw new Error('This file is not an Excel workbook. Save it as .xlsx or export a CSV instead.');
+}
+
+// ============================================================================
+// XLSX (ZIP + XML)
+// ============================================================================
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Index a zip archive by its central directory
+ */
+function readZipEntries(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // End of central directory record: last 22 bytes plus an optional comment
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('This workbook is damaged or incomplete.');
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < count && view.getUint32(offset, true) === 0x02014b50; i++) {
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name.replace(/\\/g, '/'), {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Extract a zip entry as text (stored and deflated entries)
+ */
+async function readZipText(bytes: Uint8Array, entries: Map<string, ZipEntry>, name: string): Promise<string | null> {
+  const entry = entries.get(name);
+  if (!entry) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const local = entry.localHeaderOffset;
+  const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+  const data = bytes.slice(start, start + entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error(`Unsupported compression in workbook part ${name}`);
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+/**
+ * Decode XML entities and the _xHHHH_ escapes Excel uses for control characters
+ */
+function decodeXml(text: string): string {
+  return text
+    .replace(/_x([0-9a-fA-F]{4})_/g, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|quot|apos|amp);/g, (_match, entity: string) => {
+      if (entity[0] === '#') {
+        const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        return String.fromCodePoint(code);
+      }
+      return { lt: '<', gt: '>', quot: '"', apos: "'", amp: '&' }[entity] as string;
+    });
+}
+
+/**
+ * Attributes of an XML start tag (namespace prefixes kept, e.g. "r:id")
+ */
+function xmlAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeXml(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+/**
+ * Concatenated <t> text of a shared string or inline string, without phonetic (furigana) runs
+ */
+function xmlText(xml: string): string {
+  const withoutPhonetic = xml.replace(/<(\w+:)?rPh\b[\s\S]*?<\/(\w+:)?rPh>/g, '');
+  let text = '';
+  for (const match of withoutPhonetic.matchAll(/<(?:\w+:)?t(?:\s[^>]*)?>([\s\S]*?)<\/(?:\w+:)?t>/g)) {
+    text += decodeXml(match[1]);
+  }
+  return text;
+}
+
+/**
+ * 0-based column index of a cell reference ("AB12" -> 27)
+ */
+function columnIndex(ref: string): number {
+  let index = 0;
+  for (const char of ref.toUpperCase()) {
+    if (char < 'A' || char > 'Z') break;
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Resolve a relationship target against the xl/ folder
+ */
+function resolvePartName(target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts: string[] = ['xl'];
+  target.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+}
+
+async function readXlsx(bytes: Uint8Array): Promise<WorkbookSheet[]> {
+  const entries = readZipEntries(bytes);
+  if (entries.has('EncryptedPackage')) {
+    throw new Error('This workbook is password protected. Remove the password in Excel and try again.');
+  }
+
+  const workbookXml = await readZipText(bytes, entries, 'xl/workbook.xml');
+  if (!workbookXml) throw new Error('This file is not an Excel workbook. Save it as .xlsx or export a CSV instead.');
+
+  const date1904 = /<(?:\w+:)?workbookPr\b[^>]*\bdate1904\s*=\s*["'](1|true)["']/.test(workbookXml);
+
+  // Relationship ID -> sheet part
+  const relsXml = await readZipText(bytes, entries, 'xl/_rels/workbook.xml.rels') || '';
+  const targets = new Map<string, string>();
+  for (const match of relsXml.matchAll(/<(?:\w+:)?Relationship\b[^>]*>/g)) {
+    const attributes = xmlAttributes(match[0]);
+    if (attributes.Id && attributes.Target) targets.set(attributes.Id, resolvePartName(attributes.Target));
+  }
+
+  const sharedStringsXml = await readZipText(bytes, entries, 'xl/sharedStrings.xml') || '';
+  const sharedStrings = [...sharedStringsXml.matchAll(/<(?:\w+:)?si>([\s\S]*?)<\/(?:\w+:)?si>|<(?:\w+:)?si\/>/g)]
+    .map(match => (match[1] ? xmlText(match[1]) : ''));
+
+  // Cell style index -> number format
+  const stylesXml = await readZipText(bytes, entries, 'xl/styles.xml') || '';
+  const formatCodes = new Map<number, string>();
+  for (const match of stylesXml.matchAll(/<(?:\w+:)?numFmt\b[^>]*>/g)) {
+    const attributes = xmlAttributes(match[0]);
+    formatCodes.set(Number(attributes.numFmtId), attributes.formatCode);
+  }
+  const cellXfs = stylesXml.match(/<(?:\w+:)?cellXfs\b[^>]*>([\s\S]*?)<\/(?:\w+:)?cellXfs>/)?.[1] || '';
+  const styleFormats = [...cellXfs.matchAll(/<(?:\w+:)?xf\b[^>]*>/g)]
+    .map(match => Number(xmlAttributes(match[0]).numFmtId) || 0);
+
+  const sheets: WorkbookSheet[] = [];
+  for (const match of workbookXml.matchAll(/<(?:\w+:)?sheet\b[^>]*>/g)) {
+    const attributes = xmlAttributes(match[0]);
+    const relationshipId = Object.entries(attributes).find(([key]) => /(^|:)id$/.test(key) && key !== 'sheetId')?.[1];
+    const part = relationshipId ? targets.get(relationshipId) : undefined;
+    const sheetXml = part ? await readZipText(bytes, entries, part) : null;
+    if (sheetXml === null) continue; // Chart sheets and missing parts
+
+    const rows: string[][] = [];
+    let nextRow = 0;
+    for (const rowMatch of sheetXml.matchAll(/<(?:\w+:)?row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?row>)/g)) {
+      const rowIndex = Number(xmlAttributes(rowMatch[1]).r) - 1;
+      const index = rowIndex >= 0 ? rowIndex : nextRow;
+      nextRow = index + 1;
+
+      const cells: string[] = [];
+      let nextColumn = 0;
+      for (const cellMatch of (rowMatch[2] || '').matchAll(/<(?:\w+:)?c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?c>)/g)) {
+        const cell = xmlAttributes(cellMatch[1]);
+        const column = cell.r ? columnIndex(cell.r) : nextColumn;
+        nextColumn = column + 1;
+
+        const body = cellMatch[2] || '';
+        const raw = body.match(/<(?:\w+:)?v(?:\s[^>]*)?>([\s\S]*?)<\/(?:\w+:)?v>/)?.[1];
+        const value = raw !== undefined ? decodeXml(raw) : '';
+
+        let text = '';
+        if (cell.t === 's') text = sharedStrings[Number(value)] ?? '';
+        else if (cell.t === 'inlineStr') text = xmlText(body);
+        else if (cell.t === 'str') text = value;
+        else if (cell.t === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+        else if (cell.t === 'd') text = value.slice(0, 10);
+        else if (cell.t !== 'e' && value !== '') {
+          const numFmtId = styleFormats[Number(cell.s) || 0] ?? 0;
+          text = formatNumberCell(Number(value), numFmtId, formatCodes.get(numFmtId), date1904);
+        }
+        cells[column] = text;
+      }
+
+      if (cells.some(cell => cell && cell.trim() !== '')) {
+        rows[index] = Array.from(cells, cell => cell ?? '');
+      }
+    }
+
+    sheets.push({ name: attributes.name || `Sheet ${sheets.length + 1}`, rows: rows.filter(Boolean) });
+  }
+
+  return sheets;
+}
+
+// ============================================================================
+// XLS (BIFF8 in a compound file)
+// ============================================================================
+
+const END_OF_CHAIN = 0xfffffffa; // Sector IDs from here up are markers, not sectors
+
+/**
+ * Read a named stream from an OLE compound file (the container of .xls workbooks)
+ */
+function readCompoundStream(bytes: Uint8Array, names: string[]): { name: string; data: Uint8Array } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const sectorSize = 1 << view.getUint16(0x1e, true);
+  const miniSectorSize = 1 << view.getUint16(0x20, true);
+  const miniStreamCutoff = view.getUint32(0x38, true);
+  const sectorOffset = (sector: number) => (sector + 1) * sectorSize;
+
+  // FAT sectors are listed in the header (first 109) and then in a chain of DIFAT sectors
+  const fatSectors: number[] = [];
+  for (let i = 0; i < 109; i++) {
+    const sector = view.getUint32(0x4c + i * 4, true);
+    if (sector < END_OF_CHAIN) fatSectors.push(sector);
+  }
+  let difatSector = view.getUint32(0x44, true);
+  for (let guard = 0; difatSector < END_OF_CHAIN && guard < 10000; guard++) {
+    const offset = sectorOffset(difatSector);
+    for (let i = 0; i < sectorSize / 4 - 1; i++) {
+      const sector = view.getUint32(offset + i * 4, true);
+      if (sector < END_OF_CHAIN) fatSectors.push(sector);
+    }
+    difatSector = view.getUint32(offset + sectorSize - 4, true);
+  }
+
+  const fat: number[] = [];
+  fatSectors.forEach(sector => {
+    const offset = sectorOffset(sector);
+    for (let i = 0; i < sectorSize / 4 && offset + i * 4 + 4 <= bytes.length; i++) {
+      fat.push(view.getUint32(offset + i * 4, true));
+    }
+  });
+
+  const chain = (start: number, table: number[]): number[] => {
+    const sectors: number[] = [];
+    for (let sector = start; sector < END_OF_CHAIN && sectors.length <= table.length; sector = table[sector]) {
+      sectors.push(sector);
+    }
+    return sectors;
+  };
+
+  const readChain = (start: number, size: number): Uint8Array => {
+    const data = new Uint8Array(size);
+    let written = 0;
+    for (const sector of chain(start, fat)) {
+      if (written >= size) break;
+      const offset = sectorOffset(sector);
+      const length = Math.min(sectorSize, size - written, bytes.length - offset);
+      if (length <= 0) break;
+      data.set(bytes.subarray(offset, offset + length), written);
+      written += length;
+    }
+    return data;
+  };
+
+  // Directory entries are 128 bytes: UTF-16 name, type, start sector and size
+  const directory = readChain(view.getUint32(0x30, true), chain(view.getUint32(0x30, true), fat).length * sectorSize);
+  const directoryView = new DataView(directory.buffer);
+  const entries: { name: string; type: number; start: number; size: number }[] = [];
+  for (let offset = 0; offset + 128 <= directory.length; offset += 128) {
+    const nameLength = Math.max(directoryView.getUint16(offset + 0x40, true) - 2, 0);
+    entries.push({
+      name: new TextDecoder('utf-16le').decode(directory.subarray(offset, offset + nameLength)),
+      type: directory[offset + 0x42],
+      start: directoryView.getUint32(offset + 0x74, true),
+      size: directoryView.getUint32(offset + 0x78, true),
+    });
+  }
+
+  const entry = names.map(name => entries.find(e => e.type === 2 && e.name === name)).find(Boolean);
+  if (!entry) return null;
+  if (entry.size >= miniStreamCutoff) return { name: entry.name, data: readChain(entry.start, entry.size) };
+
+  // Small streams live in the mini stream (stored in the root entry's chain), indexed by the mini FAT
+  const root = entries.find(e => e.type === 5);
+  const miniFatStart = view.getUint32(0x3c, true);
+  if (!root || miniFatStart >= END_OF_CHAIN) return null;
+  const miniFatBytes = readChain(miniFatStart, chain(miniFatStart, fat).length * sectorSize);
+  const miniFatView = new DataView(miniFatBytes.buffer);
+  const miniFat = Array.from({ length: miniFatBytes.length / 4 }, (_value, i) => miniFatView.getUint32(i * 4, true));
+  const miniStream = readChain(root.start, root.size);
+
+  const data = new Uint8Array(entry.size);
+  let written = 0;
+  for (const sector of chain(entry.start, miniFat)) {
+    const length = Math.min(miniSectorSize, entry.size - written);
+    if (length <= 0) break;
+    data.set(miniStream.subarray(sector * miniSectorSize, sector * miniSectorSize + length), written);
+    written += length;
+  }
+  return { name: entry.name, data };
+}
+
+/**
+ * Sequential reader over a record and its CONTINUE records
+ * Strings that cross into a CONTINUE record restart with a fresh flags byte.
+ */
+class BiffReader {
+  private segment = 0;
+  private offset = 0;
+
+  constructor(private segments: Uint8Array[]) {}
+
+  private current(): Uint8Array {
+    while (this.segment < this.segments.length && this.offset >= this.segments[this.segment].length) {
+      this.segment++;
+      this.offset = 0;
+    }
+    return this.segments[this.segment];
+  }
+
+  get done(): boolean {
+    return !this.current();
+  }
+
+  byte(): number {
+    const segment = this.current();
+    if (!segment) throw new Error('Unexpected end of record');
+    return segment[this.offset++];
+  }
+
+  uint16(): number {
+    return this.byte() | (this.byte() << 8);
+  }
+
+  uint32(): number {
+    return (this.uint16() | (this.uint16() << 16)) >>> 0;
+  }
+
+  skip(count: number): void {
+    for (let i = 0; i < count; i++) this.byte();
+  }
+
+  /**
+   * Characters of an XLUnicodeString: 1 byte each (compressed) or UTF-16LE
+   */
+  chars(count: number, highByte: boolean): string {
+    let text = '';
+    let wide = highByte;
+    while (text.length < count) {
+      const segment = this.segments[this.segment];
+      if (!segment) break;
+      if (this.offset >= segment.length) {
+        this.segment++;
+        this.offset = 0;
+        if (!this.segments[this.segment]) break;
+        wide = (this.byte() & 0x01) === 1;
+        continue;
+      }
+      text += String.fromCharCode(wide ? segment[this.offset] | (segment[this.offset + 1] << 8) : segment[this.offset]);
+      this.offset += wide ? 2 : 1;
+    }
+    return text;
+  }
+
+  /**
+   * XLUnicodeString (16-bit length) or ShortXLUnicodeString (8-bit length), skipping rich text and
+   * phonetic data when present
+   */
+  string(lengthBytes: 1 | 2 = 2): string {
+    const length = lengthBytes === 1 ? this.byte() : this.uint16();
+    const flags = this.byte();
+    const runs = flags & 0x08 ? this.uint16() : 0;
+    const extended = flags & 0x04 ? this.uint32() : 0;
+    const text = this.chars(length, (flags & 0x01) === 1);
+    this.skip(runs * 4 + extended);
+    return text;
+  }
+}
+
+/**
+ * Decode an RK number (a compressed float or 30-bit integer, optionally divided by 100)
+ */
+function decodeRk(rk: number): number {
+  let value: number;
+  if (rk & 0x02) {
+    value = (rk | 0) >> 2;
+  } else {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setUint32(4, rk & 0xfffffffc, true);
+    value = view.getFloat64(0, true);
+  }
+  return rk & 0x01 ? value / 100 : value;
+}
+
+function readXls(bytes: Uint8Array): WorkbookSheet[] {
+  const stream = readCompoundStream(bytes, ['Workbook', 'Book', 'EncryptedPackage']);
+  if (!stream) throw new Error('This workbook is damaged or incomplete.');
+  if (stream.name === 'EncryptedPackage') {
+    throw new Error('This workbook is password protected. Remove the password in Excel and try again.');
+  }
+  if (stream.name === 'Book') {
+    throw new Error('This workbook uses the Excel 5.0/95 format. Re-save it as .xlsx and try again.');
+  }
+
+  const data = stream.data;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // Split the stream into records, attaching CONTINUE (0x003C) records to the record before them
+  const records: { type: number; offset: number; segments: Uint8Array[] }[] = [];
+  for (let offset = 0; offset + 4 <= data.length;) {
+    const type = view.getUint16(offset, true);
+    const length = view.getUint16(offset + 2, true);
+    const body = data.subarray(offset + 4, offset + 4 + length);
+    if (type === 0x003c && records.length > 0) records[records.length - 1].segments.push(body);
+    else records.push({ type, offset, segments: [body] });
+    offset += 4 + length;
+  }
+
+  let date1904 = false;
+  const formatCodes = new Map<number, string>();
+  const styleFormats: number[] = [];
+  let sharedStrings: string[] = [];
+  const boundSheets: { name: string; position: number }[] = [];
+
+  // Workbook globals run up to the first EOF
+  let index = 0;
+  for (; index < records.length; index++) {
+    const record = records[index];
+    const reader = new BiffReader(record.segments);
+    if (record.type === 0x000a) break; // EOF
+    if (record.type === 0x0022) {
+      date1904 = reader.uint16() === 1;
+    } else if (record.type === 0x041e) {
+      const id = reader.uint16();
+      formatCodes.set(id, reader.string());
+    } else if (record.type === 0x00e0) {
+      reader.skip(2);
+      styleFormats.push(reader.uint16());
+    } else if (record.type === 0x00fc) {
+      reader.skip(4);
+      const count = reader.uint32();
+      sharedStrings = [];
+      for (let i = 0; i < count && !reader.done; i++) sharedStrings.push(reader.string());
+    } else if (record.type === 0x0085) {
+      const position = reader.uint32();
+      reader.skip(1); // Visibility
+      const sheetType = reader.byte();
+      const name = reader.string(1);
+      if (sheetType === 0) boundSheets.push({ name, position });
+    }
+  }
+
+  const cellText = (value: number, styleIndex: number) => {
+    const numFmtId = styleFormats[styleIndex] ?? 0;
+    return formatNumberCell(value, numFmtId, formatCodes.get(numFmtId), date1904);
+  };
+
+  return boundSheets.map(sheet => {
+    const rows: string[][] = [];
+    const setCell = (row: number, column: number, text: string) => {
+      if (!rows[row]) rows[row] = [];
+      rows[row][column] = text;
+    };
+
+    let start = records.findIndex(record => record.offset === sheet.position);
+    if (start < 0) return { name: sheet.name, rows: [] };
+
+    let pendingFormula: { row: number; column: number } | null = null;
+    for (start += 1; start < records.length; start++) {
+      const record = records[start];
+      if (record.type === 0x000a) break; // EOF
+      const reader = new BiffReader(record.segments);
+      const body = record.segments[0];
+      const bodyView = new DataView(body.buffer, body.byteOffset, body.byteLength);
+
+      if (record.type === 0x0207 && pendingFormula) {
+        setCell(pendingFormula.row, pendingFormula.column, reader.string());
+        pendingFormula = null;
+        continue;
+      }
+      pendingFormula = null;
+      if (body.length < 6) continue;
+
+      const row = bodyView.getUint16(0, true);
+      const column = bodyView.getUint16(2, true);
+      const styleIndex = bodyView.getUint16(4, true);
+
+      if (record.type === 0x00fd) {
+        setCell(row, column, sharedStrings[bodyView.getUint32(6, true)] ?? '');
+      } else if (record.type === 0x0204) {
+        reader.skip(6);
+        setCell(row, column, reader.string());
+      } else if (record.type === 0x0203) {
+        setCell(row, column, cellText(bodyView.getFloat64(6, true), styleIndex));
+      } else if (record.type === 0x027e) {
+        setCell(row, column, cellText(decodeRk(bodyView.getUint32(6, true)), styleIndex));
+      } else if (record.type === 0x00bd) {
+        const count = (body.length - 6) / 6;
+        for (let i = 0; i < count; i++) {
+          const offset = 4 + i * 6;
+          setCell(row, column + i, cellText(decodeRk(bodyView.getUint32(offset + 2, true)), bodyView.getUint16(offset, true)));
+        }
+      } else if (record.type === 0x0006) {
+        if (bodyView.getUint16(12, true) !== 0xffff) {
+          setCell(row, column, cellText(bodyView.getFloat64(6, true), styleIndex));
+        } else if (body[6] === 0) {
+          pendingFormula = { row, column }; // Text result follows in a STRING record
+        } else if (body[6] === 1) {
+          setCell(row, column, body[8] ? 'TRUE' : 'FALSE');
+        }
+      } else if (record.type === 0x0205) {
+        if (!body[7]) setCell(row, column, body[6] ? 'TRUE' : 'FALSE');
+      }
+    }
+
+    return {
+      name: sheet.name,
+      rows: rows
+        .filter(cells => cells && cells.some(cell => cell && cell.trim() !== ''))
+        .map(cells => Array.from(cells, cell => cell ?? '')),
+    };
+  });
+}
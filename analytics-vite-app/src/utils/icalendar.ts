@@ -0,0 +1,109 @@
+/**
+ * iCalendar Utilities
+ * Build .ics files (RFC 5545) that calendar apps can import or subscribe to.
+ * Events are all-day; a stable UID per event means a re-import or feed refresh updates the
+ * event instead of adding a second copy.
+ */
+
+export interface CalendarEvent {
+  uid: string; // Stable across exports, e.g. "payment-<id>@fnnlapp.com"
+  date: string; // YYYY-MM-DD (all-day)
+  summary: string;
+  description?: string;
+  categories?: string[];
+}
+
+/**
+ * Escape a TEXT value: backslash, semicolon, comma and newlines
+ */
+export function escapeICSText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets; continuation lines start with a space
+ * Splits on characters, not bytes, so multi-byte characters are never cut in half.
+ */
+export function foldICSLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // Continuation lines lose one octet to the leading space
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * YYYY-MM-DD -> YYYYMMDD
+ */
+function toICSDate(date: string): string {
+  return date.slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * The day after a YYYY-MM-DD date (DTEND of an all-day event is exclusive)
+ */
+function nextDay(date: string): string {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  return next.toISOString().slice(0, 10);
+}
+
+/**
+ * UTC timestamp in iCalendar form, e.g. 20250315T120000Z
+ */
+function toICSTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Build a VCALENDAR with one all-day VEVENT per event
+ * Lines are CRLF-terminated and folded as the spec requires.
+ */
+export function buildICalendar(calendarName: string, events: CalendarEvent[], now: Date = new Date()): string {
+  const stamp = toICSTimestamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//fnnl//Analytics//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICSText(calendarName)}`,
+  ];
+
+  events.forEach(event => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toICSDate(event.date)}`,
+      `DTEND;VALUE=DATE:${toICSDate(nextDay(event.date))}`,
+      `SUMMARY:${escapeICSText(event.summary)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeICSText(event.description)}`);
+    if (event.categories && event.categories.length > 0) {
+      lines.push(`CATEGORIES:${event.categories.map(escapeICSText).join(',')}`);
+    }
+    lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldICSLine).join('\r\n') + '\r\n';
+}
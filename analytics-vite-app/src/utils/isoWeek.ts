@@ -0,0 +1,91 @@
+/**
+ * ISO Week Utilities
+ * ISO 8601 weeks run Monday to Sunday and belong to the year (and, here, the month) their
+ * Thursday falls in, so every week rolls up into exactly one month. Dates are YYYY-MM-DD strings
+ * handled in UTC to avoid timezone shifts.
+ */
+
+export interface IsoWeek {
+  year: number; // ISO week-numbering year (can differ from the calendar year around January 1)
+  week: number; // 1-53
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toUTCDate = (date: string) => {
+  const [year, month, day] = date.slice(0, 10).split('-').map(part => parseInt(part, 10));
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const formatUTCDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * ISO week of a YYYY-MM-DD date, or null if the date can't be read
+ */
+export function isoWeekOf(date: string | undefined | null): IsoWeek | null {
+  if (!date || !/^\d{4}-\d{2}-\d{2}/.test(date)) return null;
+  const day = toUTCDate(date);
+  if (isNaN(day.getTime())) return null;
+
+  // Thursday of the same week decides the year
+  const thursday = new Date(day.getTime() + (3 - ((day.getUTCDay() + 6) % 7)) * DAY_MS);
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  return {
+    year: thursday.getUTCFullYear(),
+    week: Math.floor((thursday.getTime() - yearStart) / DAY_MS / 7) + 1,
+  };
+}
+
+/**
+ * Monday of an ISO week (YYYY-MM-DD)
+ */
+export function isoWeekStart(year: number, week: number): string {
+  // January 4 is always in week 1
+  const jan4 = Date.UTC(year, 0, 4);
+  const week1Monday = jan4 - ((new Date(jan4).getUTCDay() + 6) % 7) * DAY_MS;
+  return formatUTCDate(new Date(week1Monday + (week - 1) * 7 * DAY_MS));
+}
+
+/**
+ * Sunday of an ISO week (YYYY-MM-DD)
+ */
+export function isoWeekEnd(year: number, week: number): string {
+  return formatUTCDate(new Date(toUTCDate(isoWeekStart(year, week)).getTime() + 6 * DAY_MS));
+}
+
+/**
+ * Number of ISO weeks in an ISO year (52 or 53)
+ */
+export function isoWeeksInYear(year: number): number {
+  // December 28 is always in the last week
+  return (isoWeekOf(`${year}-12-28`) as IsoWeek).week;
+}
+
+/**
+ * Calendar month an ISO week rolls up into (the month of its Thursday)
+ */
+export function isoWeekMonth(year: number, week: number): { year: number; month: number } {
+  const thursday = new Date(toUTCDate(isoWeekStart(year, week)).getTime() + 3 * DAY_MS);
+  return { year: thursday.getUTCFullYear(), month: thursday.getUTCMonth() + 1 };
+}
+
+/**
+ * ISO weeks that roll up into a calendar month, in order (4 or 5)
+ */
+export function isoWeeksInMonth(year: number, month: number): IsoWeek[] {
+  const weeks: IsoWeek[] = [];
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  for (let day = 1; day <= daysInMonth; day++) {
+    const date = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    if (toUTCDate(date).getUTCDay() !== 4) continue; // Thursdays only
+    weeks.push(isoWeekOf(date) as IsoWeek);
+  }
+  return weeks;
+}
+
+/**
+ * "2025-W07"
+ */
+export function formatIsoWeek(year: number, week: number): string {
+  return `${year}-W${String(week).padStart(2, '0')}`;
+}
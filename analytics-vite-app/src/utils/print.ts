@@ -0,0 +1,41 @@
+/**
+ * Print Utilities
+ * Print a standalone document without the app around it (the browser's print dialog also
+ * offers "Save as PDF"). Everything happens in the page, so it works offline.
+ */
+
+/**
+ * Print an HTML fragment in a hidden iframe
+ * The fragment should carry its own (inline) styles; pageCss is added for @page rules and page breaks.
+ */
+export function printHtml(title: string, bodyHtml: string, pageCss: string = ''): void {
+  const iframe = document.createElement('iframe');
+  iframe.setAttribute('aria-hidden', 'true');
+  iframe.style.position = 'fixed';
+  iframe.style.width = '0';
+  iframe.style.height = '0';
+  iframe.style.border = '0';
+  document.body.appendChild(iframe);
+
+  const printWindow = iframe.contentWindow;
+  const doc = iframe.contentDocument;
+  if (!printWindow || !doc) {
+    iframe.remove();
+    throw new Error('Printing is not available in this browser');
+  }
+
+  const escapedTitle = title.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+  doc.open();
+  doc.write(`<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapedTitle}</title><style>
+    body { margin: 0; font-family: system-ui, -apple-system, sans-serif; color: #1f2937; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    ${pageCss}
+  </style></head><body>${bodyHtml}</body></html>`);
+  doc.close();
+
+  // Remove the iframe once the dialog closes (afterprint), with a fallback for browsers that don't fire it
+  const cleanup = () => setTimeout(() => iframe.remove(), 0);
+  printWindow.addEventListener('afterprint', cleanup, { once: true });
+  printWindow.focus();
+  printWindow.print();
+  setTimeout(cleanup, 60000);
+}
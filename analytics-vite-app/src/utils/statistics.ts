@@ -0,0 +1,113 @@
+/**
+ * Statistics Utilities
+ * Small numeric helpers for the forecast models: averages, spread, least-squares line fitting,
+ * percentiles, a seeded random number generator for simulations and forecast error scores.
+ */
+
+export interface LinearFit {
+  intercept: number;
+  slope: number;
+  rSquared: number | null; // Share of the variance the line explains; null when y doesn't vary
+}
+
+/**
+ * Average of a list of numbers (0 for an empty list)
+ */
+export function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * Sample standard deviation (0 with fewer than two values)
+ */
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1));
+}
+
+/**
+ * Ordinary least-squares line through (x, y) points
+ * Returns null with fewer than two points or when every x is the same.
+ */
+export function linearRegression(xs: number[], ys: number[]): LinearFit | null {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 2) return null;
+
+  const xMean = mean(xs.slice(0, n));
+  const yMean = mean(ys.slice(0, n));
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - xMean) ** 2;
+    sxy += (xs[i] - xMean) * (ys[i] - yMean);
+    syy += (ys[i] - yMean) ** 2;
+  }
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  const intercept = yMean - slope * xMean;
+  return {
+    intercept,
+    slope,
+    rSquared: syy > 0 ? (sxy * sxy) / (sxx * syy) : null,
+  };
+}
+
+export interface ForecastErrors {
+  mape: number | null; // Mean absolute percentage error (0.12 = 12%); null with nothing to score
+  bias: number | null; // Mean signed percentage error; positive when forecasts ran high
+  count: number; // Pairs scored
+}
+
+/**
+ * MAPE and bias of forecasts against actuals
+ * Pairs with an actual of zero are left out, since a percentage error can't be taken from them.
+ */
+export function forecastErrors(pairs: { forecast: number; actual: number }[]): ForecastErrors {
+  const errors = pairs.filter(pair => pair.actual !== 0).map(pair => (pair.forecast - pair.actual) / Math.abs(pair.actual));
+  if (errors.length === 0) return { mape: null, bias: null, count: 0 };
+  return {
+    mape: mean(errors.map(Math.abs)),
+    bias: mean(errors),
+    count: errors.length,
+  };
+}
+
+/**
+ * Value at a percentile (0-100) of an ascending list, interpolating between neighbours
+ * Returns 0 for an empty list.
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Random number generator (mulberry32) returning values in [0, 1)
+ * The same seed always gives the same sequence, so simulations can be repeated and tested.
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draw from a normal distribution using the given random number generator (Box-Muller)
+ */
+export function normalSample(random: () => number, average: number, sd: number): number {
+  if (sd <= 0) return average;
+  const u = 1 - random(); // (0, 1] so the log is finite
+  const v = random();
+  return average + sd * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
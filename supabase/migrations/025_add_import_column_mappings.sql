@@ -0,0 +1,26 @@
+-- Saved CSV import column mappings
+-- Stores the column/date-format corrections a user makes in the import mapping step,
+-- one row per user and CRM report, so recurring imports need no fixing up
+
+create table if not exists import_column_mappings (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  crm text not null, -- CRM the report comes from (e.g. 'honeybook', 'dubsado', 'other')
+  importer_id text not null, -- Registered importer (e.g. 'honeybook-booked-clients')
+  columns jsonb not null default '{}'::jsonb, -- field -> CSV header (null = not mapped)
+  date_formats jsonb not null default '{}'::jsonb, -- field -> date format override
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique(user_id, crm, importer_id)
+);
+
+create index if not exists import_column_mappings_user_id_idx on import_column_mappings(user_id);
+
+alter table import_column_mappings enable row level security;
+
+DROP POLICY IF EXISTS "Users can manage own import column mappings" ON import_column_mappings;
+CREATE POLICY "Users can manage own import column mappings" ON import_column_mappings
+  FOR ALL
+  USING ((select auth.uid()) = user_id);
+
+comment on table import_column_mappings is 'Column mappings saved from the CSV import mapping step, per user and CRM report.';
@@ -0,0 +1,106 @@
+-- CSV import batches
+-- Every import run is recorded with the IDs of everything it created or changed,
+-- so a bad import can be rolled back in one step from the import history view
+
+create table if not exists import_batches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  file_name text not null,
+  importer_id text not null, -- Registered importer (e.g. 'honeybook-booked-clients')
+  row_count int4 not null default 0, -- Data rows in the source file
+  booking_ids uuid[] not null default '{}', -- Bookings the import created
+  updated_bookings jsonb not null default '[]'::jsonb, -- [{ id, previous: { bookedRevenue } }]
+  service_type_ids uuid[] not null default '{}', -- Service types the import created
+  lead_source_ids uuid[] not null default '{}', -- Lead sources the import created
+  funnel_months jsonb not null default '[]'::jsonb, -- [{ year, month, previous: { inquiries, closes, bookings } | null }]
+  rolled_back_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists import_batches_user_id_created_at_idx on import_batches(user_id, created_at desc);
+
+alter table import_batches enable row level security;
+
+DROP POLICY IF EXISTS "Users can manage own import batches" ON import_batches;
+CREATE POLICY "Users can manage own import batches" ON import_batches
+  FOR ALL
+  USING ((select auth.uid()) = user_id);
+
+comment on table import_batches is 'CSV import runs and the rows they created or changed, used to roll an import back.';
+
+-- Roll back an import batch in a single transaction
+-- Deletes the bookings it created (payments cascade), restores the bookings and funnel months
+-- it overwrote, deletes the funnel months it created, and removes the service types/lead sources
+-- it created unless something still references them. Returns false if the batch doesn't exist,
+-- belongs to someone else or was already rolled back.
+create or replace function rollback_import_batch(p_batch_id uuid)
+returns boolean
+language plpgsql
+security invoker
+set search_path = public, pg_temp
+as $$
+declare
+  v_batch import_batches%rowtype;
+  v_change jsonb;
+begin
+  select * into v_batch
+  from import_batches
+  where id = p_batch_id
+    and user_id = (select auth.uid())
+    and rolled_back_at is null
+  for update;
+
+  if not found then
+    return false;
+  end if;
+
+  delete from bookings
+  where user_id = v_batch.user_id
+    and id = any(v_batch.booking_ids);
+
+  for v_change in select * from jsonb_array_elements(v_batch.updated_bookings) loop
+    update bookings
+    set booked_revenue = (v_change->'previous'->>'bookedRevenue')::bigint,
+        updated_at = now()
+    where user_id = v_batch.user_id
+      and id = (v_change->>'id')::uuid;
+  end loop;
+
+  for v_change in select * from jsonb_array_elements(v_batch.funnel_months) loop
+    if jsonb_typeof(v_change->'previous') is distinct from 'object' then
+      delete from funnels
+      where user_id = v_batch.user_id
+        and year = (v_change->>'year')::int4
+        and month = (v_change->>'month')::int4;
+    else
+      update funnels
+      set inquiries = (v_change->'previous'->>'inquiries')::int8,
+          closes = (v_change->'previous'->>'closes')::int8,
+          bookings = (v_change->'previous'->>'bookings')::int8,
+          updated_at = now()
+      where user_id = v_batch.user_id
+        and year = (v_change->>'year')::int4
+        and month = (v_change->>'month')::int4;
+    end if;
+  end loop;
+
+  delete from service_types st
+  where st.user_id = v_batch.user_id
+    and st.id = any(v_batch.service_type_ids)
+    and not exists (select 1 from bookings b where b.service_type_id = st.id);
+
+  delete from lead_sources ls
+  where ls.user_id = v_batch.user_id
+    and ls.id = any(v_batch.lead_source_ids)
+    and not exists (select 1 from bookings b where b.lead_source_id = ls.id)
+    and not exists (select 1 from ad_campaigns ac where ac.lead_source_id = ls.id);
+
+  update import_batches
+  set rolled_back_at = now()
+  where id = p_batch_id;
+
+  return true;
+end;
+$$;
+
+grant execute on function rollback_import_batch(uuid) to authenticated;
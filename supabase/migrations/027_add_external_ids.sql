@@ -0,0 +1,101 @@
+-- External CRM IDs for imported records
+-- Bookings and payments remember which CRM they were imported from and their ID there
+-- (e.g. Honeybook's "#" column), so re-importing a cumulative report updates rows instead of duplicating them
+
+alter table bookings
+  add column if not exists source_system text, -- CRM the booking was imported from (e.g. 'honeybook')
+  add column if not exists external_id text; -- ID in that CRM, or a name|creation-date key when the report has none
+
+alter table payments
+  add column if not exists source_system text,
+  add column if not exists external_id text;
+
+-- One record per external ID; manually entered rows (null external_id) are unaffected
+create unique index if not exists bookings_user_source_external_id_idx
+  on bookings(user_id, source_system, external_id)
+  where external_id is not null;
+
+create unique index if not exists payments_user_source_external_id_idx
+  on payments(user_id, source_system, external_id)
+  where external_id is not null;
+
+-- Re-imports can now change a booking's booked date and project date as well as its value,
+-- so rolling back a batch restores whichever of those the import overwrote. A booking matched by
+-- name gets the import's external ID attached; rollback puts back the IDs it had before (usually none)
+create or replace function rollback_import_batch(p_batch_id uuid)
+returns boolean
+language plpgsql
+security invoker
+set search_path = public, pg_temp
+as $$
+declare
+  v_batch import_batches%rowtype;
+  v_change jsonb;
+  v_previous jsonb;
+begin
+  select * into v_batch
+  from import_batches
+  where id = p_batch_id
+    and user_id = (select auth.uid())
+    and rolled_back_at is null
+  for update;
+
+  if not found then
+    return false;
+  end if;
+
+  delete from bookings
+  where user_id = v_batch.user_id
+    and id = any(v_batch.booking_ids);
+
+  for v_change in select * from jsonb_array_elements(v_batch.updated_bookings) loop
+    v_previous := v_change->'previous';
+    update bookings
+    set booked_revenue = case when v_previous ? 'bookedRevenue' then (v_previous->>'bookedRevenue')::bigint else booked_revenue end,
+        booking_date = case when v_previous ? 'dateBooked' then (v_previous->>'dateBooked')::date else booking_date end,
+        project_date = case when v_previous ? 'projectDate' then (v_previous->>'projectDate')::date else project_date end,
+        source_system = case when v_previous ? 'externalId' then v_previous->>'sourceSystem' else source_system end,
+        external_id = case when v_previous ? 'externalId' then v_previous->>'externalId' else external_id end,
+        updated_at = now()
+    where user_id = v_batch.user_id
+      and id = (v_change->>'id')::uuid;
+  end loop;
+
+  for v_change in select * from jsonb_array_elements(v_batch.funnel_months) loop
+    if jsonb_typeof(v_change->'previous') is distinct from 'object' then
+      delete from funnels
+      where user_id = v_batch.user_id
+        and year = (v_change->>'year')::int4
+        and month = (v_change->>'month')::int4;
+    else
+      update funnels
+      set inquiries = (v_change->'previous'->>'inquiries')::int8,
+          closes = (v_change->'previous'->>'closes')::int8,
+          bookings = (v_change->'previous'->>'bookings')::int8,
+          updated_at = now()
+      where user_id = v_batch.user_id
+        and year = (v_change->>'year')::int4
+        and month = (v_change->>'month')::int4;
+    end if;
+  end loop;
+
+  delete from service_types st
+  where st.user_id = v_batch.user_id
+    and st.id = any(v_batch.service_type_ids)
+    and not exists (select 1 from bookings b where b.service_type_id = st.id);
+
+  delete from lead_sources ls
+  where ls.user_id = v_batch.user_id
+    and ls.id = any(v_batch.lead_source_ids)
+    and not exists (select 1 from bookings b where b.lead_source_id = ls.id)
+    and not exists (select 1 from ad_campaigns ac where ac.lead_source_id = ls.id);
+
+  update import_batches
+  set rolled_back_at = now()
+  where id = p_batch_id;
+
+  return true;
+end;
+$$;
+
+grant execute on function rollback_import_batch(uuid) to authenticated;
@@ -0,0 +1,106 @@
+-- Payments in import batches
+-- The Honeybook Payments report creates and updates payments, so import batches record those too
+-- and rolling back a batch deletes/restores them. Each recorded previous field is assigned as is, so a
+-- field recorded as null (empty before the import) is cleared again. payment_date (the due date, or
+-- paid date once paid) is rewritten by payment updates, so it's restored from the recorded dueDate
+
+alter table import_batches
+  add column if not exists payment_ids uuid[] not null default '{}', -- Payments the import created
+  add column if not exists updated_payments jsonb not null default '[]'::jsonb; -- [{ id, previous: { amount, expectedDate, paidAt, isExpected, ... } }]
+
+create or replace function rollback_import_batch(p_batch_id uuid)
+returns boolean
+language plpgsql
+security invoker
+set search_path = public, pg_temp
+as $$
+declare
+  v_batch import_batches%rowtype;
+  v_change jsonb;
+  v_previous jsonb;
+begin
+  select * into v_batch
+  from import_batches
+  where id = p_batch_id
+    and user_id = (select auth.uid())
+    and rolled_back_at is null
+  for update;
+
+  if not found then
+    return false;
+  end if;
+
+  delete from payments
+  where user_id = v_batch.user_id
+    and id = any(v_batch.payment_ids);
+
+  for v_change in select * from jsonb_array_elements(v_batch.updated_payments) loop
+    v_previous := v_change->'previous';
+    update payments
+    set amount_cents = case when v_previous ? 'amount' then (v_previous->>'amount')::bigint else amount_cents end,
+        payment_date = coalesce(left(nullif(v_previous->>'dueDate', ''), 10)::date, left(nullif(v_previous->>'paidAt', ''), 10)::date, payment_date),
+        expected_date = case when v_previous ? 'expectedDate' then to_date(left(v_previous->>'expectedDate', 7) || '-01', 'YYYY-MM-DD') else expected_date end,
+        is_expected = case when v_previous ? 'isExpected' then (v_previous->>'isExpected')::boolean else is_expected end,
+        status = case when v_previous ? 'paidAt' then (case when nullif(v_previous->>'paidAt', '') is null then 'pending' else 'completed' end) else status end,
+        source_system = case when v_previous ? 'externalId' then v_previous->>'sourceSystem' else source_system end,
+        external_id = case when v_previous ? 'externalId' then v_previous->>'externalId' else external_id end,
+        updated_at = now()
+    where user_id = v_batch.user_id
+      and id = (v_change->>'id')::uuid;
+  end loop;
+
+  delete from bookings
+  where user_id = v_batch.user_id
+    and id = any(v_batch.booking_ids);
+
+  for v_change in select * from jsonb_array_elements(v_batch.updated_bookings) loop
+    v_previous := v_change->'previous';
+    update bookings
+    set booked_revenue = case when v_previous ? 'bookedRevenue' then (v_previous->>'bookedRevenue')::bigint else booked_revenue end,
+        booking_date = case when v_previous ? 'dateBooked' then (v_previous->>'dateBooked')::date else booking_date end,
+        project_date = case when v_previous ? 'projectDate' then (v_previous->>'projectDate')::date else project_date end,
+        source_system = case when v_previous ? 'externalId' then v_previous->>'sourceSystem' else source_system end,
+        external_id = case when v_previous ? 'externalId' then v_previous->>'externalId' else external_id end,
+        updated_at = now()
+    where user_id = v_batch.user_id
+      and id = (v_change->>'id')::uuid;
+  end loop;
+
+  for v_change in select * from jsonb_array_elements(v_batch.funnel_months) loop
+    if jsonb_typeof(v_change->'previous') is distinct from 'object' then
+      delete from funnels
+      where user_id = v_batch.user_id
+        and year = (v_change->>'year')::int4
+        and month = (v_change->>'month')::int4;
+    else
+      update funnels
+      set inquiries = (v_change->'previous'->>'inquiries')::int8,
+          closes = (v_change->'previous'->>'closes')::int8,
+          bookings = (v_change->'previous'->>'bookings')::int8,
+          updated_at = now()
+      where user_id = v_batch.user_id
+        and year = (v_change->>'year')::int4
+        and month = (v_change->>'month')::int4;
+    end if;
+  end loop;
+
+  delete from service_types st
+  where st.user_id = v_batch.user_id
+    and st.id = any(v_batch.service_type_ids)
+    and not exists (select 1 from bookings b where b.service_type_id = st.id);
+
+  delete from lead_sources ls
+  where ls.user_id = v_batch.user_id
+    and ls.id = any(v_batch.lead_source_ids)
+    and not exists (select 1 from bookings b where b.lead_source_id = ls.id)
+    and not exists (select 1 from ad_campaigns ac where ac.lead_source_id = ls.id);
+
+  update import_batches
+  set rolled_back_at = now()
+  where id = p_batch_id;
+
+  return true;
+end;
+$$;
+
+grant execute on function rollback_import_batch(uuid) to authenticated;
@@ -0,0 +1,39 @@
+-- Ad platform spend imports
+-- Meta and Google Ads exports are rolled up into one ad_campaigns row per lead source and month,
+-- and each ad account or campaign is mapped to a lead source once
+
+-- One row per lead source and month (the key Insights already dedupes on), so imports can upsert.
+-- The unique index on (ad_source_id, month_year) went away with ad_source_id in 013; keep the most
+-- recently updated row of any duplicates before adding the replacement.
+delete from ad_campaigns ac
+using ad_campaigns newer
+where newer.user_id = ac.user_id
+  and newer.lead_source_id = ac.lead_source_id
+  and newer.month_year = ac.month_year
+  and (newer.last_updated, newer.id) > (ac.last_updated, ac.id);
+
+create unique index if not exists ad_campaigns_user_lead_source_month_key
+  on ad_campaigns(user_id, lead_source_id, month_year);
+
+create table if not exists ad_account_mappings (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  platform text not null, -- 'meta' or 'google-ads'
+  match_by text not null check (match_by in ('account', 'campaign')),
+  external_name text not null, -- Account or campaign name as it appears in the export
+  lead_source_id uuid references lead_sources(id) on delete cascade, -- null = don't import
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique(user_id, platform, match_by, external_name)
+);
+
+create index if not exists ad_account_mappings_user_id_idx on ad_account_mappings(user_id);
+
+alter table ad_account_mappings enable row level security;
+
+DROP POLICY IF EXISTS "Users can manage own ad account mappings" ON ad_account_mappings;
+CREATE POLICY "Users can manage own ad account mappings" ON ad_account_mappings
+  FOR ALL
+  USING ((select auth.uid()) = user_id);
+
+comment on table ad_account_mappings is 'Ad accounts/campaigns from Meta and Google Ads exports mapped to lead sources, so each is only mapped once.';
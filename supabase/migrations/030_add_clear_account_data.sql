@@ -0,0 +1,31 @@
+-- Account restore
+-- Restoring a backup in replace mode empties the account first. Everything is deleted in one
+-- transaction, children before the rows they reference (bookings and ad campaigns restrict
+-- deletes of their service types and lead sources).
+-- Profile, account shares and saved import column mappings are not account data and are kept.
+create or replace function clear_account_data()
+returns void
+language plpgsql
+security invoker
+set search_path = public, pg_temp
+as $$
+declare
+  v_user_id uuid := (select auth.uid());
+begin
+  if v_user_id is null then
+    raise exception 'Not signed in';
+  end if;
+
+  delete from payments where user_id = v_user_id;
+  delete from bookings where user_id = v_user_id;
+  delete from ad_campaigns where user_id = v_user_id;
+  delete from ad_account_mappings where user_id = v_user_id;
+  delete from funnels where user_id = v_user_id;
+  delete from forecast_models where user_id = v_user_id;
+  delete from import_batches where user_id = v_user_id; -- Their record IDs no longer exist
+  delete from lead_sources where user_id = v_user_id;
+  delete from service_types where user_id = v_user_id;
+end;
+$$;
+
+grant execute on function clear_account_data() to authenticated;
@@ -0,0 +1,123 @@
+-- Calendar feed
+-- A subscribable iCalendar feed of upcoming payment due dates and project dates. Each account can
+-- have one feed token; whoever has the URL can read the feed, so resetting the token (new row)
+-- cuts off old subscriptions. Events match the app's .ics export (calendarExport.ts), UIDs
+-- included, so a calendar that imported the file updates the same events from the feed.
+
+create table if not exists calendar_feeds (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  token uuid not null unique default gen_random_uuid(),
+  created_at timestamptz not null default now()
+);
+
+alter table calendar_feeds enable row level security;
+
+DROP POLICY IF EXISTS "Users can manage own calendar feed" ON calendar_feeds;
+CREATE POLICY "Users can manage own calendar feed" ON calendar_feeds
+  FOR ALL
+  USING ((select auth.uid()) = user_id);
+
+comment on table calendar_feeds is 'Secret tokens for the calendar_feed iCalendar subscription URL, one per account.';
+
+-- PostgREST serves functions returning this domain with Content-Type: text/calendar
+do $$
+begin
+  if not exists (select 1 from pg_type where typname = 'text/calendar') then
+    create domain "text/calendar" as text;
+  end if;
+end;
+$$;
+
+-- Escape an iCalendar TEXT value
+create or replace function ics_escape(value text)
+returns text
+language sql
+immutable
+set search_path = public, pg_temp
+as $$
+  select replace(replace(replace(replace(replace(value, '\', '\\'), ';', '\;'), ',', '\,'), E'\r', ''), E'\n', '\n');
+$$;
+
+-- The feed itself, by token (GET /rest/v1/rpc/calendar_feed?token=...)
+-- Runs as the owner to read the account's bookings and payments without a session; the token is
+-- the only way in. Unpaid payments due today or later and project dates today or later.
+create or replace function calendar_feed(token uuid)
+returns "text/calendar"
+language plpgsql
+stable
+security definer
+set search_path = public, pg_temp
+as $$
+declare
+  v_user_id uuid;
+  v_crlf text := E'\r\n';
+  v_stamp text := to_char(now() at time zone 'utc', 'YYYYMMDD"T"HH24MISS"Z"');
+  v_events text;
+begin
+  select cf.user_id into v_user_id from calendar_feeds cf where cf.token = calendar_feed.token;
+  if v_user_id is null then
+    raise exception 'Calendar feed not found' using errcode = 'P0002';
+  end if;
+
+  with events as (
+    select
+      'payment-' || p.id || '@fnnlapp.com' as uid,
+      p.payment_date as event_date,
+      'Payment due: ' || to_char(p.amount_cents / 100.0, 'FM$999,999,990.00') || ' - ' || b.client_name as summary,
+      concat_ws(E'\n',
+        'Amount: ' || to_char(p.amount_cents / 100.0, 'FM$999,999,990.00'),
+        'Booking: ' || b.client_name,
+        'Service: ' || st.name,
+        'Memo: ' || nullif(p.notes, '')
+      ) as description,
+      'Payment' as category
+    from payments p
+    join bookings b on b.id = p.booking_id
+    left join service_types st on st.id = b.service_type_id
+    where p.user_id = v_user_id
+      and p.status <> 'completed'
+      and p.payment_date >= current_date
+    union all
+    select
+      'project-' || b.id || '@fnnlapp.com',
+      b.project_date,
+      'Project: ' || b.client_name,
+      concat_ws(E'\n',
+        'Service: ' || st.name,
+        'Booked revenue: ' || to_char(coalesce(b.booked_revenue, 0) / 100.0, 'FM$999,999,990.00')
+      ),
+      'Project'
+    from bookings b
+    left join service_types st on st.id = b.service_type_id
+    where b.user_id = v_user_id
+      and b.project_date >= current_date
+  )
+  select string_agg(
+    'BEGIN:VEVENT' || v_crlf ||
+    'UID:' || uid || v_crlf ||
+    'DTSTAMP:' || v_stamp || v_crlf ||
+    'DTSTART;VALUE=DATE:' || to_char(event_date, 'YYYYMMDD') || v_crlf ||
+    'DTEND;VALUE=DATE:' || to_char(event_date + 1, 'YYYYMMDD') || v_crlf ||
+    'SUMMARY:' || ics_escape(summary) || v_crlf ||
+    'DESCRIPTION:' || ics_escape(description) || v_crlf ||
+    'CATEGORIES:' || category || v_crlf ||
+    'TRANSP:TRANSPARENT' || v_crlf ||
+    'END:VEVENT' || v_crlf,
+    '' order by event_date, uid
+  ) into v_events
+  from events;
+
+  -- Long lines aren't folded here; calendar apps read them unfolded
+  return 'BEGIN:VCALENDAR' || v_crlf ||
+    'VERSION:2.0' || v_crlf ||
+    'PRODID:-//fnnl//Analytics//EN' || v_crlf ||
+    'CALSCALE:GREGORIAN' || v_crlf ||
+    'METHOD:PUBLISH' || v_crlf ||
+    'X-WR-CALNAME:fnnl Payments & Projects' || v_crlf ||
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H' || v_crlf ||
+    coalesce(v_events, '') ||
+    'END:VCALENDAR' || v_crlf;
+end;
+$$;
+
+grant execute on function calendar_feed(uuid) to anon, authenticated;
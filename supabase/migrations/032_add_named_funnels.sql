@@ -0,0 +1,240 @@
+-- Named funnels
+-- An account can run several funnels (e.g. weddings and commercial work). Each funnel has its own
+-- monthly rows in funnels (inquiries, calls, notes, overrides) and is fed by the service types
+-- assigned to it. Existing accounts get one "Default" funnel holding all of their months and
+-- tracked service types.
+--
+-- funnels.name was only ever "YYYY Month" (to satisfy the unique (user_id, name) index) and is
+-- left as is; months are now unique per funnel instead of per account.
+
+create table if not exists funnel_definitions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  sort_order int4 not null default 0,
+  archived_at timestamptz, -- Archived funnels are hidden from selectors but stay in the roll-up
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique(user_id, name)
+);
+
+create index if not exists funnel_definitions_user_id_idx on funnel_definitions(user_id);
+
+alter table funnel_definitions enable row level security;
+
+DROP POLICY IF EXISTS "Users can manage own funnel definitions" ON funnel_definitions;
+CREATE POLICY "Users can manage own funnel definitions" ON funnel_definitions
+  FOR ALL
+  USING ((select auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Guests can view shared accounts funnel definitions" ON funnel_definitions;
+CREATE POLICY "Guests can view shared accounts funnel definitions" ON funnel_definitions
+  FOR SELECT
+  USING (
+    user_id IN (
+      SELECT owner_user_id
+      FROM account_shares
+      WHERE guest_user_id = (select auth.uid())
+      AND status = 'accepted'
+      AND role = 'viewer'
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can manage all funnel definitions" ON funnel_definitions;
+CREATE POLICY "Admins can manage all funnel definitions" ON funnel_definitions
+  FOR ALL
+  USING (is_admin());
+
+comment on table funnel_definitions is 'Named funnels; monthly rows live in funnels (funnel_id) and service types feed a funnel through service_types.funnel_id.';
+
+-- One Default funnel for every account that has funnel months or service types
+insert into funnel_definitions (user_id, name)
+select user_id, 'Default'
+from (
+  select user_id from funnels
+  union
+  select user_id from service_types
+) accounts
+on conflict (user_id, name) do nothing;
+
+-- Monthly rows belong to a funnel
+alter table funnels
+  add column if not exists funnel_id uuid references funnel_definitions(id) on delete cascade;
+
+update funnels f
+set funnel_id = fd.id
+from funnel_definitions fd
+where fd.user_id = f.user_id
+  and fd.name = 'Default'
+  and f.funnel_id is null;
+
+alter table funnels alter column funnel_id set not null;
+
+drop index if exists funnels_user_name_key;
+drop index if exists funnels_user_year_month_unique;
+
+create unique index if not exists funnels_funnel_year_month_unique
+on funnels (funnel_id, year, month)
+where year is not null and month is not null;
+
+create index if not exists funnels_funnel_id_idx on funnels(funnel_id);
+
+-- Tracked service types feed one funnel
+alter table service_types
+  add column if not exists funnel_id uuid references funnel_definitions(id) on delete set null;
+
+update service_types st
+set funnel_id = fd.id
+from funnel_definitions fd
+where fd.user_id = st.user_id
+  and fd.name = 'Default'
+  and st.tracks_in_funnel = true
+  and st.funnel_id is null;
+
+comment on column service_types.funnel_id is 'Funnel this service type feeds when tracks_in_funnel is set (null = the account''s first funnel)';
+
+-- Earlier import batches wrote into the months that are now the Default funnel's
+update import_batches ib
+set funnel_months = (
+  select coalesce(jsonb_agg(change || jsonb_build_object('funnelId', fd.id) order by position), '[]'::jsonb)
+  from jsonb_array_elements(ib.funnel_months) with ordinality as changes(change, position)
+)
+from funnel_definitions fd
+where fd.user_id = ib.user_id
+  and fd.name = 'Default'
+  and jsonb_array_length(ib.funnel_months) > 0;
+
+-- Rolling back a funnel import only touches the funnel it was imported into (funnelId); a change
+-- without a funnelId is skipped rather than applied to every funnel's month
+create or replace function rollback_import_batch(p_batch_id uuid)
+returns boolean
+language plpgsql
+security invoker
+set search_path = public, pg_temp
+as $$
+declare
+  v_batch import_batches%rowtype;
+  v_change jsonb;
+  v_previous jsonb;
+begin
+  select * into v_batch
+  from import_batches
+  where id = p_batch_id
+    and user_id = (select auth.uid())
+    and rolled_back_at is null
+  for update;
+
+  if not found then
+    return false;
+  end if;
+
+  delete from payments
+  where user_id = v_batch.user_id
+    and id = any(v_batch.payment_ids);
+
+  for v_change in select * from jsonb_array_elements(v_batch.updated_payments) loop
+    v_previous := v_change->'previous';
+    update payments
+    set amount_cents = case when v_previous ? 'amount' then (v_previous->>'amount')::bigint else amount_cents end,
+        payment_date = coalesce(left(nullif(v_previous->>'dueDate', ''), 10)::date, left(nullif(v_previous->>'paidAt', ''), 10)::date, payment_date),
+        expected_date = case when v_previous ? 'expectedDate' then to_date(left(v_previous->>'expectedDate', 7) || '-01', 'YYYY-MM-DD') else expected_date end,
+        is_expected = case when v_previous ? 'isExpected' then (v_previous->>'isExpected')::boolean else is_expected end,
+        status = case when v_previous ? 'paidAt' then (case when nullif(v_previous->>'paidAt', '') is null then 'pending' else 'completed' end) else status end,
+        source_system = case when v_previous ? 'externalId' then v_previous->>'sourceSystem' else source_system end,
+        external_id = case when v_previous ? 'externalId' then v_previous->>'externalId' else external_id end,
+        updated_at = now()
+    where user_id = v_batch.user_id
+      and id = (v_change->>'id')::uuid;
+  end loop;
+
+  delete from bookings
+  where user_id = v_batch.user_id
+    and id = any(v_batch.booking_ids);
+
+  for v_change in select * from jsonb_array_elements(v_batch.updated_bookings) loop
+    v_previous := v_change->'previous';
+    update bookings
+    set booked_revenue = case when v_previous ? 'bookedRevenue' then (v_previous->>'bookedRevenue')::bigint else booked_revenue end,
+        booking_date = case when v_previous ? 'dateBooked' then (v_previous->>'dateBooked')::date else booking_date end,
+        project_date = case when v_previous ? 'projectDate' then (v_previous->>'projectDate')::date else project_date end,
+        source_system = case when v_previous ? 'externalId' then v_previous->>'sourceSystem' else source_system end,
+        external_id = case when v_previous ? 'externalId' then v_previous->>'externalId' else external_id end,
+        updated_at = now()
+    where user_id = v_batch.user_id
+      and id = (v_change->>'id')::uuid;
+  end loop;
+
+  for v_change in select * from jsonb_array_elements(v_batch.funnel_months) loop
+    -- Months are unique per funnel; a change that doesn't name its funnel can't be matched safely
+    if not v_change ? 'funnelId' then
+      continue;
+    end if;
+
+    if jsonb_typeof(v_change->'previous') is distinct from 'object' then
+      delete from funnels
+      where user_id = v_batch.user_id
+        and funnel_id = (v_change->>'funnelId')::uuid
+        and year = (v_change->>'year')::int4
+        and month = (v_change->>'month')::int4;
+    else
+      update funnels
+      set inquiries = (v_change->'previous'->>'inquiries')::int8,
+          closes = (v_change->'previous'->>'closes')::int8,
+          bookings = (v_change->'previous'->>'bookings')::int8,
+          updated_at = now()
+      where user_id = v_batch.user_id
+        and funnel_id = (v_change->>'funnelId')::uuid
+        and year = (v_change->>'year')::int4
+        and month = (v_change->>'month')::int4;
+    end if;
+  end loop;
+
+  delete from service_types st
+  where st.user_id = v_batch.user_id
+    and st.id = any(v_batch.service_type_ids)
+    and not exists (select 1 from bookings b where b.service_type_id = st.id);
+
+  delete from lead_sources ls
+  where ls.user_id = v_batch.user_id
+    and ls.id = any(v_batch.lead_source_ids)
+    and not exists (select 1 from bookings b where b.lead_source_id = ls.id)
+    and not exists (select 1 from ad_campaigns ac where ac.lead_source_id = ls.id);
+
+  update import_batches
+  set rolled_back_at = now()
+  where id = p_batch_id;
+
+  return true;
+end;
+$$;
+
+grant execute on function rollback_import_batch(uuid) to authenticated;
+
+-- Restoring a backup in replace mode also removes the account's funnels (the backup recreates them)
+create or replace function clear_account_data()
+returns void
+language plpgsql
+security invoker
+set search_path = public, pg_temp
+as $$
+declare
+  v_user_id uuid := (select auth.uid());
+begin
+  if v_user_id is null then
+    raise exception 'Not signed in';
+  end if;
+
+  delete from payments where user_id = v_user_id;
+  delete from bookings where user_id = v_user_id;
+  delete from ad_campaigns where user_id = v_user_id;
+  delete from ad_account_mappings where user_id = v_user_id;
+  delete from funnels where user_id = v_user_id;
+  delete from forecast_models where user_id = v_user_id;
+  delete from import_batches where user_id = v_user_id; -- Their record IDs no longer exist
+  delete from lead_sources where user_id = v_user_id;
+  delete from service_types where user_id = v_user_id;
+  delete from funnel_definitions where user_id = v_user_id;
+end;
+$$;
+
+grant execute on function clear_account_data() to authenticated;
@@ -0,0 +1,51 @@
+-- Weekly funnel rows
+-- Optional ISO-week rows (Monday to Sunday) for tracking inquiries and calls week by week, e.g.
+-- while running ads or a promo. A week rolls up into the month its Thursday falls in; once a
+-- month has weekly rows, the app writes their sum into that month's row in funnels.
+-- Closes, bookings and cash are not stored: they're derived from bookings and payments by week.
+
+create table if not exists funnel_weeks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  funnel_id uuid not null references funnel_definitions(id) on delete cascade,
+  iso_year int4 not null,
+  iso_week int4 not null check (iso_week between 1 and 53),
+  inquiries int8 not null default 0,
+  calls_booked int8 not null default 0,
+  calls_taken int8 not null default 0,
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique(funnel_id, iso_year, iso_week)
+);
+
+create index if not exists funnel_weeks_user_id_idx on funnel_weeks(user_id);
+
+alter table funnel_weeks enable row level security;
+
+DROP POLICY IF EXISTS "Users can manage own funnel weeks" ON funnel_weeks;
+CREATE POLICY "Users can manage own funnel weeks" ON funnel_weeks
+  FOR ALL
+  USING ((select auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Guests can view shared accounts funnel weeks" ON funnel_weeks;
+CREATE POLICY "Guests can view shared accounts funnel weeks" ON funnel_weeks
+  FOR SELECT
+  USING (
+    user_id IN (
+      SELECT owner_user_id
+      FROM account_shares
+      WHERE guest_user_id = (select auth.uid())
+      AND status = 'accepted'
+      AND role = 'viewer'
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can manage all funnel weeks" ON funnel_weeks;
+CREATE POLICY "Admins can manage all funnel weeks" ON funnel_weeks
+  FOR ALL
+  USING (is_admin());
+
+comment on table funnel_weeks is 'Optional ISO-week funnel rows; the month containing a week''s Thursday holds their sum.';
+
+-- clear_account_data removes these through the cascade from funnel_definitions
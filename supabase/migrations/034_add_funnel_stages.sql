@@ -0,0 +1,106 @@
+-- Configurable funnel stages
+-- An account's funnel is an ordered list of named stages (e.g. Inquiries -> Proposals Sent ->
+-- Tastings -> Closes). Stages with a built-in source read the original columns of funnels
+-- (inquiries, calls_booked, calls_taken) or closes, which is counted from bookings and is always
+-- the last stage. Custom stages keep their monthly counts in funnels.stage_counts, keyed by stage id.
+-- Existing accounts get the default four-stage template: Inquiries, Calls Booked, Calls Taken, Closes.
+
+create table if not exists funnel_stages (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  source text not null default 'custom'
+    check (source in ('inquiries', 'calls_booked', 'calls_taken', 'closes', 'custom')),
+  sort_order int4 not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique(user_id, name)
+);
+
+create index if not exists funnel_stages_user_id_idx on funnel_stages(user_id);
+
+-- Each built-in source is used by at most one stage
+create unique index if not exists funnel_stages_user_source_unique
+on funnel_stages (user_id, source)
+where source <> 'custom';
+
+alter table funnel_stages enable row level security;
+
+DROP POLICY IF EXISTS "Users can manage own funnel stages" ON funnel_stages;
+CREATE POLICY "Users can manage own funnel stages" ON funnel_stages
+  FOR ALL
+  USING ((select auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Guests can view shared accounts funnel stages" ON funnel_stages;
+CREATE POLICY "Guests can view shared accounts funnel stages" ON funnel_stages
+  FOR SELECT
+  USING (
+    user_id IN (
+      SELECT owner_user_id
+      FROM account_shares
+      WHERE guest_user_id = (select auth.uid())
+      AND status = 'accepted'
+      AND role = 'viewer'
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can manage all funnel stages" ON funnel_stages;
+CREATE POLICY "Admins can manage all funnel stages" ON funnel_stages
+  FOR ALL
+  USING (is_admin());
+
+comment on table funnel_stages is 'Ordered funnel stages per account; built-in sources read the funnels columns, custom stages read funnels.stage_counts.';
+
+-- Default template for every existing account (accounts without stages also fall back to it in the app)
+insert into funnel_stages (user_id, name, source, sort_order)
+select accounts.user_id, template.name, template.source, template.sort_order
+from (select distinct user_id from funnel_definitions) accounts
+cross join (values
+  ('Inquiries', 'inquiries', 0),
+  ('Calls Booked', 'calls_booked', 1),
+  ('Calls Taken', 'calls_taken', 2),
+  ('Closes', 'closes', 3)
+) as template(name, source, sort_order)
+on conflict (user_id, name) do nothing;
+
+-- Monthly counts of custom stages
+alter table funnels
+  add column if not exists stage_counts jsonb not null default '{}'::jsonb;
+
+comment on column funnels.stage_counts is 'Monthly counts of custom funnel stages, keyed by funnel_stages.id';
+
+-- Calculator goal conversion rates (calculator goals row only, year 0)
+alter table funnels
+  add column if not exists stage_rates jsonb;
+
+comment on column funnels.stage_rates is 'Calculator goal rate (percent) from each stage to the next, keyed by the built-in source or the custom stage id; set on the year 0 row only';
+
+-- Restoring a backup in replace mode also removes the account's stages (the backup recreates them)
+create or replace function clear_account_data()
+returns void
+language plpgsql
+security invoker
+set search_path = public, pg_temp
+as $$
+declare
+  v_user_id uuid := (select auth.uid());
+begin
+  if v_user_id is null then
+    raise exception 'Not signed in';
+  end if;
+
+  delete from payments where user_id = v_user_id;
+  delete from bookings where user_id = v_user_id;
+  delete from ad_campaigns where user_id = v_user_id;
+  delete from ad_account_mappings where user_id = v_user_id;
+  delete from funnels where user_id = v_user_id;
+  delete from forecast_models where user_id = v_user_id;
+  delete from import_batches where user_id = v_user_id; -- Their record IDs no longer exist
+  delete from lead_sources where user_id = v_user_id;
+  delete from service_types where user_id = v_user_id;
+  delete from funnel_definitions where user_id = v_user_id;
+  delete from funnel_stages where user_id = v_user_id;
+end;
+$$;
+
+grant execute on function clear_account_data() to authenticated;
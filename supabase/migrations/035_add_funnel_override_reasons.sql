@@ -0,0 +1,10 @@
+-- Reasons for keeping manual funnel overrides
+-- The Funnel page's reconciliation view lists months where a manual closes, bookings or cash value
+-- differs from what bookings and payments compute. Keeping the manual value records why, along
+-- with the value it was kept at, keyed by field: {"closes": {"reason": "...", "value": 4}}.
+-- A kept override whose manual value has since changed shows up for review again.
+
+alter table funnels
+  add column if not exists override_reasons jsonb not null default '{}'::jsonb;
+
+comment on column funnels.override_reasons is 'Why manual closes/bookings/cash overrides were kept: {field: {reason, value}}';
@@ -0,0 +1,82 @@
+-- Forecast snapshots
+-- A forecast model's projection for its year, captured once a month while the year is under way,
+-- so it can be scored against what actually came in. A snapshot keeps the model's name and type
+-- and survives the model being deleted, so an account's accuracy history isn't lost.
+-- service_types holds a plan's projection per service type: [{ "serviceTypeId": ..., "amount": cents }].
+-- metric is what a fitted model projects (bookings or cash), so it's scored against the same figure.
+
+create table if not exists forecast_snapshots (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  model_id uuid references forecast_models(id) on delete set null,
+  model_name text not null,
+  model_type text not null default 'forecast',
+  year int4 not null,
+  checkpoint int4 not null check (checkpoint between 1 and 12),
+  total int8 not null default 0,
+  service_types jsonb not null default '[]',
+  metric text check (metric in ('bookings', 'cash')), -- Fitted models only
+  taken_at timestamptz not null default now(),
+  unique(model_id, year, checkpoint)
+);
+
+create index if not exists forecast_snapshots_user_id_idx on forecast_snapshots(user_id);
+
+alter table forecast_snapshots enable row level security;
+
+DROP POLICY IF EXISTS "Users can manage own forecast snapshots" ON forecast_snapshots;
+CREATE POLICY "Users can manage own forecast snapshots" ON forecast_snapshots
+  FOR ALL
+  USING ((select auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Guests can view shared accounts forecast snapshots" ON forecast_snapshots;
+CREATE POLICY "Guests can view shared accounts forecast snapshots" ON forecast_snapshots
+  FOR SELECT
+  USING (
+    user_id IN (
+      SELECT owner_user_id
+      FROM account_shares
+      WHERE guest_user_id = (select auth.uid())
+      AND status = 'accepted'
+      AND role = 'viewer'
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can manage all forecast snapshots" ON forecast_snapshots;
+CREATE POLICY "Admins can manage all forecast snapshots" ON forecast_snapshots
+  FOR ALL
+  USING (is_admin());
+
+comment on table forecast_snapshots is 'Monthly captures of each forecast model''s projection, scored against actual revenue for accuracy tracking.';
+comment on column forecast_snapshots.checkpoint is 'Month of the year (1-12) the projection was captured in';
+
+-- Restoring a backup in replace mode also removes snapshots (they would outlive their models otherwise)
+create or replace function clear_account_data()
+returns void
+language plpgsql
+security invoker
+set search_path = public, pg_temp
+as $$
+declare
+  v_user_id uuid := (select auth.uid());
+begin
+  if v_user_id is null then
+    raise exception 'Not signed in';
+  end if;
+
+  delete from payments where user_id = v_user_id;
+  delete from bookings where user_id = v_user_id;
+  delete from ad_campaigns where user_id = v_user_id;
+  delete from ad_account_mappings where user_id = v_user_id;
+  delete from funnels where user_id = v_user_id;
+  delete from forecast_snapshots where user_id = v_user_id;
+  delete from forecast_models where user_id = v_user_id;
+  delete from import_batches where user_id = v_user_id; -- Their record IDs no longer exist
+  delete from lead_sources where user_id = v_user_id;
+  delete from service_types where user_id = v_user_id;
+  delete from funnel_definitions where user_id = v_user_id;
+  delete from funnel_stages where user_id = v_user_id;
+end;
+$$;
+
+grant execute on function clear_account_data() to authenticated;
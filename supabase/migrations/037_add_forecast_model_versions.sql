@@ -0,0 +1,64 @@
+-- Forecast model versions
+-- Every time a forecast model is created or edited, the saved model is also kept here as a numbered
+-- version with an optional note, so earlier versions can be looked back on and compared.
+-- Activating a model doesn't add a version. parameters has the same shape as forecast_models.parameters.
+-- Models saved before this migration get their current state as version 1.
+
+create table if not exists forecast_model_versions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  model_id uuid not null references forecast_models(id) on delete cascade,
+  version int4 not null check (version >= 1),
+  name text not null,
+  model_type text not null default 'forecast',
+  parameters jsonb not null default '{}',
+  note text,
+  saved_at timestamptz not null default now(),
+  unique(model_id, version)
+);
+
+create index if not exists forecast_model_versions_user_id_idx on forecast_model_versions(user_id);
+
+alter table forecast_model_versions enable row level security;
+
+DROP POLICY IF EXISTS "Users can manage own forecast model versions" ON forecast_model_versions;
+CREATE POLICY "Users can manage own forecast model versions" ON forecast_model_versions
+  FOR ALL
+  USING ((select auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Guests can view shared accounts forecast model versions" ON forecast_model_versions;
+CREATE POLICY "Guests can view shared accounts forecast model versions" ON forecast_model_versions
+  FOR SELECT
+  USING (
+    user_id IN (
+      SELECT owner_user_id
+      FROM account_shares
+      WHERE guest_user_id = (select auth.uid())
+      AND status = 'accepted'
+      AND role = 'viewer'
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can manage all forecast model versions" ON forecast_model_versions;
+CREATE POLICY "Admins can manage all forecast model versions" ON forecast_model_versions
+  FOR ALL
+  USING (is_admin());
+
+comment on table forecast_model_versions is 'Each saved state of a forecast model, numbered from 1, with an optional note.';
+
+-- Existing models start their history at version 1, as they were last saved
+insert into forecast_model_versions (user_id, model_id, version, name, model_type, parameters, note, saved_at)
+select
+  fm.user_id,
+  fm.id,
+  1,
+  fm.name,
+  coalesce(fm.model_type, 'forecast'),
+  coalesce(fm.parameters, '{}'),
+  'Saved before version history',
+  fm.updated_at
+from forecast_models fm
+where not exists (select 1 from forecast_model_versions v where v.model_id = fm.id)
+on conflict (model_id, version) do nothing;
+
+-- clear_account_data removes these through the cascade from forecast_models